@@ -0,0 +1,277 @@
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, AccountArchive } from '../shared/schemas';
+import { AccountData, ArchiveEntity, ImportCounts, ProjectRow, TagRow } from '../repositories';
+
+// Account export and import (GET /api/export, POST /api/import). An export is a versioned JSON
+// archive of the user's projects, tags, tasks, notes and focus sessions (see accountArchiveSchema),
+// or one CSV file per entity. An import adds the archive's items to the account under new IDs.
+
+const iso = (value: Date | string | null) => (value === null ? null : new Date(value).toISOString());
+
+// The archive of an account. References to items that are not exported (e.g. a focus session's
+// task in the trash, a subtask's parent or a blocking task) are cleared, so the archive can be imported on its own.
+export const buildArchive = (data: AccountData, exportedAt = new Date()): AccountArchive => {
+  const projectIds = new Set(data.projects.map((project) => project.id));
+  const taskIds = new Set(data.tasks.map((task) => task.id));
+  const inProject = (id: number | null) => (id !== null && projectIds.has(id) ? id : null);
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: exportedAt.toISOString(),
+    projects: data.projects.map((project) => ({
+      id: project.id,
+      name: project.name,
+      color: project.color,
+      description: project.description,
+      archived_at: iso(project.archived_at),
+      created_at: iso(project.created_at)!,
+      updated_at: iso(project.updated_at)!,
+    })),
+    tags: data.tags.map((tag) => ({
+      id: tag.id,
+      name: tag.name,
+      color: tag.color,
+      created_at: iso(tag.created_at)!,
+    })),
+    tasks: data.tasks.map((task) => ({
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      completed: task.completed,
+      dueDate: iso(task.duedate),
+      priority: task.priority as AccountArchive['tasks'][number]['priority'],
+      project_id: inProject(task.project_id),
+      parent_task_id: task.parent_task_id !== null && taskIds.has(task.parent_task_id) ? task.parent_task_id : null,
+      position: task.position,
+      is_recurring: task.is_recurring,
+      recurrence_pattern: task.recurrence_pattern,
+      estimate_minutes: task.estimate_minutes,
+      tag_ids: task.tag_ids,
+      blocked_by_ids: task.blocked_by_ids.filter((id) => taskIds.has(id)),
+      reminders: task.reminders.map((reminder) => (reminder.offset_minutes !== null
+        ? { offset_minutes: reminder.offset_minutes, sent_at: iso(reminder.sent_at) }
+        : { remind_at: iso(reminder.remind_at)!, sent_at: iso(reminder.sent_at) })),
+      created_at: iso(task.created_at)!,
+      updated_at: iso(task.updated_at)!,
+    })),
+    notes: data.notes.map((note) => ({
+      id: note.id,
+      title: note.title,
+      content: note.content,
+      project_id: inProject(note.project_id),
+      created_at: iso(note.created_at)!,
+      updated_at: iso(note.updated_at)!,
+    })),
+    focus_sessions: data.focusSessions.map((session) => ({
+      id: session.id,
+      start_time: iso(session.start_time)!,
+      end_time: iso(session.end_time),
+      duration: session.duration,
+      session_type: session.session_type,
+      notes: session.notes,
+      task_id: session.task_id !== null && taskIds.has(session.task_id) ? session.task_id : null,
+      created_at: iso(session.created_at)!,
+    })),
+  };
+};
+
+// --- Import ---
+
+// Something the import handles differently from a plain copy. The import goes ahead regardless;
+// a dry run lists these so the user can decide first.
+//   tag_exists: the account already has a tag with this name; the archive's tag is merged into it
+//   project_exists: the account already has a project with this name; the import adds a second one
+//   missing_reference: the item points at a project, task or tag that is not in the archive, or a subtask's
+//     parent is one of its own subtasks; the reference is dropped
+export interface ImportConflict {
+  type: 'tag_exists' | 'project_exists' | 'missing_reference';
+  entity: ArchiveEntity;
+  id: number; // The item's ID in the archive
+  message: string;
+}
+
+export interface ImportPlan {
+  archive: AccountArchive; // With the missing references dropped, ready for ArchiveRepository.write
+  counts: ImportCounts; // Rows the import will create
+  conflicts: ImportConflict[];
+}
+
+// Work out what importing `archive` into an account with `existing` projects and tags would do
+export const planImport = (
+  archive: AccountArchive,
+  existing: { projects: Pick<ProjectRow, 'name'>[]; tags: Pick<TagRow, 'name'>[] }
+): ImportPlan => {
+  const conflicts: ImportConflict[] = [];
+  const projectIds = new Set(archive.projects.map((project) => project.id));
+  const taskIds = new Set(archive.tasks.map((task) => task.id));
+  const tagIds = new Set(archive.tags.map((tag) => tag.id));
+  const projectNames = new Set(existing.projects.map((project) => project.name.toLowerCase()));
+  const tagNames = new Set(existing.tags.map((tag) => tag.name.toLowerCase()));
+
+  // The reference if it points into the archive, otherwise null (and a conflict)
+  const resolve = (entity: ArchiveEntity, id: number, field: string, reference: number | null | undefined, known: Set<number>) => {
+    if (!reference) return null;
+    if (known.has(reference)) return reference;
+    conflicts.push({
+      type: 'missing_reference',
+      entity,
+      id,
+      message: `${field} ${reference} is not in the archive and will be left empty.`,
+    });
+    return null;
+  };
+
+  for (const project of archive.projects) {
+    if (projectNames.has(project.name.toLowerCase())) {
+      conflicts.push({
+        type: 'project_exists',
+        entity: 'projects',
+        id: project.id,
+        message: `A project named "${project.name}" already exists; the import adds another one.`,
+      });
+    }
+  }
+
+  let mergedTags = 0;
+  for (const tag of archive.tags) {
+    if (tagNames.has(tag.name.toLowerCase())) {
+      mergedTags++;
+      conflicts.push({
+        type: 'tag_exists',
+        entity: 'tags',
+        id: tag.id,
+        message: `The tag "${tag.name}" already exists; imported tasks get the existing tag.`,
+      });
+    }
+  }
+
+  // A parent reference that leads back to the task itself would make the tasks each other's subtasks
+  const parents = new Map(archive.tasks.map((task) => [task.id, task.parent_task_id]));
+  const inLoop = (id: number) => {
+    const seen = new Set<number>();
+    for (let current = parents.get(id); current && !seen.has(current); current = parents.get(current)) {
+      if (current === id) return true;
+      seen.add(current);
+    }
+    return false;
+  };
+  const parentOf = (task: AccountArchive['tasks'][number]) => {
+    if (task.parent_task_id && taskIds.has(task.parent_task_id) && inLoop(task.id)) {
+      conflicts.push({
+        type: 'missing_reference',
+        entity: 'tasks',
+        id: task.id,
+        message: `parent_task_id ${task.parent_task_id} is one of the task's own subtasks and will be left empty.`,
+      });
+      return null;
+    }
+    return resolve('tasks', task.id, 'parent_task_id', task.parent_task_id, taskIds);
+  };
+
+  const tasks = archive.tasks.map((task) => {
+    const missingTags = (task.tag_ids ?? []).filter((tagId) => !tagIds.has(tagId));
+    if (missingTags.length > 0) {
+      conflicts.push({
+        type: 'missing_reference',
+        entity: 'tasks',
+        id: task.id,
+        message: `tag_ids ${missingTags.join(', ')} are not in the archive and will be left out.`,
+      });
+    }
+    // A task blocked by itself could never be completed in order
+    const missingBlockers = (task.blocked_by_ids ?? []).filter((id) => id === task.id || !taskIds.has(id));
+    if (missingBlockers.length > 0) {
+      conflicts.push({
+        type: 'missing_reference',
+        entity: 'tasks',
+        id: task.id,
+        message: `blocked_by_ids ${missingBlockers.join(', ')} are not other tasks in the archive and will be left out.`,
+      });
+    }
+    return {
+      ...task,
+      project_id: resolve('tasks', task.id, 'project_id', task.project_id, projectIds),
+      parent_task_id: parentOf(task),
+      tag_ids: (task.tag_ids ?? []).filter((tagId) => tagIds.has(tagId)),
+      blocked_by_ids: (task.blocked_by_ids ?? []).filter((id) => !missingBlockers.includes(id)),
+    };
+  });
+
+  const notes = archive.notes.map((note) => ({
+    ...note,
+    project_id: resolve('notes', note.id, 'project_id', note.project_id, projectIds),
+  }));
+
+  const focusSessions = archive.focus_sessions.map((session) => ({
+    ...session,
+    task_id: resolve('focus_sessions', session.id, 'task_id', session.task_id, taskIds),
+  }));
+
+  return {
+    archive: { ...archive, tasks, notes, focus_sessions: focusSessions },
+    counts: {
+      projects: archive.projects.length,
+      tags: archive.tags.length - mergedTags,
+      tasks: archive.tasks.length,
+      notes: archive.notes.length,
+      focus_sessions: archive.focus_sessions.length,
+    },
+    conflicts,
+  };
+};
+
+// --- CSV ---
+
+// RFC 4180: fields with a comma, quote or line break are quoted, with quotes doubled
+const csvField = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+// One entity of an archive as CSV, one row per item. Tasks list their project and tags by name
+// as well, for reading in a spreadsheet; reminders are only part of the JSON archive.
+export const archiveToCsv = (archive: AccountArchive, entity: ArchiveEntity): string => {
+  const projectNames = new Map(archive.projects.map((project) => [project.id, project.name]));
+  const tagNames = new Map(archive.tags.map((tag) => [tag.id, tag.name]));
+
+  switch (entity) {
+    case 'projects':
+      return toCsv(
+        ['id', 'name', 'color', 'description', 'archived_at', 'created_at', 'updated_at'],
+        archive.projects.map((p) => [p.id, p.name, p.color, p.description, p.archived_at, p.created_at, p.updated_at])
+      );
+    case 'tags':
+      return toCsv(
+        ['id', 'name', 'color', 'created_at'],
+        archive.tags.map((t) => [t.id, t.name, t.color, t.created_at])
+      );
+    case 'tasks':
+      return toCsv(
+        ['id', 'title', 'description', 'completed', 'dueDate', 'priority', 'project_id', 'project', 'tags',
+          'parent_task_id', 'blocked_by_ids', 'is_recurring', 'recurrence_pattern', 'estimate_minutes', 'created_at', 'updated_at'],
+        archive.tasks.map((t) => [
+          t.id, t.title, t.description, t.completed, t.dueDate, t.priority, t.project_id,
+          t.project_id ? projectNames.get(t.project_id) : null,
+          (t.tag_ids ?? []).map((id) => tagNames.get(id)).join('; '),
+          t.parent_task_id, (t.blocked_by_ids ?? []).join('; '), t.is_recurring, t.recurrence_pattern, t.estimate_minutes,
+          t.created_at, t.updated_at,
+        ])
+      );
+    case 'notes':
+      return toCsv(
+        ['id', 'title', 'content', 'project_id', 'project', 'created_at', 'updated_at'],
+        archive.notes.map((n) => [
+          n.id, n.title, n.content, n.project_id, n.project_id ? projectNames.get(n.project_id) : null, n.created_at, n.updated_at,
+        ])
+      );
+    case 'focus_sessions':
+      return toCsv(
+        ['id', 'start_time', 'end_time', 'duration', 'session_type', 'notes', 'task_id', 'created_at'],
+        archive.focus_sessions.map((s) => [s.id, s.start_time, s.end_time, s.duration, s.session_type, s.notes, s.task_id, s.created_at])
+      );
+  }
+};
@@ -0,0 +1,169 @@
+import { Request, RequestHandler } from 'express';
+import { clerkMiddleware } from '@clerk/express';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PROJECT_ROLES, ProjectRole } from '../repositories/types';
+
+// Who the request is from, as reported by the active auth provider. orgId is the organization the
+// user is signed in to (if any) and orgRole their role in it, which also applies to its shared projects.
+// memberships lists every organization the user belongs to when the provider knows them all; Clerk
+// sessions only carry the active one, so Clerk reports removals through its webhook (routes/clerkWebhooks.ts).
+export interface AuthIdentity {
+  userId: string;
+  email?: string;
+  orgId?: string;
+  orgRole?: ProjectRole;
+  memberships?: { orgId: string; role: ProjectRole }[];
+}
+
+// A way of authenticating /api requests. `middleware` runs first (e.g. to verify a session
+// cookie or bearer token), then `identify` reads the caller from the request.
+export interface AuthProvider {
+  name: 'clerk' | 'local';
+  middleware: RequestHandler[];
+  identify(req: Request): AuthIdentity | null;
+}
+
+// A user that can sign in with the local provider, optionally as a member of an organization
+export interface LocalUser {
+  id: string;
+  email: string;
+  name: string;
+  orgId?: string;
+  orgRole?: ProjectRole;
+}
+
+const DEFAULT_LOCAL_SECRET = 'focusflow-local-dev-secret';
+const DEFAULT_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const DEFAULT_LOCAL_USERS: LocalUser[] = [
+  { id: 'local_alice', email: 'alice@focusflow.local', name: 'Alice Local', orgId: 'org_local', orgRole: 'owner' },
+  { id: 'local_bob', email: 'bob@focusflow.local', name: 'Bob Local', orgId: 'org_local', orgRole: 'editor' },
+  { id: 'local_carol', email: 'carol@focusflow.local', name: 'Carol Local', orgId: 'org_local', orgRole: 'viewer' },
+];
+
+// --- Clerk ---
+
+// Clerk's default roles are org:admin and org:member; an org:viewer custom role can be added in the
+// Clerk dashboard. Admins own the organization's projects, other roles edit them.
+const CLERK_ORG_ROLES: Record<string, ProjectRole> = { 'org:admin': 'owner', 'org:viewer': 'viewer' };
+
+export const clerkOrgRole = (role: string | null | undefined): ProjectRole => CLERK_ORG_ROLES[role ?? ''] ?? 'editor';
+
+const createClerkProvider = (): AuthProvider => ({
+  name: 'clerk',
+  middleware: [clerkMiddleware()],
+  identify: (req) => {
+    // Newer Clerk versions expose req.auth as a function, older ones as the object itself
+    const authObject = typeof req.auth === 'function' ? req.auth() : req.auth;
+    if (!authObject?.userId) return null;
+    return {
+      userId: authObject.userId,
+      email: authObject.user?.emailAddresses?.[0]?.emailAddress,
+      orgId: authObject.orgId ?? undefined,
+      orgRole: authObject.orgId ? clerkOrgRole(authObject.orgRole) : undefined,
+    };
+  },
+});
+
+// --- Local (development and automated tests) ---
+
+// Seeded users come from LOCAL_AUTH_USERS (a JSON array of { id, email, name, orgId?, orgRole? }) when set.
+// orgRole defaults to editor for users with an orgId.
+export const getLocalUsers = (): LocalUser[] => {
+  const raw = process.env.LOCAL_AUTH_USERS;
+  if (!raw) return DEFAULT_LOCAL_USERS;
+
+  const users = JSON.parse(raw);
+  if (!Array.isArray(users) || users.some(u => typeof u?.id !== 'string' || typeof u?.email !== 'string'
+    || (u.orgId !== undefined && typeof u.orgId !== 'string')
+    || (u.orgRole !== undefined && !PROJECT_ROLES.includes(u.orgRole)))) {
+    throw new Error(`LOCAL_AUTH_USERS must be a JSON array of { id, email, name, orgId?, orgRole? } objects, with orgRole one of ${PROJECT_ROLES.join(', ')}.`);
+  }
+  return users.map(u => ({
+    id: u.id,
+    email: u.email,
+    name: typeof u.name === 'string' ? u.name : u.email,
+    ...(u.orgId ? { orgId: u.orgId, orgRole: u.orgRole ?? 'editor' } : {}),
+  }));
+};
+
+const getLocalSecret = (): string => {
+  const secret = process.env.LOCAL_AUTH_SECRET;
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error('LOCAL_AUTH_SECRET must be set to use AUTH_PROVIDER=local in production.');
+  }
+  return secret || DEFAULT_LOCAL_SECRET;
+};
+
+const sign = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+const encodeSegment = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Issues an HS256 JWT for a seeded user, e.g. POST /api/auth/local/login or a test setup script
+export const signLocalToken = (user: LocalUser, ttlSeconds = Number(process.env.LOCAL_AUTH_TOKEN_TTL) || DEFAULT_TOKEN_TTL_SECONDS): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = [
+    encodeSegment({ alg: 'HS256', typ: 'JWT' }),
+    encodeSegment({ sub: user.id, email: user.email, name: user.name, org_id: user.orgId, iat: now, exp: now + ttlSeconds }),
+  ].join('.');
+  return `${unsigned}.${sign(unsigned, getLocalSecret())}`;
+};
+
+// Returns the token's claims when the signature is valid and it has not expired, otherwise null
+export const verifyLocalToken = (token: string): { sub: string; email?: string } | null => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, getLocalSecret()));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') return null;
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof claims.sub !== 'string') return null;
+    if (typeof claims.exp === 'number' && claims.exp <= Math.floor(Date.now() / 1000)) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+};
+
+const createLocalProvider = (): AuthProvider => {
+  getLocalSecret(); // Fail at startup rather than on the first request
+  getLocalUsers();
+
+  return {
+    name: 'local',
+    middleware: [],
+    identify: (req) => {
+      const [scheme, token] = (req.headers.authorization || '').split(' ');
+      if (scheme !== 'Bearer' || !token) return null;
+
+      const claims = verifyLocalToken(token);
+      // Tokens for users removed from LOCAL_AUTH_USERS stop working
+      const user = claims && getLocalUsers().find(u => u.id === claims.sub);
+      if (!user) return null;
+      return {
+        userId: user.id,
+        email: user.email,
+        orgId: user.orgId,
+        orgRole: user.orgRole,
+        memberships: user.orgId && user.orgRole ? [{ orgId: user.orgId, role: user.orgRole }] : [],
+      };
+    },
+  };
+};
+
+// AUTH_PROVIDER selects the provider: 'clerk' (default) or 'local'
+export const createAuthProvider = (name = process.env.AUTH_PROVIDER || 'clerk'): AuthProvider => {
+  switch (name) {
+    case 'clerk':
+      return createClerkProvider();
+    case 'local':
+      return createLocalProvider();
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER "${name}"; expected "clerk" or "local".`);
+  }
+};
@@ -1,5 +1,6 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import dotenv from 'dotenv';
+import { migrate } from './migrations';
 
 dotenv.config();
 
@@ -17,86 +18,30 @@ export const query = async (text: string, params?: any[]) => {
   return result;
 };
 
-// Initialize tables with user_id for data isolation
-export const initDb = async () => {
-  await query(`
-    -- Create a users table if you want to store additional user-specific data
-    -- beyond what Clerk provides. The 'id' here would be the Clerk user ID.
-    CREATE TABLE IF NOT EXISTS users (
-      id VARCHAR(255) PRIMARY KEY, -- Stores Clerk's user ID (e.g., 'user_2d3k4l5j6h')
-      email VARCHAR(255) UNIQUE NOT NULL,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      -- Add other user-specific fields here (e.g., subscription_plan, preferences)
-    );
-
-    CREATE TABLE IF NOT EXISTS projects (
-      id SERIAL PRIMARY KEY,
-      user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Link to users table
-      name VARCHAR(255) NOT NULL,
-      color VARCHAR(50),
-      description TEXT,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    );
-
-    CREATE TABLE IF NOT EXISTS tasks (
-      id SERIAL PRIMARY KEY,
-      user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Link to users table
-      title VARCHAR(255) NOT NULL,
-      description TEXT,
-      completed BOOLEAN DEFAULT FALSE,
-      dueDate TIMESTAMP,
-      priority VARCHAR(50),
-      reminder TIMESTAMP,
-      is_recurring BOOLEAN DEFAULT FALSE,
-      recurrence_pattern VARCHAR(50),
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE
-    );
-
-    CREATE TABLE IF NOT EXISTS notes (
-      id SERIAL PRIMARY KEY,
-      user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Link to users table
-      title VARCHAR(255) NOT NULL,
-      content TEXT,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE
-    );
-
-    CREATE TABLE IF NOT EXISTS focus_sessions (
-      id SERIAL PRIMARY KEY,
-      start_time TIMESTAMP NOT NULL,
-      end_time TIMESTAMP,
-      duration INTEGER,
-      session_type VARCHAR(50),
-      notes TEXT,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Changed to VARCHAR(255) and linked to users
-      task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS tags (
-      id SERIAL PRIMARY KEY,
-      user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Tags should also be user-specific
-      name VARCHAR(50) NOT NULL,
-      color VARCHAR(50),
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    );
+// Check out a dedicated connection, e.g. for a transaction. Call release() when done.
+export const getClient = () => pool.connect();
+
+// Run `fn` in a transaction on a dedicated connection: committed when it resolves, rolled back when it throws
+export const withTransaction = async <T>(fn: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
 
-    CREATE TABLE IF NOT EXISTS task_tags (
-      task_id INTEGER REFERENCES tasks(id) ON DELETE CASCADE,
-      tag_id INTEGER REFERENCES tags(id) ON DELETE CASCADE,
-      PRIMARY KEY (task_id, tag_id)
-    );
+// Close all connections, for scripts that should exit once they are done
+export const closePool = () => pool.end();
 
-    -- Add indexes for performance on user_id columns
-    CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects (user_id);
-    CREATE INDEX IF NOT EXISTS idx_tasks_user_id ON tasks (user_id);
-    CREATE INDEX IF NOT EXISTS idx_notes_user_id ON notes (user_id);
-    CREATE INDEX IF NOT EXISTS idx_focus_sessions_user_id ON focus_sessions (user_id);
-    CREATE INDEX IF NOT EXISTS idx_tags_user_id ON tags (user_id);
-  `);
+// Bring the database schema up to date. Tables are defined by the SQL files in backend/migrations
+// (see lib/migrations.ts); every table keeps a user_id for data isolation.
+export const initDb = async () => {
+  await migrate();
 };
@@ -0,0 +1,88 @@
+import { Request } from 'express';
+import { FieldChanges, HistoryAction, HistoryEntityType, HistoryEntry } from '../repositories';
+
+// Change history of projects, tasks and notes (see migrations/006_change_history.up.sql).
+// The routers record which tracked fields every create, update and delete changed; reverting to
+// an entry puts the fields back to their values right after that entry.
+
+// Fields tracked per entity, under the names the API uses
+export const HISTORY_FIELDS: Record<HistoryEntityType, readonly string[]> = {
+  project: ['name', 'color', 'description', 'org_id'],
+  task: [
+    'title', 'description', 'completed', 'dueDate', 'priority', 'project_id', 'parent_task_id', 'is_recurring',
+    'recurrence_pattern', 'estimate_minutes', 'assignee_id',
+  ],
+  note: ['title', 'content', 'project_id'],
+};
+
+// Dates are compared and stored as ISO strings, missing values as null
+const normalize = (value: unknown) => (value instanceof Date ? value.toISOString() : value ?? null);
+
+// The tracked fields that differ between two versions of an entity; `before` is null for a new one
+export const diffFields = (type: HistoryEntityType, before: object | null, after: object): FieldChanges => {
+  const changes: FieldChanges = {};
+  for (const field of HISTORY_FIELDS[type]) {
+    const from = before ? normalize((before as Record<string, unknown>)[field]) : null;
+    const to = normalize((after as Record<string, unknown>)[field]);
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+};
+
+// What reverting `current` to the version right after entry `entryId` changes: the newer entries
+// (`entries` is newest first, as HistoryRepository.list returns it) are undone field by field.
+// Returns null when the entry is not in `entries`.
+export const revertChanges = (
+  type: HistoryEntityType,
+  current: object,
+  entries: HistoryEntry[],
+  entryId: number
+): FieldChanges | null => {
+  const index = entries.findIndex((entry) => entry.id === entryId);
+  if (index === -1) return null;
+
+  const target: Record<string, unknown> = {};
+  for (const field of HISTORY_FIELDS[type]) {
+    target[field] = normalize((current as Record<string, unknown>)[field]);
+  }
+  for (const entry of entries.slice(0, index)) {
+    for (const [field, change] of Object.entries(entry.changes)) {
+      if (field in target) target[field] = change.from;
+    }
+  }
+  return diffFields(type, current, target);
+};
+
+// The new values of `changes`, as a patch for the entity's repository
+export const patchFromChanges = (changes: FieldChanges) =>
+  Object.fromEntries(Object.entries(changes).map(([field, change]) => [field, change.to]));
+
+// Record a change made by the authenticated user. `source` says how it was made ('api', 'bulk' or
+// 'recurrence'). Updates that did not change a tracked field are not recorded. The change itself has
+// already been saved, so a failure is logged rather than failing the request.
+export const recordChange = async (
+  req: Request,
+  type: HistoryEntityType,
+  entityId: number | string,
+  action: HistoryAction,
+  changes: FieldChanges = {},
+  source = 'api'
+) => {
+  if ((action === 'update' || action === 'revert') && Object.keys(changes).length === 0) return;
+
+  try {
+    await req.app.locals.repositories.history.record({
+      user_id: req.userId!,
+      entity_type: type,
+      entity_id: Number(entityId),
+      action,
+      changes,
+      actor_id: req.userId!,
+      source,
+    });
+  } catch (err: any) {
+    console.error(`Failed to record history of ${type} ${entityId}:`, err.message || err);
+  }
+};
@@ -0,0 +1,390 @@
+import crypto from 'crypto';
+import { TaskRow } from '../repositories';
+import { ReminderInput, TASK_PRIORITIES } from '../shared/schemas';
+import { formatRecurrence, parseRecurrence, validateRecurrence } from './recurrence';
+
+// iCalendar (RFC 5545) feed of a user's tasks with a due date, served at /ical/:token.ics for
+// calendar apps to subscribe to. Each task becomes a VEVENT at its due date, or a VTODO due then.
+// Open recurring tasks carry their recurrence_pattern as an RRULE, and reminders become VALARMs.
+// parseCalendar reads .ics files the other way round for POST /api/import/ics.
+
+export type FeedComponent = 'VEVENT' | 'VTODO';
+
+export interface CalendarOptions {
+  component: FeedComponent;
+  name: string; // Calendar name shown by the client
+  projectNames: Map<number, string>;
+}
+
+// 32 random bytes as hex; this is the only secret protecting the feed
+export const generateFeedToken = () => crypto.randomBytes(32).toString('hex');
+
+export const isFeedToken = (value: string) => /^[0-9a-f]{64}$/.test(value);
+
+// RFC 5545 priorities: 1 is the highest, 9 the lowest
+const PRIORITIES: Record<string, number> = { urgent: 1, high: 3, medium: 5, low: 9 };
+
+// UTC date-time, e.g. 20300107T090000Z
+const formatDateTime = (value: Date | string) =>
+  new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// TEXT values escape backslashes, separators and line breaks
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > 75) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+// The RRULE of an open recurring task, or null. Invalid patterns are left out rather than breaking the feed.
+const taskRrule = (task: TaskRow) => {
+  if (!task.is_recurring || !task.recurrence_pattern || task.completed) return null;
+  try {
+    return formatRecurrence(parseRecurrence(task.recurrence_pattern));
+  } catch {
+    return null;
+  }
+};
+
+// Reminders before the due date are relative to it: DTSTART for events, DUE for to-dos
+const alarmLines = (task: TaskRow, component: FeedComponent): string[] =>
+  task.reminders.flatMap((reminder) => {
+    const trigger = reminder.offset_minutes !== null
+      ? `TRIGGER${component === 'VTODO' ? ';RELATED=END' : ''}:${reminder.offset_minutes === 0 ? 'PT0S' : `-PT${reminder.offset_minutes}M`}`
+      : `TRIGGER;VALUE=DATE-TIME:${formatDateTime(reminder.remind_at!)}`;
+    return ['BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(task.title)}`, trigger, 'END:VALARM'];
+  });
+
+const taskLines = (task: TaskRow, { component, projectNames }: CalendarOptions): string[] => {
+  const due = formatDateTime(task.dueDate!);
+  const categories = [
+    task.project_id !== null ? projectNames.get(task.project_id) : undefined,
+    ...task.tags.map((tag) => tag.name),
+  ].filter((name): name is string => !!name);
+  const rrule = taskRrule(task);
+
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:task-${task.id}@focusflow`,
+    `DTSTAMP:${formatDateTime(task.updated_at)}`,
+    `LAST-MODIFIED:${formatDateTime(task.updated_at)}`,
+    component === 'VTODO' ? `DUE:${due}` : `DTSTART:${due}`,
+    // Events have no completed state of their own, so completed tasks are marked in the title
+    `SUMMARY:${component === 'VEVENT' && task.completed ? '✓ ' : ''}${escapeText(task.title)}`,
+  ];
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  if (categories.length > 0) lines.push(`CATEGORIES:${categories.map(escapeText).join(',')}`);
+  if (task.priority && PRIORITIES[task.priority]) lines.push(`PRIORITY:${PRIORITIES[task.priority]}`);
+  if (component === 'VTODO') {
+    lines.push(`STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+    if (task.completed) lines.push(`COMPLETED:${formatDateTime(task.updated_at)}`);
+  } else {
+    lines.push('TRANSP:TRANSPARENT'); // A deadline does not make the user busy
+  }
+  if (rrule) lines.push(`RRULE:${rrule}`);
+  // Like the reminder scheduler, completed tasks do not remind
+  if (!task.completed) lines.push(...alarmLines(task, component));
+  lines.push(`END:${component}`);
+  return lines;
+};
+
+// A VCALENDAR with one component per task that has a due date
+export const buildCalendar = (tasks: TaskRow[], options: CalendarOptions): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FocusFlow//Task feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    // Ask clients to check for changes every hour
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...tasks.filter((task) => task.dueDate).flatMap((task) => taskLines(task, options)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// --- Import ---
+
+type TaskPriority = typeof TASK_PRIORITIES[number];
+
+// A VTODO or VEVENT of an imported file, as the fields of a new task
+export interface CalendarTask {
+  index: number; // Position among the file's VTODO and VEVENT components, from 1
+  uid: string | null;
+  component: FeedComponent;
+  title: string;
+  description: string | null;
+  dueDate: string | null;
+  priority: TaskPriority;
+  completed: boolean;
+  is_recurring: boolean;
+  recurrence_pattern: string | null;
+  reminders: ReminderInput[];
+}
+
+// Something in the file that could not be imported as it is. Skipped items are left out entirely;
+// otherwise only the part named in the message is (e.g. an unsupported repeat rule).
+export interface CalendarImportIssue {
+  index: number;
+  title: string | null;
+  message: string;
+  skipped: boolean;
+}
+
+export interface ParsedCalendar {
+  tasks: CalendarTask[];
+  issues: CalendarImportIssue[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface CalendarComponent {
+  name: FeedComponent;
+  properties: ContentLine[];
+  alarms: ContentLine[][];
+}
+
+type DateParts = [number, number, number, number, number, number];
+
+// Separators outside double-quoted parameter values
+const splitUnquoted = (text: string, separator: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+// NAME;PARAM=value;...:VALUE, or null for a line that is not a property
+const parseContentLine = (line: string): ContentLine | null => {
+  const [head, ...rest] = splitUnquoted(line, ':');
+  if (rest.length === 0) return null;
+  const [name, ...params] = splitUnquoted(head, ';');
+  return {
+    name: name.toUpperCase(),
+    params: params.reduce<Record<string, string>>((result, param) => {
+      const [key, ...value] = param.split('=');
+      result[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+      return result;
+    }, {}),
+    value: rest.join(':'),
+  };
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+// The instant at which the wall-clock time `parts` is reached in an IANA time zone, or null when the
+// zone is unknown (e.g. the Windows zone names some Outlook versions write)
+const zonedTime = (parts: DateParts, timeZone: string): Date | null => {
+  const wall = Date.UTC(parts[0], parts[1], parts[2], parts[3], parts[4], parts[5]);
+  // Difference between the zone's wall clock and UTC at `time`
+  const offsetAt = (time: number) => {
+    const text = new Date(time).toLocaleString('en-US', { timeZone, hour12: false });
+    const match = /(\d+)\/(\d+)\/(\d+),? (\d+):(\d+):(\d+)/.exec(text);
+    if (!match) throw new RangeError(`Cannot read the time in ${timeZone}`);
+    const [, month, day, year, hours, minutes, seconds] = match.map(Number);
+    return Date.UTC(year, month - 1, day, hours % 24, minutes, seconds) - time;
+  };
+  try {
+    // The offset at the wall time itself is off by the DST change near a transition; a second pass corrects it
+    return new Date(wall - offsetAt(wall - offsetAt(wall)));
+  } catch {
+    return null;
+  }
+};
+
+// DATE (an all-day date, taken as midnight server-local time like UNTIL in lib/recurrence.ts) or
+// DATE-TIME: UTC with a trailing Z, in the TZID time zone, or floating (server-local time)
+const parseDateValue = (line: ContentLine): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0', utc] = match;
+  const parts: DateParts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)];
+  if (utc) return new Date(Date.UTC(...parts));
+  return (line.params.TZID && zonedTime(parts, line.params.TZID)) || new Date(...parts);
+};
+
+// A DURATION such as -PT15M or -P1DT2H, in seconds, or null when it cannot be read
+const parseDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match || value.trim().replace(/^[+-]/, '') === 'P') return null;
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const total = ((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 3600 + Number(minutes) * 60 + Number(seconds);
+  return sign === '-' ? -total : total;
+};
+
+// RFC 5545 priorities 1-9 onto ours, the inverse of PRIORITIES above; 0 means undefined
+const importPriority = (value: string | undefined): TaskPriority => {
+  const priority = Number(value);
+  if (!priority || priority < 1 || priority > 9) return 'medium';
+  if (priority <= 2) return 'urgent';
+  if (priority <= 4) return 'high';
+  return priority === 5 ? 'medium' : 'low';
+};
+
+// The VTODO and VEVENT components of a calendar, with the properties of their VALARMs.
+// Everything else (VTIMEZONE, VJOURNAL, X- components) is passed over.
+const readComponents = (text: string): CalendarComponent[] => {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0 || lines[0].trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new Error('The file is not an iCalendar file (it should start with BEGIN:VCALENDAR).');
+  }
+
+  const components: CalendarComponent[] = [];
+  const stack: string[] = [];
+  let current: CalendarComponent | null = null;
+  let alarm: ContentLine[] | null = null;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    const value = line.value.trim().toUpperCase();
+
+    if (line.name === 'BEGIN') {
+      if ((value === 'VTODO' || value === 'VEVENT') && stack.length === 1 && stack[0] === 'VCALENDAR') {
+        current = { name: value, properties: [], alarms: [] };
+      } else if (value === 'VALARM' && current && stack.length === 2) {
+        alarm = [];
+        current.alarms.push(alarm);
+      }
+      stack.push(value);
+    } else if (line.name === 'END') {
+      const ended = stack.pop();
+      if (ended === 'VALARM') alarm = null;
+      if (current && stack.length === 1 && ended === current.name) {
+        components.push(current);
+        current = null;
+      }
+    } else if (alarm && stack.length === 3) {
+      alarm.push(line);
+    } else if (current && stack.length === 2) {
+      current.properties.push(line);
+    }
+  }
+
+  return components;
+};
+
+// Read an .ics file (e.g. exported from another task manager or calendar) as new tasks.
+// SUMMARY, DESCRIPTION, DUE (DTSTART for events), PRIORITY and STATUS map onto the task fields;
+// an RRULE the recurrence engine supports becomes the recurrence_pattern, and VALARMs reminders.
+// Throws when the text is not an iCalendar file at all.
+export const parseCalendar = (text: string, now = new Date()): ParsedCalendar => {
+  const tasks: CalendarTask[] = [];
+  const issues: CalendarImportIssue[] = [];
+
+  readComponents(text).forEach((component, position) => {
+    const index = position + 1;
+    const property = (name: string) => component.properties.find((line) => line.name === name);
+    const summary = property('SUMMARY');
+    const title = summary ? unescapeText(summary.value).trim().slice(0, 255) : '';
+    const issue = (message: string, skipped = false) => issues.push({ index, title: title || null, message, skipped });
+    const status = property('STATUS')?.value.trim().toUpperCase();
+
+    if (status === 'CANCELLED') {
+      issue('Cancelled, so it was skipped.', true);
+      return;
+    }
+    // Changed occurrences of a series repeat an item that is already imported through its RRULE
+    if (property('RECURRENCE-ID')) {
+      issue('A changed occurrence of a repeating item; only the series is imported.', true);
+      return;
+    }
+
+    const dueLine = component.name === 'VTODO' ? property('DUE') ?? property('DTSTART') : property('DTSTART');
+    const due = dueLine ? parseDateValue(dueLine) : null;
+    if (dueLine && !due) issue(`Cannot read the date "${dueLine.value}"; imported without a due date.`);
+
+    const completed = component.name === 'VTODO'
+      && (status === 'COMPLETED' || !!property('COMPLETED') || property('PERCENT-COMPLETE')?.value.trim() === '100');
+
+    let recurrencePattern: string | null = null;
+    const rrule = property('RRULE');
+    if (rrule) {
+      const error = due ? validateRecurrence(rrule.value) : 'it needs a due date';
+      if (error) issue(`The repeat rule is not supported (${error}); imported as a one-off task.`);
+      else recurrencePattern = rrule.value.trim();
+    }
+
+    const reminders: ReminderInput[] = [];
+    // Like the reminder scheduler, completed tasks do not remind
+    if (!completed) {
+      for (const properties of component.alarms) {
+        const trigger = properties.find((line) => line.name === 'TRIGGER');
+        if (!trigger) continue;
+
+        if (trigger.params.VALUE?.toUpperCase() === 'DATE-TIME') {
+          const remindAt = parseDateValue(trigger);
+          if (!remindAt) issue(`Cannot read the reminder time "${trigger.value}"; the reminder was left out.`);
+          else if (remindAt < now) issue('A reminder has already passed and was left out.');
+          else reminders.push({ remind_at: remindAt.toISOString() });
+          continue;
+        }
+
+        // Reminders relative to the start or end are taken as relative to the due date
+        const seconds = parseDuration(trigger.value);
+        if (seconds === null) {
+          issue(`Cannot read the reminder "${trigger.value}"; the reminder was left out.`);
+        } else if (seconds > 0) {
+          issue('Reminders after the due date are not supported; the reminder was left out.');
+        } else if (!due) {
+          issue('A reminder before the due date needs a due date; the reminder was left out.');
+        } else if (due.getTime() + seconds * 1000 < now.getTime() && !recurrencePattern) {
+          issue('A reminder has already passed and was left out.');
+        } else {
+          reminders.push({ offset_minutes: Math.round(-seconds / 60) });
+        }
+      }
+    }
+
+    const description = property('DESCRIPTION');
+    const uid = property('UID');
+    tasks.push({
+      index,
+      uid: uid ? uid.value.trim() : null,
+      component: component.name,
+      title: title || 'Untitled',
+      description: description ? unescapeText(description.value) : null,
+      dueDate: due ? due.toISOString() : null,
+      priority: importPriority(property('PRIORITY')?.value),
+      completed,
+      is_recurring: recurrencePattern !== null,
+      recurrence_pattern: recurrencePattern,
+      reminders,
+    });
+  });
+
+  return { tasks, issues };
+};
@@ -0,0 +1,182 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { getClient } from './db';
+
+// Versioned schema migrations. Each migration is a pair of SQL files in backend/migrations:
+//   NNN_name.up.sql    applies the change
+//   NNN_name.down.sql  reverts it
+// Applied versions are recorded in the schema_migrations table. Every migration runs in its own
+// transaction, and a Postgres advisory lock makes concurrent runs (e.g. several servers booting
+// at once) wait for each other instead of applying the same migration twice.
+
+// Arbitrary key shared by everything that runs migrations against this database
+const MIGRATION_LOCK_ID = 4_201_837;
+
+const FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+  checksum: string; // Of the up script, to spot migrations edited after they were applied
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null; // null while pending
+  modified: boolean; // The up script changed after it was applied
+  missing: boolean; // Recorded as applied, but the file no longer exists
+}
+
+// The SQL files live next to lib/ when run with ts-node, and one level further up when run
+// from the compiled dist/ directory
+const defaultMigrationsDir = () => {
+  const candidates = [path.join(__dirname, '..', 'migrations'), path.join(__dirname, '..', '..', 'migrations')];
+  return process.env.MIGRATIONS_DIR || candidates.find((dir) => fs.existsSync(dir)) || candidates[0];
+};
+
+// Read the migrations in `dir`, ordered by version
+export const loadMigrations = (dir = defaultMigrationsDir()): Migration[] => {
+  const migrations = new Map<number, Migration>();
+
+  for (const file of fs.readdirSync(dir).sort()) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) continue;
+
+    const [, versionText, name, direction] = match;
+    const version = Number(versionText);
+    const sql = fs.readFileSync(path.join(dir, file), 'utf8');
+    const migration = migrations.get(version) || { version, name, up: '', down: null, checksum: '' };
+
+    if (migration.name !== name) {
+      throw new Error(`Migration ${version} has files with different names: ${migration.name}, ${name}`);
+    }
+    if (direction === 'up') {
+      migration.up = sql;
+      migration.checksum = crypto.createHash('sha256').update(sql).digest('hex');
+    } else {
+      migration.down = sql;
+    }
+    migrations.set(version, migration);
+  }
+
+  const ordered = [...migrations.values()].sort((a, b) => a.version - b.version);
+  const withoutUp = ordered.find((migration) => !migration.up);
+  if (withoutUp) {
+    throw new Error(`Migration ${withoutUp.version}_${withoutUp.name} has no .up.sql file`);
+  }
+  return ordered;
+};
+
+// Run `fn` on a dedicated connection while holding the migration lock
+const withMigrationLock = async <T>(fn: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await getClient();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    return await fn(client);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => undefined);
+    client.release();
+  }
+};
+
+const appliedMigrations = async (client: PoolClient) => {
+  const result = await client.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+  return result.rows as { version: number; name: string; checksum: string; applied_at: Date }[];
+};
+
+const runInTransaction = async (client: PoolClient, sql: string, record: () => Promise<unknown>) => {
+  await client.query('BEGIN');
+  try {
+    await client.query(sql);
+    await record();
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  }
+};
+
+/**
+ * Apply every pending migration, oldest first. Stops at the first failure; the failed
+ * migration is rolled back and the ones before it stay applied.
+ * Returns the migrations that were applied.
+ */
+export const migrate = async (migrations = loadMigrations()): Promise<Migration[]> => {
+  return withMigrationLock(async (client) => {
+    const applied = new Set((await appliedMigrations(client)).map((row) => row.version));
+    const pending = migrations.filter((migration) => !applied.has(migration.version));
+
+    for (const migration of pending) {
+      console.log(`Applying migration ${migration.version}_${migration.name}`);
+      await runInTransaction(client, migration.up, () =>
+        client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        )
+      );
+    }
+    return pending;
+  });
+};
+
+/**
+ * Revert the most recently applied migrations using their .down.sql files.
+ * Returns the migrations that were reverted, newest first.
+ */
+export const rollback = async (steps = 1, migrations = loadMigrations()): Promise<Migration[]> => {
+  return withMigrationLock(async (client) => {
+    const byVersion = new Map(migrations.map((migration) => [migration.version, migration]));
+    const toRevert = (await appliedMigrations(client)).reverse().slice(0, steps);
+    const reverted: Migration[] = [];
+
+    for (const row of toRevert) {
+      const migration = byVersion.get(row.version);
+      if (!migration?.down) {
+        throw new Error(`Cannot roll back migration ${row.version}_${row.name}: no .down.sql file`);
+      }
+      console.log(`Reverting migration ${migration.version}_${migration.name}`);
+      await runInTransaction(client, migration.down, () =>
+        client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version])
+      );
+      reverted.push(migration);
+    }
+    return reverted;
+  });
+};
+
+// Applied and pending migrations, ordered by version
+export const migrationStatus = async (migrations = loadMigrations()): Promise<MigrationStatus[]> => {
+  return withMigrationLock(async (client) => {
+    const applied = new Map((await appliedMigrations(client)).map((row) => [row.version, row]));
+    const statuses: MigrationStatus[] = migrations.map((migration) => {
+      const row = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        appliedAt: row?.applied_at ?? null,
+        modified: Boolean(row && row.checksum !== migration.checksum),
+        missing: false,
+      };
+    });
+
+    for (const row of applied.values()) {
+      if (!migrations.some((migration) => migration.version === row.version)) {
+        statuses.push({ version: row.version, name: row.name, appliedAt: row.applied_at, modified: false, missing: true });
+      }
+    }
+    return statuses.sort((a, b) => a.version - b.version);
+  });
+};
@@ -0,0 +1,34 @@
+import { EventEmitter } from 'events';
+
+// In-process pub/sub used to push new notifications to open SSE streams
+// (GET /api/notifications/stream). Notifications are always stored in the notifications
+// table first, so a client that was not connected picks them up when it reconnects.
+// This only reaches streams held by the same server process.
+
+export interface NotificationRow {
+  id: number;
+  user_id: string;
+  task_id: number | null;
+  reminder_id: number | null;
+  type: string;
+  title: string;
+  body: string | null;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+const emitter = new EventEmitter();
+// One listener per open stream; there is no meaningful upper bound
+emitter.setMaxListeners(0);
+
+// Listen for notifications addressed to a user. Returns a function that removes the listener.
+export const subscribe = (userId: string, listener: (notification: NotificationRow) => void) => {
+  emitter.on(userId, listener);
+  return () => {
+    emitter.off(userId, listener);
+  };
+};
+
+export const publish = (notification: NotificationRow) => {
+  emitter.emit(notification.user_id, notification);
+};
@@ -0,0 +1,100 @@
+import { Request } from 'express';
+
+// Helpers for list endpoints that accept `limit`, `cursor` and `sort` query parameters
+// and respond with the PaginatedResponse shape used by the frontend (types/api.ts).
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 200;
+
+export interface PageRequest {
+  limit: number;
+  offset: number;
+}
+
+export interface Page<T> {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+  nextCursor: string | null; // Pass back as ?cursor= to get the next page; null on the last page
+}
+
+type ParseResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+// Cursors are opaque to clients. They currently encode the offset of the next row.
+export const encodeCursor = (offset: number) => Buffer.from(`offset:${offset}`).toString('base64url');
+
+const decodeCursor = (cursor: string): number | null => {
+  const match = /^offset:(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString('utf8'));
+  return match ? Number(match[1]) : null;
+};
+
+// Read ?limit= and ?cursor= from the query string
+export const parsePageRequest = (queryParams: Request['query']): ParseResult<PageRequest> => {
+  const { limit, cursor } = queryParams;
+  let pageLimit = DEFAULT_PAGE_LIMIT;
+  let offset = 0;
+
+  if (limit !== undefined) {
+    pageLimit = Number(limit);
+    if (!Number.isInteger(pageLimit) || pageLimit < 1 || pageLimit > MAX_PAGE_LIMIT) {
+      return { error: `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}.` };
+    }
+  }
+
+  if (typeof cursor === 'string' && cursor) {
+    const decoded = decodeCursor(cursor);
+    if (decoded === null) {
+      return { error: 'Invalid cursor.' };
+    }
+    offset = decoded;
+  }
+
+  return { value: { limit: pageLimit, offset } };
+};
+
+export interface SortOrder<K extends string = string> {
+  key: K;
+  descending: boolean;
+}
+
+/**
+ * Read ?sort=. The value is one of `allowed`, optionally prefixed with '-' for
+ * descending order (e.g. "-created_at").
+ */
+export const parseSort = <K extends string>(
+  sort: unknown,
+  allowed: readonly K[],
+  fallback: `${NoInfer<K>}` | `-${NoInfer<K>}`
+): ParseResult<SortOrder<K>> => {
+  const value = typeof sort === 'string' && sort ? sort : fallback;
+  const descending = value.startsWith('-');
+  const key = descending ? value.slice(1) : value;
+
+  if (!(allowed as readonly string[]).includes(key)) {
+    return { error: `Cannot sort by "${key}". Allowed values: ${allowed.join(', ')}.` };
+  }
+
+  return { value: { key: key as K, descending } };
+};
+
+// ORDER BY expression for a sort order. `columns` maps each sort key to a whitelisted
+// column expression, so only those ever reach the SQL.
+export const sortSql = <K extends string>({ key, descending }: SortOrder<K>, columns: Record<K, string>) =>
+  `${columns[key]} ${descending ? 'DESC' : 'ASC'} NULLS LAST`;
+
+// Read a boolean query parameter ("true"/"false"); undefined when it is absent
+export const parseBooleanParam = (value: unknown, name: string): ParseResult<boolean | undefined> => {
+  if (value === undefined || value === '') return { value: undefined };
+  if (value === 'true') return { value: true };
+  if (value === 'false') return { value: false };
+  return { error: `${name} must be "true" or "false".` };
+};
+
+export const buildPage = <T>(rows: T[], total: number, { limit, offset }: PageRequest): Page<T> => ({
+  data: rows,
+  total,
+  page: Math.floor(offset / limit) + 1,
+  limit,
+  nextCursor: offset + rows.length < total ? encodeCursor(offset + rows.length) : null,
+});
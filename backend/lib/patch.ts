@@ -0,0 +1,56 @@
+// Helpers for partial updates (PUT handlers only change the fields present in the request body).
+// Fields that are undefined are left alone; null clears a column.
+
+// True when the patch would not change anything
+export const isEmptyPatch = (patch: object) =>
+  Object.values(patch).every((value) => value === undefined);
+
+// The [column, value] pairs of `patch` that are set, limited to the whitelisted `columns`
+const patchEntries = (patch: object, columns: readonly string[]) =>
+  columns
+    .filter((column) => (patch as Record<string, unknown>)[column] !== undefined)
+    .map((column) => [column, (patch as Record<string, unknown>)[column]] as const);
+
+/**
+ * Build `UPDATE <table> SET ... WHERE ... RETURNING <returning>` for the set fields of `patch`.
+ * Only names listed in `columns` are written, so patch keys never reach the SQL unchecked.
+ * `where` is matched with equality, e.g. { id, user_id: userId }; a null value matches IS NULL.
+ * With `touch`, updated_at is set to the current time as well. `returning` defaults to every column.
+ * Returns null when there is nothing to update.
+ */
+export const buildUpdate = (
+  table: string,
+  patch: object,
+  columns: readonly string[],
+  where: Record<string, unknown>,
+  { touch = false, returning = '*' }: { touch?: boolean; returning?: string } = {}
+) => {
+  const entries = patchEntries(patch, columns);
+  if (entries.length === 0) return null;
+
+  const values: unknown[] = [];
+  const placeholder = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  const assignments = entries.map(([column, value]) => `${column} = ${placeholder(value)}`);
+  if (touch) {
+    assignments.push('updated_at = CURRENT_TIMESTAMP');
+  }
+  const conditions = Object.entries(where).map(([column, value]) =>
+    value === null ? `${column} IS NULL` : `${column} = ${placeholder(value)}`);
+
+  return {
+    text: `UPDATE ${table} SET ${assignments.join(', ')} WHERE ${conditions.join(' AND ')} RETURNING ${returning}`,
+    values,
+  };
+};
+
+// In-memory counterpart of buildUpdate: copy the set fields of `patch` onto `row`
+export const applyPatch = <T extends object>(row: T, patch: Partial<T>, columns: readonly (keyof T & string)[]) => {
+  for (const [column, value] of patchEntries(patch, columns)) {
+    (row as Record<string, unknown>)[column] = value;
+  }
+  return row;
+};
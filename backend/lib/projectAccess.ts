@@ -0,0 +1,78 @@
+import { NextFunction, Request, Response } from 'express';
+import { PROJECT_ROLES, ProjectRole, ProjectWithRole, TrashedItem } from '../repositories/types';
+
+// Who may change what in a project (see migrations/015_organizations.up.sql and
+// migrations/014_project_archiving.up.sql). Viewers of a shared project can only read it; editors also
+// change its tasks, notes and statuses; owners also rename, share, archive and delete it. Archived
+// projects are read-only for everyone until they are unarchived. The routers use these checks before
+// they write; the errors carry the status to respond with.
+
+export interface ProjectAccessError {
+  status: 403 | 409;
+  error: string;
+}
+
+// Why the user's role in `project` is not enough for a change that needs `required`, or null when it is
+export const projectRoleError = (project: ProjectWithRole, required: ProjectRole): ProjectAccessError | null => {
+  if (PROJECT_ROLES.indexOf(project.role) >= PROJECT_ROLES.indexOf(required)) return null;
+  return {
+    status: 403,
+    error: required === 'owner'
+      ? `Only owners of project "${project.name}" can do that.`
+      : `You are a viewer of project "${project.name}" and cannot change it.`,
+  };
+};
+
+// Why the user cannot change the contents of project `projectId`, or null when they can
+// (or no project is given, or it is not found, which the route reports itself)
+export const projectChangeError = async (
+  req: Request,
+  userId: string,
+  projectId: number | string | null | undefined
+): Promise<ProjectAccessError | null> => {
+  if (!projectId) return null;
+  const project = await req.app.locals.repositories.projects.find(projectId, userId);
+  return project && contentChangeError(project);
+};
+
+// Why the user cannot change the tasks, notes and statuses of `project`, or null when they can
+const contentChangeError = (project: ProjectWithRole): ProjectAccessError | null => {
+  const roleError = projectRoleError(project, 'editor');
+  if (roleError || !project.archived_at) return roleError;
+  return { status: 409, error: `Project "${project.name}" is archived. Unarchive it to make changes.` };
+};
+
+// Why the user cannot restore or purge `item` from the trash, or null when they can. A project takes one of
+// its owners, as deleting it does; a task or note what changing it takes, and while its project is in the
+// trash as well, one of the project's owners.
+export const trashChangeError = (item: TrashedItem): ProjectAccessError | null => {
+  if (!item.project) return null;
+  if (item.type === 'project' || item.project.deleted_at) return projectRoleError(item.project, 'owner');
+  return contentChangeError(item.project);
+};
+
+// router.param handler for the `:id` of a task or note: any request but GET is refused while the item
+// belongs to a project the user cannot change. Missing items and users are left to the route, which
+// responds as usual.
+export const refuseProjectChanges = (type: 'task' | 'note') =>
+  async (req: Request, res: Response, next: NextFunction, id: string) => {
+    const userId = req.userId;
+    if (req.method === 'GET' || !userId) {
+      next();
+      return;
+    }
+
+    try {
+      const { tasks, notes } = req.app.locals.repositories;
+      const item = type === 'task' ? await tasks.find(id, userId) : await notes.find(id, userId);
+      const accessError = await projectChangeError(req, userId, item?.project_id);
+      if (accessError) {
+        res.status(accessError.status).json({ error: accessError.error });
+        return;
+      }
+      next();
+    } catch (err: any) {
+      console.error(`Failed to check the ${type}'s project:`, err.message || err);
+      res.status(500).json({ error: `Failed to check the ${type}'s project`, details: err.message });
+    }
+  };
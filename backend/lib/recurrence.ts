@@ -0,0 +1,311 @@
+// Recurrence rules for repeating tasks.
+//
+// tasks.recurrence_pattern holds either an RFC 5545 RRULE (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE")
+// or one of the presets below. Supported RRULE parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY),
+// INTERVAL, BYDAY (with an ordinal for MONTHLY, e.g. 2TU or -1FR), BYMONTHDAY, COUNT, UNTIL and WKST.
+//
+// Dates are handled in server-local time, the same way pg reads and writes TIMESTAMP columns,
+// so the time of day of the due date is kept from one occurrence to the next.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday ... 6 = Saturday, as returned by Date#getDay()
+  ordinal?: number; // For MONTHLY rules: 1 = first, 2 = second, -1 = last, ...
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[]; // 1..31, or negative to count from the end of the month (-1 = last day)
+  count?: number; // Occurrences left in the series, including the current one
+  until?: Date;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Upper bound on the number of periods searched before giving up (e.g. BYMONTHDAY=31 with INTERVAL=2
+// starting in a month where only every other month is skipped). Keeps a bad rule from looping forever.
+const MAX_PERIODS = 1000;
+
+/**
+ * Presets accepted in place of an RRULE:
+ *   daily, weekdays, weekly, weekly:MO,WE (weekly on the given days), monthly,
+ *   monthly:15 / monthly:-1 (day of the month), monthly:2TU / monthly:-1FR (Nth weekday), yearly.
+ * Returns the equivalent RRULE, or null when the pattern is not a preset.
+ */
+export const expandPreset = (pattern: string): string | null => {
+  const [name, arg] = pattern.trim().toLowerCase().split(':');
+
+  switch (name) {
+    case 'daily':
+      return arg === undefined ? 'FREQ=DAILY' : null;
+    case 'weekdays':
+      return arg === undefined ? 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' : null;
+    case 'weekly':
+      return arg === undefined ? 'FREQ=WEEKLY' : `FREQ=WEEKLY;BYDAY=${arg.toUpperCase()}`;
+    case 'monthly':
+      if (arg === undefined) return 'FREQ=MONTHLY';
+      return /^-?\d+$/.test(arg) ? `FREQ=MONTHLY;BYMONTHDAY=${arg}` : `FREQ=MONTHLY;BYDAY=${arg.toUpperCase()}`;
+    case 'yearly':
+      return arg === undefined ? 'FREQ=YEARLY' : null;
+    default:
+      return null;
+  }
+};
+
+const parseInteger = (value: string, name: string, min: number, max: number) => {
+  const number = Number(value);
+  if (!/^[+-]?\d+$/.test(value) || number < min || number > max) {
+    throw new Error(`${name} must be an integer between ${min} and ${max}.`);
+  }
+  return number;
+};
+
+// UNTIL is either a date (YYYYMMDD) or a date-time (YYYYMMDDTHHMMSS, optionally with a trailing Z)
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) {
+    throw new Error('UNTIL must be a date (YYYYMMDD) or a date-time (YYYYMMDDTHHMMSSZ).');
+  }
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (hours === undefined) {
+    // A plain date includes the whole day
+    return new Date(Number(year), Number(month) - 1, Number(day), 23, 59, 59, 999);
+  }
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+const parseByDay = (value: string, freq: RecurrenceFrequency): RecurrenceWeekday[] =>
+  value.split(',').map((item) => {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item.trim());
+    if (!match) {
+      throw new Error(`Invalid BYDAY value "${item}".`);
+    }
+    const weekday = WEEKDAYS.indexOf(match[2]);
+    if (match[1] === undefined) return { weekday };
+
+    if (freq !== 'MONTHLY') {
+      throw new Error('BYDAY ordinals (e.g. 2TU) are only supported with FREQ=MONTHLY.');
+    }
+    const ordinal = Number(match[1]);
+    if (ordinal === 0 || ordinal < -5 || ordinal > 5) {
+      throw new Error(`Invalid BYDAY ordinal in "${item}".`);
+    }
+    return { weekday, ordinal };
+  });
+
+/**
+ * Parse a recurrence pattern (an RRULE or a preset) into a rule.
+ * Throws an Error describing the problem when the pattern is invalid or unsupported.
+ */
+export const parseRecurrence = (pattern: string): RecurrenceRule => {
+  const rrule = expandPreset(pattern) ?? pattern.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const part of rrule.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') {
+      throw new Error(`Invalid recurrence rule part "${part}".`);
+    }
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq) {
+    throw new Error('Recurrence rule must include FREQ, or be one of: daily, weekdays, weekly, monthly, yearly.');
+  }
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new Error(`Unsupported FREQ "${freq}". Supported values: DAILY, WEEKLY, MONTHLY, YEARLY.`);
+  }
+
+  const rule: RecurrenceRule = { freq: freq as RecurrenceFrequency, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+      case 'WKST': // Weeks always start on Monday here
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(value, 'INTERVAL', 1, 999);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(value, 'COUNT', 1, 9999);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'BYDAY':
+        rule.byDay = parseByDay(value, rule.freq);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = value.split(',').map((day) => {
+          const number = parseInteger(day, 'BYMONTHDAY', -31, 31);
+          if (number === 0) throw new Error('BYMONTHDAY cannot be 0.');
+          return number;
+        });
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part "${key}".`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error('A recurrence rule cannot have both COUNT and UNTIL.');
+  }
+  if (rule.byMonthDay && rule.freq !== 'MONTHLY') {
+    throw new Error('BYMONTHDAY is only supported with FREQ=MONTHLY.');
+  }
+  if (rule.byMonthDay && rule.byDay) {
+    throw new Error('Use either BYDAY or BYMONTHDAY in a monthly rule, not both.');
+  }
+
+  return rule;
+};
+
+// Returns an error message for an invalid pattern, or null when it is valid
+export const validateRecurrence = (pattern: string): string | null => {
+  try {
+    parseRecurrence(pattern);
+    return null;
+  } catch (err: any) {
+    return err.message;
+  }
+};
+
+// Serialize a rule back to an RRULE string (without the "RRULE:" prefix)
+export const formatRecurrence = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay) {
+    parts.push(`BYDAY=${rule.byDay.map(({ weekday, ordinal }) => `${ordinal ?? ''}${WEEKDAYS[weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  }
+  return parts.join(';');
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// Same time of day as `time`, on the given calendar day
+const atTimeOf = (time: Date, year: number, month: number, day: number) =>
+  new Date(year, month, day, time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+
+// Monday-based weekday index (Monday = 0 ... Sunday = 6)
+const mondayIndex = (weekday: number) => (weekday + 6) % 7;
+
+// Days of the given month selected by a MONTHLY rule, in ascending order
+const monthlyDays = (rule: RecurrenceRule, year: number, month: number, defaultDay: number): number[] => {
+  const lastDay = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay.map((day) => (day > 0 ? day : lastDay + 1 + day));
+  } else if (rule.byDay) {
+    days = rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const firstMatch = 1 + ((weekday - new Date(year, month, 1).getDay() + 7) % 7);
+      const matches: number[] = [];
+      for (let day = firstMatch; day <= lastDay; day += 7) matches.push(day);
+      if (ordinal === undefined) return matches;
+      const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      return match === undefined ? [] : [match];
+    });
+  } else {
+    // Plain monthly rules repeat on the same day; months without that day are skipped (RFC 5545)
+    days = [defaultDay];
+  }
+
+  return [...new Set(days)].filter((day) => day >= 1 && day <= lastDay).sort((a, b) => a - b);
+};
+
+/**
+ * The first occurrence of the rule strictly after `from`, which is treated as the current
+ * occurrence. Returns null when the series has ended (UNTIL passed).
+ * COUNT is not applied here; see advanceRecurrence.
+ */
+export const nextOccurrence = (rule: RecurrenceRule, from: Date): Date | null => {
+  let next: Date | null = null;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      next = addDays(from, rule.interval);
+      const weekdays = rule.byDay?.map((d) => d.weekday);
+      for (let i = 0; weekdays && !weekdays.includes(next.getDay()) && i < MAX_PERIODS; i++) {
+        next = addDays(next, rule.interval);
+      }
+      break;
+    }
+
+    case 'WEEKLY': {
+      if (!rule.byDay) {
+        next = addDays(from, 7 * rule.interval);
+        break;
+      }
+      const days = [...new Set(rule.byDay.map((d) => mondayIndex(d.weekday)))].sort((a, b) => a - b);
+      const current = mondayIndex(from.getDay());
+      const laterThisWeek = days.find((day) => day > current);
+      next = laterThisWeek !== undefined
+        ? addDays(from, laterThisWeek - current)
+        : addDays(from, 7 * rule.interval - current + days[0]);
+      break;
+    }
+
+    case 'MONTHLY': {
+      const sameMonth = monthlyDays(rule, from.getFullYear(), from.getMonth(), from.getDate())
+        .find((day) => day > from.getDate());
+      if (sameMonth !== undefined) {
+        next = atTimeOf(from, from.getFullYear(), from.getMonth(), sameMonth);
+        break;
+      }
+      for (let i = 1; i <= MAX_PERIODS && !next; i++) {
+        const monthStart = new Date(from.getFullYear(), from.getMonth() + i * rule.interval, 1);
+        const [day] = monthlyDays(rule, monthStart.getFullYear(), monthStart.getMonth(), from.getDate());
+        if (day !== undefined) next = atTimeOf(from, monthStart.getFullYear(), monthStart.getMonth(), day);
+      }
+      break;
+    }
+
+    case 'YEARLY': {
+      // Same month and day; a Feb 29 series only occurs in leap years
+      for (let i = 1; i <= MAX_PERIODS && !next; i++) {
+        const year = from.getFullYear() + i * rule.interval;
+        if (from.getDate() <= daysInMonth(year, from.getMonth())) {
+          next = atTimeOf(from, year, from.getMonth(), from.getDate());
+        }
+      }
+      break;
+    }
+  }
+
+  if (!next || (rule.until && next > rule.until)) return null;
+  return next;
+};
+
+/**
+ * Work out the occurrence after `from` for a stored pattern.
+ * Returns the next due date and the pattern the next instance should store (COUNT is decremented,
+ * since it counts the occurrences left), or null when the series is over.
+ */
+export const advanceRecurrence = (pattern: string, from: Date): { dueDate: Date; pattern: string } | null => {
+  const rule = parseRecurrence(pattern);
+  if (rule.count !== undefined && rule.count <= 1) return null;
+
+  const dueDate = nextOccurrence(rule, from);
+  if (!dueDate) return null;
+
+  return {
+    dueDate,
+    pattern: rule.count !== undefined ? formatRecurrence({ ...rule, count: rule.count - 1 }) : pattern,
+  };
+};
@@ -0,0 +1,77 @@
+import { Repositories } from '../repositories';
+import { publish, NotificationRow } from './notificationHub';
+
+// Looks for reminders that are due and turns each one into a notification, which is then pushed
+// to the user's open SSE streams. Works with either data store.
+// A reminder is due at remind_at, or offset_minutes before its task's due date. Reminders on
+// completed tasks or tasks in the trash, and offset reminders on tasks without a due date, never fire.
+// Reminders on tasks in archived projects wait until the project is unarchived.
+
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 500;
+
+// "Due in 1 hour", "Due now", ... for reminders relative to the due date
+export const describeOffset = (offsetMinutes: number) => {
+  if (offsetMinutes === 0) return 'Due now';
+  const [amount, unit] = offsetMinutes % 1440 === 0
+    ? [offsetMinutes / 1440, 'day']
+    : offsetMinutes % 60 === 0
+      ? [offsetMinutes / 60, 'hour']
+      : [offsetMinutes, 'minute'];
+  return `Due in ${amount} ${unit}${amount === 1 ? '' : 's'}`;
+};
+
+/**
+ * Fire every reminder that is due. Reminders are claimed by setting sent_at before their
+ * notifications are written (markSent only claims reminders that are still unsent, so concurrent
+ * runs never claim the same one), so a reminder is delivered at most once.
+ * Returns the notifications that were created.
+ */
+export const processDueReminders = async (
+  { reminders, notifications }: Pick<Repositories, 'reminders' | 'notifications'>,
+  now = new Date()
+): Promise<NotificationRow[]> => {
+  const due = await reminders.due(now, BATCH_SIZE);
+  const claimed = new Set(await reminders.markSent(due.map((reminder) => reminder.id), now));
+
+  const created: NotificationRow[] = [];
+  for (const reminder of due.filter((candidate) => claimed.has(candidate.id))) {
+    const notification = await notifications.create(reminder.user_id, {
+      task_id: reminder.task_id,
+      reminder_id: reminder.id,
+      type: 'reminder',
+      title: reminder.title,
+      body: reminder.offset_minutes === null ? 'Reminder' : describeOffset(reminder.offset_minutes),
+    });
+    publish(notification);
+    created.push(notification);
+  }
+  return created;
+};
+
+// Run processDueReminders on a timer. Returns a function that stops the scheduler.
+export const startReminderScheduler = (
+  repositories: Pick<Repositories, 'reminders' | 'notifications'>,
+  intervalMs = Number(process.env.REMINDER_INTERVAL_MS) || DEFAULT_INTERVAL_MS
+) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return; // Skip a tick rather than overlap a slow run
+    running = true;
+    try {
+      const created = await processDueReminders(repositories);
+      if (created.length > 0) {
+        console.log(`Sent ${created.length} reminder notification(s).`);
+      }
+    } catch (err: any) {
+      console.error('Failed to process reminders:', err.message || err);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  tick();
+  return () => clearInterval(timer);
+};
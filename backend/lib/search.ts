@@ -0,0 +1,13 @@
+// Helpers for GET /api/search (routes/search.ts)
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_TERMS = 10;
+
+// Letters and digits in any script; everything else separates words.
+// Built with RegExp() because the compile target predates Unicode property escapes (Node supports them).
+export const WORD_PATTERN = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+
+// Split a query into lowercase search terms, dropping repeats: "Focus, focus SESS" -> ['focus', 'sess']
+export const parseSearchTerms = (q: string) =>
+  [...new Set(q.toLowerCase().match(WORD_PATTERN) ?? [])].slice(0, MAX_SEARCH_TERMS);
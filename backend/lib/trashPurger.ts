@@ -0,0 +1,35 @@
+import { TrashRepository } from '../repositories';
+
+// Projects, tasks and notes stay in the trash for TRASH_RETENTION_DAYS (30 by default) and are then
+// deleted for good. The purge runs at startup and every TRASH_PURGE_INTERVAL_MS (hourly by default).
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const trashRetentionDays = () => Number(process.env.TRASH_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+
+// Delete everything that has been in the trash longer than the retention period
+export const purgeExpiredTrash = (trash: TrashRepository, now = new Date()) =>
+  trash.purgeExpired(new Date(now.getTime() - trashRetentionDays() * DAY_MS));
+
+// Run purgeExpiredTrash on a timer. Returns a function that stops the purger.
+export const startTrashPurger = (
+  trash: TrashRepository,
+  intervalMs = Number(process.env.TRASH_PURGE_INTERVAL_MS) || DEFAULT_INTERVAL_MS
+) => {
+  const tick = async () => {
+    try {
+      const deleted = await purgeExpiredTrash(trash);
+      if (deleted > 0) {
+        console.log(`Purged ${deleted} item(s) from the trash.`);
+      }
+    } catch (err: any) {
+      console.error('Failed to purge the trash:', err.message || err);
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  tick();
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { ZodTypeAny } from 'zod';
+
+// Express middleware that checks req.body against a schema from shared/schemas.ts.
+// Invalid bodies get a 400 with one message per field:
+//   { error: 'Invalid request body.', fields: { title: 'Title is required.', 'reminders.0': '...' } }
+// Valid bodies replace req.body with the parsed value (trimmed strings, unknown keys dropped).
+export const validateBody = (schema: ZodTypeAny) => (req: Request, res: Response, next: NextFunction) => {
+  const result = schema.safeParse(req.body ?? {});
+
+  if (!result.success) {
+    const fields: Record<string, string> = {};
+    for (const issue of result.error.issues) {
+      const field = issue.path.join('.') || '_body';
+      fields[field] ??= issue.message; // Report the first problem with each field
+    }
+    res.status(400).json({ error: 'Invalid request body.', fields });
+    return;
+  }
+
+  req.body = result.data;
+  next();
+};
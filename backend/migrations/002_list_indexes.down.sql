@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_task_tags_tag_id;
+DROP INDEX IF EXISTS idx_focus_sessions_start_time;
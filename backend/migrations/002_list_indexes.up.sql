@@ -0,0 +1,3 @@
+-- Focus sessions are listed by date range, and tasks are filtered by tag
+CREATE INDEX IF NOT EXISTS idx_focus_sessions_start_time ON focus_sessions (user_id, start_time);
+CREATE INDEX IF NOT EXISTS idx_task_tags_tag_id ON task_tags (tag_id);
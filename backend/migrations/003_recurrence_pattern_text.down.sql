@@ -0,0 +1,2 @@
+-- Longer RRULEs do not fit the old column and are cut off
+ALTER TABLE tasks ALTER COLUMN recurrence_pattern TYPE VARCHAR(50) USING LEFT(recurrence_pattern, 50);
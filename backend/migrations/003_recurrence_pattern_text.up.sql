@@ -0,0 +1,2 @@
+-- recurrence_pattern used to be VARCHAR(50), too short for RRULE strings (see lib/recurrence.ts)
+ALTER TABLE tasks ALTER COLUMN recurrence_pattern TYPE TEXT;
@@ -0,0 +1,9 @@
+-- Keep the earliest pending reminder at a fixed time; relative reminders cannot be expressed
+ALTER TABLE tasks ADD COLUMN reminder TIMESTAMP;
+
+UPDATE tasks t SET reminder = (
+  SELECT MIN(r.remind_at) FROM task_reminders r WHERE r.task_id = t.id AND r.sent_at IS NULL
+);
+
+DROP TABLE IF EXISTS notifications;
+DROP TABLE IF EXISTS task_reminders;
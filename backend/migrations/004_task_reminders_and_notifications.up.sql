@@ -0,0 +1,36 @@
+-- A task can have several reminders: either at a fixed time (remind_at) or a number of
+-- minutes before the task's due date (offset_minutes). sent_at is set by the reminder scheduler.
+CREATE TABLE IF NOT EXISTS task_reminders (
+  id SERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  remind_at TIMESTAMP,
+  offset_minutes INTEGER CHECK (offset_minutes >= 0),
+  sent_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CHECK ((remind_at IS NULL) <> (offset_minutes IS NULL))
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  task_id INTEGER REFERENCES tasks(id) ON DELETE CASCADE,
+  reminder_id INTEGER REFERENCES task_reminders(id) ON DELETE SET NULL,
+  type VARCHAR(50) NOT NULL DEFAULT 'reminder',
+  title VARCHAR(255) NOT NULL,
+  body TEXT,
+  read_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- tasks.reminder held a single reminder time; move any values into task_reminders.
+-- Reminders that are already in the past are marked as sent so they do not all fire at once.
+INSERT INTO task_reminders (task_id, user_id, remind_at, sent_at)
+SELECT id, user_id, reminder, CASE WHEN reminder <= CURRENT_TIMESTAMP THEN CURRENT_TIMESTAMP END
+FROM tasks WHERE reminder IS NOT NULL;
+
+ALTER TABLE tasks DROP COLUMN reminder;
+
+CREATE INDEX IF NOT EXISTS idx_task_reminders_task_id ON task_reminders (task_id);
+CREATE INDEX IF NOT EXISTS idx_task_reminders_pending ON task_reminders (id) WHERE sent_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications (user_id, id);
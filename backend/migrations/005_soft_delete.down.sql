@@ -0,0 +1,12 @@
+-- Without the column there is no trash, so whatever is in it is deleted
+DELETE FROM projects WHERE deleted_at IS NOT NULL;
+DELETE FROM tasks WHERE deleted_at IS NOT NULL;
+DELETE FROM notes WHERE deleted_at IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_notes_trash;
+DROP INDEX IF EXISTS idx_tasks_trash;
+DROP INDEX IF EXISTS idx_projects_trash;
+
+ALTER TABLE notes DROP COLUMN deleted_at;
+ALTER TABLE tasks DROP COLUMN deleted_at;
+ALTER TABLE projects DROP COLUMN deleted_at;
@@ -0,0 +1,11 @@
+-- Deleted tasks, notes and projects go to the trash: deleted_at is set instead of removing the row.
+-- Rows in the trash are restored by clearing deleted_at, or removed for good once they are older
+-- than TRASH_RETENTION_DAYS (see lib/trashPurger.ts). A project's tasks and notes are moved to the
+-- trash with the project and share its deleted_at, which is how restoring the project finds them.
+ALTER TABLE projects ADD COLUMN deleted_at TIMESTAMP;
+ALTER TABLE tasks ADD COLUMN deleted_at TIMESTAMP;
+ALTER TABLE notes ADD COLUMN deleted_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_projects_trash ON projects (user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_trash ON tasks (user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notes_trash ON notes (user_id, deleted_at) WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,17 @@
+-- Field-level history of projects, tasks and notes, written by their routers (see lib/history.ts).
+-- changes maps each changed field to { "from": <old value>, "to": <new value> }. user_id owns the
+-- entity, actor_id made the change and source says how it was made ('api', 'bulk', 'recurrence').
+-- entity_id has no foreign key: the history is kept when the entity is purged from the trash.
+CREATE TABLE IF NOT EXISTS change_history (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('project', 'task', 'note')),
+  entity_id INTEGER NOT NULL,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore', 'revert')),
+  changes JSONB NOT NULL DEFAULT '{}',
+  actor_id VARCHAR(255) NOT NULL,
+  source VARCHAR(50) NOT NULL DEFAULT 'api',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_history_entity ON change_history (entity_type, entity_id, id);
@@ -0,0 +1,7 @@
+DROP INDEX IF EXISTS idx_projects_search;
+DROP INDEX IF EXISTS idx_notes_search;
+DROP INDEX IF EXISTS idx_tasks_search;
+
+ALTER TABLE projects DROP COLUMN search_vector;
+ALTER TABLE notes DROP COLUMN search_vector;
+ALTER TABLE tasks DROP COLUMN search_vector;
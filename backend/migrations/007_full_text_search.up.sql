@@ -0,0 +1,22 @@
+-- Full-text search over tasks, notes and projects (GET /api/search, see repositories/postgres/search.ts).
+-- Each table keeps a generated tsvector in which titles and names (weight A) rank above
+-- descriptions and note content (weight B). The repositories list their columns explicitly so
+-- search_vector is never sent to clients.
+ALTER TABLE tasks ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+) STORED;
+
+ALTER TABLE notes ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(content, '')), 'B')
+) STORED;
+
+ALTER TABLE projects ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_notes_search ON notes USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_projects_search ON projects USING GIN (search_vector);
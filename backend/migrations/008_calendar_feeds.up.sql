@@ -0,0 +1,7 @@
+-- Secret calendar feed URLs (GET /ical/:token.ics, see routes/ical.ts). Each user has at most one
+-- feed; rotating it replaces the token, so the old URL stops working.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id VARCHAR(255) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  token VARCHAR(64) NOT NULL UNIQUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,7 @@
+-- Subtasks: a task may belong to a parent task, which shows how many of its subtasks are done.
+-- Moving a task to the trash moves its subtasks with it, sharing its deleted_at, the same way a
+-- project takes its tasks and notes along. Deleting a parent for good leaves any subtasks that
+-- are not in the trash as top-level tasks.
+ALTER TABLE tasks ADD COLUMN parent_task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON tasks (parent_task_id) WHERE parent_task_id IS NOT NULL;
@@ -0,0 +1,11 @@
+-- "Blocked by" relationships between tasks: task_id cannot start until blocked_by_id is completed.
+-- The API refuses links that would make a task wait on itself, directly or through other tasks.
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  blocked_by_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (task_id, blocked_by_id),
+  CHECK (task_id <> blocked_by_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked_by_id ON task_dependencies (blocked_by_id);
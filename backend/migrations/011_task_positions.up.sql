@@ -0,0 +1,14 @@
+-- Manual ordering: tasks sorted by position (GET /api/tasks?sort=position) appear in the order the
+-- user arranged them. Positions are fractional, so a task dragged between two others gets the value
+-- halfway between theirs and no other row changes. New tasks go to the top of their project.
+-- Existing tasks keep the newest-first order they were shown in, numbered per project.
+ALTER TABLE tasks ADD COLUMN position DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+UPDATE tasks SET position = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id, project_id ORDER BY created_at DESC, id DESC) AS position
+  FROM tasks
+) ordered
+WHERE tasks.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_position ON tasks (user_id, project_id, position);
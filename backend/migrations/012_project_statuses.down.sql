@@ -0,0 +1,5 @@
+DROP INDEX IF EXISTS idx_tasks_status_id;
+
+ALTER TABLE tasks DROP COLUMN status_id;
+
+DROP TABLE IF EXISTS project_statuses;
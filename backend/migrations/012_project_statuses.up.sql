@@ -0,0 +1,21 @@
+-- Workflow statuses (Kanban columns) defined per project, e.g. Backlog, In Progress, Review, Done.
+-- Statuses with is_done = TRUE are where completed tasks go; the API keeps tasks.status_id and
+-- tasks.completed in agreement, so moving a task into a done status completes it and completing a
+-- task moves it to the project's first done status. wip_limit caps the open work in a column.
+CREATE TABLE IF NOT EXISTS project_statuses (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  color VARCHAR(50),
+  position INTEGER NOT NULL DEFAULT 0,
+  wip_limit INTEGER CHECK (wip_limit > 0),
+  is_done BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_statuses_project_id ON project_statuses (project_id, position);
+
+ALTER TABLE tasks ADD COLUMN status_id INTEGER REFERENCES project_statuses(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_status_id ON tasks (status_id);
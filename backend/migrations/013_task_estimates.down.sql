@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_focus_sessions_task_id;
+
+ALTER TABLE tasks DROP COLUMN estimate_minutes;
@@ -0,0 +1,5 @@
+-- How long a task is expected to take, in minutes. The time actually spent on it is the sum of the
+-- durations of the focus sessions linked to it, so sessions are indexed by task for those totals.
+ALTER TABLE tasks ADD COLUMN estimate_minutes INTEGER CHECK (estimate_minutes > 0);
+
+CREATE INDEX IF NOT EXISTS idx_focus_sessions_task_id ON focus_sessions (task_id);
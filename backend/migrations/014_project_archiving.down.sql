@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_projects_archived;
+
+ALTER TABLE projects DROP COLUMN archived_at;
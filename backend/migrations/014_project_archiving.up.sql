@@ -0,0 +1,6 @@
+-- Archived projects are put away without being deleted: archived_at is set, and the project, its tasks
+-- and its notes drop out of the default lists but stay readable and searchable. Their tasks, notes and
+-- statuses are read-only until the project is unarchived by clearing archived_at.
+ALTER TABLE projects ADD COLUMN archived_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_projects_archived ON projects (user_id, archived_at) WHERE archived_at IS NOT NULL;
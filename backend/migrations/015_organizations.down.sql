@@ -0,0 +1,5 @@
+DROP INDEX IF EXISTS idx_projects_org_id;
+
+ALTER TABLE projects DROP COLUMN org_id;
+
+DROP TABLE IF EXISTS organization_members;
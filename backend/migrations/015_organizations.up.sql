@@ -0,0 +1,19 @@
+-- Projects shared through Clerk organizations. A project with org_id belongs to that organization
+-- rather than to its creator (user_id): every member can see it, with the tasks, notes and statuses
+-- in it, and what they may change depends on their role. Rows keep the user_id of whoever created them.
+-- Organizations themselves live in Clerk; organization_members records the members seen so far, with
+-- the role their session carried (kept up to date on every request).
+CREATE TABLE IF NOT EXISTS organization_members (
+  org_id VARCHAR(255) NOT NULL,
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(10) NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (org_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members (user_id);
+
+ALTER TABLE projects ADD COLUMN org_id VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_projects_org_id ON projects (org_id) WHERE org_id IS NOT NULL;
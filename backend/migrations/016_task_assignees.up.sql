@@ -0,0 +1,6 @@
+-- Who is responsible for a task. Only the task's creator or, in a project, a member who may change its
+-- tasks (the creator of a personal project, or an owner or editor of a shared one) can be assigned; the
+-- routes check that when the assignee is set. Deleting the user unassigns their tasks.
+ALTER TABLE tasks ADD COLUMN assignee_id VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_assignee_id ON tasks (assignee_id) WHERE assignee_id IS NOT NULL;
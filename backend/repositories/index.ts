@@ -0,0 +1,18 @@
+import { Repositories } from './types';
+import { createPostgresRepositories } from './postgres';
+import { createMemoryRepositories } from './memory';
+
+export * from './types';
+export { createPostgresRepositories, createMemoryRepositories };
+
+// DATA_STORE selects where data lives: 'postgres' (default) or 'memory'
+export const createRepositories = (kind = process.env.DATA_STORE || 'postgres'): Repositories => {
+  switch (kind) {
+    case 'postgres':
+      return createPostgresRepositories();
+    case 'memory':
+      return createMemoryRepositories();
+    default:
+      throw new Error(`Unknown DATA_STORE "${kind}"; expected "postgres" or "memory".`);
+  }
+};
@@ -0,0 +1,35 @@
+import { ProjectRole, ProjectRow } from '../types';
+import { MemoryStore } from './store';
+
+// Who can see which rows, as in postgres/access.ts. Personal projects are seen by their creator only;
+// projects with an org_id by every member of the organization. Tasks and notes in a project are seen by
+// whoever sees the project, whoever created them; tasks and notes outside any project only by their creator.
+
+const membership = (store: MemoryStore, orgId: string, userId: string) =>
+  store.organizationMembers.find((member) => member.org_id === orgId && member.user_id === userId);
+
+export const canSeeProject = (store: MemoryStore, project: ProjectRow, userId: string) =>
+  project.org_id === null ? project.user_id === userId : !!membership(store, project.org_id, userId);
+
+export const canSeeItem = (store: MemoryStore, item: { user_id: string; project_id: number | null }, userId: string) => {
+  if (item.project_id === null) return item.user_id === userId;
+  const project = store.projects.find((row) => row.id === item.project_id);
+  return !!project && canSeeProject(store, project, userId);
+};
+
+// The user's role in `project`, which they can see
+export const projectRole = (store: MemoryStore, project: ProjectRow, userId: string): ProjectRole =>
+  project.org_id === null ? 'owner' : membership(store, project.org_id, userId)!.role;
+
+// Whether the user may change the task or note: in a project that takes an owner or editor while the
+// project is not archived; outside any project, its creator
+export const canChangeItem = (store: MemoryStore, item: { user_id: string; project_id: number | null }, userId: string) => {
+  if (item.project_id === null) return item.user_id === userId;
+  const project = store.projects.find((row) => row.id === item.project_id);
+  return !!project && project.archived_at === null && canSeeProject(store, project, userId)
+    && projectRole(store, project, userId) !== 'viewer';
+};
+
+// Whether the user is one of the owners of `project`
+export const ownsProject = (store: MemoryStore, project: ProjectRow, userId: string) =>
+  canSeeProject(store, project, userId) && projectRole(store, project, userId) === 'owner';
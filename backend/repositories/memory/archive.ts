@@ -0,0 +1,158 @@
+import { ArchiveRepository, ImportCounts } from '../types';
+import { MemoryStore, toDate } from './store';
+
+const byId = <T extends { id: number }>(a: T, b: T) => a.id - b.id;
+
+export const createArchiveRepository = (store: MemoryStore): ArchiveRepository => ({
+  async read(userId) {
+    const live = <T extends { user_id: string; deleted_at: Date | null }>(row: T) => row.user_id === userId && row.deleted_at === null;
+
+    return {
+      projects: store.projects.filter(live).sort(byId).map((project) => ({ ...project })),
+      tags: store.tags.filter((tag) => tag.user_id === userId).sort(byId).map((tag) => ({ ...tag })),
+      tasks: store.tasks.filter(live).sort(byId).map(({ status_id, assignee_id, ...task }) => ({
+        ...task,
+        tag_ids: store.taskTags
+          .filter((link) => link.task_id === task.id)
+          .map((link) => link.tag_id)
+          .sort((a, b) => a - b),
+        blocked_by_ids: store.taskDependencies
+          .filter((link) => link.task_id === task.id)
+          .map((link) => link.blocked_by_id)
+          .sort((a, b) => a - b),
+        reminders: store.reminders
+          .filter((reminder) => reminder.task_id === task.id)
+          .sort(byId)
+          .map(({ remind_at, offset_minutes, sent_at }) => ({ remind_at, offset_minutes, sent_at })),
+      })),
+      notes: store.notes.filter(live).sort(byId).map((note) => ({ ...note })),
+      focusSessions: store.focusSessions.filter((session) => session.user_id === userId).sort(byId).map((session) => ({ ...session })),
+    };
+  },
+
+  async write(userId, archive) {
+    const counts: ImportCounts = { projects: 0, tags: 0, tasks: 0, notes: 0, focus_sessions: 0 };
+    const now = new Date();
+    const timestamp = (value: string | undefined) => (value ? new Date(value) : now);
+    // Archive ID -> ID of the inserted (or merged) row
+    const projectIds = new Map<number, number>();
+    const tagIds = new Map<number, number>();
+    const taskIds = new Map<number, number>();
+    const mapId = (ids: Map<number, number>, id: number | null | undefined) => (id ? ids.get(id) ?? null : null);
+
+    for (const project of archive.projects) {
+      const id = store.nextId('projects');
+      store.projects.push({
+        id,
+        user_id: userId,
+        org_id: null, // Imported projects are personal
+        name: project.name,
+        color: project.color ?? null,
+        description: project.description ?? null,
+        created_at: timestamp(project.created_at),
+        updated_at: timestamp(project.updated_at),
+        archived_at: toDate(project.archived_at),
+        deleted_at: null,
+      });
+      projectIds.set(project.id, id);
+      counts.projects++;
+    }
+
+    for (const tag of archive.tags) {
+      const existing = store.tags.find((row) => row.user_id === userId && row.name.toLowerCase() === tag.name.toLowerCase());
+      if (existing) {
+        tagIds.set(tag.id, existing.id);
+        continue;
+      }
+      const id = store.nextId('tags');
+      store.tags.push({ id, user_id: userId, name: tag.name, color: tag.color ?? null, created_at: timestamp(tag.created_at) });
+      tagIds.set(tag.id, id);
+      counts.tags++;
+    }
+
+    for (const task of archive.tasks) {
+      const id = store.nextId('tasks');
+      store.tasks.push({
+        id,
+        user_id: userId,
+        title: task.title,
+        description: task.description ?? null,
+        completed: task.completed ?? false,
+        duedate: toDate(task.dueDate),
+        priority: task.priority ?? null,
+        project_id: mapId(projectIds, task.project_id),
+        parent_task_id: null,
+        is_recurring: task.is_recurring ?? false,
+        recurrence_pattern: task.recurrence_pattern ?? null,
+        position: task.position ?? 0,
+        status_id: null,
+        estimate_minutes: task.estimate_minutes ?? null,
+        assignee_id: null,
+        created_at: timestamp(task.created_at),
+        updated_at: timestamp(task.updated_at),
+        deleted_at: null,
+      });
+      taskIds.set(task.id, id);
+      counts.tasks++;
+
+      for (const tagId of new Set(task.tag_ids ?? [])) {
+        store.taskTags.push({ task_id: id, tag_id: tagIds.get(tagId)! });
+      }
+      for (const reminder of task.reminders ?? []) {
+        store.reminders.push({
+          id: store.nextId('task_reminders'),
+          task_id: id,
+          user_id: userId,
+          remind_at: 'remind_at' in reminder ? new Date(reminder.remind_at) : null,
+          offset_minutes: 'offset_minutes' in reminder ? reminder.offset_minutes : null,
+          sent_at: toDate(reminder.sent_at),
+          created_at: now,
+        });
+      }
+    }
+
+    // Subtasks point at their parent once every task has its new ID
+    for (const task of archive.tasks) {
+      if (!task.parent_task_id) continue;
+      store.tasks.find((row) => row.id === taskIds.get(task.id))!.parent_task_id = mapId(taskIds, task.parent_task_id);
+    }
+
+    // Likewise for the tasks they wait on
+    for (const task of archive.tasks) {
+      for (const blockerId of new Set(task.blocked_by_ids ?? [])) {
+        store.taskDependencies.push({ task_id: taskIds.get(task.id)!, blocked_by_id: mapId(taskIds, blockerId)! });
+      }
+    }
+
+    for (const note of archive.notes) {
+      store.notes.push({
+        id: store.nextId('notes'),
+        user_id: userId,
+        title: note.title,
+        content: note.content ?? null,
+        project_id: mapId(projectIds, note.project_id),
+        created_at: timestamp(note.created_at),
+        updated_at: timestamp(note.updated_at),
+        deleted_at: null,
+      });
+      counts.notes++;
+    }
+
+    for (const session of archive.focus_sessions) {
+      store.focusSessions.push({
+        id: store.nextId('focus_sessions'),
+        user_id: userId,
+        start_time: new Date(session.start_time),
+        end_time: toDate(session.end_time),
+        duration: session.duration ?? null,
+        session_type: session.session_type ?? null,
+        notes: session.notes ?? null,
+        task_id: mapId(taskIds, session.task_id),
+        created_at: timestamp(session.created_at),
+      });
+      counts.focus_sessions++;
+    }
+
+    return counts;
+  },
+});
@@ -0,0 +1,26 @@
+import { CalendarFeedRepository } from '../types';
+import { MemoryStore } from './store';
+
+export const createCalendarFeedRepository = (store: MemoryStore): CalendarFeedRepository => ({
+  async find(userId) {
+    const feed = store.calendarFeeds.find((row) => row.user_id === userId);
+    return feed ? { ...feed } : null;
+  },
+
+  async findByToken(token) {
+    const feed = store.calendarFeeds.find((row) => row.token === token);
+    return feed ? { ...feed } : null;
+  },
+
+  async save(userId, token) {
+    const feed = { user_id: userId, token, created_at: new Date() };
+    store.calendarFeeds = [...store.calendarFeeds.filter((row) => row.user_id !== userId), feed];
+    return { ...feed };
+  },
+
+  async delete(userId) {
+    const before = store.calendarFeeds.length;
+    store.calendarFeeds = store.calendarFeeds.filter((row) => row.user_id !== userId);
+    return store.calendarFeeds.length < before;
+  },
+});
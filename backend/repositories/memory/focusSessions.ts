@@ -0,0 +1,87 @@
+import { applyPatch } from '../../lib/patch';
+import { FocusSessionPatch, FocusSessionRepository, FocusSessionRow } from '../types';
+import { MemoryStore, sameId, toDate } from './store';
+
+const FOCUS_SESSION_COLUMNS = ['start_time', 'end_time', 'duration', 'session_type', 'notes', 'task_id'] as const;
+
+const newestFirst = (a: FocusSessionRow, b: FocusSessionRow) => b.start_time.getTime() - a.start_time.getTime();
+
+export const createFocusSessionRepository = (store: MemoryStore): FocusSessionRepository => {
+  const findStored = (id: number | string, userId: string) =>
+    store.focusSessions.find((session) => sameId(session.id, id) && session.user_id === userId);
+
+  const insert = (userId: string, fields: Omit<FocusSessionRow, 'id' | 'user_id' | 'created_at'>) => {
+    const session = { id: store.nextId('focus_sessions'), user_id: userId, ...fields, created_at: new Date() };
+    store.focusSessions.push(session);
+    return { ...session };
+  };
+
+  return {
+    async list(userId, { from, to, taskId }) {
+      return store.focusSessions
+        .filter((session) =>
+          session.user_id === userId
+          && (!from || session.start_time >= new Date(from))
+          && (!to || session.start_time < new Date(to))
+          && (taskId === undefined || session.task_id === taskId))
+        .sort(newestFirst)
+        .map((session) => ({ ...session }));
+    },
+
+    async find(id, userId) {
+      const session = findStored(id, userId);
+      return session ? { ...session } : null;
+    },
+
+    async findActive(userId) {
+      const active = store.focusSessions
+        .filter((session) => session.user_id === userId && session.end_time === null)
+        .sort(newestFirst)[0];
+      return active ? { ...active } : null;
+    },
+
+    async create(userId, input) {
+      return insert(userId, { ...input, start_time: new Date(input.start_time), end_time: toDate(input.end_time) });
+    },
+
+    async start(userId, input) {
+      return insert(userId, { ...input, start_time: new Date(), end_time: null, duration: null });
+    },
+
+    async stop(id, userId, notes) {
+      const session = findStored(id, userId);
+      if (!session || session.end_time !== null) return null;
+      session.end_time = new Date();
+      session.duration = Math.round((session.end_time.getTime() - session.start_time.getTime()) / 1000);
+      session.notes = notes ?? session.notes;
+      return { ...session };
+    },
+
+    async update(id, userId, { start_time, end_time, ...patch }: FocusSessionPatch) {
+      const session = findStored(id, userId);
+      if (!session) return null;
+      applyPatch(session, {
+        ...patch,
+        start_time: start_time === undefined ? undefined : new Date(start_time),
+        end_time: end_time === undefined ? undefined : toDate(end_time),
+      }, FOCUS_SESSION_COLUMNS);
+      return { ...session };
+    },
+
+    async delete(id, userId) {
+      const session = findStored(id, userId);
+      if (!session) return false;
+      store.focusSessions = store.focusSessions.filter((s) => s !== session);
+      return true;
+    },
+
+    async taskTotals(taskId) {
+      const sessions = store.focusSessions.filter((session) =>
+        session.task_id !== null && sameId(session.task_id, taskId) && session.duration !== null);
+      return {
+        tracked_seconds: sessions.reduce((sum, session) => sum + session.duration!, 0),
+        session_count: sessions.length,
+      };
+    },
+  };
+};
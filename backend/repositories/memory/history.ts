@@ -0,0 +1,23 @@
+import { HistoryRepository } from '../types';
+import { MemoryStore, sameId } from './store';
+
+export const createHistoryRepository = (store: MemoryStore): HistoryRepository => ({
+  async record(input) {
+    // Round-trip through JSON like the JSONB column, so later edits to the caller's objects do not leak in
+    const entry = {
+      id: store.nextId('change_history'),
+      ...input,
+      changes: JSON.parse(JSON.stringify(input.changes)),
+      created_at: new Date(),
+    };
+    store.history.push(entry);
+    return { ...entry };
+  },
+
+  async list(entityType, entityId) {
+    return store.history
+      .filter((entry) => entry.entity_type === entityType && sameId(entry.entity_id, entityId))
+      .sort((a, b) => b.id - a.id)
+      .map((entry) => ({ ...entry }));
+  },
+});
@@ -0,0 +1,40 @@
+import { Repositories } from '../types';
+import { MemoryStore, createMemoryStore } from './store';
+import { createUserRepository } from './users';
+import { createOrganizationRepository } from './organizations';
+import { createProjectRepository } from './projects';
+import { createTagRepository } from './tags';
+import { createProjectStatusRepository } from './statuses';
+import { createTaskRepository } from './tasks';
+import { createNoteRepository } from './notes';
+import { createFocusSessionRepository } from './focusSessions';
+import { createNotificationRepository } from './notifications';
+import { createReminderRepository } from './reminders';
+import { createTrashRepository } from './trash';
+import { createHistoryRepository } from './history';
+import { createSearchRepository } from './search';
+import { createArchiveRepository } from './archive';
+import { createCalendarFeedRepository } from './calendarFeeds';
+
+// Repositories that keep everything in process memory, for demos and route-level tests.
+// Data is lost when the process exits. Pass a store to share or inspect its tables.
+export const createMemoryRepositories = (store: MemoryStore = createMemoryStore()): Repositories => ({
+  users: createUserRepository(store),
+  organizations: createOrganizationRepository(store),
+  projects: createProjectRepository(store),
+  tags: createTagRepository(store),
+  statuses: createProjectStatusRepository(store),
+  tasks: createTaskRepository(store),
+  notes: createNoteRepository(store),
+  focusSessions: createFocusSessionRepository(store),
+  notifications: createNotificationRepository(store),
+  reminders: createReminderRepository(store),
+  trash: createTrashRepository(store),
+  history: createHistoryRepository(store),
+  search: createSearchRepository(store),
+  archive: createArchiveRepository(store),
+  calendarFeeds: createCalendarFeedRepository(store),
+});
+
+export { createMemoryStore };
+export type { MemoryStore };
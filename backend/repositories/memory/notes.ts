@@ -0,0 +1,58 @@
+import { applyPatch } from '../../lib/patch';
+import { NoteRepository, NoteRow, NoteSortKey } from '../types';
+import { canSeeItem } from './access';
+import { MemoryStore, containsText, sameId, sortRows } from './store';
+
+const NOTE_COLUMNS = ['title', 'content', 'project_id'] as const;
+
+const NOTE_SORT_VALUES: Record<NoteSortKey, (note: NoteRow) => number | string | null> = {
+  created_at: (note) => note.created_at.getTime(),
+  updated_at: (note) => note.updated_at.getTime(),
+  title: (note) => note.title.toLowerCase(),
+};
+
+export const createNoteRepository = (store: MemoryStore): NoteRepository => {
+  const findStored = (id: number | string, userId: string) =>
+    store.notes.find((note) => sameId(note.id, id) && canSeeItem(store, note, userId) && note.deleted_at === null);
+
+  return {
+    async list(userId, filters) {
+      const matching = store.notes.filter((note) =>
+        canSeeItem(store, note, userId)
+        && note.deleted_at === null
+        && (filters.projectId === undefined || note.project_id === filters.projectId)
+        && (!filters.search || containsText(note.title, filters.search) || containsText(note.content, filters.search)));
+
+      const { limit, offset } = filters.page;
+      const sorted = sortRows(matching, NOTE_SORT_VALUES[filters.sort.key], filters.sort.descending);
+      return { rows: sorted.slice(offset, offset + limit).map((note) => ({ ...note })), total: matching.length };
+    },
+
+    async find(id, userId) {
+      const note = findStored(id, userId);
+      return note ? { ...note } : null;
+    },
+
+    async create(userId, input) {
+      const now = new Date();
+      const note = { id: store.nextId('notes'), user_id: userId, ...input, created_at: now, updated_at: now, deleted_at: null };
+      store.notes.push(note);
+      return { ...note };
+    },
+
+    async update(id, userId, patch) {
+      const note = findStored(id, userId);
+      if (!note) return null;
+      applyPatch(note, patch, NOTE_COLUMNS);
+      note.updated_at = new Date();
+      return { ...note };
+    },
+
+    async delete(id, userId) {
+      const note = findStored(id, userId);
+      if (!note) return false;
+      note.deleted_at = new Date();
+      return true;
+    },
+  };
+};
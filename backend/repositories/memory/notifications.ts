@@ -0,0 +1,66 @@
+import { NotificationRepository } from '../types';
+import { MemoryStore, sameId } from './store';
+
+export const createNotificationRepository = (store: MemoryStore): NotificationRepository => {
+  const findStored = (id: number | string, userId: string) =>
+    store.notifications.find((notification) => sameId(notification.id, id) && notification.user_id === userId);
+
+  return {
+    async create(userId, { task_id, reminder_id = null, type, title, body }) {
+      const notification = {
+        id: store.nextId('notifications'),
+        user_id: userId,
+        task_id,
+        reminder_id,
+        type,
+        title,
+        body,
+        read_at: null,
+        created_at: new Date(),
+      };
+      store.notifications.push(notification);
+      return { ...notification };
+    },
+
+    async list(userId, { unreadOnly, limit }) {
+      return store.notifications
+        .filter((notification) => notification.user_id === userId && (!unreadOnly || notification.read_at === null))
+        .sort((a, b) => b.id - a.id)
+        .slice(0, limit)
+        .map((notification) => ({ ...notification }));
+    },
+
+    async countUnread(userId) {
+      return store.notifications.filter((notification) => notification.user_id === userId && notification.read_at === null).length;
+    },
+
+    async listSince(userId, afterId, limit) {
+      return store.notifications
+        .filter((notification) => notification.user_id === userId && notification.id > afterId)
+        .sort((a, b) => a.id - b.id)
+        .slice(0, limit)
+        .map((notification) => ({ ...notification }));
+    },
+
+    async markRead(id, userId) {
+      const notification = findStored(id, userId);
+      if (!notification) return null;
+      notification.read_at ??= new Date();
+      return { ...notification };
+    },
+
+    async markAllRead(userId) {
+      const now = new Date();
+      store.notifications.forEach((notification) => {
+        if (notification.user_id === userId && notification.read_at === null) notification.read_at = now;
+      });
+    },
+
+    async delete(id, userId) {
+      const notification = findStored(id, userId);
+      if (!notification) return false;
+      store.notifications = store.notifications.filter((n) => n !== notification);
+      return true;
+    },
+  };
+};
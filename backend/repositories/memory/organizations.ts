@@ -0,0 +1,23 @@
+import { OrganizationRepository } from '../types';
+import { MemoryStore } from './store';
+
+export const createOrganizationRepository = (store: MemoryStore): OrganizationRepository => ({
+  async syncMember(orgId, userId, role) {
+    const member = store.organizationMembers.find((row) => row.org_id === orgId && row.user_id === userId);
+    if (!member) {
+      const now = new Date();
+      store.organizationMembers.push({ org_id: orgId, user_id: userId, role, created_at: now, updated_at: now });
+    } else if (member.role !== role) {
+      member.role = role;
+      member.updated_at = new Date();
+    }
+  },
+
+  async removeMember(orgId, userId) {
+    store.organizationMembers = store.organizationMembers.filter((row) => row.org_id !== orgId || row.user_id !== userId);
+  },
+
+  async retainMemberships(userId, orgIds) {
+    store.organizationMembers = store.organizationMembers.filter((row) => row.user_id !== userId || orgIds.includes(row.org_id));
+  },
+});
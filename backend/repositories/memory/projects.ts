@@ -0,0 +1,92 @@
+import { applyPatch } from '../../lib/patch';
+import { ProjectRepository, ProjectRow } from '../types';
+import { canSeeProject, projectRole } from './access';
+import { MemoryStore, sameId } from './store';
+import { trackedSeconds } from './tasks';
+
+const PROJECT_COLUMNS = ['name', 'color', 'description', 'org_id'] as const;
+
+export const createProjectRepository = (store: MemoryStore): ProjectRepository => {
+  const findStored = (id: number | string, userId: string) =>
+    store.projects.find((project) => sameId(project.id, id) && canSeeProject(store, project, userId) && project.deleted_at === null);
+
+  const present = (project: ProjectRow, userId: string) => ({ ...project, role: projectRole(store, project, userId) });
+
+  return {
+    async list(userId, archived) {
+      return store.projects
+        .filter((project) => canSeeProject(store, project, userId) && project.deleted_at === null && (project.archived_at !== null) === archived)
+        .sort((a, b) => (archived ? b.archived_at!.getTime() - a.archived_at!.getTime() : 0)
+          || b.created_at.getTime() - a.created_at.getTime() || b.id - a.id)
+        .map((project) => {
+          const tasks = store.tasks.filter((task) => task.project_id === project.id && task.deleted_at === null)
+            .map((task) => ({ ...task, tracked_seconds: trackedSeconds(store, task.id) }));
+          return {
+            ...present(project, userId),
+            task_count: tasks.filter((task) => !task.completed).length,
+            estimate_minutes: tasks.reduce((sum, task) => sum + (task.estimate_minutes ?? 0), 0),
+            tracked_seconds: tasks.reduce((sum, task) => sum + task.tracked_seconds, 0),
+            overrun_count: tasks
+              .filter((task) => task.estimate_minutes !== null && task.tracked_seconds > task.estimate_minutes * 60).length,
+          };
+        });
+    },
+
+    async find(id, userId) {
+      const project = findStored(id, userId);
+      return project ? present(project, userId) : null;
+    },
+
+    async exists(id, userId) {
+      return !!findStored(id, userId);
+    },
+
+    async create(userId, input) {
+      const now = new Date();
+      const project = {
+        id: store.nextId('projects'), user_id: userId, ...input, created_at: now, updated_at: now, deleted_at: null, archived_at: null,
+      };
+      store.projects.push(project);
+      return present(project, userId);
+    },
+
+    async update(id, userId, patch) {
+      const project = findStored(id, userId);
+      if (!project) return null;
+      // Unsharing a project makes it the personal project of whoever unshares it
+      applyPatch<ProjectRow>(project, patch.org_id === null ? { ...patch, user_id: userId } : patch, [...PROJECT_COLUMNS, 'user_id']);
+      project.updated_at = new Date();
+      return present(project, userId);
+    },
+
+    async setArchived(id, userId, archived) {
+      const project = findStored(id, userId);
+      if (!project) return null;
+      project.archived_at = archived ? project.archived_at ?? new Date() : null;
+      return present(project, userId);
+    },
+
+    async delete(id, userId) {
+      const project = findStored(id, userId);
+      if (!project) return false;
+      // The project's tasks and notes share its deleted_at, so they can be restored together
+      const now = new Date();
+      project.deleted_at = now;
+      for (const row of [...store.tasks, ...store.notes]) {
+        if (row.project_id === project.id && row.deleted_at === null) row.deleted_at = now;
+      }
+      return true;
+    },
+
+    async members(id, userId) {
+      const project = findStored(id, userId);
+      if (!project) return null;
+      const members = project.org_id === null
+        ? [{ user_id: project.user_id, role: 'owner' as const }]
+        : store.organizationMembers.filter((member) => member.org_id === project.org_id);
+      return members
+        .map(({ user_id, role }) => ({ user_id, email: store.users.get(user_id)!.email, role }))
+        .sort((a, b) => a.email.localeCompare(b.email));
+    },
+  };
+};
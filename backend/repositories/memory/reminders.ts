@@ -0,0 +1,34 @@
+import { ReminderRepository } from '../types';
+import { MemoryStore } from './store';
+
+const MINUTE_MS = 60 * 1000;
+
+export const createReminderRepository = (store: MemoryStore): ReminderRepository => ({
+  async due(now, limit) {
+    return store.reminders
+      .flatMap((reminder) => {
+        const task = store.tasks.find((candidate) => candidate.id === reminder.task_id);
+        if (!task || reminder.sent_at !== null || task.completed || task.deleted_at !== null) return [];
+        if (store.projects.some((project) => project.id === task.project_id && project.archived_at !== null)) return [];
+        const remindAt = reminder.remind_at
+          ?? (task.duedate && reminder.offset_minutes !== null
+            ? new Date(task.duedate.getTime() - reminder.offset_minutes * MINUTE_MS)
+            : null);
+        if (!remindAt || remindAt > now) return [];
+        const { id, task_id, user_id, offset_minutes } = reminder;
+        return [{ id, task_id, user_id, offset_minutes, title: task.title }];
+      })
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  },
+
+  async markSent(ids, now) {
+    const wanted = new Set(ids);
+    return store.reminders
+      .filter((reminder) => wanted.has(reminder.id) && reminder.sent_at === null)
+      .map((reminder) => {
+        reminder.sent_at = now;
+        return reminder.id;
+      });
+  },
+});
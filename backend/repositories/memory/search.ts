@@ -0,0 +1,121 @@
+import { WORD_PATTERN } from '../../lib/search';
+import { SearchRepository, SearchResult } from '../types';
+import { canSeeItem, canSeeProject } from './access';
+import { MemoryStore } from './store';
+
+// Rough stand-in for Postgres full-text search: every term has to be the start of a word in the
+// title or text (no stemming), and title matches rank above text matches like weight A above B.
+
+const TITLE_WEIGHT = 1;
+const TEXT_WEIGHT = 0.4;
+const SNIPPET_WORDS = 30;
+const WORDS_BEFORE_MATCH = 4;
+
+const startsWithTerm = (word: string, terms: string[]) => terms.some((term) => word.toLowerCase().startsWith(term));
+
+// The words of `text` with their offsets
+const wordsOf = (text: string) => {
+  const words: { word: string; index: number }[] = [];
+  text.replace(WORD_PATTERN, (word: string, index: number) => {
+    words.push({ word, index });
+    return word;
+  });
+  return words;
+};
+
+const hasPrefix = (text: string, term: string) => wordsOf(text).some(({ word }) => startsWithTerm(word, [term]));
+
+const highlight = (text: string, terms: string[]) =>
+  text.replace(WORD_PATTERN, (word) => (startsWithTerm(word, terms) ? `<mark>${word}</mark>` : word));
+
+// Up to SNIPPET_WORDS words of `text`, starting just before the first match
+const snippetOf = (text: string | null, terms: string[]) => {
+  if (!text) return null;
+  const words = wordsOf(text);
+  if (words.length === 0) return null;
+
+  const firstMatch = words.findIndex(({ word }) => startsWithTerm(word, terms));
+  const start = Math.max(0, firstMatch - WORDS_BEFORE_MATCH);
+  const end = Math.min(words.length, start + SNIPPET_WORDS) - 1;
+  const from = words[start].index;
+  const to = words[end].index + words[end].word.length;
+  return `${from > 0 ? '… ' : ''}${highlight(text.slice(from, to), terms)}${to < text.length ? ' …' : ''}`;
+};
+
+// Rank an item, or null when some term matches neither its title nor its text
+const rankOf = (title: string, text: string | null, terms: string[]) => {
+  let score = 0;
+  for (const term of terms) {
+    if (hasPrefix(title, term)) {
+      score += TITLE_WEIGHT;
+    } else if (text && hasPrefix(text, term)) {
+      score += TEXT_WEIGHT;
+    } else {
+      return null;
+    }
+  }
+  return score / terms.length;
+};
+
+export const createSearchRepository = (store: MemoryStore): SearchRepository => ({
+  async search(userId, { terms, types, limit }) {
+    const isArchived = (projectId: number | null) =>
+      store.projects.some((project) => project.id === projectId && project.archived_at !== null);
+
+    const candidates = [
+      ...store.tasks.map((task) => ({
+        type: 'task' as const,
+        row: task,
+        title: task.title,
+        text: task.description,
+        project_id: task.project_id,
+        completed: task.completed as boolean | null,
+        archived: isArchived(task.project_id),
+        visible: canSeeItem(store, task, userId),
+      })),
+      ...store.notes.map((note) => ({
+        type: 'note' as const,
+        row: note,
+        title: note.title,
+        text: note.content,
+        project_id: note.project_id,
+        completed: null,
+        archived: isArchived(note.project_id),
+        visible: canSeeItem(store, note, userId),
+      })),
+      ...store.projects.map((project) => ({
+        type: 'project' as const,
+        row: project,
+        title: project.name,
+        text: project.description,
+        project_id: null,
+        completed: null,
+        archived: project.archived_at !== null,
+        visible: canSeeProject(store, project, userId),
+      })),
+    ];
+
+    const results: SearchResult[] = [];
+    for (const { type, row, title, text, project_id, completed, archived, visible } of candidates) {
+      if (!types.includes(type) || !visible || row.deleted_at !== null) continue;
+      const rank = rankOf(title, text, terms);
+      if (rank === null) continue;
+      results.push({
+        type,
+        id: row.id,
+        title,
+        title_highlight: highlight(title, terms),
+        snippet: snippetOf(text, terms),
+        project_id,
+        completed,
+        archived,
+        rank,
+        updated_at: row.updated_at,
+      });
+    }
+
+    return results
+      .sort((a, b) => b.rank - a.rank || b.updated_at.getTime() - a.updated_at.getTime() || b.id - a.id)
+      .slice(0, limit);
+  },
+});
@@ -0,0 +1,84 @@
+import { applyPatch } from '../../lib/patch';
+import { ProjectStatusRepository } from '../types';
+import { canSeeProject } from './access';
+import { MemoryStore, sameId } from './store';
+import { syncStatuses } from './tasks';
+
+const STATUS_COLUMNS = ['name', 'color', 'wip_limit', 'is_done'] as const;
+
+export const createProjectStatusRepository = (store: MemoryStore): ProjectStatusRepository => {
+  // Statuses are seen by whoever sees their project
+  const canSee = (projectId: number, userId: string) =>
+    store.projects.some((project) => project.id === projectId && canSeeProject(store, project, userId));
+
+  const findStored = (id: number | string, userId: string) =>
+    store.projectStatuses.find((status) => sameId(status.id, id) && canSee(status.project_id, userId));
+
+  // Give the project's tasks a status that agrees with their completed flag again, after its statuses changed
+  const syncProjectTasks = (projectId: number) =>
+    syncStatuses(store, store.tasks.filter((task) => task.project_id === projectId));
+
+  const tasksIn = (id: number) => store.tasks.filter((task) => task.status_id === id && task.deleted_at === null);
+
+  return {
+    async list(projectId, userId) {
+      return store.projectStatuses
+        .filter((status) => sameId(status.project_id, projectId) && canSee(status.project_id, userId))
+        .sort((a, b) => a.position - b.position || a.id - b.id)
+        .map((status) => ({ ...status, task_count: tasksIn(status.id).length }));
+    },
+
+    async find(id, userId) {
+      const status = findStored(id, userId);
+      return status ? { ...status } : null;
+    },
+
+    async create(projectId, userId, input) {
+      const positions = store.projectStatuses
+        .filter((status) => sameId(status.project_id, projectId))
+        .map((status) => status.position);
+      const status = {
+        id: store.nextId('project_statuses'),
+        user_id: userId,
+        project_id: Number(projectId),
+        ...input,
+        position: Math.max(0, ...positions) + 1,
+        created_at: new Date(),
+      };
+      store.projectStatuses.push(status);
+      syncProjectTasks(status.project_id);
+      return { ...status };
+    },
+
+    async update(id, userId, patch) {
+      const status = findStored(id, userId);
+      if (!status) return null;
+      applyPatch(status, patch, STATUS_COLUMNS);
+      if (patch.is_done !== undefined) syncProjectTasks(status.project_id);
+      return { ...status };
+    },
+
+    async reorder(projectId, userId, ids) {
+      ids.forEach((id, index) => {
+        const status = findStored(id, userId);
+        if (status && sameId(status.project_id, projectId)) status.position = index + 1;
+      });
+      syncProjectTasks(Number(projectId));
+    },
+
+    async delete(id, userId) {
+      const status = findStored(id, userId);
+      if (!status) return false;
+      store.projectStatuses = store.projectStatuses.filter((s) => s !== status);
+      store.tasks.forEach((task) => {
+        if (task.status_id === status.id) task.status_id = null;
+      });
+      syncProjectTasks(status.project_id);
+      return true;
+    },
+
+    async countTasks(id, exceptTaskId) {
+      return tasksIn(id).filter((task) => exceptTaskId === undefined || !sameId(task.id, exceptTaskId)).length;
+    },
+  };
+};
@@ -0,0 +1,91 @@
+import { NotificationRow } from '../../lib/notificationHub';
+import {
+  CalendarFeedRow, FocusSessionRow, HistoryEntry, NoteRow, OrganizationMemberRow, ProjectRow, ProjectStatusRow, TagRow, TaskRow,
+} from '../types';
+
+// Tables of the in-memory data store. Rows are kept as the database would return them
+// (without the computed tags / reminders / task_count fields), and the repositories apply the
+// same cascades as the foreign keys in migrations/.
+
+export type StoredTask = Omit<
+  TaskRow,
+  'dueDate' | 'tags' | 'reminders' | 'subtask_count' | 'subtasks_completed' | 'blocked_by' | 'tracked_seconds' | 'assignee_email'
+>;
+
+export interface StoredReminder {
+  id: number;
+  task_id: number;
+  user_id: string;
+  remind_at: Date | null;
+  offset_minutes: number | null;
+  sent_at: Date | null;
+  created_at: Date;
+}
+
+export interface MemoryStore {
+  users: Map<string, { id: string; email: string; created_at: Date; updated_at: Date }>;
+  organizationMembers: OrganizationMemberRow[];
+  projects: ProjectRow[];
+  projectStatuses: ProjectStatusRow[];
+  tags: TagRow[];
+  tasks: StoredTask[];
+  taskTags: { task_id: number; tag_id: number }[];
+  taskDependencies: { task_id: number; blocked_by_id: number }[];
+  reminders: StoredReminder[];
+  notes: NoteRow[];
+  focusSessions: FocusSessionRow[];
+  notifications: NotificationRow[];
+  history: HistoryEntry[];
+  calendarFeeds: CalendarFeedRow[];
+  nextId(table: string): number; // SERIAL-style IDs, counted per table
+}
+
+export const createMemoryStore = (): MemoryStore => {
+  const sequences = new Map<string, number>();
+  return {
+    users: new Map(),
+    organizationMembers: [],
+    projects: [],
+    projectStatuses: [],
+    tags: [],
+    tasks: [],
+    taskTags: [],
+    taskDependencies: [],
+    reminders: [],
+    notes: [],
+    focusSessions: [],
+    notifications: [],
+    history: [],
+    calendarFeeds: [],
+    nextId(table) {
+      const id = (sequences.get(table) ?? 0) + 1;
+      sequences.set(table, id);
+      return id;
+    },
+  };
+};
+
+// Route parameters arrive as strings; IDs are stored as numbers
+export const sameId = (a: number, b: number | string) => a === Number(b);
+
+export const toDate = (value: string | Date | null | undefined) =>
+  value === null || value === undefined ? null : new Date(value);
+
+// ILIKE '%search%'
+export const containsText = (value: string | null, search: string) =>
+  value !== null && value.toLowerCase().includes(search.toLowerCase());
+
+// ORDER BY <key> [DESC] NULLS LAST, id DESC
+export const sortRows = <T extends { id: number }>(
+  rows: T[],
+  sortValue: (row: T) => number | string | null,
+  descending: boolean
+) => [...rows].sort((a, b) => {
+  const x = sortValue(a);
+  const y = sortValue(b);
+  if (x === y) return b.id - a.id;
+  if (x === null) return 1;
+  if (y === null) return -1;
+  const order = x < y ? -1 : 1;
+  return descending ? -order : order;
+});
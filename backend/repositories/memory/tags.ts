@@ -0,0 +1,55 @@
+import { applyPatch } from '../../lib/patch';
+import { TagRepository } from '../types';
+import { MemoryStore, sameId } from './store';
+
+const TAG_COLUMNS = ['name', 'color'] as const;
+
+export const createTagRepository = (store: MemoryStore): TagRepository => {
+  const findStored = (id: number | string, userId: string) =>
+    store.tags.find((tag) => sameId(tag.id, id) && tag.user_id === userId);
+
+  return {
+    async list(userId) {
+      return store.tags
+        .filter((tag) => tag.user_id === userId)
+        .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()))
+        .map((tag) => ({
+          ...tag,
+          task_count: store.taskTags.filter((link) =>
+            link.tag_id === tag.id && store.tasks.some((task) => task.id === link.task_id && task.deleted_at === null)).length,
+        }));
+    },
+
+    async exists(id, userId) {
+      return !!findStored(id, userId);
+    },
+
+    async nameTaken(userId, name, exceptId) {
+      return store.tags.some((tag) =>
+        tag.user_id === userId
+        && tag.name.toLowerCase() === name.toLowerCase()
+        && (exceptId === undefined || !sameId(tag.id, exceptId)));
+    },
+
+    async create(userId, input) {
+      const tag = { id: store.nextId('tags'), user_id: userId, ...input, created_at: new Date() };
+      store.tags.push(tag);
+      return { ...tag };
+    },
+
+    async update(id, userId, patch) {
+      const tag = findStored(id, userId);
+      if (!tag) return null;
+      applyPatch(tag, patch, TAG_COLUMNS);
+      return { ...tag };
+    },
+
+    async delete(id, userId) {
+      const tag = findStored(id, userId);
+      if (!tag) return false;
+      store.tags = store.tags.filter((t) => t !== tag);
+      store.taskTags = store.taskTags.filter((link) => link.tag_id !== tag.id);
+      return true;
+    },
+  };
+};
@@ -0,0 +1,419 @@
+import { applyPatch } from '../../lib/patch';
+import { ReminderInput } from '../../shared/schemas';
+import { ProjectStatusRow, TaskInput, TaskPatch, TaskRepository, TaskRow, TaskSortKey } from '../types';
+import { canChangeItem, canSeeItem, projectRole } from './access';
+import { MemoryStore, StoredTask, containsText, sameId, sortRows, toDate } from './store';
+
+const TASK_COLUMNS = [
+  'title', 'description', 'completed', 'duedate', 'priority', 'project_id', 'parent_task_id', 'is_recurring',
+  'recurrence_pattern', 'status_id', 'estimate_minutes', 'assignee_id',
+] as const;
+
+const PRIORITY_RANK: Record<string, number> = { urgent: 4, high: 3, medium: 2, low: 1 };
+
+const TASK_SORT_VALUES: Record<TaskSortKey, (task: StoredTask) => number | string | null> = {
+  created_at: (task) => task.created_at.getTime(),
+  updated_at: (task) => task.updated_at.getTime(),
+  dueDate: (task) => task.duedate?.getTime() ?? null,
+  title: (task) => task.title.toLowerCase(),
+  priority: (task) => PRIORITY_RANK[task.priority ?? ''] ?? 0,
+  position: (task) => task.position,
+};
+
+// The `roots` and their subtasks, the subtasks' subtasks and so on, following only subtasks that match `follow`
+export const subtree = (store: MemoryStore, roots: StoredTask[], follow: (task: StoredTask) => boolean) => {
+  const found = new Set(roots);
+  for (const task of found) {
+    store.tasks.forEach((child) => {
+      if (child.parent_task_id === task.id && follow(child)) found.add(child);
+    });
+  }
+  return [...found];
+};
+
+// Give `tasks` a status that agrees with their project and completed flag, like syncStatusesSql in
+// postgres/tasks.ts: a status that agrees is kept, otherwise the project's first matching status (or none) is used
+export const syncStatuses = (store: MemoryStore, tasks: StoredTask[]) => {
+  for (const task of tasks) {
+    const agrees = (status: ProjectStatusRow) => status.project_id === task.project_id && status.is_done === task.completed;
+    if (store.projectStatuses.some((status) => status.id === task.status_id && agrees(status))) continue;
+    const first = store.projectStatuses.filter(agrees).sort((a, b) => a.position - b.position || a.id - b.id)[0];
+    task.status_id = first?.id ?? null;
+  }
+};
+
+// Seconds of focus time recorded for the task: the sum of its finished sessions' durations
+export const trackedSeconds = (store: MemoryStore, taskId: number) => store.focusSessions
+  .filter((session) => session.task_id === taskId)
+  .reduce((sum, session) => sum + (session.duration ?? 0), 0);
+
+// Removes a task and everything that references it, like the ON DELETE rules on tasks.id
+export const deleteTaskRows = (store: MemoryStore, taskIds: number[]) => {
+  const ids = new Set(taskIds);
+  store.tasks = store.tasks.filter((task) => !ids.has(task.id));
+  store.tasks.forEach((task) => {
+    if (task.parent_task_id !== null && ids.has(task.parent_task_id)) task.parent_task_id = null;
+  });
+  store.taskTags = store.taskTags.filter((link) => !ids.has(link.task_id));
+  store.taskDependencies = store.taskDependencies.filter((link) => !ids.has(link.task_id) && !ids.has(link.blocked_by_id));
+  store.reminders = store.reminders.filter((reminder) => !ids.has(reminder.task_id));
+  store.notifications = store.notifications.filter((notification) => notification.task_id === null || !ids.has(notification.task_id));
+  store.focusSessions.forEach((session) => {
+    if (session.task_id !== null && ids.has(session.task_id)) session.task_id = null;
+  });
+};
+
+export const createTaskRepository = (store: MemoryStore): TaskRepository => {
+  // The tasks outside the trash that `task` waits on, in ID order
+  const blockersOf = (task: StoredTask) => store.taskDependencies
+    .filter((link) => link.task_id === task.id)
+    .map((link) => store.tasks.find((blocker) => blocker.id === link.blocked_by_id)!)
+    .filter((blocker) => blocker.deleted_at === null)
+    .sort((a, b) => a.id - b.id);
+
+  const isBlocked = (task: StoredTask) => blockersOf(task).some((blocker) => !blocker.completed);
+
+  const isArchived = (task: StoredTask) =>
+    store.projects.some((project) => project.id === task.project_id && project.archived_at !== null);
+
+  // In a shared project the user only views
+  const isReadOnly = (task: StoredTask, userId: string) =>
+    store.projects.some((project) => project.id === task.project_id && projectRole(store, project, userId) === 'viewer');
+
+  // The task as the API returns it, with its tags, reminders, subtask counts, blockers and tracked time
+  const present = (task: StoredTask): TaskRow => {
+    const subtasks = store.tasks.filter((child) => child.parent_task_id === task.id && child.deleted_at === null);
+    return {
+      ...task,
+      dueDate: task.duedate,
+      tags: store.taskTags
+        .filter((link) => link.task_id === task.id)
+        .map((link) => store.tags.find((tag) => tag.id === link.tag_id)!)
+        .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()))
+        .map(({ id, name, color }) => ({ id, name, color })),
+      reminders: store.reminders
+        .filter((reminder) => reminder.task_id === task.id)
+        .sort((a, b) =>
+          (b.offset_minutes ?? -Infinity) - (a.offset_minutes ?? -Infinity)
+          || (a.remind_at?.getTime() ?? 0) - (b.remind_at?.getTime() ?? 0)
+          || a.id - b.id)
+        .map(({ id, remind_at, offset_minutes, sent_at }) => ({ id, remind_at, offset_minutes, sent_at })),
+      subtask_count: subtasks.length,
+      subtasks_completed: subtasks.filter((child) => child.completed).length,
+      blocked_by: blockersOf(task).map(({ id, title, completed }) => ({ id, title, completed })),
+      tracked_seconds: trackedSeconds(store, task.id),
+      assignee_email: task.assignee_id === null ? null : store.users.get(task.assignee_id)?.email ?? null,
+    };
+  };
+
+  const findStored = (id: number | string, userId: string) =>
+    store.tasks.find((task) => sameId(task.id, id) && canSeeItem(store, task, userId) && task.deleted_at === null);
+
+  const insertReminder = (taskId: number, userId: string, reminder: ReminderInput) => {
+    store.reminders.push({
+      id: store.nextId('task_reminders'),
+      task_id: taskId,
+      user_id: userId,
+      remind_at: 'remind_at' in reminder ? new Date(reminder.remind_at) : null,
+      offset_minutes: 'offset_minutes' in reminder ? reminder.offset_minutes : null,
+      sent_at: null,
+      created_at: new Date(),
+    });
+  };
+
+  // Position above every task the user sees in the project
+  const topPosition = (userId: string, projectId: number | null) => {
+    const positions = store.tasks
+      .filter((task) => task.project_id === projectId && canSeeItem(store, task, userId))
+      .map((task) => task.position);
+    return (positions.length > 0 ? Math.min(...positions) : 1) - 1;
+  };
+
+  const insertTask = (userId: string, fields: Omit<StoredTask, 'id' | 'user_id' | 'created_at' | 'updated_at' | 'deleted_at'>) => {
+    const now = new Date();
+    const task: StoredTask = {
+      id: store.nextId('tasks'), user_id: userId, ...fields, created_at: now, updated_at: now, deleted_at: null,
+    };
+    store.tasks.push(task);
+    return task;
+  };
+
+  const createTask = (userId: string, input: TaskInput) => {
+    const task = insertTask(userId, {
+      title: input.title,
+      description: input.description,
+      completed: input.completed,
+      duedate: toDate(input.dueDate),
+      priority: input.priority,
+      project_id: input.project_id,
+      parent_task_id: input.parent_task_id,
+      is_recurring: input.is_recurring,
+      recurrence_pattern: input.recurrence_pattern,
+      position: topPosition(userId, input.project_id),
+      status_id: input.status_id,
+      estimate_minutes: input.estimate_minutes,
+      assignee_id: null,
+    });
+    syncStatuses(store, [task]);
+    input.reminders.forEach((reminder) => insertReminder(task.id, userId, reminder));
+    return present(task);
+  };
+
+  return {
+    async list(userId, filters) {
+      const tagMatches = (task: StoredTask, tag: string) => store.taskTags.some((link) => {
+        if (link.task_id !== task.id) return false;
+        if (/^\d+$/.test(tag)) return sameId(link.tag_id, tag);
+        const row = store.tags.find((t) => t.id === link.tag_id);
+        return row?.user_id === task.user_id && row.name.toLowerCase() === tag.toLowerCase();
+      });
+
+      const matching = store.tasks.filter((task) =>
+        canSeeItem(store, task, userId)
+        && task.deleted_at === null
+        && (filters.completed === undefined || task.completed === filters.completed)
+        && (filters.projectId === undefined || task.project_id === filters.projectId)
+        && (filters.parentId === undefined || task.parent_task_id === filters.parentId)
+        && (!filters.dueFrom || (task.duedate !== null && task.duedate >= new Date(filters.dueFrom)))
+        && (!filters.dueTo || (task.duedate !== null && task.duedate < new Date(filters.dueTo)))
+        && (filters.hasDueDate === undefined || (task.duedate !== null) === filters.hasDueDate)
+        && (!filters.priorities || filters.priorities.includes(task.priority ?? ''))
+        && (!filters.search || containsText(task.title, filters.search) || containsText(task.description, filters.search))
+        && (!filters.tag || tagMatches(task, filters.tag))
+        && (filters.blocked === undefined || isBlocked(task) === filters.blocked)
+        && (filters.archived === undefined || isArchived(task) === filters.archived)
+        && (filters.assigneeId === undefined || task.assignee_id === filters.assigneeId));
+
+      const { limit, offset } = filters.page;
+      const sorted = sortRows(matching, TASK_SORT_VALUES[filters.sort.key], filters.sort.descending);
+      return { rows: sorted.slice(offset, offset + limit).map(present), total: matching.length };
+    },
+
+    async find(id, userId) {
+      const task = findStored(id, userId);
+      return task ? present(task) : null;
+    },
+
+    async exists(id, userId) {
+      return !!findStored(id, userId);
+    },
+
+    async create(userId, input) {
+      return createTask(userId, input);
+    },
+
+    // Creating a task cannot fail partway in memory, so this is all or nothing as well
+    async createMany(userId, inputs) {
+      return inputs.map((input) => createTask(userId, input));
+    },
+
+    async update(id, userId, { dueDate, ...patch }: TaskPatch) {
+      const task = findStored(id, userId);
+      if (!task) return null;
+
+      applyPatch(task, { ...patch, duedate: dueDate === undefined ? undefined : toDate(dueDate) }, TASK_COLUMNS);
+      task.updated_at = new Date();
+      syncStatuses(store, [task]);
+
+      // Reminders relative to the due date fire again for the new date
+      if (dueDate !== undefined) {
+        store.reminders.forEach((reminder) => {
+          if (reminder.task_id === task.id && reminder.offset_minutes !== null) reminder.sent_at = null;
+        });
+      }
+
+      return present(task);
+    },
+
+    async delete(id, userId) {
+      const task = findStored(id, userId);
+      if (!task) return false;
+      const now = new Date();
+      subtree(store, [task], (child) => child.deleted_at === null).forEach((row) => { row.deleted_at = now; });
+      return true;
+    },
+
+    async subtaskIds(id, userId) {
+      const task = findStored(id, userId);
+      if (!task) return [];
+      return subtree(store, [task], (child) => child.deleted_at === null)
+        .filter((row) => row !== task)
+        .map((row) => row.id)
+        .sort((a, b) => a - b);
+    },
+
+    async createOccurrence(task, { dueDate, recurrence_pattern, reminderShiftMs }) {
+      const next = insertTask(task.user_id, {
+        title: task.title,
+        description: task.description,
+        completed: false,
+        duedate: dueDate,
+        priority: task.priority,
+        project_id: task.project_id,
+        parent_task_id: task.parent_task_id,
+        is_recurring: true,
+        recurrence_pattern,
+        position: task.position, // The next occurrence takes the completed task's place in the manual order
+        status_id: null,
+        estimate_minutes: task.estimate_minutes,
+        assignee_id: task.assignee_id,
+      });
+      syncStatuses(store, [next]);
+
+      store.taskTags
+        .filter((link) => link.task_id === task.id)
+        .forEach((link) => store.taskTags.push({ task_id: next.id, tag_id: link.tag_id }));
+
+      store.reminders
+        .filter((reminder) => reminder.task_id === task.id)
+        .forEach((reminder) => store.reminders.push({
+          ...reminder,
+          id: store.nextId('task_reminders'),
+          task_id: next.id,
+          remind_at: reminder.remind_at && new Date(reminder.remind_at.getTime() + reminderShiftMs),
+          sent_at: null,
+          created_at: new Date(),
+        }));
+
+      return present(next);
+    },
+
+    async addTag(id, tagId) {
+      if (!store.taskTags.some((link) => sameId(link.task_id, id) && sameId(link.tag_id, tagId))) {
+        store.taskTags.push({ task_id: Number(id), tag_id: Number(tagId) });
+      }
+    },
+
+    async removeTag(id, tagId) {
+      store.taskTags = store.taskTags.filter((link) => !(sameId(link.task_id, id) && sameId(link.tag_id, tagId)));
+    },
+
+    async addReminder(id, userId, reminder) {
+      insertReminder(Number(id), userId, reminder);
+    },
+
+    async removeReminder(id, userId, reminderId) {
+      const index = store.reminders.findIndex((reminder) =>
+        sameId(reminder.id, reminderId) && sameId(reminder.task_id, id) && reminder.user_id === userId);
+      if (index === -1) return false;
+      store.reminders.splice(index, 1);
+      return true;
+    },
+
+    async setPosition(id, userId, position) {
+      const task = findStored(id, userId);
+      if (!task) return null;
+      task.position = position;
+      return present(task);
+    },
+
+    async renumberPositions(ids, userId) {
+      const scopes = store.tasks.filter((task) => ids.some((id) => sameId(task.id, id)));
+      const siblings = store.tasks.filter((task) => canSeeItem(store, task, userId) && scopes.some((scope) =>
+        scope.project_id === task.project_id && scope.parent_task_id === task.parent_task_id));
+      // Same order as the Postgres renumber: position, ties broken by the newest task first
+      siblings
+        .sort((a, b) => a.position - b.position || b.id - a.id)
+        .forEach((task, index) => { task.position = index + 1; });
+    },
+
+    async addDependency(id, blockedById) {
+      const linked = store.taskDependencies.some((link) => sameId(link.task_id, id) && sameId(link.blocked_by_id, blockedById));
+      if (!linked) store.taskDependencies.push({ task_id: Number(id), blocked_by_id: Number(blockedById) });
+    },
+
+    async removeDependency(id, blockedById) {
+      const index = store.taskDependencies.findIndex((link) => sameId(link.task_id, id) && sameId(link.blocked_by_id, blockedById));
+      if (index === -1) return false;
+      store.taskDependencies.splice(index, 1);
+      return true;
+    },
+
+    async blockerIds(id) {
+      const found = new Set<number>();
+      const pending = [Number(id)];
+      while (pending.length > 0) {
+        const taskId = pending.pop()!;
+        store.taskDependencies.forEach((link) => {
+          if (link.task_id !== taskId || found.has(link.blocked_by_id)) return;
+          found.add(link.blocked_by_id);
+          pending.push(link.blocked_by_id);
+        });
+      }
+      return [...found].sort((a, b) => a - b);
+    },
+
+    async unblockedBy(userId, blockerId) {
+      return store.tasks
+        .filter((task) =>
+          canSeeItem(store, task, userId)
+          && task.deleted_at === null
+          && !task.completed
+          && store.taskDependencies.some((link) => link.task_id === task.id && link.blocked_by_id === blockerId)
+          && !isBlocked(task))
+        .sort((a, b) => a.id - b.id)
+        .map(present);
+    },
+
+    async bulk(userId, ids, operation) {
+      const rows = ids.map((id) => findStored(id, userId));
+      const missingIds = ids.filter((_, index) => !rows[index]);
+      if (missingIds.length > 0) {
+        return { missingIds, archivedIds: [], readOnlyIds: [], tasks: [], previous: [], completedIds: [] };
+      }
+      const tasks = [...(rows as StoredTask[])].sort((a, b) => a.id - b.id);
+      const readOnlyIds = tasks.filter((task) => isReadOnly(task, userId)).map((task) => task.id);
+      if (readOnlyIds.length > 0) {
+        return { missingIds: [], archivedIds: [], readOnlyIds, tasks: [], previous: [], completedIds: [] };
+      }
+      const archivedIds = tasks.filter((task) => isArchived(task)).map((task) => task.id);
+      if (archivedIds.length > 0) {
+        return { missingIds: [], archivedIds, readOnlyIds: [], tasks: [], previous: [], completedIds: [] };
+      }
+      const previous = tasks.map(present);
+
+      if (operation.type === 'delete') {
+        const now = new Date();
+        subtree(store, tasks, (child) => child.deleted_at === null).forEach((task) => { task.deleted_at = now; });
+        return { missingIds: [], archivedIds: [], readOnlyIds: [], tasks: [], previous, completedIds: [] };
+      }
+
+      const completedIds = operation.type === 'complete'
+        ? tasks.filter((task) => !task.completed).map((task) => task.id)
+        : [];
+
+      for (const task of tasks) {
+        switch (operation.type) {
+          case 'complete':
+          case 'uncomplete':
+            task.completed = operation.type === 'complete';
+            break;
+          case 'move':
+            task.project_id = operation.project_id || null; // 0 means no project
+            // As with PUT, a task whose assignee cannot work in the new project is unassigned
+            if (task.assignee_id !== null && !canChangeItem(store, task, task.assignee_id)) task.assignee_id = null;
+            break;
+          case 'set_priority':
+            task.priority = operation.priority;
+            break;
+          case 'set_due_date':
+            task.duedate = toDate(operation.dueDate);
+            // Reminders relative to the due date fire again for the new date
+            store.reminders.forEach((reminder) => {
+              if (reminder.task_id === task.id && reminder.offset_minutes !== null) reminder.sent_at = null;
+            });
+            break;
+          case 'add_tag':
+            if (!store.taskTags.some((link) => link.task_id === task.id && link.tag_id === operation.tag_id)) {
+              store.taskTags.push({ task_id: task.id, tag_id: operation.tag_id });
+            }
+            continue; // Tagging does not touch updated_at
+        }
+        task.updated_at = new Date();
+      }
+      syncStatuses(store, tasks);
+
+      return { missingIds: [], archivedIds: [], readOnlyIds: [], tasks: tasks.map(present), previous, completedIds };
+    },
+  };
+};
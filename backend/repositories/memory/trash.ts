@@ -0,0 +1,137 @@
+import { ProjectRow, TRASH_ITEM_TYPES, TrashItem, TrashItemType, TrashRepository } from '../types';
+import { canChangeItem, canSeeItem, canSeeProject, ownsProject, projectRole } from './access';
+import { MemoryStore, StoredTask, sameId } from './store';
+import { deleteTaskRows, subtree } from './tasks';
+
+type TrashRow = { id: number; user_id: string; project_id?: number | null; parent_task_id?: number | null; deleted_at: Date | null };
+
+export const createTrashRepository = (store: MemoryStore): TrashRepository => {
+  const tableOf = (type: TrashItemType): TrashRow[] =>
+    type === 'project' ? store.projects : type === 'task' ? store.tasks : store.notes;
+
+  // The user sees the row in their trash
+  const visible = (type: TrashItemType, row: TrashRow, userId: string) => type === 'project'
+    ? canSeeProject(store, row as ProjectRow, userId)
+    : canSeeItem(store, { user_id: row.user_id, project_id: row.project_id ?? null }, userId);
+
+  // The user may restore or purge the row. Tasks and notes that went to the trash with their project are
+  // only removed with it, by its owners.
+  const changeable = (type: TrashItemType, row: TrashRow, userId: string) => {
+    if (type === 'project') return ownsProject(store, row as ProjectRow, userId);
+    const project = store.projects.find((candidate) => candidate.id === row.project_id);
+    return canChangeItem(store, { user_id: row.user_id, project_id: row.project_id ?? null }, userId)
+      && (!project || project.deleted_at === null || ownsProject(store, project, userId));
+  };
+
+  const findTrashed = (type: TrashItemType, id: number | string, userId: string) =>
+    tableOf(type).find((row) => sameId(row.id, id) && row.deleted_at !== null && visible(type, row, userId));
+
+  const projectInTrash = (projectId: number | null | undefined) =>
+    store.projects.some((project) => project.id === projectId && project.deleted_at !== null);
+
+  const parentInTrash = (parentId: number | null | undefined) =>
+    store.tasks.some((task) => task.id === parentId && task.deleted_at !== null);
+
+  // A task in the trash and the subtasks that were deleted with it
+  const trashedSubtree = (row: TrashRow) => {
+    const deletedAt = row.deleted_at!.getTime();
+    return subtree(store, [row as StoredTask], (child) => child.deleted_at?.getTime() === deletedAt);
+  };
+
+  // Delete rows for good, like DELETE ... with the ON DELETE CASCADE rules. Returns the number of rows removed.
+  const removeProjects = (ids: Set<number>) => {
+    const before = store.tasks.length + store.notes.length + store.projects.length;
+    deleteTaskRows(store, store.tasks.filter((task) => task.project_id !== null && ids.has(task.project_id)).map((task) => task.id));
+    store.notes = store.notes.filter((note) => note.project_id === null || !ids.has(note.project_id));
+    store.projectStatuses = store.projectStatuses.filter((status) => !ids.has(status.project_id));
+    store.projects = store.projects.filter((project) => !ids.has(project.id));
+    return before - (store.tasks.length + store.notes.length + store.projects.length);
+  };
+
+  const removeWhere = (matches: (row: TrashRow) => boolean) => {
+    const tasks = store.tasks.filter(matches).map((task) => task.id);
+    const notes = store.notes.filter(matches).length;
+    deleteTaskRows(store, tasks);
+    store.notes = store.notes.filter((note) => !matches(note));
+    return tasks.length + notes + removeProjects(new Set(store.projects.filter(matches).map((project) => project.id)));
+  };
+
+  return {
+    async list(userId) {
+      const trashed = (type: TrashItemType) => (row: TrashRow) => row.deleted_at !== null && visible(type, row, userId);
+
+      const items: TrashItem[] = [
+        ...store.projects.filter(trashed('project')).map((project) => ({
+          type: 'project' as const,
+          id: project.id,
+          title: project.name,
+          project_id: null,
+          deleted_at: project.deleted_at!,
+          read_only: !changeable('project', project, userId),
+          task_count: store.tasks.filter((task) =>
+            task.project_id === project.id && task.deleted_at?.getTime() === project.deleted_at!.getTime()).length,
+          note_count: store.notes.filter((note) =>
+            note.project_id === project.id && note.deleted_at?.getTime() === project.deleted_at!.getTime()).length,
+        })),
+        ...store.tasks.filter((task) =>
+          trashed('task')(task) && !projectInTrash(task.project_id) && !parentInTrash(task.parent_task_id)).map((task) => ({
+          type: 'task' as const, id: task.id, title: task.title, project_id: task.project_id, deleted_at: task.deleted_at!,
+          read_only: !changeable('task', task, userId),
+        })),
+        ...store.notes.filter((note) => trashed('note')(note) && !projectInTrash(note.project_id)).map((note) => ({
+          type: 'note' as const, id: note.id, title: note.title, project_id: note.project_id, deleted_at: note.deleted_at!,
+          read_only: !changeable('note', note, userId),
+        })),
+      ];
+
+      return items.sort((a, b) => b.deleted_at.getTime() - a.deleted_at.getTime() || b.id - a.id);
+    },
+
+    async find(type, id, userId) {
+      const row = findTrashed(type, id, userId);
+      if (!row) return null;
+      // The project may be in the trash itself
+      const project = store.projects.find((candidate) => candidate.id === (type === 'project' ? row.id : row.project_id));
+      return { type, id: row.id, project: project ? { ...project, role: projectRole(store, project, userId) } : null };
+    },
+
+    async restore(type, id, userId) {
+      const row = findTrashed(type, id, userId);
+      if (!row) return 'not_found';
+
+      if (type === 'project') {
+        const deletedAt = row.deleted_at!.getTime();
+        for (const child of [...store.tasks, ...store.notes]) {
+          if (child.project_id === row.id && child.deleted_at?.getTime() === deletedAt) child.deleted_at = null;
+        }
+      } else if (projectInTrash(row.project_id)) {
+        return 'project_in_trash';
+      } else if (type === 'task') {
+        if (parentInTrash(row.parent_task_id)) return 'parent_in_trash';
+        trashedSubtree(row).forEach((task) => { task.deleted_at = null; });
+      }
+
+      row.deleted_at = null;
+      return 'restored';
+    },
+
+    async purge(type, id, userId) {
+      const row = findTrashed(type, id, userId);
+      if (!row) return false;
+      const rows = type === 'task' ? new Set<TrashRow>(trashedSubtree(row)) : new Set([row]);
+      removeWhere((candidate) => rows.has(candidate));
+      return true;
+    },
+
+    async empty(userId) {
+      // Decide for every row before any is removed, as the rows of a project are checked against the project
+      const rows = new Set<TrashRow>(TRASH_ITEM_TYPES.flatMap((type) =>
+        tableOf(type).filter((row) => row.deleted_at !== null && changeable(type, row, userId))));
+      return removeWhere((row) => rows.has(row));
+    },
+
+    async purgeExpired(cutoff) {
+      return removeWhere((row) => row.deleted_at !== null && row.deleted_at < cutoff);
+    },
+  };
+};
@@ -0,0 +1,11 @@
+import { UserRepository } from '../types';
+import { MemoryStore } from './store';
+
+export const createUserRepository = (store: MemoryStore): UserRepository => ({
+  async ensure(id, email) {
+    if (store.users.has(id)) return false;
+    const now = new Date();
+    store.users.set(id, { id, email, created_at: now, updated_at: now });
+    return true;
+  },
+});
@@ -0,0 +1,30 @@
+// Who can see which rows (see migrations/015_organizations.up.sql). `user` is the placeholder of the
+// user's ID in the query, e.g. '$2'. Personal projects are seen by their creator only; projects with an
+// org_id by every member of the organization. Tasks and notes in a project are seen by whoever sees the
+// project, whoever created them; tasks and notes outside any project only by their creator.
+
+// Condition on the project `alias`
+export const canSeeProject = (alias: string, user: string) =>
+  `(${alias}.org_id IS NULL AND ${alias}.user_id = ${user}
+    OR ${alias}.org_id IN (SELECT om.org_id FROM organization_members om WHERE om.user_id = ${user}))`;
+
+// Condition on the task or note `alias` (any table with user_id and project_id)
+export const canSeeItem = (alias: string, user: string) =>
+  `(CASE WHEN ${alias}.project_id IS NULL THEN ${alias}.user_id = ${user}
+    ELSE EXISTS (SELECT 1 FROM projects vp WHERE vp.id = ${alias}.project_id AND ${canSeeProject('vp', user)}) END)`;
+
+// Condition on the task or note `alias`: the user may change it (see lib/projectAccess.ts). In a project that
+// takes an owner or editor while the project is not archived; outside any project, its creator.
+export const canChangeItem = (alias: string, user: string) =>
+  `(CASE WHEN ${alias}.project_id IS NULL THEN ${alias}.user_id = ${user}
+    ELSE EXISTS (SELECT 1 FROM projects cp WHERE cp.id = ${alias}.project_id AND cp.archived_at IS NULL
+      AND ${canSeeProject('cp', user)} AND ${projectRole('cp', user)} <> 'viewer') END)`;
+
+// Condition on the project `alias`: the user is one of its owners
+export const ownsProject = (alias: string, user: string) =>
+  `(${canSeeProject(alias, user)} AND ${projectRole(alias, user)} = 'owner')`;
+
+// The user's role in the project `alias`, which they can see
+export const projectRole = (alias: string, user: string) =>
+  `CASE WHEN ${alias}.org_id IS NULL THEN 'owner'
+    ELSE (SELECT om.role FROM organization_members om WHERE om.org_id = ${alias}.org_id AND om.user_id = ${user}) END`;
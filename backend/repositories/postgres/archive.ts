@@ -0,0 +1,178 @@
+import { query, withTransaction } from '../../lib/db';
+import { ArchiveRepository, ImportCounts } from '../types';
+
+export const archiveRepository: ArchiveRepository = {
+  async read(userId) {
+    const [projects, tags, tasks, notes, focusSessions] = await Promise.all([
+      query(
+        `SELECT id, user_id, name, color, description, created_at, updated_at, deleted_at, archived_at
+         FROM projects WHERE user_id = $1 AND deleted_at IS NULL ORDER BY id`,
+        [userId]
+      ),
+      query('SELECT * FROM tags WHERE user_id = $1 ORDER BY id', [userId]),
+      query(
+        `SELECT t.id, t.user_id, t.title, t.description, t.completed, t.duedate, t.priority, t.is_recurring,
+           t.recurrence_pattern, t.project_id, t.parent_task_id, t.position, t.estimate_minutes, t.created_at, t.updated_at,
+           t.deleted_at,
+           COALESCE((SELECT json_agg(tt.tag_id ORDER BY tt.tag_id) FROM task_tags tt WHERE tt.task_id = t.id), '[]'::json) AS tag_ids,
+           COALESCE((
+             SELECT json_agg(d.blocked_by_id ORDER BY d.blocked_by_id) FROM task_dependencies d WHERE d.task_id = t.id
+           ), '[]'::json) AS blocked_by_ids,
+           COALESCE((
+             SELECT json_agg(json_build_object(
+               'remind_at', r.remind_at, 'offset_minutes', r.offset_minutes, 'sent_at', r.sent_at
+             ) ORDER BY r.id)
+             FROM task_reminders r
+             WHERE r.task_id = t.id
+           ), '[]'::json) AS reminders
+         FROM tasks t
+         WHERE t.user_id = $1 AND t.deleted_at IS NULL
+         ORDER BY t.id`,
+        [userId]
+      ),
+      query(
+        `SELECT id, user_id, title, content, project_id, created_at, updated_at, deleted_at
+         FROM notes WHERE user_id = $1 AND deleted_at IS NULL ORDER BY id`,
+        [userId]
+      ),
+      query('SELECT * FROM focus_sessions WHERE user_id = $1 ORDER BY id', [userId]),
+    ]);
+
+    return {
+      projects: projects.rows,
+      tags: tags.rows,
+      tasks: tasks.rows,
+      notes: notes.rows,
+      focusSessions: focusSessions.rows,
+    };
+  },
+
+  write(userId, archive) {
+    return withTransaction(async (client) => {
+      const counts: ImportCounts = { projects: 0, tags: 0, tasks: 0, notes: 0, focus_sessions: 0 };
+      // Archive ID -> ID of the inserted (or merged) row
+      const projectIds = new Map<number, number>();
+      const tagIds = new Map<number, number>();
+      const taskIds = new Map<number, number>();
+      const mapId = (ids: Map<number, number>, id: number | null | undefined) => (id ? ids.get(id) ?? null : null);
+
+      const insert = async (sql: string, values: unknown[]) => (await client.query(sql, values)).rows[0].id as number;
+
+      for (const project of archive.projects) {
+        projectIds.set(project.id, await insert(
+          `INSERT INTO projects (user_id, name, color, description, created_at, updated_at, archived_at)
+           VALUES ($1, $2, $3, $4, COALESCE($5, CURRENT_TIMESTAMP), COALESCE($6, CURRENT_TIMESTAMP), $7) RETURNING id`,
+          [
+            userId, project.name, project.color ?? null, project.description ?? null, project.created_at ?? null,
+            project.updated_at ?? null, project.archived_at ?? null,
+          ]
+        ));
+        counts.projects++;
+      }
+
+      const existingTags = await client.query('SELECT id, LOWER(name) AS name FROM tags WHERE user_id = $1', [userId]);
+      const tagsByName = new Map<string, number>(existingTags.rows.map((tag) => [tag.name, tag.id]));
+      for (const tag of archive.tags) {
+        let id = tagsByName.get(tag.name.toLowerCase());
+        if (id === undefined) {
+          id = await insert(
+            'INSERT INTO tags (user_id, name, color, created_at) VALUES ($1, $2, $3, COALESCE($4, CURRENT_TIMESTAMP)) RETURNING id',
+            [userId, tag.name, tag.color ?? null, tag.created_at ?? null]
+          );
+          counts.tags++;
+        }
+        tagIds.set(tag.id, id);
+      }
+
+      for (const task of archive.tasks) {
+        const id = await insert(
+          `INSERT INTO tasks (user_id, title, description, completed, dueDate, priority, project_id, is_recurring,
+             recurrence_pattern, created_at, updated_at, position, estimate_minutes)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, COALESCE($10, CURRENT_TIMESTAMP), COALESCE($11, CURRENT_TIMESTAMP), $12, $13)
+           RETURNING id`,
+          [
+            userId,
+            task.title,
+            task.description ?? null,
+            task.completed ?? false,
+            task.dueDate ?? null,
+            task.priority ?? null,
+            mapId(projectIds, task.project_id),
+            task.is_recurring ?? false,
+            task.recurrence_pattern ?? null,
+            task.created_at ?? null,
+            task.updated_at ?? null,
+            task.position ?? 0,
+            task.estimate_minutes ?? null,
+          ]
+        );
+        taskIds.set(task.id, id);
+        counts.tasks++;
+
+        for (const tagId of new Set(task.tag_ids ?? [])) {
+          await client.query('INSERT INTO task_tags (task_id, tag_id) VALUES ($1, $2)', [id, tagIds.get(tagId)]);
+        }
+        for (const reminder of task.reminders ?? []) {
+          await client.query(
+            'INSERT INTO task_reminders (task_id, user_id, remind_at, offset_minutes, sent_at) VALUES ($1, $2, $3, $4, $5)',
+            [
+              id,
+              userId,
+              'remind_at' in reminder ? reminder.remind_at : null,
+              'offset_minutes' in reminder ? reminder.offset_minutes : null,
+              reminder.sent_at ?? null,
+            ]
+          );
+        }
+      }
+
+      // Subtasks point at their parent once every task has its new ID
+      for (const task of archive.tasks) {
+        if (!task.parent_task_id) continue;
+        await client.query('UPDATE tasks SET parent_task_id = $1 WHERE id = $2', [
+          mapId(taskIds, task.parent_task_id),
+          taskIds.get(task.id),
+        ]);
+      }
+
+      // Likewise for the tasks they wait on
+      for (const task of archive.tasks) {
+        for (const blockerId of new Set(task.blocked_by_ids ?? [])) {
+          await client.query('INSERT INTO task_dependencies (task_id, blocked_by_id) VALUES ($1, $2)', [
+            taskIds.get(task.id),
+            mapId(taskIds, blockerId),
+          ]);
+        }
+      }
+
+      for (const note of archive.notes) {
+        await client.query(
+          `INSERT INTO notes (user_id, title, content, project_id, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, COALESCE($5, CURRENT_TIMESTAMP), COALESCE($6, CURRENT_TIMESTAMP))`,
+          [userId, note.title, note.content ?? null, mapId(projectIds, note.project_id), note.created_at ?? null, note.updated_at ?? null]
+        );
+        counts.notes++;
+      }
+
+      for (const session of archive.focus_sessions) {
+        await client.query(
+          `INSERT INTO focus_sessions (user_id, start_time, end_time, duration, session_type, notes, task_id, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, CURRENT_TIMESTAMP))`,
+          [
+            userId,
+            session.start_time,
+            session.end_time ?? null,
+            session.duration ?? null,
+            session.session_type ?? null,
+            session.notes ?? null,
+            mapId(taskIds, session.task_id),
+            session.created_at ?? null,
+          ]
+        );
+        counts.focus_sessions++;
+      }
+
+      return counts;
+    });
+  },
+};
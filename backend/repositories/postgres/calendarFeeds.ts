@@ -0,0 +1,29 @@
+import { query } from '../../lib/db';
+import { CalendarFeedRepository } from '../types';
+
+export const calendarFeedRepository: CalendarFeedRepository = {
+  async find(userId) {
+    const result = await query('SELECT * FROM calendar_feeds WHERE user_id = $1', [userId]);
+    return result.rows[0] ?? null;
+  },
+
+  async findByToken(token) {
+    const result = await query('SELECT * FROM calendar_feeds WHERE token = $1', [token]);
+    return result.rows[0] ?? null;
+  },
+
+  async save(userId, token) {
+    const result = await query(
+      `INSERT INTO calendar_feeds (user_id, token) VALUES ($1, $2)
+       ON CONFLICT (user_id) DO UPDATE SET token = EXCLUDED.token, created_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [userId, token]
+    );
+    return result.rows[0];
+  },
+
+  async delete(userId) {
+    const result = await query('DELETE FROM calendar_feeds WHERE user_id = $1', [userId]);
+    return (result.rowCount ?? 0) > 0;
+  },
+};
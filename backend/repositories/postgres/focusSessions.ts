@@ -0,0 +1,97 @@
+import { query } from '../../lib/db';
+import { buildUpdate } from '../../lib/patch';
+import { FocusSessionRepository } from '../types';
+
+const FOCUS_SESSION_COLUMNS = ['start_time', 'end_time', 'duration', 'session_type', 'notes', 'task_id'] as const;
+
+export const focusSessionRepository: FocusSessionRepository = {
+  async list(userId, { from, to, taskId }) {
+    const conditions = ['user_id = $1'];
+    const params: any[] = [userId];
+
+    if (from) {
+      params.push(from);
+      conditions.push(`start_time >= $${params.length}`);
+    }
+
+    if (to) {
+      params.push(to);
+      conditions.push(`start_time < $${params.length}`);
+    }
+
+    if (taskId !== undefined) {
+      params.push(taskId);
+      conditions.push(`task_id = $${params.length}`);
+    }
+
+    const result = await query(
+      `SELECT * FROM focus_sessions WHERE ${conditions.join(' AND ')} ORDER BY start_time DESC`,
+      params
+    );
+    return result.rows;
+  },
+
+  async find(id, userId) {
+    const result = await query('SELECT * FROM focus_sessions WHERE id = $1 AND user_id = $2', [id, userId]);
+    return result.rows[0] || null;
+  },
+
+  async findActive(userId) {
+    const result = await query(
+      'SELECT * FROM focus_sessions WHERE user_id = $1 AND end_time IS NULL ORDER BY start_time DESC LIMIT 1',
+      [userId]
+    );
+    return result.rows[0] || null;
+  },
+
+  async create(userId, { start_time, end_time, duration, session_type, notes, task_id }) {
+    const result = await query(
+      'INSERT INTO focus_sessions (start_time, end_time, duration, session_type, notes, task_id, user_id) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *',
+      [start_time, end_time, duration, session_type, notes, task_id, userId]
+    );
+    return result.rows[0];
+  },
+
+  async start(userId, { session_type, notes, task_id }) {
+    const result = await query(
+      'INSERT INTO focus_sessions (start_time, session_type, notes, task_id, user_id) VALUES (CURRENT_TIMESTAMP, $1, $2, $3, $4) RETURNING *',
+      [session_type, notes, task_id, userId]
+    );
+    return result.rows[0];
+  },
+
+  async stop(id, userId, notes) {
+    const result = await query(
+      `UPDATE focus_sessions
+       SET end_time = CURRENT_TIMESTAMP,
+           duration = EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - start_time))::INTEGER,
+           notes = COALESCE($1, notes)
+       WHERE id = $2 AND user_id = $3 AND end_time IS NULL
+       RETURNING *`,
+      [notes, id, userId]
+    );
+    return result.rows[0] || null;
+  },
+
+  async update(id, userId, patch) {
+    const update = buildUpdate('focus_sessions', patch, FOCUS_SESSION_COLUMNS, { id, user_id: userId });
+    if (!update) return null;
+    const result = await query(update.text, update.values);
+    return result.rows[0] || null;
+  },
+
+  async delete(id, userId) {
+    const result = await query('DELETE FROM focus_sessions WHERE id = $1 AND user_id = $2 RETURNING id', [id, userId]);
+    return result.rows.length > 0;
+  },
+
+  async taskTotals(taskId) {
+    const result = await query(
+      `SELECT COALESCE(SUM(duration), 0)::INTEGER AS tracked_seconds, COUNT(*)::INTEGER AS session_count
+       FROM focus_sessions
+       WHERE task_id = $1 AND duration IS NOT NULL`,
+      [taskId]
+    );
+    return result.rows[0];
+  },
+};
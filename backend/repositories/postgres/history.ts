@@ -0,0 +1,21 @@
+import { query } from '../../lib/db';
+import { HistoryRepository } from '../types';
+
+export const historyRepository: HistoryRepository = {
+  async record({ user_id, entity_type, entity_id, action, changes, actor_id, source }) {
+    const result = await query(
+      `INSERT INTO change_history (user_id, entity_type, entity_id, action, changes, actor_id, source)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+      [user_id, entity_type, entity_id, action, JSON.stringify(changes), actor_id, source]
+    );
+    return result.rows[0];
+  },
+
+  async list(entityType, entityId) {
+    const result = await query(
+      'SELECT * FROM change_history WHERE entity_type = $1 AND entity_id = $2 ORDER BY id DESC',
+      [entityType, entityId]
+    );
+    return result.rows;
+  },
+};
@@ -0,0 +1,35 @@
+import { Repositories } from '../types';
+import { userRepository } from './users';
+import { organizationRepository } from './organizations';
+import { projectRepository } from './projects';
+import { tagRepository } from './tags';
+import { projectStatusRepository } from './statuses';
+import { taskRepository } from './tasks';
+import { noteRepository } from './notes';
+import { focusSessionRepository } from './focusSessions';
+import { notificationRepository } from './notifications';
+import { reminderRepository } from './reminders';
+import { trashRepository } from './trash';
+import { historyRepository } from './history';
+import { searchRepository } from './search';
+import { archiveRepository } from './archive';
+import { calendarFeedRepository } from './calendarFeeds';
+
+// Repositories backed by the Postgres database in DATABASE_URL (see lib/db.ts)
+export const createPostgresRepositories = (): Repositories => ({
+  users: userRepository,
+  organizations: organizationRepository,
+  projects: projectRepository,
+  tags: tagRepository,
+  statuses: projectStatusRepository,
+  tasks: taskRepository,
+  notes: noteRepository,
+  focusSessions: focusSessionRepository,
+  notifications: notificationRepository,
+  reminders: reminderRepository,
+  trash: trashRepository,
+  history: historyRepository,
+  search: searchRepository,
+  archive: archiveRepository,
+  calendarFeeds: calendarFeedRepository,
+});
@@ -0,0 +1,82 @@
+import { query } from '../../lib/db';
+import { buildUpdate } from '../../lib/patch';
+import { sortSql } from '../../lib/pagination';
+import { NoteRepository, NoteSortKey } from '../types';
+import { canSeeItem } from './access';
+
+const NOTE_COLUMNS = ['title', 'content', 'project_id'] as const;
+
+// Every column except search_vector, which only the search repository reads
+const NOTE_FIELDS = 'id, user_id, title, content, project_id, created_at, updated_at, deleted_at';
+
+const NOTE_SORT_COLUMNS: Record<NoteSortKey, string> = {
+  created_at: 'created_at',
+  updated_at: 'updated_at',
+  title: 'LOWER(title)',
+};
+
+export const noteRepository: NoteRepository = {
+  async list(userId, filters) {
+    const conditions = [canSeeItem('notes', '$1'), 'deleted_at IS NULL'];
+    const params: any[] = [userId];
+
+    if (filters.projectId === null) {
+      conditions.push('project_id IS NULL');
+    } else if (filters.projectId !== undefined) {
+      params.push(filters.projectId);
+      conditions.push(`project_id = $${params.length}`);
+    }
+
+    if (filters.search) {
+      params.push(`%${filters.search}%`);
+      conditions.push(`(title ILIKE $${params.length} OR content ILIKE $${params.length})`);
+    }
+
+    const where = conditions.join(' AND ');
+    const { limit, offset } = filters.page;
+
+    const countResult = await query(`SELECT COUNT(*)::INTEGER AS total FROM notes WHERE ${where}`, params);
+    const result = await query(
+      `SELECT ${NOTE_FIELDS} FROM notes WHERE ${where} ORDER BY ${sortSql(filters.sort, NOTE_SORT_COLUMNS)}, id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+    return { rows: result.rows, total: countResult.rows[0].total };
+  },
+
+  async find(id, userId) {
+    const result = await query(
+      `SELECT ${NOTE_FIELDS} FROM notes WHERE id = $1 AND ${canSeeItem('notes', '$2')} AND deleted_at IS NULL`,
+      [id, userId]
+    );
+    return result.rows[0] || null;
+  },
+
+  async create(userId, { title, content, project_id }) {
+    const result = await query(
+      `INSERT INTO notes (title, content, project_id, user_id) VALUES ($1, $2, $3, $4) RETURNING ${NOTE_FIELDS}`,
+      [title, content, project_id, userId]
+    );
+    return result.rows[0];
+  },
+
+  async update(id, userId, patch) {
+    const update = buildUpdate('notes', patch, NOTE_COLUMNS, { id, deleted_at: null }, {
+      touch: true,
+      returning: NOTE_FIELDS,
+    });
+    if (!update || !(await noteRepository.find(id, userId))) return null;
+    const result = await query(update.text, update.values);
+    return result.rows[0] || null;
+  },
+
+  async delete(id, userId) {
+    const result = await query(
+      `UPDATE notes SET deleted_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND ${canSeeItem('notes', '$2')} AND deleted_at IS NULL
+       RETURNING id`,
+      [id, userId]
+    );
+    return result.rows.length > 0;
+  },
+};
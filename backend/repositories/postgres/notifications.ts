@@ -0,0 +1,65 @@
+import { query } from '../../lib/db';
+import { NotificationRepository } from '../types';
+
+// Notifications are created by lib/reminderScheduler.ts and by the routes (e.g. when a task is no
+// longer blocked). The rest covers reading and dismissing them.
+export const notificationRepository: NotificationRepository = {
+  async create(userId, { task_id, reminder_id = null, type, title, body }) {
+    const result = await query(
+      `INSERT INTO notifications (user_id, task_id, reminder_id, type, title, body)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [userId, task_id, reminder_id, type, title, body]
+    );
+    return result.rows[0];
+  },
+
+  async list(userId, { unreadOnly, limit }) {
+    const result = await query(
+      `SELECT * FROM notifications
+       WHERE user_id = $1 ${unreadOnly ? 'AND read_at IS NULL' : ''}
+       ORDER BY id DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return result.rows;
+  },
+
+  async countUnread(userId) {
+    const result = await query(
+      'SELECT COUNT(*)::INTEGER AS count FROM notifications WHERE user_id = $1 AND read_at IS NULL',
+      [userId]
+    );
+    return result.rows[0].count;
+  },
+
+  async listSince(userId, afterId, limit) {
+    const result = await query(
+      'SELECT * FROM notifications WHERE user_id = $1 AND id > $2 ORDER BY id LIMIT $3',
+      [userId, afterId, limit]
+    );
+    return result.rows;
+  },
+
+  async markRead(id, userId) {
+    const result = await query(
+      `UPDATE notifications SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+       WHERE id = $1 AND user_id = $2
+       RETURNING *`,
+      [id, userId]
+    );
+    return result.rows[0] || null;
+  },
+
+  async markAllRead(userId) {
+    await query(
+      'UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND read_at IS NULL',
+      [userId]
+    );
+  },
+
+  async delete(id, userId) {
+    const result = await query('DELETE FROM notifications WHERE id = $1 AND user_id = $2 RETURNING id', [id, userId]);
+    return result.rows.length > 0;
+  },
+};
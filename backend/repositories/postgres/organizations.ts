@@ -0,0 +1,24 @@
+import { query } from '../../lib/db';
+import { OrganizationRepository } from '../types';
+
+export const organizationRepository: OrganizationRepository = {
+  async syncMember(orgId, userId, role) {
+    await query(
+      `INSERT INTO organization_members (org_id, user_id, role) VALUES ($1, $2, $3)
+       ON CONFLICT (org_id, user_id) DO UPDATE SET role = EXCLUDED.role, updated_at = CURRENT_TIMESTAMP
+       WHERE organization_members.role <> EXCLUDED.role`,
+      [orgId, userId, role]
+    );
+  },
+
+  async removeMember(orgId, userId) {
+    await query('DELETE FROM organization_members WHERE org_id = $1 AND user_id = $2', [orgId, userId]);
+  },
+
+  async retainMemberships(userId, orgIds) {
+    await query(
+      'DELETE FROM organization_members WHERE user_id = $1 AND NOT (org_id = ANY($2::TEXT[]))',
+      [userId, orgIds]
+    );
+  },
+};
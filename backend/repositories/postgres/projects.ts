@@ -0,0 +1,124 @@
+import { query, withTransaction } from '../../lib/db';
+import { buildUpdate } from '../../lib/patch';
+import { ProjectRepository, ProjectWithRole } from '../types';
+import { canSeeProject, projectRole } from './access';
+
+const PROJECT_COLUMNS = ['name', 'color', 'description', 'org_id'] as const;
+
+// Every column except search_vector, which only the search repository reads, and the role of the user in $2
+export const PROJECT_FIELDS = `id, user_id, org_id, name, color, description, created_at, updated_at, deleted_at, archived_at,
+  ${projectRole('projects', '$2')} AS role`;
+
+const findProject = async (id: number | string, userId: string): Promise<ProjectWithRole | null> => {
+  const result = await query(
+    `SELECT ${PROJECT_FIELDS} FROM projects WHERE id = $1 AND ${canSeeProject('projects', '$2')} AND deleted_at IS NULL`,
+    [id, userId]
+  );
+  return result.rows[0] || null;
+};
+
+export const projectRepository: ProjectRepository = {
+  async list(userId, archived) {
+    // task_count and the time totals let the sidebar show per-project figures without loading every task.
+    // They count every member's tasks in shared projects.
+    const result = await query(
+      `SELECT ${PROJECT_FIELDS},
+         COALESCE(totals.task_count, 0)::INTEGER AS task_count,
+         COALESCE(totals.estimate_minutes, 0)::INTEGER AS estimate_minutes,
+         COALESCE(totals.tracked_seconds, 0)::INTEGER AS tracked_seconds,
+         COALESCE(totals.overrun_count, 0)::INTEGER AS overrun_count
+       FROM projects
+       LEFT JOIN LATERAL (
+         SELECT COUNT(*) FILTER (WHERE t.completed = FALSE) AS task_count,
+           SUM(t.estimate_minutes) AS estimate_minutes,
+           SUM(tracked.seconds) AS tracked_seconds,
+           COUNT(*) FILTER (WHERE tracked.seconds > t.estimate_minutes * 60) AS overrun_count
+         FROM tasks t
+         CROSS JOIN LATERAL (
+           SELECT COALESCE(SUM(fs.duration), 0) AS seconds FROM focus_sessions fs WHERE fs.task_id = t.id
+         ) tracked
+         WHERE t.project_id = projects.id AND t.deleted_at IS NULL
+       ) totals ON TRUE
+       WHERE ${canSeeProject('projects', '$2')} AND deleted_at IS NULL AND (archived_at IS NOT NULL) = $1
+       ORDER BY ${archived ? 'archived_at DESC' : 'created_at DESC'}`,
+      [archived, userId]
+    );
+    return result.rows;
+  },
+
+  find: findProject,
+
+  async exists(id, userId) {
+    const result = await query(
+      `SELECT id FROM projects WHERE id = $1 AND ${canSeeProject('projects', '$2')} AND deleted_at IS NULL`,
+      [id, userId]
+    );
+    return result.rows.length > 0;
+  },
+
+  async create(userId, { name, color, description, org_id }) {
+    const result = await query(
+      'INSERT INTO projects (name, color, description, org_id, user_id) VALUES ($1, $2, $3, $4, $5) RETURNING id',
+      [name, color, description, org_id, userId]
+    );
+    return (await findProject(result.rows[0].id, userId))!;
+  },
+
+  async update(id, userId, patch) {
+    // Unsharing a project makes it the personal project of whoever unshares it
+    const fields = patch.org_id === null ? { ...patch, user_id: userId } : patch;
+    const update = buildUpdate('projects', fields, [...PROJECT_COLUMNS, 'user_id'], { id, deleted_at: null }, {
+      touch: true,
+      returning: 'id',
+    });
+    if (!update || !(await findProject(id, userId))) return null;
+    const result = await query(update.text, update.values);
+    return result.rows.length > 0 ? findProject(id, userId) : null;
+  },
+
+  async setArchived(id, userId, archived) {
+    const result = await query(
+      `UPDATE projects SET archived_at = ${archived ? 'COALESCE(archived_at, CURRENT_TIMESTAMP)' : 'NULL'}
+       WHERE id = $1 AND ${canSeeProject('projects', '$2')} AND deleted_at IS NULL
+       RETURNING id`,
+      [id, userId]
+    );
+    return result.rows.length > 0 ? findProject(id, userId) : null;
+  },
+
+  delete(id, userId) {
+    // The project's tasks and notes share its deleted_at, so they can be restored together
+    return withTransaction(async (client) => {
+      const result = await client.query(
+        `UPDATE projects SET deleted_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND ${canSeeProject('projects', '$2')} AND deleted_at IS NULL
+         RETURNING deleted_at`,
+        [id, userId]
+      );
+      if (result.rows.length === 0) return false;
+
+      const { deleted_at } = result.rows[0];
+      await client.query('UPDATE tasks SET deleted_at = $1 WHERE project_id = $2 AND deleted_at IS NULL', [deleted_at, id]);
+      await client.query('UPDATE notes SET deleted_at = $1 WHERE project_id = $2 AND deleted_at IS NULL', [deleted_at, id]);
+      return true;
+    });
+  },
+
+  async members(id, userId) {
+    if (!(await findProject(id, userId))) return null;
+    const result = await query(
+      `SELECT u.id AS user_id, u.email, 'owner' AS role
+       FROM projects p JOIN users u ON u.id = p.user_id
+       WHERE p.id = $1 AND p.org_id IS NULL
+       UNION ALL
+       SELECT u.id, u.email, om.role
+       FROM projects p
+       JOIN organization_members om ON om.org_id = p.org_id
+       JOIN users u ON u.id = om.user_id
+       WHERE p.id = $1
+       ORDER BY email`,
+      [id]
+    );
+    return result.rows;
+  },
+};
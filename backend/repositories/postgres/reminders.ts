@@ -0,0 +1,30 @@
+import { query } from '../../lib/db';
+import { ReminderRepository } from '../types';
+
+export const reminderRepository: ReminderRepository = {
+  async due(now, limit) {
+    const result = await query(
+      `SELECT r.id, r.task_id, r.user_id, r.offset_minutes, t.title
+       FROM task_reminders r
+       JOIN tasks t ON t.id = r.task_id
+       WHERE r.sent_at IS NULL
+         AND t.completed = FALSE
+         AND t.deleted_at IS NULL
+         AND NOT EXISTS (SELECT 1 FROM projects p WHERE p.id = t.project_id AND p.archived_at IS NOT NULL)
+         AND COALESCE(r.remind_at, t.duedate - r.offset_minutes * INTERVAL '1 minute') <= $1
+       ORDER BY r.id
+       LIMIT $2`,
+      [now, limit]
+    );
+    return result.rows;
+  },
+
+  async markSent(ids, now) {
+    if (ids.length === 0) return [];
+    const result = await query(
+      'UPDATE task_reminders SET sent_at = $2 WHERE id = ANY($1::INTEGER[]) AND sent_at IS NULL RETURNING id',
+      [ids, now]
+    );
+    return result.rows.map((row) => row.id);
+  },
+};
@@ -0,0 +1,54 @@
+import { query } from '../../lib/db';
+import { SearchRepository, SearchType } from '../types';
+import { canSeeItem, canSeeProject } from './access';
+
+// One branch of the UNION per searchable table, with the text used for the snippet as `body`.
+// Shared projects, and the tasks and notes in them, are searched for every member.
+const searchSource = (
+  type: SearchType, table: string, title: string, body: string, projectId: string, completed: string, archived: string
+) => `
+  SELECT '${type}' AS type, id, ${title} AS title, ${body} AS body, ${projectId} AS project_id,
+    ${completed} AS completed, ${archived} AS archived, updated_at, ts_rank(search_vector, q.query) AS rank
+  FROM ${table}, q
+  WHERE ${type === 'project' ? canSeeProject(table, '$1') : canSeeItem(table, '$1')}
+    AND deleted_at IS NULL AND search_vector @@ q.query`;
+
+// Whether the project of a task or note is archived
+const projectArchived = (table: string) =>
+  `EXISTS (SELECT 1 FROM projects p WHERE p.id = ${table}.project_id AND p.archived_at IS NOT NULL)`;
+
+const SEARCH_SOURCES: Record<SearchType, string> = {
+  task: searchSource('task', 'tasks', 'title', 'description', 'project_id', 'completed', projectArchived('tasks')),
+  note: searchSource('note', 'notes', 'title', 'content', 'project_id', 'NULL::BOOLEAN', projectArchived('notes')),
+  project: searchSource(
+    'project', 'projects', 'name', 'description', 'NULL::INTEGER', 'NULL::BOOLEAN', 'archived_at IS NOT NULL'
+  ),
+};
+
+const TITLE_HEADLINE = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+const SNIPPET_HEADLINE = 'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "';
+
+// "focus sess" -> 'focus:* & sess:*', so every word matches as a prefix. Terms only contain
+// letters and digits (see lib/search.ts), which keeps them clear of tsquery syntax.
+const prefixQuery = (terms: string[]) => terms.map((term) => `${term}:*`).join(' & ');
+
+export const searchRepository: SearchRepository = {
+  async search(userId, { terms, types, limit }) {
+    // Rank and limit first, so ts_headline only runs on the rows that are returned
+    const result = await query(
+      `WITH q AS (SELECT to_tsquery('english', $2) AS query),
+       matches AS (
+         ${types.map((type) => SEARCH_SOURCES[type]).join(' UNION ALL ')}
+         ORDER BY rank DESC, updated_at DESC, id DESC
+         LIMIT $3
+       )
+       SELECT type, id, title, project_id, completed, archived, updated_at, rank,
+         ts_headline('english', title, q.query, '${TITLE_HEADLINE}') AS title_highlight,
+         CASE WHEN body <> '' THEN ts_headline('english', body, q.query, '${SNIPPET_HEADLINE}') END AS snippet
+       FROM matches, q
+       ORDER BY rank DESC, updated_at DESC, id DESC`,
+      [userId, prefixQuery(terms), limit]
+    );
+    return result.rows;
+  },
+};
@@ -0,0 +1,86 @@
+import { query, withTransaction } from '../../lib/db';
+import { buildUpdate } from '../../lib/patch';
+import { ProjectStatusRepository } from '../types';
+import { canSeeProject } from './access';
+import { syncStatusesSql } from './tasks';
+
+const STATUS_COLUMNS = ['name', 'color', 'wip_limit', 'is_done'] as const;
+
+// Statuses are seen by whoever sees their project, whoever created them
+const CAN_SEE_STATUS = `EXISTS (SELECT 1 FROM projects p WHERE p.id = s.project_id AND ${canSeeProject('p', '$2')})`;
+
+// Give the project's tasks a status that agrees with their completed flag again, after its statuses changed
+const syncProjectTasks = (projectId: number | string) => query(syncStatusesSql('t.project_id = $1'), [projectId]);
+
+export const projectStatusRepository: ProjectStatusRepository = {
+  async list(projectId, userId) {
+    const result = await query(
+      `SELECT s.*, COUNT(t.id)::INTEGER AS task_count
+       FROM project_statuses s
+       LEFT JOIN tasks t ON t.status_id = s.id AND t.deleted_at IS NULL
+       WHERE s.project_id = $1 AND ${CAN_SEE_STATUS}
+       GROUP BY s.id
+       ORDER BY s.position, s.id`,
+      [projectId, userId]
+    );
+    return result.rows;
+  },
+
+  async find(id, userId) {
+    const result = await query(`SELECT * FROM project_statuses s WHERE s.id = $1 AND ${CAN_SEE_STATUS}`, [id, userId]);
+    return result.rows[0] || null;
+  },
+
+  async create(projectId, userId, { name, color, wip_limit, is_done }) {
+    const result = await query(
+      `INSERT INTO project_statuses (user_id, project_id, name, color, wip_limit, is_done, position)
+       VALUES ($1, $2, $3, $4, $5, $6, (SELECT COALESCE(MAX(position), 0) + 1 FROM project_statuses WHERE project_id = $2))
+       RETURNING *`,
+      [userId, projectId, name, color, wip_limit, is_done]
+    );
+    await syncProjectTasks(projectId);
+    return result.rows[0];
+  },
+
+  async update(id, userId, patch) {
+    const update = buildUpdate('project_statuses', patch, STATUS_COLUMNS, { id });
+    if (!update || !(await projectStatusRepository.find(id, userId))) return null;
+    const result = await query(update.text, update.values);
+    const status = result.rows[0] || null;
+    if (status && patch.is_done !== undefined) await syncProjectTasks(status.project_id);
+    return status;
+  },
+
+  reorder(projectId, userId, ids) {
+    return withTransaction(async (client) => {
+      await client.query(
+        `UPDATE project_statuses s SET position = ordered.position
+         FROM UNNEST($3::INTEGER[]) WITH ORDINALITY AS ordered (id, position)
+         WHERE s.id = ordered.id AND s.project_id = $1 AND ${CAN_SEE_STATUS}`,
+        [projectId, userId, ids]
+      );
+      await client.query(syncStatusesSql('t.project_id = $1'), [projectId]);
+    });
+  },
+
+  // tasks.status_id is cleared by ON DELETE SET NULL before the tasks are given another status
+  async delete(id, userId) {
+    const result = await query(
+      `DELETE FROM project_statuses s WHERE s.id = $1 AND ${CAN_SEE_STATUS} RETURNING s.project_id`,
+      [id, userId]
+    );
+    if (result.rows.length === 0) return false;
+    await syncProjectTasks(result.rows[0].project_id);
+    return true;
+  },
+
+  async countTasks(id, exceptTaskId) {
+    const result = exceptTaskId === undefined
+      ? await query('SELECT COUNT(*)::INTEGER AS count FROM tasks WHERE status_id = $1 AND deleted_at IS NULL', [id])
+      : await query(
+        'SELECT COUNT(*)::INTEGER AS count FROM tasks WHERE status_id = $1 AND deleted_at IS NULL AND id <> $2',
+        [id, exceptTaskId]
+      );
+    return result.rows[0].count;
+  },
+};
@@ -0,0 +1,57 @@
+import { query } from '../../lib/db';
+import { buildUpdate } from '../../lib/patch';
+import { TagRepository } from '../types';
+
+const TAG_COLUMNS = ['name', 'color'] as const;
+
+export const tagRepository: TagRepository = {
+  async list(userId) {
+    const result = await query(
+      `SELECT tags.*, COUNT(task_tags.task_id)::INTEGER AS task_count
+       FROM tags
+       LEFT JOIN task_tags ON task_tags.tag_id = tags.id
+         AND EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_tags.task_id AND tasks.deleted_at IS NULL)
+       WHERE tags.user_id = $1
+       GROUP BY tags.id
+       ORDER BY LOWER(tags.name)`,
+      [userId]
+    );
+    return result.rows;
+  },
+
+  async exists(id, userId) {
+    const result = await query('SELECT id FROM tags WHERE id = $1 AND user_id = $2', [id, userId]);
+    return result.rows.length > 0;
+  },
+
+  async nameTaken(userId, name, exceptId) {
+    const result = exceptId === undefined
+      ? await query('SELECT id FROM tags WHERE user_id = $1 AND LOWER(name) = LOWER($2)', [userId, name])
+      : await query(
+        'SELECT id FROM tags WHERE user_id = $1 AND LOWER(name) = LOWER($2) AND id <> $3',
+        [userId, name, exceptId]
+      );
+    return result.rows.length > 0;
+  },
+
+  async create(userId, { name, color }) {
+    const result = await query(
+      'INSERT INTO tags (name, color, user_id) VALUES ($1, $2, $3) RETURNING *',
+      [name, color, userId]
+    );
+    return result.rows[0];
+  },
+
+  async update(id, userId, patch) {
+    const update = buildUpdate('tags', patch, TAG_COLUMNS, { id, user_id: userId });
+    if (!update) return null;
+    const result = await query(update.text, update.values);
+    return result.rows[0] || null;
+  },
+
+  // task_tags rows are removed by ON DELETE CASCADE
+  async delete(id, userId) {
+    const result = await query('DELETE FROM tags WHERE id = $1 AND user_id = $2 RETURNING id', [id, userId]);
+    return result.rows.length > 0;
+  },
+};
@@ -0,0 +1,501 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../../lib/db';
+import { buildUpdate } from '../../lib/patch';
+import { sortSql } from '../../lib/pagination';
+import { ReminderInput } from '../../shared/schemas';
+import { TaskInput, TaskRepository, TaskRow, TaskSortKey } from '../types';
+import { canChangeItem, canSeeItem, projectRole } from './access';
+
+// Base SELECT for task rows: every column except search_vector, which only the search repository reads.
+// Postgres folds the unquoted dueDate column to "duedate", so it is aliased back to the
+// camelCase name the frontend expects. Each task carries its tags, reminders and blockers as JSON arrays,
+// counts its subtasks outside the trash, and sums the time of the finished focus sessions linked to it.
+const TASK_SELECT = `
+  SELECT t.id, t.user_id, t.title, t.description, t.completed, t.duedate, t.priority, t.is_recurring,
+    t.recurrence_pattern, t.project_id, t.parent_task_id, t.position, t.status_id, t.estimate_minutes, t.assignee_id, t.created_at, t.updated_at, t.deleted_at, t.duedate AS "dueDate",
+    (SELECT u.email FROM users u WHERE u.id = t.assignee_id) AS assignee_email,
+    COALESCE((
+      SELECT json_agg(json_build_object('id', tg.id, 'name', tg.name, 'color', tg.color) ORDER BY LOWER(tg.name))
+      FROM task_tags tt
+      JOIN tags tg ON tg.id = tt.tag_id
+      WHERE tt.task_id = t.id
+    ), '[]'::json) AS tags,
+    COALESCE((
+      SELECT json_agg(json_build_object(
+        'id', r.id, 'remind_at', r.remind_at, 'offset_minutes', r.offset_minutes, 'sent_at', r.sent_at
+      ) ORDER BY r.offset_minutes DESC NULLS LAST, r.remind_at, r.id)
+      FROM task_reminders r
+      WHERE r.task_id = t.id
+    ), '[]'::json) AS reminders,
+    (SELECT COUNT(*)::INTEGER FROM tasks st WHERE st.parent_task_id = t.id AND st.deleted_at IS NULL) AS subtask_count,
+    (
+      SELECT COUNT(*)::INTEGER FROM tasks st WHERE st.parent_task_id = t.id AND st.deleted_at IS NULL AND st.completed
+    ) AS subtasks_completed,
+    COALESCE((
+      SELECT json_agg(json_build_object('id', b.id, 'title', b.title, 'completed', b.completed) ORDER BY b.id)
+      FROM task_dependencies d
+      JOIN tasks b ON b.id = d.blocked_by_id
+      WHERE d.task_id = t.id AND b.deleted_at IS NULL
+    ), '[]'::json) AS blocked_by,
+    (SELECT COALESCE(SUM(fs.duration), 0)::INTEGER FROM focus_sessions fs WHERE fs.task_id = t.id) AS tracked_seconds
+  FROM tasks t
+`;
+
+// Condition on tasks t: it belongs to an archived project
+const ARCHIVED_CONDITION = 'EXISTS (SELECT 1 FROM projects p WHERE p.id = t.project_id AND p.archived_at IS NOT NULL)';
+
+// Condition on tasks t: it waits on at least one open task outside the trash
+const BLOCKED_CONDITION = `EXISTS (
+  SELECT 1 FROM task_dependencies d JOIN tasks b ON b.id = d.blocked_by_id
+  WHERE d.task_id = t.id AND NOT b.completed AND b.deleted_at IS NULL
+)`;
+
+const TASK_COLUMNS = [
+  'title', 'description', 'completed', 'dueDate', 'priority', 'project_id', 'parent_task_id', 'is_recurring',
+  'recurrence_pattern', 'status_id', 'estimate_minutes', 'assignee_id',
+] as const;
+
+// WITH clause for "subtree (id)": the tasks matching `root` and their subtasks, the subtasks' subtasks
+// and so on, following only subtasks that match `child` (both are conditions on tasks t).
+// UNION drops rows already found, so the recursion ends even if parent_task_id ever forms a loop.
+export const subtreeCte = (root: string, child: string) => `
+  WITH RECURSIVE subtree (id) AS (
+    SELECT t.id FROM tasks t WHERE ${root}
+    UNION
+    SELECT t.id FROM tasks t JOIN subtree s ON t.parent_task_id = s.id WHERE ${child}
+  )`;
+
+// UPDATE giving the tasks t that match `condition` a status that agrees with their project and completed flag.
+// Tasks whose status already agrees keep it; the others get the project's first status (in column order)
+// with the same is_done, or none when the project has no such status.
+export const syncStatusesSql = (condition: string) => `
+  UPDATE tasks t SET status_id = (
+    SELECT s.id FROM project_statuses s
+    WHERE s.project_id = t.project_id AND s.is_done = COALESCE(t.completed, FALSE)
+    ORDER BY s.position, s.id LIMIT 1
+  )
+  WHERE ${condition} AND NOT EXISTS (
+    SELECT 1 FROM project_statuses s
+    WHERE s.id = t.status_id AND s.project_id = t.project_id AND s.is_done = COALESCE(t.completed, FALSE)
+  )`;
+
+// Priority is ranked so "-priority" puts urgent tasks first
+const TASK_SORT_COLUMNS: Record<TaskSortKey, string> = {
+  created_at: 't.created_at',
+  updated_at: 't.updated_at',
+  dueDate: 't.duedate',
+  title: 'LOWER(t.title)',
+  priority: "CASE t.priority WHEN 'urgent' THEN 4 WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END",
+  position: 't.position',
+};
+
+// Position above every task the user sees in the project ($1 user ID, $2 project ID or null)
+const TOP_POSITION = `(
+  SELECT COALESCE(MIN(tp.position), 1) - 1 FROM tasks tp WHERE tp.project_id IS NOT DISTINCT FROM $2 AND ${canSeeItem('tp', '$1')}
+)`;
+
+// Columns for a task_reminders row: a reminder is either at a fixed time or relative to the due date
+const reminderColumns = (reminder: ReminderInput) => 'remind_at' in reminder
+  ? { remind_at: reminder.remind_at, offset_minutes: null }
+  : { remind_at: null, offset_minutes: reminder.offset_minutes };
+
+// Through `client` when given, so the reminder is part of its transaction
+const insertReminder = (taskId: number | string, userId: string, reminder: ReminderInput, client?: PoolClient) => {
+  const { remind_at, offset_minutes } = reminderColumns(reminder);
+  const text = 'INSERT INTO task_reminders (task_id, user_id, remind_at, offset_minutes) VALUES ($1, $2, $3, $4)';
+  const values = [taskId, userId, remind_at, offset_minutes];
+  return client ? client.query(text, values) : query(text, values);
+};
+
+// Insert a new task with its reminders inside a transaction and return its ID
+const insertTask = async (client: PoolClient, userId: string, input: TaskInput): Promise<number> => {
+  const result = await client.query(
+    `INSERT INTO tasks (user_id, project_id, title, description, dueDate, priority, parent_task_id, is_recurring, recurrence_pattern, completed, status_id, estimate_minutes, position)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, ${TOP_POSITION}) RETURNING id`,
+    [
+      userId,
+      input.project_id,
+      input.title,
+      input.description,
+      input.dueDate,
+      input.priority,
+      input.parent_task_id,
+      input.is_recurring,
+      input.recurrence_pattern,
+      input.completed,
+      input.status_id,
+      input.estimate_minutes,
+    ]
+  );
+  const id = result.rows[0].id;
+  await client.query(syncStatusesSql('t.id = $1'), [id]);
+
+  for (const reminder of input.reminders) {
+    await insertReminder(id, userId, reminder, client);
+  }
+  return id;
+};
+
+const findTask = async (id: number | string, userId: string): Promise<TaskRow | null> => {
+  const result = await query(`${TASK_SELECT} WHERE t.id = $1 AND ${canSeeItem('t', '$2')} AND t.deleted_at IS NULL`, [id, userId]);
+  return result.rows[0] || null;
+};
+
+export const taskRepository: TaskRepository = {
+  async list(userId, filters) {
+    const conditions = [canSeeItem('t', '$1'), 't.deleted_at IS NULL'];
+    const params: any[] = [userId];
+
+    if (filters.completed !== undefined) {
+      params.push(filters.completed);
+      conditions.push(`t.completed = $${params.length}`);
+    }
+
+    if (filters.projectId === null) {
+      conditions.push('t.project_id IS NULL');
+    } else if (filters.projectId !== undefined) {
+      params.push(filters.projectId);
+      conditions.push(`t.project_id = $${params.length}`);
+    }
+
+    if (filters.parentId === null) {
+      conditions.push('t.parent_task_id IS NULL');
+    } else if (filters.parentId !== undefined) {
+      params.push(filters.parentId);
+      conditions.push(`t.parent_task_id = $${params.length}`);
+    }
+
+    if (filters.dueFrom) {
+      params.push(filters.dueFrom);
+      conditions.push(`t.duedate >= $${params.length}`);
+    }
+
+    if (filters.dueTo) {
+      params.push(filters.dueTo);
+      conditions.push(`t.duedate < $${params.length}`);
+    }
+
+    if (filters.hasDueDate !== undefined) {
+      conditions.push(filters.hasDueDate ? 't.duedate IS NOT NULL' : 't.duedate IS NULL');
+    }
+
+    if (filters.priorities) {
+      params.push(filters.priorities);
+      conditions.push(`t.priority = ANY($${params.length})`);
+    }
+
+    if (filters.search) {
+      params.push(`%${filters.search}%`);
+      conditions.push(`(t.title ILIKE $${params.length} OR t.description ILIKE $${params.length})`);
+    }
+
+    if (filters.tag) {
+      params.push(filters.tag);
+      conditions.push(/^\d+$/.test(filters.tag)
+        ? `EXISTS (SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id AND tt.tag_id = $${params.length})`
+        : `EXISTS (
+            SELECT 1 FROM task_tags tt JOIN tags tg ON tg.id = tt.tag_id
+            WHERE tt.task_id = t.id AND tg.user_id = t.user_id AND LOWER(tg.name) = LOWER($${params.length})
+          )`);
+    }
+
+    if (filters.blocked !== undefined) {
+      conditions.push(filters.blocked ? BLOCKED_CONDITION : `NOT ${BLOCKED_CONDITION}`);
+    }
+
+    if (filters.archived !== undefined) {
+      conditions.push(filters.archived ? ARCHIVED_CONDITION : `NOT ${ARCHIVED_CONDITION}`);
+    }
+
+    if (filters.assigneeId === null) {
+      conditions.push('t.assignee_id IS NULL');
+    } else if (filters.assigneeId !== undefined) {
+      params.push(filters.assigneeId);
+      conditions.push(`t.assignee_id = $${params.length}`);
+    }
+
+    const where = conditions.join(' AND ');
+    const { limit, offset } = filters.page;
+
+    const countResult = await query(`SELECT COUNT(*)::INTEGER AS total FROM tasks t WHERE ${where}`, params);
+    // t.id breaks ties so rows never shift between pages
+    const result = await query(
+      `${TASK_SELECT} WHERE ${where} ORDER BY ${sortSql(filters.sort, TASK_SORT_COLUMNS)}, t.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+    return { rows: result.rows, total: countResult.rows[0].total };
+  },
+
+  find: findTask,
+
+  async exists(id, userId) {
+    const result = await query(
+      `SELECT id FROM tasks t WHERE t.id = $1 AND ${canSeeItem('t', '$2')} AND t.deleted_at IS NULL`,
+      [id, userId]
+    );
+    return result.rows.length > 0;
+  },
+
+  async create(userId, input) {
+    const id = await withTransaction((client) => insertTask(client, userId, input));
+    return (await findTask(id, userId))!;
+  },
+
+  async createMany(userId, inputs) {
+    const ids = await withTransaction(async (client) => {
+      const created: number[] = [];
+      for (const input of inputs) {
+        created.push(await insertTask(client, userId, input));
+      }
+      return created;
+    });
+    if (ids.length === 0) return [];
+    return (await query(`${TASK_SELECT} WHERE t.id = ANY($1::INTEGER[]) ORDER BY t.id`, [ids])).rows;
+  },
+
+  async update(id, userId, patch) {
+    const update = buildUpdate('tasks', patch, TASK_COLUMNS, { id, deleted_at: null }, {
+      touch: true,
+      returning: 'id',
+    });
+    if (!update || !(await findTask(id, userId))) return null;
+
+    const result = await query(update.text, update.values);
+    if (result.rows.length === 0) return null;
+    await query(syncStatusesSql('t.id = $1'), [id]);
+
+    // Reminders relative to the due date fire again for the new date
+    if (patch.dueDate !== undefined) {
+      await query(
+        'UPDATE task_reminders SET sent_at = NULL WHERE task_id = $1 AND offset_minutes IS NOT NULL',
+        [id]
+      );
+    }
+
+    return findTask(id, userId);
+  },
+
+  async delete(id, userId) {
+    // CURRENT_TIMESTAMP is the same for the whole statement, so the subtasks share the task's deleted_at
+    const result = await query(
+      `${subtreeCte(`t.id = $1 AND ${canSeeItem('t', '$2')} AND t.deleted_at IS NULL`, 't.deleted_at IS NULL')}
+       UPDATE tasks SET deleted_at = CURRENT_TIMESTAMP WHERE id IN (SELECT id FROM subtree) RETURNING id`,
+      [id, userId]
+    );
+    return result.rows.length > 0;
+  },
+
+  async subtaskIds(id, userId) {
+    const result = await query(
+      `${subtreeCte(`t.id = $1 AND ${canSeeItem('t', '$2')} AND t.deleted_at IS NULL`, 't.deleted_at IS NULL')}
+       SELECT id FROM subtree WHERE id <> $1 ORDER BY id`,
+      [id, userId]
+    );
+    return result.rows.map((row) => row.id as number);
+  },
+
+  async createOccurrence(task, { dueDate, recurrence_pattern, reminderShiftMs }) {
+    // The next occurrence takes the completed task's place in the manual order
+    const result = await query(
+      `INSERT INTO tasks (title, description, dueDate, priority, project_id, parent_task_id, is_recurring, recurrence_pattern, completed, user_id, position, estimate_minutes, assignee_id)
+       VALUES ($1, $2, $3, $4, $5, $6, TRUE, $7, FALSE, $8, $9, $10, $11) RETURNING id`,
+      [
+        task.title, task.description, dueDate, task.priority, task.project_id, task.parent_task_id, recurrence_pattern,
+        task.user_id, task.position, task.estimate_minutes, task.assignee_id,
+      ]
+    );
+    const nextId = result.rows[0].id;
+    await query(syncStatusesSql('t.id = $1'), [nextId]);
+
+    await query(
+      'INSERT INTO task_tags (task_id, tag_id) SELECT $1, tag_id FROM task_tags WHERE task_id = $2',
+      [nextId, task.id]
+    );
+
+    await query(
+      `INSERT INTO task_reminders (task_id, user_id, remind_at, offset_minutes)
+       SELECT $1, user_id, remind_at + ($3::FLOAT8 * INTERVAL '1 millisecond'), offset_minutes
+       FROM task_reminders WHERE task_id = $2`,
+      [nextId, task.id, reminderShiftMs]
+    );
+
+    return (await findTask(nextId, task.user_id))!;
+  },
+
+  async addTag(id, tagId) {
+    await query(
+      'INSERT INTO task_tags (task_id, tag_id) VALUES ($1, $2) ON CONFLICT (task_id, tag_id) DO NOTHING',
+      [id, tagId]
+    );
+  },
+
+  async removeTag(id, tagId) {
+    await query('DELETE FROM task_tags WHERE task_id = $1 AND tag_id = $2', [id, tagId]);
+  },
+
+  async addReminder(id, userId, reminder) {
+    await insertReminder(id, userId, reminder);
+  },
+
+  async removeReminder(id, userId, reminderId) {
+    const result = await query(
+      'DELETE FROM task_reminders WHERE id = $1 AND task_id = $2 AND user_id = $3 RETURNING id',
+      [reminderId, id, userId]
+    );
+    return result.rows.length > 0;
+  },
+
+  async setPosition(id, userId, position) {
+    const result = await query(
+      `UPDATE tasks t SET position = $3 WHERE t.id = $1 AND ${canSeeItem('t', '$2')} AND t.deleted_at IS NULL RETURNING t.id`,
+      [id, userId, position]
+    );
+    return result.rows.length > 0 ? findTask(id, userId) : null;
+  },
+
+  async renumberPositions(ids, userId) {
+    await query(
+      `UPDATE tasks SET position = ordered.position
+       FROM (
+         SELECT t.id, ROW_NUMBER() OVER (ORDER BY t.position, t.id DESC) AS position
+         FROM tasks t
+         WHERE ${canSeeItem('t', '$2')} AND EXISTS (
+           SELECT 1 FROM tasks s WHERE s.id = ANY($1::INTEGER[])
+             AND s.project_id IS NOT DISTINCT FROM t.project_id AND s.parent_task_id IS NOT DISTINCT FROM t.parent_task_id
+         )
+       ) ordered
+       WHERE tasks.id = ordered.id`,
+      [ids, userId]
+    );
+  },
+
+  async addDependency(id, blockedById) {
+    await query(
+      'INSERT INTO task_dependencies (task_id, blocked_by_id) VALUES ($1, $2) ON CONFLICT (task_id, blocked_by_id) DO NOTHING',
+      [id, blockedById]
+    );
+  },
+
+  async removeDependency(id, blockedById) {
+    const result = await query(
+      'DELETE FROM task_dependencies WHERE task_id = $1 AND blocked_by_id = $2 RETURNING task_id',
+      [id, blockedById]
+    );
+    return result.rows.length > 0;
+  },
+
+  async blockerIds(id) {
+    // UNION drops rows already found, so the recursion ends even if the links ever form a loop
+    const result = await query(
+      `WITH RECURSIVE blockers (id) AS (
+         SELECT blocked_by_id FROM task_dependencies WHERE task_id = $1
+         UNION
+         SELECT d.blocked_by_id FROM task_dependencies d JOIN blockers b ON d.task_id = b.id
+       )
+       SELECT id FROM blockers ORDER BY id`,
+      [id]
+    );
+    return result.rows.map((row) => row.id as number);
+  },
+
+  async unblockedBy(userId, blockerId) {
+    const result = await query(
+      `${TASK_SELECT}
+       WHERE ${canSeeItem('t', '$1')} AND t.deleted_at IS NULL AND NOT t.completed
+         AND EXISTS (SELECT 1 FROM task_dependencies d WHERE d.task_id = t.id AND d.blocked_by_id = $2)
+         AND NOT ${BLOCKED_CONDITION}
+       ORDER BY t.id`,
+      [userId, blockerId]
+    );
+    return result.rows;
+  },
+
+  bulk(userId, ids, operation) {
+    return withTransaction(async (client) => {
+      // Lock the rows so the open -> completed check cannot race a concurrent update
+      const found = await client.query(
+        `SELECT t.id, t.completed, p.archived_at IS NOT NULL AS archived,
+           p.id IS NOT NULL AND ${projectRole('p', '$2')} = 'viewer' AS read_only
+         FROM tasks t
+         LEFT JOIN projects p ON p.id = t.project_id
+         WHERE t.id = ANY($1::INTEGER[]) AND ${canSeeItem('t', '$2')} AND t.deleted_at IS NULL
+         FOR UPDATE OF t`,
+        [ids, userId]
+      );
+      const foundIds = new Set<number>(found.rows.map((row) => row.id));
+      const missingIds = ids.filter((id) => !foundIds.has(id));
+      if (missingIds.length > 0) {
+        return { missingIds, archivedIds: [], readOnlyIds: [], tasks: [], previous: [], completedIds: [] };
+      }
+      const idsWhere = (flag: string) =>
+        found.rows.filter((row) => row[flag]).map((row) => row.id as number).sort((a, b) => a - b);
+      const readOnlyIds = idsWhere('read_only');
+      if (readOnlyIds.length > 0) {
+        return { missingIds: [], archivedIds: [], readOnlyIds, tasks: [], previous: [], completedIds: [] };
+      }
+      const archivedIds = idsWhere('archived');
+      if (archivedIds.length > 0) {
+        return { missingIds: [], archivedIds, readOnlyIds: [], tasks: [], previous: [], completedIds: [] };
+      }
+
+      const selectTasks = async () =>
+        (await client.query(`${TASK_SELECT} WHERE t.id = ANY($1::INTEGER[]) ORDER BY t.id`, [ids])).rows;
+      const previous = await selectTasks();
+
+      const completedIds = operation.type === 'complete'
+        ? found.rows.filter((row) => !row.completed).map((row) => row.id as number)
+        : [];
+
+      // SET <column> = $2 on all of the tasks, which are locked and known to be visible to the user
+      const setColumn = (column: string, value: unknown) => client.query(
+        `UPDATE tasks SET ${column} = $2, updated_at = CURRENT_TIMESTAMP WHERE id = ANY($1::INTEGER[])`,
+        [ids, value]
+      );
+
+      switch (operation.type) {
+        case 'complete':
+        case 'uncomplete':
+          await setColumn('completed', operation.type === 'complete');
+          break;
+        case 'delete':
+          await client.query(
+            `${subtreeCte('t.id = ANY($1::INTEGER[])', 't.deleted_at IS NULL')}
+             UPDATE tasks SET deleted_at = CURRENT_TIMESTAMP WHERE id IN (SELECT id FROM subtree)`,
+            [ids]
+          );
+          return { missingIds: [], archivedIds: [], readOnlyIds: [], tasks: [], previous, completedIds: [] };
+        case 'move':
+          await setColumn('project_id', operation.project_id || null); // 0 means no project
+          // As with PUT, tasks whose assignee cannot work in the new project are unassigned
+          await client.query(
+            `UPDATE tasks t SET assignee_id = NULL
+             WHERE t.id = ANY($1::INTEGER[]) AND t.assignee_id IS NOT NULL AND NOT ${canChangeItem('t', 't.assignee_id')}`,
+            [ids]
+          );
+          break;
+        case 'set_priority':
+          await setColumn('priority', operation.priority);
+          break;
+        case 'set_due_date':
+          await setColumn('dueDate', operation.dueDate);
+          // Reminders relative to the due date fire again for the new date
+          await client.query(
+            'UPDATE task_reminders SET sent_at = NULL WHERE task_id = ANY($1::INTEGER[]) AND offset_minutes IS NOT NULL',
+            [ids]
+          );
+          break;
+        case 'add_tag':
+          await client.query(
+            `INSERT INTO task_tags (task_id, tag_id) SELECT UNNEST($1::INTEGER[]), $2
+             ON CONFLICT (task_id, tag_id) DO NOTHING`,
+            [ids, operation.tag_id]
+          );
+          break;
+      }
+
+      await client.query(syncStatusesSql('t.id = ANY($1::INTEGER[])'), [ids]);
+      return { missingIds: [], archivedIds: [], readOnlyIds: [], tasks: await selectTasks(), previous, completedIds };
+    });
+  },
+};
@@ -0,0 +1,151 @@
+import { query, withTransaction } from '../../lib/db';
+import { TrashItemType, TrashRepository } from '../types';
+import { canChangeItem, canSeeItem, canSeeProject, ownsProject } from './access';
+import { PROJECT_FIELDS } from './projects';
+import { subtreeCte } from './tasks';
+
+// Projects come last, so emptying the trash counts the tasks and notes before the project's cascade removes them
+const TRASH_TABLES: Record<TrashItemType, string> = {
+  task: 'tasks',
+  note: 'notes',
+  project: 'projects',
+};
+
+// Tasks and notes are listed on their own unless their project is in the trash as well
+const listedSeparately = (alias: string) => `
+  NOT EXISTS (
+    SELECT 1 FROM projects p
+    WHERE p.id = ${alias}.project_id AND p.deleted_at IS NOT NULL
+  )`;
+
+// Condition on the trashed row `alias` of `type`: the user sees it in their trash
+const visible = (type: TrashItemType, alias: string, user: string) =>
+  type === 'project' ? canSeeProject(alias, user) : canSeeItem(alias, user);
+
+// Condition on the trashed row `alias` of `type`: the user may restore or purge it. Tasks and notes that went
+// to the trash with their project are only removed with it, by its owners.
+const changeable = (type: TrashItemType, alias: string, user: string) =>
+  type === 'project'
+    ? ownsProject(alias, user)
+    : `(${canChangeItem(alias, user)} AND NOT EXISTS (
+        SELECT 1 FROM projects op WHERE op.id = ${alias}.project_id AND op.deleted_at IS NOT NULL
+          AND NOT ${ownsProject('op', user)}))`;
+
+export const trashRepository: TrashRepository = {
+  async list(userId) {
+    const result = await query(
+      `SELECT 'project' AS type, p.id, p.name AS title, NULL::INTEGER AS project_id, p.deleted_at,
+         NOT ${changeable('project', 'p', '$1')} AS read_only,
+         (SELECT COUNT(*)::INTEGER FROM tasks t WHERE t.project_id = p.id AND t.deleted_at = p.deleted_at) AS task_count,
+         (SELECT COUNT(*)::INTEGER FROM notes n WHERE n.project_id = p.id AND n.deleted_at = p.deleted_at) AS note_count
+       FROM projects p
+       WHERE p.deleted_at IS NOT NULL AND ${visible('project', 'p', '$1')}
+       UNION ALL
+       SELECT 'task', t.id, t.title, t.project_id, t.deleted_at, NOT ${changeable('task', 't', '$1')}, NULL, NULL
+       FROM tasks t
+       WHERE t.deleted_at IS NOT NULL AND ${visible('task', 't', '$1')} AND ${listedSeparately('t')}
+         AND NOT EXISTS (SELECT 1 FROM tasks pt WHERE pt.id = t.parent_task_id AND pt.deleted_at IS NOT NULL)
+       UNION ALL
+       SELECT 'note', n.id, n.title, n.project_id, n.deleted_at, NOT ${changeable('note', 'n', '$1')}, NULL, NULL
+       FROM notes n
+       WHERE n.deleted_at IS NOT NULL AND ${visible('note', 'n', '$1')} AND ${listedSeparately('n')}
+       ORDER BY deleted_at DESC, id DESC`,
+      [userId]
+    );
+    // Only projects carry the counts
+    return result.rows.map(({ task_count, note_count, ...item }) =>
+      item.type === 'project' ? { ...item, task_count, note_count } : item);
+  },
+
+  async find(type, id, userId) {
+    const found = await query(
+      `SELECT x.id, ${type === 'project' ? 'x.id' : 'x.project_id'} AS project_id
+       FROM ${TRASH_TABLES[type]} x WHERE x.id = $1 AND x.deleted_at IS NOT NULL AND ${visible(type, 'x', '$2')}`,
+      [id, userId]
+    );
+    const row = found.rows[0];
+    if (!row) return null;
+    if (row.project_id === null) return { type, id: row.id, project: null };
+
+    // The project may be in the trash itself
+    const project = await query(`SELECT ${PROJECT_FIELDS} FROM projects WHERE id = $1`, [row.project_id, userId]);
+    return { type, id: row.id, project: project.rows[0] };
+  },
+
+  restore(type, id, userId) {
+    return withTransaction(async (client) => {
+      const table = TRASH_TABLES[type];
+      const found = await client.query(
+        `SELECT * FROM ${table} x WHERE x.id = $1 AND x.deleted_at IS NOT NULL AND ${visible(type, 'x', '$2')} FOR UPDATE`,
+        [id, userId]
+      );
+      const row = found.rows[0];
+      if (!row) return 'not_found';
+
+      if (type === 'project') {
+        await client.query('UPDATE tasks SET deleted_at = NULL WHERE project_id = $1 AND deleted_at = $2', [id, row.deleted_at]);
+        await client.query('UPDATE notes SET deleted_at = NULL WHERE project_id = $1 AND deleted_at = $2', [id, row.deleted_at]);
+      } else if (row.project_id !== null) {
+        const project = await client.query('SELECT deleted_at FROM projects WHERE id = $1', [row.project_id]);
+        if (project.rows[0]?.deleted_at) return 'project_in_trash';
+      }
+
+      if (type === 'task') {
+        if (row.parent_task_id !== null) {
+          const parent = await client.query('SELECT deleted_at FROM tasks WHERE id = $1', [row.parent_task_id]);
+          if (parent.rows[0]?.deleted_at) return 'parent_in_trash';
+        }
+        await client.query(
+          `${subtreeCte('t.id = $1', 't.deleted_at = $2')}
+           UPDATE tasks SET deleted_at = NULL WHERE id IN (SELECT id FROM subtree)`,
+          [id, row.deleted_at]
+        );
+        return 'restored';
+      }
+
+      await client.query(`UPDATE ${table} SET deleted_at = NULL WHERE id = $1`, [id]);
+      return 'restored';
+    });
+  },
+
+  async purge(type, id, userId) {
+    if (type === 'task') {
+      const result = await query(
+        `${subtreeCte(`t.id = $1 AND t.deleted_at IS NOT NULL AND ${visible('task', 't', '$2')}`, 't.deleted_at = (SELECT deleted_at FROM tasks WHERE id = $1)')}
+         DELETE FROM tasks WHERE id IN (SELECT id FROM subtree) RETURNING id`,
+        [id, userId]
+      );
+      return result.rows.length > 0;
+    }
+
+    // ON DELETE CASCADE removes a project's tasks and notes
+    const result = await query(
+      `DELETE FROM ${TRASH_TABLES[type]} x WHERE x.id = $1 AND x.deleted_at IS NOT NULL AND ${visible(type, 'x', '$2')} RETURNING x.id`,
+      [id, userId]
+    );
+    return result.rows.length > 0;
+  },
+
+  empty(userId) {
+    return withTransaction(async (client) => {
+      let deleted = 0;
+      for (const [type, table] of Object.entries(TRASH_TABLES) as [TrashItemType, string][]) {
+        const result = await client.query(
+          `DELETE FROM ${table} x WHERE x.deleted_at IS NOT NULL AND ${changeable(type, 'x', '$1')}`,
+          [userId]
+        );
+        deleted += result.rowCount ?? 0;
+      }
+      return deleted;
+    });
+  },
+
+  async purgeExpired(cutoff) {
+    let deleted = 0;
+    for (const table of Object.values(TRASH_TABLES)) {
+      const result = await query(`DELETE FROM ${table} WHERE deleted_at < $1`, [cutoff]);
+      deleted += result.rowCount ?? 0;
+    }
+    return deleted;
+  },
+};
@@ -0,0 +1,12 @@
+import { query } from '../../lib/db';
+import { UserRepository } from '../types';
+
+export const userRepository: UserRepository = {
+  async ensure(id, email) {
+    const existing = await query('SELECT id FROM users WHERE id = $1', [id]);
+    if (existing.rows.length > 0) return false;
+
+    const result = await query('INSERT INTO users (id, email) VALUES ($1, $2) ON CONFLICT (id) DO NOTHING', [id, email]);
+    return (result.rowCount ?? 0) > 0;
+  },
+};
@@ -0,0 +1,625 @@
+import { NotificationRow } from '../lib/notificationHub';
+import { PageRequest, SortOrder } from '../lib/pagination';
+import { AccountArchive, BulkTaskOperation, ReminderInput } from '../shared/schemas';
+
+// Data access used by the route handlers. Every method is scoped to one user: rows owned by
+// someone else behave as if they did not exist, except that projects shared through an organization
+// (see OrganizationRepository) are visible to all of its members, with the tasks, notes and statuses in
+// them. Implementations live in ./postgres (the real database) and ./memory (for demos and route-level
+// tests without a database).
+// Projects, tasks and notes in the trash (deleted_at set) are likewise left out everywhere except
+// the TrashRepository.
+
+export interface ListResult<T> {
+  rows: T[];
+  total: number; // Matching rows across all pages
+}
+
+// --- Users ---
+
+export interface UserRepository {
+  // Insert the user if they are new. Returns true when a row was created.
+  ensure(id: string, email: string): Promise<boolean>;
+}
+
+// --- Organizations ---
+
+// What a member may do in a shared project: viewers read, editors also change its tasks, notes and
+// board columns, and owners also rename, share, archive and delete it. Users own their personal projects.
+export const PROJECT_ROLES = ['viewer', 'editor', 'owner'] as const;
+export type ProjectRole = typeof PROJECT_ROLES[number];
+
+export interface OrganizationMemberRow {
+  org_id: string; // Clerk organization ID
+  user_id: string;
+  role: ProjectRole;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface OrganizationRepository {
+  // Record the user's role in the organization, replacing the role they had
+  syncMember(orgId: string, userId: string, role: ProjectRole): Promise<void>;
+  removeMember(orgId: string, userId: string): Promise<void>;
+  // Remove the user's memberships of every organization not in orgIds (their full membership list)
+  retainMemberships(userId: string, orgIds: string[]): Promise<void>;
+}
+
+// --- Projects ---
+
+export interface ProjectRow {
+  id: number;
+  user_id: string; // Who created the project
+  org_id: string | null; // The organization that owns the project when it is shared, otherwise null
+  name: string;
+  color: string | null;
+  description: string | null;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null; // Set while the project is in the trash
+  archived_at: Date | null; // Set while the project is archived; its tasks, notes and statuses are then read-only
+}
+
+export interface ProjectInput {
+  name: string;
+  color: string | null;
+  description: string | null;
+  org_id: string | null; // Share the project with this organization
+}
+
+export type ProjectPatch = Partial<ProjectInput>;
+
+// A project as one user sees it
+export interface ProjectWithRole extends ProjectRow {
+  role: ProjectRole; // The user's role in it: 'owner' of their personal projects, their organization role in shared ones
+}
+
+// A project with the counts and time totals the sidebar shows, over its tasks outside the trash
+export interface ProjectSummary extends ProjectWithRole {
+  task_count: number; // Open tasks
+  estimate_minutes: number; // Sum of the tasks' estimates
+  tracked_seconds: number; // Time of the finished focus sessions linked to the tasks
+  overrun_count: number; // Tasks with an estimate whose tracked time exceeds it
+}
+
+export interface ProjectRepository {
+  // The user's personal projects and those shared with them
+  list(userId: string, archived: boolean): Promise<ProjectSummary[]>; // The archived projects, or the others
+  find(id: number | string, userId: string): Promise<ProjectWithRole | null>;
+  exists(id: number | string, userId: string): Promise<boolean>;
+  create(userId: string, input: ProjectInput): Promise<ProjectWithRole>;
+  update(id: number | string, userId: string, patch: ProjectPatch): Promise<ProjectWithRole | null>;
+  // Archive (archived true) or unarchive the project. Archiving it again keeps the original archived_at.
+  setArchived(id: number | string, userId: string, archived: boolean): Promise<ProjectWithRole | null>;
+  delete(id: number | string, userId: string): Promise<boolean>; // Moves the project, its tasks and its notes to the trash
+  // Who can see the project, ordered by email: its creator for a personal project, the members of its
+  // organization for a shared one. Null when the user cannot see the project.
+  members(id: number | string, userId: string): Promise<ProjectMember[] | null>;
+}
+
+export interface ProjectMember {
+  user_id: string;
+  email: string;
+  role: ProjectRole;
+}
+
+// --- Project statuses ---
+
+// A workflow status (Kanban column) of a project. Tasks of the project have a status that agrees with
+// their completed flag: a task in a done status is completed, and a task in any other status is open.
+export interface ProjectStatusRow {
+  id: number;
+  user_id: string;
+  project_id: number;
+  name: string;
+  color: string | null;
+  position: number; // Column order, from 1
+  wip_limit: number | null; // Most tasks the status should hold; null: no limit
+  is_done: boolean;
+  created_at: Date;
+}
+
+export interface ProjectStatusInput {
+  name: string;
+  color: string | null;
+  wip_limit: number | null;
+  is_done: boolean;
+}
+
+export type ProjectStatusPatch = Partial<ProjectStatusInput>;
+
+export interface ProjectStatusRepository {
+  // The project's statuses in column order; task_count counts the tasks in each one outside the trash
+  list(projectId: number | string, userId: string): Promise<(ProjectStatusRow & { task_count: number })[]>;
+  find(id: number | string, userId: string): Promise<ProjectStatusRow | null>;
+  // New statuses go after the project's other statuses. The project is expected to have been checked already.
+  create(projectId: number | string, userId: string, input: ProjectStatusInput): Promise<ProjectStatusRow>;
+  update(id: number | string, userId: string, patch: ProjectStatusPatch): Promise<ProjectStatusRow | null>;
+  // Put the project's statuses in the order of `ids`, which must list each of them once
+  reorder(projectId: number | string, userId: string, ids: number[]): Promise<void>;
+  // Tasks in the status get the first remaining status of the project that matches their completed flag
+  delete(id: number | string, userId: string): Promise<boolean>;
+  // Tasks outside the trash in the status, leaving out `exceptTaskId`
+  countTasks(id: number, exceptTaskId?: number | string): Promise<number>;
+}
+
+// --- Tags ---
+
+export interface TagRow {
+  id: number;
+  user_id: string;
+  name: string;
+  color: string | null;
+  created_at: Date;
+}
+
+export interface TagInput {
+  name: string;
+  color: string | null;
+}
+
+export type TagPatch = Partial<TagInput>;
+
+export interface TagRepository {
+  list(userId: string): Promise<(TagRow & { task_count: number })[]>;
+  exists(id: number | string, userId: string): Promise<boolean>;
+  // Tag names are unique per user, ignoring case. `exceptId` skips the tag being renamed.
+  nameTaken(userId: string, name: string, exceptId?: number | string): Promise<boolean>;
+  create(userId: string, input: TagInput): Promise<TagRow>;
+  update(id: number | string, userId: string, patch: TagPatch): Promise<TagRow | null>;
+  delete(id: number | string, userId: string): Promise<boolean>;
+}
+
+// --- Tasks ---
+
+export const TASK_SORT_KEYS = ['created_at', 'updated_at', 'dueDate', 'title', 'priority', 'position'] as const;
+export type TaskSortKey = typeof TASK_SORT_KEYS[number];
+
+export interface TaskReminderSummary {
+  id: number;
+  remind_at: Date | string | null;
+  offset_minutes: number | null;
+  sent_at: Date | string | null;
+}
+
+// A task another task waits on
+export interface TaskBlocker {
+  id: number;
+  title: string;
+  completed: boolean;
+}
+
+export interface TaskRow {
+  id: number;
+  user_id: string;
+  title: string;
+  description: string | null;
+  completed: boolean;
+  duedate: Date | null;
+  dueDate: Date | null; // Same as duedate, under the name the frontend uses
+  priority: string | null;
+  is_recurring: boolean;
+  recurrence_pattern: string | null;
+  project_id: number | null;
+  parent_task_id: number | null; // Set on subtasks
+  position: number; // Manual order (sort=position); fractional, lower comes first
+  status_id: number | null; // A status of the task's project that agrees with completed, if the project has one
+  estimate_minutes: number | null; // Expected effort
+  assignee_id: string | null; // Who is responsible for the task (see migrations/016_task_assignees.up.sql)
+  assignee_email: string | null; // The assignee's email, for display
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+  tags: { id: number; name: string; color: string | null }[];
+  // Direct subtasks outside the trash, and how many of them are completed
+  subtask_count: number;
+  subtasks_completed: number;
+  reminders: TaskReminderSummary[];
+  blocked_by: TaskBlocker[]; // Tasks outside the trash this one waits on, completed or not
+  tracked_seconds: number; // Time of the finished focus sessions linked to the task
+}
+
+export interface TaskInput {
+  title: string;
+  description: string | null;
+  dueDate: string | Date | null;
+  priority: string;
+  project_id: number | null;
+  parent_task_id: number | null;
+  is_recurring: boolean;
+  recurrence_pattern: string | null;
+  completed: boolean;
+  status_id: number | null;
+  estimate_minutes: number | null;
+  reminders: ReminderInput[];
+}
+
+// Tasks are assigned by updating them; check that the assignee may be assigned first
+export type TaskPatch = Partial<Omit<TaskInput, 'reminders'> & { assignee_id: string | null }>;
+
+export interface TaskListFilters {
+  completed?: boolean;
+  projectId?: number | null; // null: tasks without a project
+  parentId?: number | null; // null: top-level tasks only
+  dueFrom?: string; // Inclusive
+  dueTo?: string; // Exclusive
+  hasDueDate?: boolean;
+  priorities?: string[];
+  search?: string; // Matches the title or description, ignoring case
+  tag?: string; // A tag ID, or a tag name ignoring case
+  blocked?: boolean; // Blocked: waits on at least one open task outside the trash
+  archived?: boolean; // Whether the task's project is archived; both when undefined
+  assigneeId?: string | null; // null: unassigned tasks
+  sort: SortOrder<TaskSortKey>;
+  page: PageRequest;
+}
+
+// The next task of a recurring series
+export interface TaskOccurrence {
+  dueDate: Date;
+  recurrence_pattern: string;
+  reminderShiftMs: number; // Added to reminders at a fixed time so they keep their distance from the due date
+}
+
+export interface BulkTaskResult {
+  missingIds: number[]; // Requested IDs the user does not own. When any are missing, nothing is changed.
+  archivedIds: number[]; // Requested tasks in archived projects, which are read-only. When there are any, nothing is changed.
+  readOnlyIds: number[]; // Requested tasks in shared projects the user only views. When there are any, nothing is changed.
+  tasks: TaskRow[]; // The tasks after the change, in ID order (empty for delete)
+  previous: TaskRow[]; // The same tasks before the change, in ID order
+  completedIds: number[]; // Tasks that went from open to completed
+}
+
+export interface TaskRepository {
+  list(userId: string, filters: TaskListFilters): Promise<ListResult<TaskRow>>;
+  find(id: number | string, userId: string): Promise<TaskRow | null>;
+  exists(id: number | string, userId: string): Promise<boolean>;
+  // New tasks are placed at the top of their project in the manual order.
+  // create, update, bulk and createOccurrence keep status_id in agreement with completed and the project:
+  // a status that does not match is replaced by the project's first status that does, or null.
+  create(userId: string, input: TaskInput): Promise<TaskRow>;
+  // Create all of the tasks in one transaction, or none of them; returns them in the order of `inputs`
+  createMany(userId: string, inputs: TaskInput[]): Promise<TaskRow[]>;
+  // When dueDate changes, reminders relative to the due date are re-armed for the new date
+  update(id: number | string, userId: string, patch: TaskPatch): Promise<TaskRow | null>;
+  delete(id: number | string, userId: string): Promise<boolean>; // Moves the task and its subtasks to the trash
+  // IDs of the task's subtasks, their subtasks and so on, leaving out the ones in the trash
+  subtaskIds(id: number | string, userId: string): Promise<number[]>;
+  // Copy an open task (with its tags and reminders) as the next occurrence of its series
+  createOccurrence(task: TaskRow, occurrence: TaskOccurrence): Promise<TaskRow>;
+  addTag(id: number | string, tagId: number | string): Promise<void>;
+  removeTag(id: number | string, tagId: number | string): Promise<void>;
+  addReminder(id: number | string, userId: string, reminder: ReminderInput): Promise<void>;
+  removeReminder(id: number | string, userId: string, reminderId: number | string): Promise<boolean>;
+  // Set the task's manual order position; does not count as an edit, so updated_at is left alone
+  setPosition(id: number | string, userId: string, position: number): Promise<TaskRow | null>;
+  // Number the positions of the tasks that share a project and parent task with any of `ids` 1, 2, 3... in
+  // their current order, whoever created them, for when repeated moves between the same two tasks have used
+  // up the room between their positions
+  renumberPositions(ids: (number | string)[], userId: string): Promise<void>;
+  // Record that the task waits on `blockedById`; both tasks are expected to have been checked already
+  addDependency(id: number | string, blockedById: number | string): Promise<void>;
+  removeDependency(id: number | string, blockedById: number | string): Promise<boolean>;
+  // IDs of the tasks the task waits on, directly or through other tasks, including ones in the trash
+  blockerIds(id: number | string): Promise<number[]>;
+  // Open tasks the user can see, outside the trash, that wait on `blockerId` and on no other open task, in ID order
+  unblockedBy(userId: string, blockerId: number): Promise<TaskRow[]>;
+  // Apply one operation to all of `ids` in a single transaction, or to none of them.
+  // move and add_tag expect the project / tag to have been checked already; delete moves the tasks (and their
+  // subtasks) to the trash.
+  bulk(userId: string, ids: number[], operation: BulkTaskOperation): Promise<BulkTaskResult>;
+}
+
+// --- Notes ---
+
+export const NOTE_SORT_KEYS = ['created_at', 'updated_at', 'title'] as const;
+export type NoteSortKey = typeof NOTE_SORT_KEYS[number];
+
+export interface NoteRow {
+  id: number;
+  user_id: string;
+  title: string;
+  content: string | null;
+  project_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+}
+
+export interface NoteInput {
+  title: string;
+  content: string | null;
+  project_id: number | null;
+}
+
+export type NotePatch = Partial<NoteInput>;
+
+export interface NoteListFilters {
+  projectId?: number | null; // null: notes without a project
+  search?: string; // Matches the title or content, ignoring case
+  sort: SortOrder<NoteSortKey>;
+  page: PageRequest;
+}
+
+export interface NoteRepository {
+  list(userId: string, filters: NoteListFilters): Promise<ListResult<NoteRow>>;
+  find(id: number | string, userId: string): Promise<NoteRow | null>;
+  create(userId: string, input: NoteInput): Promise<NoteRow>;
+  update(id: number | string, userId: string, patch: NotePatch): Promise<NoteRow | null>;
+  delete(id: number | string, userId: string): Promise<boolean>; // Moves the note to the trash
+}
+
+// --- Focus sessions ---
+
+export interface FocusSessionRow {
+  id: number;
+  user_id: string;
+  start_time: Date;
+  end_time: Date | null;
+  duration: number | null; // Seconds
+  session_type: string | null;
+  notes: string | null;
+  task_id: number | null;
+  created_at: Date;
+}
+
+export interface FocusSessionInput {
+  start_time: string | Date;
+  end_time: string | Date | null;
+  duration: number | null;
+  session_type: string;
+  notes: string | null;
+  task_id: number | null;
+}
+
+export type FocusSessionPatch = Partial<FocusSessionInput>;
+
+// The focus time spent on a task: the finished sessions of everyone who worked on it, as a running
+// session has no duration yet. tracked_seconds on tasks and projects counts the same sessions.
+export interface TaskTimeTotals {
+  tracked_seconds: number;
+  session_count: number;
+}
+
+export interface FocusSessionFilters {
+  from?: string; // Compared against start_time, inclusive
+  to?: string; // Exclusive
+  taskId?: number;
+}
+
+export interface FocusSessionRepository {
+  list(userId: string, filters: FocusSessionFilters): Promise<FocusSessionRow[]>; // Newest first
+  find(id: number | string, userId: string): Promise<FocusSessionRow | null>;
+  findActive(userId: string): Promise<FocusSessionRow | null>; // The running session (no end_time)
+  create(userId: string, input: FocusSessionInput): Promise<FocusSessionRow>;
+  // Begin a session now
+  start(userId: string, input: Pick<FocusSessionInput, 'session_type' | 'notes' | 'task_id'>): Promise<FocusSessionRow>;
+  // End a running session now and record its duration. Null when it is not running.
+  stop(id: number | string, userId: string, notes: string | null): Promise<FocusSessionRow | null>;
+  update(id: number | string, userId: string, patch: FocusSessionPatch): Promise<FocusSessionRow | null>;
+  delete(id: number | string, userId: string): Promise<boolean>;
+  taskTotals(taskId: number | string): Promise<TaskTimeTotals>; // Expects the task to have been checked already
+}
+
+// --- Notifications ---
+
+export interface NotificationInput {
+  task_id: number | null;
+  reminder_id?: number | null; // Set for reminder notifications
+  type: string; // 'reminder' or 'unblocked'
+  title: string;
+  body: string | null;
+}
+
+export interface NotificationRepository {
+  create(userId: string, input: NotificationInput): Promise<NotificationRow>;
+  list(userId: string, options: { unreadOnly: boolean; limit: number }): Promise<NotificationRow[]>; // Newest first
+  countUnread(userId: string): Promise<number>;
+  listSince(userId: string, afterId: number, limit: number): Promise<NotificationRow[]>; // Oldest first
+  markRead(id: number | string, userId: string): Promise<NotificationRow | null>;
+  markAllRead(userId: string): Promise<void>;
+  delete(id: number | string, userId: string): Promise<boolean>;
+}
+
+// --- Reminders ---
+
+// A reminder that is due, with the title of its task
+export interface DueReminder {
+  id: number;
+  task_id: number;
+  user_id: string;
+  offset_minutes: number | null;
+  title: string;
+}
+
+// Used by lib/reminderScheduler.ts. A reminder is due at remind_at, or offset_minutes before its
+// task's due date. Reminders on completed or trashed tasks, on tasks in archived projects, and offset
+// reminders on tasks without a due date are never due.
+export interface ReminderRepository {
+  due(now: Date, limit: number): Promise<DueReminder[]>; // Unsent reminders, oldest first
+  // Set sent_at on the reminders that are still unsent and return their IDs. A reminder is claimed by
+  // exactly one call, so concurrent schedulers never send it twice.
+  markSent(ids: number[], now: Date): Promise<number[]>;
+}
+
+// --- Trash ---
+
+export const TRASH_ITEM_TYPES = ['project', 'task', 'note'] as const;
+export type TrashItemType = typeof TRASH_ITEM_TYPES[number];
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: number;
+  title: string; // The project's name, or the task's / note's title
+  project_id: number | null; // Tasks and notes only
+  deleted_at: Date;
+  task_count?: number; // Projects only: the tasks and notes that were deleted with the project
+  note_count?: number;
+  read_only: boolean; // The user sees the item but cannot restore or purge it (see TrashRepository)
+}
+
+// An item in the trash and the project it belongs to (the project itself for a project), with the
+// user's role in it; null for tasks and notes outside any project
+export interface TrashedItem {
+  type: TrashItemType;
+  id: number;
+  project: ProjectWithRole | null;
+}
+
+// not_found: not in the user's trash. project_in_trash: the item's project has to be restored first.
+// parent_in_trash: the subtask's parent task has to be restored first.
+export type RestoreResult = 'restored' | 'not_found' | 'project_in_trash' | 'parent_in_trash';
+
+// The trash holds what the user can see: their own tasks and notes outside any project, and the projects
+// they can see with the tasks and notes in them, whoever deleted them. Restoring and purging an item takes
+// the role that changing it does (see lib/projectAccess.ts), which the routes check with find; empty
+// only removes what the user may change.
+export interface TrashRepository {
+  // Newest first. Tasks and notes that went to the trash with their project, and subtasks that went
+  // with their parent task, are not listed separately; they are restored and purged with it.
+  list(userId: string): Promise<TrashItem[]>;
+  find(type: TrashItemType, id: number | string, userId: string): Promise<TrashedItem | null>;
+  // Restoring a project also restores the tasks and notes that were deleted with it, and restoring
+  // a task the subtasks that were deleted with it
+  restore(type: TrashItemType, id: number | string, userId: string): Promise<RestoreResult>;
+  // Delete an item in the trash for good (a project together with its tasks and notes, a task
+  // together with the subtasks deleted with it)
+  purge(type: TrashItemType, id: number | string, userId: string): Promise<boolean>;
+  empty(userId: string): Promise<number>; // Returns the number of rows deleted
+  // For every user, delete what went to the trash before `cutoff`. Returns the number of rows deleted.
+  purgeExpired(cutoff: Date): Promise<number>;
+}
+
+// --- Change history ---
+
+export const HISTORY_ENTITY_TYPES = ['project', 'task', 'note'] as const;
+export type HistoryEntityType = typeof HISTORY_ENTITY_TYPES[number];
+
+// revert: an update made by reverting to an earlier entry
+export const HISTORY_ACTIONS = ['create', 'update', 'delete', 'restore', 'revert'] as const;
+export type HistoryAction = typeof HISTORY_ACTIONS[number];
+
+// Changed field -> its value before and after the change (dates as ISO strings)
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface HistoryEntry {
+  id: number;
+  user_id: string; // Owner of the entity
+  entity_type: HistoryEntityType;
+  entity_id: number;
+  action: HistoryAction;
+  changes: FieldChanges;
+  actor_id: string; // Who made the change
+  source: string; // How it was made: 'api', 'bulk', 'recurrence' or 'import'
+  created_at: Date;
+}
+
+export type HistoryInput = Omit<HistoryEntry, 'id' | 'created_at'>;
+
+export interface HistoryRepository {
+  record(entry: HistoryInput): Promise<HistoryEntry>;
+  // Every member's changes to the entity, newest first. Check that the user can see the entity before listing them.
+  list(entityType: HistoryEntityType, entityId: number | string): Promise<HistoryEntry[]>;
+}
+
+// --- Search ---
+
+export const SEARCH_TYPES = ['task', 'note', 'project'] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export interface SearchOptions {
+  terms: string[]; // Lowercase words; every one must match the start of a word (prefix match)
+  types: SearchType[];
+  limit: number;
+}
+
+// Highlighted text wraps the matching words in <mark>...</mark>; the rest is plain, unescaped text
+export interface SearchResult {
+  type: SearchType;
+  id: number;
+  title: string; // The task's / note's title or the project's name
+  title_highlight: string;
+  snippet: string | null; // Excerpt of the description or note content around the matches, highlighted
+  project_id: number | null; // Tasks and notes only
+  completed: boolean | null; // Tasks only
+  archived: boolean; // Whether the project, or the task's / note's project, is archived (read-only)
+  rank: number; // Higher is better; matches in the title count more than in the text
+  updated_at: Date;
+}
+
+export interface SearchRepository {
+  // The user's live (not trashed) items matching every term, best match first
+  search(userId: string, options: SearchOptions): Promise<SearchResult[]>;
+}
+
+// --- Calendar feeds ---
+
+export interface CalendarFeedRow {
+  user_id: string;
+  token: string; // Secret part of the feed URL
+  created_at: Date;
+}
+
+export interface CalendarFeedRepository {
+  find(userId: string): Promise<CalendarFeedRow | null>;
+  findByToken(token: string): Promise<CalendarFeedRow | null>;
+  // Create the user's feed, or give it a new token (the old one stops working)
+  save(userId: string, token: string): Promise<CalendarFeedRow>;
+  delete(userId: string): Promise<boolean>;
+}
+
+// --- Account export / import ---
+
+export const ARCHIVE_ENTITIES = ['projects', 'tags', 'tasks', 'notes', 'focus_sessions'] as const;
+export type ArchiveEntity = typeof ARCHIVE_ENTITIES[number];
+
+// Project statuses are not exported, so neither is status_id; imported tasks start without a status.
+// Assignees are other accounts, so imported tasks start unassigned.
+// tracked_seconds follows from the exported focus sessions.
+export interface AccountTask extends Omit<
+  TaskRow,
+  'dueDate' | 'tags' | 'reminders' | 'subtask_count' | 'subtasks_completed' | 'blocked_by' | 'status_id' | 'tracked_seconds'
+  | 'assignee_id' | 'assignee_email'
+> {
+  tag_ids: number[];
+  blocked_by_ids: number[];
+  reminders: Omit<TaskReminderSummary, 'id'>[];
+}
+
+// Everything an export contains, as stored
+export interface AccountData {
+  projects: ProjectRow[];
+  tags: TagRow[];
+  tasks: AccountTask[];
+  notes: NoteRow[];
+  focusSessions: FocusSessionRow[];
+}
+
+export type ImportCounts = Record<ArchiveEntity, number>;
+
+export interface ArchiveRepository {
+  // The user's projects, tags, tasks, notes and focus sessions in ID order. Items in the trash are left out.
+  read(userId: string): Promise<AccountData>;
+  // Insert the archive's items for the user in one transaction, with new IDs and the references between
+  // them rewritten. Every reference must point at an item in the archive (see planImport in lib/archive.ts).
+  // Tags are merged into the user's tags with the same name. Returns the number of rows created.
+  write(userId: string, archive: AccountArchive): Promise<ImportCounts>;
+}
+
+export interface Repositories {
+  users: UserRepository;
+  organizations: OrganizationRepository;
+  projects: ProjectRepository;
+  tags: TagRepository;
+  statuses: ProjectStatusRepository;
+  tasks: TaskRepository;
+  notes: NoteRepository;
+  focusSessions: FocusSessionRepository;
+  notifications: NotificationRepository;
+  reminders: ReminderRepository;
+  trash: TrashRepository;
+  history: HistoryRepository;
+  search: SearchRepository;
+  archive: ArchiveRepository;
+  calendarFeeds: CalendarFeedRepository;
+}
@@ -0,0 +1,99 @@
+import express, { Request, Response } from 'express';
+import { archiveToCsv, buildArchive, planImport } from '../lib/archive';
+import { parseBooleanParam } from '../lib/pagination';
+import { validateBody } from '../lib/validate';
+import { ARCHIVE_ENTITIES, ArchiveEntity } from '../repositories';
+import { AccountArchive, accountArchiveSchema } from '../shared/schemas';
+
+// Mounted at /api: GET /api/export and POST /api/import
+const router = express.Router();
+
+// Largest archive POST /api/import accepts (see app.ts)
+export const IMPORT_BODY_LIMIT = process.env.IMPORT_BODY_LIMIT || '20mb';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Export the authenticated user's projects, tags, tasks, notes and focus sessions (not what is in the trash).
+// Default: the JSON archive that POST /api/import accepts, as a file download.
+// format=csv&entity=<projects|tags|tasks|notes|focus_sessions>: one entity as CSV instead.
+router.get('/export', async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { format = 'json', entity } = req.query;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  if (format !== 'json' && format !== 'csv') {
+    res.status(400).json({ error: 'format must be "json" or "csv".' });
+    return;
+  }
+
+  if (format === 'csv' && !(ARCHIVE_ENTITIES as readonly unknown[]).includes(entity)) {
+    res.status(400).json({ error: `CSV exports need an entity. Allowed values: ${ARCHIVE_ENTITIES.join(', ')}.` });
+    return;
+  }
+
+  try {
+    const archive = buildArchive(await req.app.locals.repositories.archive.read(userId));
+
+    if (format === 'csv') {
+      res.attachment(`focusflow-${entity}-${today()}.csv`);
+      res.type('text/csv; charset=utf-8');
+      res.send(archiveToCsv(archive, entity as ArchiveEntity));
+      return;
+    }
+
+    res.attachment(`focusflow-export-${today()}.json`);
+    res.json(archive);
+    return;
+  } catch (err: any) {
+    console.error('Failed to export account:', err.message || err);
+    res.status(500).json({ error: 'Failed to export account', details: err.message });
+    return;
+  }
+});
+
+// Add the items of an archive from GET /api/export to the authenticated user's account. Every item gets
+// a new ID and project_id / task_id / tag_ids are rewritten to match; tags are merged into existing
+// tags with the same name. With dry_run=true nothing is written.
+// Responds with { dry_run, counts, conflicts }: counts are the rows created (or that would be), and
+// conflicts list what is not a plain copy (see ImportConflict in lib/archive.ts).
+router.post('/import', validateBody(accountArchiveSchema), async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { projects, tags, archive } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  const dryRun = parseBooleanParam(req.query.dry_run, 'dry_run');
+  if (dryRun.error) {
+    res.status(400).json({ error: dryRun.error });
+    return;
+  }
+
+  try {
+    const [activeProjects, archivedProjects, existingTags] = await Promise.all([
+      projects.list(userId, false), projects.list(userId, true), tags.list(userId),
+    ]);
+    const plan = planImport(req.body as AccountArchive, { projects: [...activeProjects, ...archivedProjects], tags: existingTags });
+
+    if (dryRun.value) {
+      res.json({ dry_run: true, counts: plan.counts, conflicts: plan.conflicts });
+      return;
+    }
+
+    const counts = await archive.write(userId, plan.archive);
+    res.status(201).json({ dry_run: false, counts, conflicts: plan.conflicts });
+    return;
+  } catch (err: any) {
+    console.error('Failed to import account:', err.message || err);
+    res.status(500).json({ error: 'Failed to import account', details: err.message });
+    return;
+  }
+});
+
+export default router;
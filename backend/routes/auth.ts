@@ -0,0 +1,27 @@
+import express, { Request, Response } from 'express';
+import { getLocalUsers, signLocalToken } from '../lib/auth';
+import { validateBody } from '../lib/validate';
+import { localLoginSchema } from '../shared/schemas';
+
+// Sign-in endpoints for the local auth provider. Mounted (without authentication) only when
+// AUTH_PROVIDER=local; with Clerk, sign-in happens in the browser against Clerk itself.
+const router = express.Router();
+
+// List the seeded users that can be signed in as
+router.get('/local/users', (req: Request, res: Response) => {
+  res.json(getLocalUsers());
+});
+
+// Issue a token for one of the seeded users. Send it back as `Authorization: Bearer <token>`.
+router.post('/local/login', validateBody(localLoginSchema), (req: Request, res: Response) => {
+  const user = getLocalUsers().find(u => u.id === req.body.userId);
+
+  if (!user) {
+    res.status(404).json({ error: 'User not found.' });
+    return;
+  }
+
+  res.json({ token: signLocalToken(user), user });
+});
+
+export default router;
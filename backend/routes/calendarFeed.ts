@@ -0,0 +1,78 @@
+import express, { Request, Response } from 'express';
+import { generateFeedToken } from '../lib/ical';
+import { CalendarFeedRow } from '../repositories';
+
+const router = express.Router();
+
+// The feed as the API returns it. The URL is public: anyone who has it can read the tasks in the feed.
+// PUBLIC_URL sets the server's address as calendar apps reach it (default: the address of this request).
+const presentFeed = (req: Request, feed: CalendarFeedRow) => {
+  const path = `/ical/${feed.token}.ics`;
+  const origin = process.env.PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+  return { token: feed.token, path, url: `${origin.replace(/\/$/, '')}${path}`, created_at: feed.created_at };
+};
+
+// The authenticated user's calendar feed: { data: { token, path, url, created_at } }, or { data: null } if there is none
+router.get('/', async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const feed = await req.app.locals.repositories.calendarFeeds.find(userId);
+    res.json({ data: feed ? presentFeed(req, feed) : null });
+    return;
+  } catch (err: any) {
+    console.error('Failed to fetch calendar feed:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch calendar feed', details: err.message });
+    return;
+  }
+});
+
+// Create the feed, or rotate its token: the previous URL stops working immediately
+router.post('/', async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const feed = await req.app.locals.repositories.calendarFeeds.save(userId, generateFeedToken());
+    res.status(201).json(presentFeed(req, feed));
+    return;
+  } catch (err: any) {
+    console.error('Failed to create calendar feed:', err.message || err);
+    res.status(500).json({ error: 'Failed to create calendar feed', details: err.message });
+    return;
+  }
+});
+
+// Turn the feed off
+router.delete('/', async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await req.app.locals.repositories.calendarFeeds.delete(userId))) {
+      res.status(404).json({ error: 'No calendar feed has been created.' });
+      return;
+    }
+    res.status(204).send();
+    return;
+  } catch (err: any) {
+    console.error('Failed to delete calendar feed:', err.message || err);
+    res.status(500).json({ error: 'Failed to delete calendar feed', details: err.message });
+    return;
+  }
+});
+
+export default router;
@@ -0,0 +1,98 @@
+import express, { Request, Response } from 'express';
+import { diffFields, recordChange } from '../lib/history';
+import { parseCalendar } from '../lib/ical';
+import { parseBooleanParam } from '../lib/pagination';
+import { projectChangeError } from '../lib/projectAccess';
+import { validateBody } from '../lib/validate';
+import { CalendarImportInput, calendarImportSchema } from '../shared/schemas';
+
+// Mounted at /api/import/ics
+const router = express.Router();
+
+// Most tasks one file may create
+export const CALENDAR_IMPORT_LIMIT = 1000;
+
+// Create tasks from the VTODO and VEVENT components of an .ics file: { calendar: "<file text>", project_id? }.
+// With dry_run=true nothing is written and `tasks` previews the new tasks (see CalendarTask in lib/ical.ts);
+// otherwise `tasks` are the created tasks, all of them or, when one fails, none. `issues` lists items that
+// were skipped or only partly imported.
+router.post('/', validateBody(calendarImportSchema), async (req: Request, res: Response) => {
+  const { calendar, project_id } = req.body as CalendarImportInput;
+  const userId = req.userId;
+  const { tasks, projects } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  const dryRun = parseBooleanParam(req.query.dry_run, 'dry_run');
+  if (dryRun.error) {
+    res.status(400).json({ error: dryRun.error });
+    return;
+  }
+
+  let parsed;
+  try {
+    parsed = parseCalendar(calendar);
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+    return;
+  }
+
+  if (parsed.tasks.length > CALENDAR_IMPORT_LIMIT) {
+    res.status(400).json({ error: `The file has ${parsed.tasks.length} items; at most ${CALENDAR_IMPORT_LIMIT} can be imported at once.` });
+    return;
+  }
+
+  try {
+    const projectId = project_id || null; // 0 means no project
+    if (projectId !== null && !(await projects.exists(projectId, userId))) {
+      res.status(400).json({
+        error: `Project with ID ${projectId} does not exist or does not belong to the current user.`,
+      });
+      return;
+    }
+
+    // Viewers cannot add tasks to a shared project, nor anyone to an archived one; a preview is refused too
+    const accessError = await projectChangeError(req, userId, projectId);
+    if (accessError) {
+      res.status(accessError.status).json({ error: accessError.error });
+      return;
+    }
+
+    if (dryRun.value) {
+      res.json({ dry_run: true, tasks: parsed.tasks.map((task) => ({ ...task, project_id: projectId })), issues: parsed.issues });
+      return;
+    }
+
+    const created = await tasks.createMany(userId, parsed.tasks.map(
+      ({ title, description, dueDate, priority, completed, is_recurring, recurrence_pattern, reminders }) => ({
+        title,
+        description,
+        dueDate,
+        priority,
+        project_id: projectId,
+        parent_task_id: null,
+        is_recurring,
+        recurrence_pattern,
+        completed,
+        status_id: null,
+        estimate_minutes: null,
+        reminders,
+      })
+    ));
+    for (const task of created) {
+      await recordChange(req, 'task', task.id, 'create', diffFields('task', null, task), 'import');
+    }
+
+    res.status(201).json({ dry_run: false, tasks: created, issues: parsed.issues });
+    return;
+  } catch (err: any) {
+    console.error('Failed to import calendar:', err.message || err);
+    res.status(500).json({ error: 'Failed to import calendar', details: err.message });
+    return;
+  }
+});
+
+export default router;
@@ -0,0 +1,40 @@
+import express, { Request, Response } from 'express';
+import { verifyWebhook } from '@clerk/express/webhooks';
+import { clerkOrgRole } from '../lib/auth';
+
+// Organization membership events from Clerk, so a user removed from an organization loses its shared
+// projects even though their sessions only name the active organization. Mounted (without authentication)
+// only when AUTH_PROVIDER=clerk; requests are verified with CLERK_WEBHOOK_SIGNING_SECRET.
+// Subscribe the endpoint to organizationMembership.created, .updated and .deleted in the Clerk dashboard.
+const router = express.Router();
+
+router.post('/', async (req: Request, res: Response) => {
+  let event;
+  try {
+    event = await verifyWebhook(req);
+  } catch (err: any) {
+    res.status(400).json({ error: 'Invalid webhook signature.' });
+    return;
+  }
+
+  try {
+    const { organizations } = req.app.locals.repositories;
+    switch (event.type) {
+      case 'organizationMembership.created':
+      case 'organizationMembership.updated':
+        await organizations.syncMember(event.data.organization.id, event.data.public_user_data.user_id, clerkOrgRole(event.data.role));
+        break;
+      case 'organizationMembership.deleted':
+        await organizations.removeMember(event.data.organization.id, event.data.public_user_data.user_id);
+        break;
+    }
+    res.status(204).send();
+    return;
+  } catch (err: any) {
+    console.error('Failed to process Clerk webhook:', err.message || err);
+    res.status(500).json({ error: 'Failed to process Clerk webhook', details: err.message });
+    return;
+  }
+});
+
+export default router;
@@ -0,0 +1,294 @@
+import express, { Request, Response } from 'express';
+import { isEmptyPatch } from '../lib/patch';
+import { validateBody } from '../lib/validate';
+import { FocusSessionFilters } from '../repositories';
+import {
+  createFocusSessionSchema,
+  updateFocusSessionSchema,
+  startFocusSessionSchema,
+  stopFocusSessionSchema,
+} from '../shared/schemas';
+
+const router = express.Router();
+
+// Get focus sessions for the authenticated user, optionally limited to a date range.
+// Query parameters: from / to (ISO 8601, compared against start_time) and task_id.
+router.get('/', async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { focusSessions } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  const { from, to, task_id } = req.query;
+  const filters: FocusSessionFilters = {};
+
+  if (typeof from === 'string' && from) {
+    if (isNaN(Date.parse(from))) {
+      res.status(400).json({ error: `Invalid 'from' date: ${from}` });
+      return;
+    }
+    filters.from = from;
+  }
+
+  if (typeof to === 'string' && to) {
+    if (isNaN(Date.parse(to))) {
+      res.status(400).json({ error: `Invalid 'to' date: ${to}` });
+      return;
+    }
+    filters.to = to;
+  }
+
+  if (typeof task_id === 'string' && task_id) {
+    if (!/^[1-9]\d*$/.test(task_id)) {
+      res.status(400).json({ error: `Invalid task_id: ${task_id}` });
+      return;
+    }
+    filters.taskId = Number(task_id);
+  }
+
+  try {
+    res.json(await focusSessions.list(userId, filters));
+    return;
+  } catch (err: any) {
+    console.error('Failed to fetch focus sessions:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch focus sessions', details: err.message });
+    return;
+  }
+});
+
+// Get the session that is currently running (end_time IS NULL), or null if there is none.
+// The Focus page uses this to resume the timer after a page refresh.
+router.get('/active', async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { focusSessions } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    res.json(await focusSessions.findActive(userId));
+    return;
+  } catch (err: any) {
+    console.error('Failed to fetch active focus session:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch active focus session', details: err.message });
+    return;
+  }
+});
+
+// Get a single focus session
+router.get('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.userId;
+  const { focusSessions } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const session = await focusSessions.find(id, userId);
+
+    if (!session) {
+      res.status(404).json({ error: 'Focus session not found or unauthorized.' });
+      return;
+    }
+
+    res.json(session);
+    return;
+  } catch (err: any) {
+    console.error('Failed to fetch focus session:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch focus session', details: err.message });
+    return;
+  }
+});
+
+// Log a complete focus session (e.g. one recorded manually after the fact)
+router.post('/', validateBody(createFocusSessionSchema), async (req: Request, res: Response) => {
+  const { start_time, end_time, duration, session_type, notes, task_id } = req.body;
+  const userId = req.userId;
+  const { focusSessions, tasks } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (task_id !== null && task_id !== undefined && !(await tasks.exists(task_id, userId))) {
+      res.status(400).json({
+        error: `Task with ID ${task_id} does not exist or does not belong to the current user.`,
+      });
+      return;
+    }
+
+    // Derive the duration from the timestamps when the client did not send one
+    const computedDuration = duration ?? (end_time
+      ? Math.round((new Date(end_time).getTime() - new Date(start_time).getTime()) / 1000)
+      : null);
+
+    const session = await focusSessions.create(userId, {
+      start_time,
+      end_time: end_time || null,
+      duration: computedDuration,
+      session_type: session_type || 'pomodoro',
+      notes: notes || null,
+      task_id: task_id || null,
+    });
+    res.status(201).json(session);
+    return;
+  } catch (err: any) {
+    console.error('Failed to create focus session:', err.message || err);
+    res.status(500).json({ error: 'Failed to create focus session', details: err.message });
+    return;
+  }
+});
+
+// Start a new session now. Only one session can run at a time per user.
+router.post('/start', validateBody(startFocusSessionSchema), async (req: Request, res: Response) => {
+  const { session_type, notes, task_id } = req.body;
+  const userId = req.userId;
+  const { focusSessions, tasks } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const active = await focusSessions.findActive(userId);
+
+    if (active) {
+      res.status(409).json({
+        error: 'A focus session is already running. Stop it before starting a new one.',
+        session: active,
+      });
+      return;
+    }
+
+    if (task_id !== null && task_id !== undefined && !(await tasks.exists(task_id, userId))) {
+      res.status(400).json({
+        error: `Task with ID ${task_id} does not exist or does not belong to the current user.`,
+      });
+      return;
+    }
+
+    const session = await focusSessions.start(userId, {
+      session_type: session_type || 'pomodoro',
+      notes: notes || null,
+      task_id: task_id || null,
+    });
+    res.status(201).json(session);
+    return;
+  } catch (err: any) {
+    console.error('Failed to start focus session:', err.message || err);
+    res.status(500).json({ error: 'Failed to start focus session', details: err.message });
+    return;
+  }
+});
+
+// Stop a running session. The duration (in seconds) is computed from start_time.
+router.post('/:id/stop', validateBody(stopFocusSessionSchema), async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { notes } = req.body;
+  const userId = req.userId;
+  const { focusSessions } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const session = await focusSessions.stop(id, userId, notes ?? null);
+
+    if (!session) {
+      res.status(404).json({ error: 'Running focus session not found or unauthorized.' });
+      return;
+    }
+
+    res.json(session);
+    return;
+  } catch (err: any) {
+    console.error('Failed to stop focus session:', err.message || err);
+    res.status(500).json({ error: 'Failed to stop focus session', details: err.message });
+    return;
+  }
+});
+
+// Update a focus session
+router.put('/:id', validateBody(updateFocusSessionSchema), async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { task_id } = req.body;
+  const userId = req.userId;
+  const { focusSessions, tasks } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  if (isEmptyPatch(req.body)) {
+    res.status(400).json({ error: 'No valid fields provided for update.' });
+    return;
+  }
+
+  try {
+    if (task_id !== null && task_id !== undefined && !(await tasks.exists(task_id, userId))) {
+      res.status(400).json({
+        error: `Task with ID ${task_id} does not exist or does not belong to the current user.`,
+      });
+      return;
+    }
+
+    const session = await focusSessions.update(id, userId, {
+      ...req.body,
+      task_id: task_id === undefined ? undefined : task_id || null,
+    });
+
+    if (!session) {
+      res.status(404).json({ error: 'Focus session not found or unauthorized.' });
+      return;
+    }
+
+    res.json(session);
+    return;
+  } catch (err: any) {
+    console.error('Failed to update focus session:', err.message || err);
+    res.status(500).json({ error: 'Failed to update focus session', details: err.message });
+    return;
+  }
+});
+
+// Delete a focus session
+router.delete('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.userId;
+  const { focusSessions } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await focusSessions.delete(id, userId))) {
+      res.status(404).json({ error: 'Focus session not found or unauthorized.' });
+      return;
+    }
+
+    res.status(204).send();
+    return;
+  } catch (err: any) {
+    console.error('Failed to delete focus session:', err.message || err);
+    res.status(500).json({ error: 'Failed to delete focus session', details: err.message });
+    return;
+  }
+});
+
+export default router;
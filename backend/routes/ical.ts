@@ -0,0 +1,55 @@
+import express, { Request, Response } from 'express';
+import { buildCalendar, isFeedToken } from '../lib/ical';
+
+// Public: calendar apps cannot sign in, so the secret token in the URL identifies the user
+const router = express.Router();
+
+// Tasks in the feed: the ones due most recently or furthest ahead, if there are more
+const FEED_TASK_LIMIT = 1000;
+
+// The user's tasks with a due date as an iCalendar file: events by default, to-dos (VTODO) with ?type=todo.
+// Unknown or rotated tokens get a 404.
+router.get('/:token.ics', async (req: Request, res: Response) => {
+  const { token } = req.params;
+  const { tasks, projects, calendarFeeds } = req.app.locals.repositories;
+
+  if (!isFeedToken(token)) {
+    res.status(404).json({ error: 'Calendar feed not found.' });
+    return;
+  }
+
+  try {
+    const feed = await calendarFeeds.findByToken(token);
+    if (!feed) {
+      res.status(404).json({ error: 'Calendar feed not found.' });
+      return;
+    }
+
+    const [dueTasks, userProjects] = await Promise.all([
+      tasks.list(feed.user_id, {
+        hasDueDate: true,
+        archived: false,
+        sort: { key: 'dueDate', descending: true },
+        page: { limit: FEED_TASK_LIMIT, offset: 0 },
+      }),
+      projects.list(feed.user_id, false),
+    ]);
+
+    const calendar = buildCalendar(dueTasks.rows, {
+      component: req.query.type === 'todo' ? 'VTODO' : 'VEVENT',
+      name: 'FocusFlow tasks',
+      projectNames: new Map(userProjects.map((project) => [project.id, project.name])),
+    });
+
+    res.type('text/calendar; charset=utf-8');
+    res.set('Cache-Control', 'private, max-age=300');
+    res.send(calendar);
+    return;
+  } catch (err: any) {
+    console.error('Failed to build calendar feed:', err.message || err);
+    res.status(500).json({ error: 'Failed to build calendar feed', details: err.message });
+    return;
+  }
+});
+
+export default router;
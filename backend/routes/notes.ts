@@ -1,12 +1,24 @@
 import express, { Request, Response, NextFunction } from 'express'; // Import Request, Response, NextFunction
-import { query } from '../lib/db';
+import { diffFields, patchFromChanges, recordChange, revertChanges } from '../lib/history';
+import { buildPage, parsePageRequest, parseSort } from '../lib/pagination';
+import { isEmptyPatch } from '../lib/patch';
+import { projectChangeError, refuseProjectChanges } from '../lib/projectAccess';
+import { validateBody } from '../lib/validate';
+import { NOTE_SORT_KEYS, NoteListFilters, NotePatch } from '../repositories';
+import { createNoteSchema, updateNoteSchema } from '../shared/schemas';
 
 const router = express.Router();
 
+// Notes of archived projects are read-only
+router.param('id', refuseProjectChanges('note'));
+
 // Removed: interface AuthenticatedRequest extends Request { userId?: string; }
 // The Request interface is now globally extended in index.ts to include userId.
 
-// Get all notes for the authenticated user
+// Get notes for the authenticated user, one page at a time.
+// Query parameters (all optional): project_id=<id>|none, search (title/content),
+// sort=<column> or -<column> (default -updated_at), limit (default 50, max 200) and cursor.
+// Responds with { data, total, page, limit, nextCursor }.
 router.get('/', async (req: Request, res: Response) => {
   const userId = req.userId;
 
@@ -15,9 +27,36 @@ router.get('/', async (req: Request, res: Response) => {
     return; // Optional: Add 'return;' to exit the function
   }
 
+  const pageRequest = parsePageRequest(req.query);
+  const sort = parseSort(req.query.sort, NOTE_SORT_KEYS, '-updated_at');
+  const parseError = pageRequest.error || sort.error;
+
+  if (parseError) {
+    res.status(400).json({ error: parseError });
+    return;
+  }
+
+  const filters: NoteListFilters = { sort: sort.value!, page: pageRequest.value! };
+  const { project_id, search } = req.query;
+
+  if (typeof project_id === 'string' && project_id) {
+    if (project_id === 'none') {
+      filters.projectId = null;
+    } else if (!/^\d+$/.test(project_id)) {
+      res.status(400).json({ error: `Invalid project_id: ${project_id}` });
+      return;
+    } else {
+      filters.projectId = Number(project_id);
+    }
+  }
+
+  if (typeof search === 'string' && search.trim()) {
+    filters.search = search.trim();
+  }
+
   try {
-    const result = await query('SELECT * FROM notes WHERE user_id = $1 ORDER BY created_at DESC', [userId]);
-    res.json(result.rows);
+    const { rows, total } = await req.app.locals.repositories.notes.list(userId, filters);
+    res.json(buildPage(rows, total, filters.page));
   } catch (err: any) {
     console.error('Failed to fetch notes:', err.message || err);
     res.status(500).json({ error: 'Failed to fetch notes', details: err.message });
@@ -25,36 +64,33 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 // Create a new note for the authenticated user
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', validateBody(createNoteSchema), async (req: Request, res: Response) => {
   const { title, content, project_id } = req.body;
   const userId = req.userId;
+  const { notes, projects } = req.app.locals.repositories;
 
   if (!userId) {
     res.status(401).json({ error: 'Unauthorized: User ID not found.' }); // REMOVE 'return'
     return; // Optional: Add 'return;' to exit the function
   }
 
-  if (!title) {
-    res.status(400).json({ error: 'Title is required to create a note.' }); // REMOVE 'return'
-    return; // Optional: Add 'return;' to exit the function
-  }
-
   try {
-    if (project_id !== null && project_id !== undefined) {
-      const projectExists = await query('SELECT id FROM projects WHERE id = $1 AND user_id = $2', [project_id, userId]);
-      if (projectExists.rows.length === 0) {
-        res.status(400).json({ // REMOVE 'return'
-          error: `Project with ID ${project_id} does not exist or does not belong to the current user. Cannot assign note to non-existent or unauthorized project.`,
-        });
-        return; // Optional: Add 'return;' to exit the function
-      }
+    if (project_id !== null && project_id !== undefined && !(await projects.exists(project_id, userId))) {
+      res.status(400).json({ // REMOVE 'return'
+        error: `Project with ID ${project_id} does not exist or does not belong to the current user. Cannot assign note to non-existent or unauthorized project.`,
+      });
+      return; // Optional: Add 'return;' to exit the function
     }
 
-    const result = await query(
-      'INSERT INTO notes (title, content, project_id, user_id) VALUES ($1, $2, $3, $4) RETURNING *',
-      [title, content || null, project_id || null, userId]
-    );
-    res.status(201).json(result.rows[0]);
+    const accessError = await projectChangeError(req, userId, project_id);
+    if (accessError) {
+      res.status(accessError.status).json({ error: accessError.error });
+      return;
+    }
+
+    const note = await notes.create(userId, { title, content: content || null, project_id: project_id || null });
+    await recordChange(req, 'note', note.id, 'create', diffFields('note', null, note));
+    res.status(201).json(note);
   } catch (err: any) {
     console.error('Failed to create note:', err.message || err);
     res.status(500).json({ error: 'Failed to create note', details: err.message });
@@ -62,78 +98,58 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // Update a note for the authenticated user
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', validateBody(updateNoteSchema), async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { title, content, project_id } = req.body;
+  const { project_id } = req.body;
   const userId = req.userId;
+  const { notes, projects } = req.app.locals.repositories;
 
   if (!userId) {
     res.status(401).json({ error: 'Unauthorized: User ID not found.' }); // REMOVE 'return'
     return; // Optional: Add 'return;' to exit the function
   }
 
-  try {
-    if (project_id !== null && project_id !== undefined) {
-      const projectExists = await query('SELECT id FROM projects WHERE id = $1 AND user_id = $2', [project_id, userId]);
-      if (projectExists.rows.length === 0) {
-        res.status(400).json({ // REMOVE 'return'
-          error: `Project with ID ${project_id} does not exist or does not belong to the current user.`,
-        });
-        return; // Optional: Add 'return;' to exit the function
-      }
-    }
-
-    let updateFields = [];
-    let params = [];
-    let paramIndex = 1;
-
-    if (title !== undefined) {
-      updateFields.push(`title = $${paramIndex++}`);
-      params.push(title);
-    }
-
-    if (content !== undefined) {
-      updateFields.push(`content = $${paramIndex++}`);
-      params.push(content);
-    }
-
-    if (project_id !== undefined) {
-      updateFields.push(`project_id = $${paramIndex++}`);
-      params.push(project_id || null);
-    }
-
-    updateFields.push(`updated_at = CURRENT_TIMESTAMP`);
+  if (isEmptyPatch(req.body)) {
+    res.status(400).json({ error: 'No valid fields provided for update.' }); // REMOVE 'return'
+    return; // Optional: Add 'return;' to exit the function
+  }
 
-    if (updateFields.length === 1 && updateFields[0].includes('updated_at')) {
-      res.status(400).json({ error: 'No valid fields provided for update.' }); // REMOVE 'return'
+  try {
+    if (project_id !== null && project_id !== undefined && !(await projects.exists(project_id, userId))) {
+      res.status(400).json({ // REMOVE 'return'
+        error: `Project with ID ${project_id} does not exist or does not belong to the current user.`,
+      });
       return; // Optional: Add 'return;' to exit the function
     }
 
-    params.push(id);
-    params.push(userId);
+    const accessError = await projectChangeError(req, userId, project_id);
+    if (accessError) {
+      res.status(accessError.status).json({ error: accessError.error });
+      return;
+    }
 
-    const updateQuery = `
-      UPDATE notes
-      SET ${updateFields.join(', ')}
-      WHERE id = $${paramIndex++} AND user_id = $${paramIndex}
-      RETURNING *
-    `;
+    // The note as it was, for the change history
+    const previous = await notes.find(id, userId);
 
-    const result = await query(updateQuery, params);
+    const note = previous && await notes.update(id, userId, {
+      ...req.body,
+      project_id: project_id === undefined ? undefined : project_id || null,
+    });
 
-    if (result.rows.length === 0) {
+    if (!note) {
       res.status(404).json({ error: 'Note not found or unauthorized.' }); // REMOVE 'return'
       return; // Optional: Add 'return;' to exit the function
     }
 
-    res.json(result.rows[0]);
+    await recordChange(req, 'note', note.id, 'update', diffFields('note', previous, note));
+    res.json(note);
   } catch (err: any) {
     console.error('Failed to update note:', err.message || err);
     res.status(500).json({ error: 'Failed to update note', details: err.message });
   }
 });
 
-// Delete a note for the authenticated user
+// Move a note to the trash (see routes/trash.ts)
 router.delete('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
   const userId = req.userId;
@@ -144,13 +160,12 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 
   try {
-    const result = await query('DELETE FROM notes WHERE id = $1 AND user_id = $2 RETURNING id', [id, userId]);
-
-    if (result.rows.length === 0) {
+    if (!(await req.app.locals.repositories.notes.delete(id, userId))) {
       res.status(404).json({ error: 'Note not found or unauthorized.' }); // REMOVE 'return'
       return; // Optional: Add 'return;' to exit the function
     }
 
+    await recordChange(req, 'note', id, 'delete');
     res.status(204).send();
   } catch (err: any) {
     console.error('Failed to delete note:', err.message || err);
@@ -158,4 +173,80 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
+// The note's change history, newest first: { data: [{ id, action, changes, actor_id, source, created_at, ... }] }.
+// `changes` maps each changed field to { from, to }.
+router.get('/:id/history', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.userId;
+  const { notes, history } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await notes.find(id, userId))) {
+      res.status(404).json({ error: 'Note not found or unauthorized.' });
+      return;
+    }
+
+    res.json({ data: await history.list('note', id) });
+  } catch (err: any) {
+    console.error('Failed to fetch note history:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch note history', details: err.message });
+  }
+});
+
+// Revert a note to the version right after one of its history entries.
+// Responds with the note; 409 when the project of that version no longer exists or is archived, and 403
+// when the user only views it.
+router.post('/:id/history/:entryId/revert', async (req: Request, res: Response) => {
+  const { id, entryId } = req.params;
+  const userId = req.userId;
+  const { notes, projects, history } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const note = await notes.find(id, userId);
+
+    if (!note) {
+      res.status(404).json({ error: 'Note not found or unauthorized.' });
+      return;
+    }
+
+    const changes = revertChanges('note', note, await history.list('note', note.id), Number(entryId));
+
+    if (!changes) {
+      res.status(404).json({ error: 'History entry not found.' });
+      return;
+    }
+
+    const patch: NotePatch = patchFromChanges(changes);
+    if (patch.project_id && !(await projects.exists(patch.project_id, userId))) {
+      res.status(409).json({ error: `Project with ID ${patch.project_id} no longer exists. Cannot revert to this version.` });
+      return;
+    }
+
+    // Moving back into a project takes the same role as moving there with PUT, and the project must not be archived
+    const accessError = await projectChangeError(req, userId, patch.project_id);
+    if (accessError) {
+      res.status(accessError.status).json({ error: accessError.error });
+      return;
+    }
+
+    const revertedNote = isEmptyPatch(patch) ? note : await notes.update(note.id, userId, patch);
+    await recordChange(req, 'note', note.id, 'revert', changes);
+
+    res.json(revertedNote);
+  } catch (err: any) {
+    console.error('Failed to revert note:', err.message || err);
+    res.status(500).json({ error: 'Failed to revert note', details: err.message });
+  }
+});
+
 export default router;
@@ -0,0 +1,183 @@
+import express, { Request, Response } from 'express';
+import { subscribe, NotificationRow } from '../lib/notificationHub';
+import { parseBooleanParam } from '../lib/pagination';
+
+const router = express.Router();
+
+const HEARTBEAT_MS = 25 * 1000;
+const RECENT_LIMIT = 50;
+
+// Get the authenticated user's most recent notifications (newest first).
+// ?unread=true only returns notifications that have not been read; ?limit= defaults to 50.
+router.get('/', async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  const unread = parseBooleanParam(req.query.unread, 'unread');
+  if (unread.error) {
+    res.status(400).json({ error: unread.error });
+    return;
+  }
+
+  const limit = req.query.limit === undefined ? RECENT_LIMIT : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+    res.status(400).json({ error: 'limit must be an integer between 1 and 200.' });
+    return;
+  }
+
+  const { notifications } = req.app.locals.repositories;
+
+  try {
+    const data = await notifications.list(userId, { unreadOnly: !!unread.value, limit });
+    res.json({ data, unread: await notifications.countUnread(userId) });
+    return;
+  } catch (err: any) {
+    console.error('Failed to fetch notifications:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch notifications', details: err.message });
+    return;
+  }
+});
+
+// Server-sent events stream of new notifications for the authenticated user.
+// Each event is `event: notification` with the notification row as JSON and its ID as the event ID.
+// Clients that reconnect pass the last ID they saw as ?since= (or the Last-Event-ID header)
+// to receive anything they missed in between.
+router.get('/stream', async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  const since = Number(req.query.since ?? req.header('Last-Event-ID') ?? 0);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Stop nginx-style proxies from buffering the stream
+  });
+  res.write('retry: 5000\n\n');
+
+  const send = (notification: NotificationRow) => {
+    res.write(`id: ${notification.id}\nevent: notification\ndata: ${JSON.stringify(notification)}\n\n`);
+  };
+
+  // Subscribe before reading the backlog so nothing created in between is lost;
+  // events that arrive while the backlog is being sent are held back and de-duplicated by ID
+  let lastSentId = Number.isInteger(since) && since > 0 ? since : 0;
+  let pending: NotificationRow[] | null = [];
+  const unsubscribe = subscribe(userId, (notification) => {
+    if (pending) {
+      pending.push(notification);
+    } else if (notification.id > lastSentId) {
+      lastSentId = notification.id;
+      send(notification);
+    }
+  });
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  try {
+    if (lastSentId > 0) {
+      const missed = await req.app.locals.repositories.notifications.listSince(userId, lastSentId, RECENT_LIMIT);
+      missed.forEach((notification) => {
+        lastSentId = notification.id;
+        send(notification);
+      });
+    }
+  } catch (err: any) {
+    console.error('Failed to send missed notifications:', err.message || err);
+  }
+
+  const held = pending;
+  pending = null;
+  held.filter((notification) => notification.id > lastSentId).forEach((notification) => {
+    lastSentId = notification.id;
+    send(notification);
+  });
+});
+
+// Mark every notification of the authenticated user as read
+router.post('/read-all', async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    await req.app.locals.repositories.notifications.markAllRead(userId);
+    res.status(204).send();
+    return;
+  } catch (err: any) {
+    console.error('Failed to mark notifications as read:', err.message || err);
+    res.status(500).json({ error: 'Failed to mark notifications as read', details: err.message });
+    return;
+  }
+});
+
+// Mark a notification as read
+router.post('/:id/read', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const notification = await req.app.locals.repositories.notifications.markRead(id, userId);
+
+    if (!notification) {
+      res.status(404).json({ error: 'Notification not found or unauthorized.' });
+      return;
+    }
+
+    res.json(notification);
+    return;
+  } catch (err: any) {
+    console.error('Failed to mark notification as read:', err.message || err);
+    res.status(500).json({ error: 'Failed to mark notification as read', details: err.message });
+    return;
+  }
+});
+
+// Delete a notification
+router.delete('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await req.app.locals.repositories.notifications.delete(id, userId))) {
+      res.status(404).json({ error: 'Notification not found or unauthorized.' });
+      return;
+    }
+
+    res.status(204).send();
+    return;
+  } catch (err: any) {
+    console.error('Failed to delete notification:', err.message || err);
+    res.status(500).json({ error: 'Failed to delete notification', details: err.message });
+    return;
+  }
+});
+
+export default router;
@@ -0,0 +1,191 @@
+import express, { Request, Response } from 'express';
+import { isEmptyPatch } from '../lib/patch';
+import { projectChangeError } from '../lib/projectAccess';
+import { validateBody } from '../lib/validate';
+import {
+  ReorderProjectStatusesInput, createProjectStatusSchema, reorderProjectStatusesSchema, updateProjectStatusSchema,
+} from '../shared/schemas';
+
+// Mounted at /api/projects/:projectId/statuses
+const router = express.Router({ mergeParams: true });
+
+// The columns of an archived project, or of a shared project the user only views, are read-only
+router.use(async (req: Request, res: Response, next) => {
+  const userId = req.userId;
+  if (req.method === 'GET' || !userId) {
+    next();
+    return;
+  }
+
+  try {
+    const accessError = await projectChangeError(req, userId, req.params.projectId);
+    if (accessError) {
+      res.status(accessError.status).json({ error: accessError.error });
+      return;
+    }
+    next();
+  } catch (err: any) {
+    console.error('Failed to check the project:', err.message || err);
+    res.status(500).json({ error: 'Failed to check the project', details: err.message });
+  }
+});
+
+// Get the project's statuses in column order, with the number of tasks in each one
+router.get('/', async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  const userId = req.userId;
+  const { projects, statuses } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await projects.exists(projectId, userId))) {
+      res.status(404).json({ error: 'Project not found or unauthorized.' });
+      return;
+    }
+
+    res.json(await statuses.list(projectId, userId));
+    return;
+  } catch (err: any) {
+    console.error('Failed to fetch project statuses:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch project statuses', details: err.message });
+    return;
+  }
+});
+
+// Add a status after the project's other statuses: { name, color?, wip_limit?, is_done? }.
+// Tasks of the project that had no matching status yet are put in it.
+router.post('/', validateBody(createProjectStatusSchema), async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  const { name, color, wip_limit, is_done } = req.body;
+  const userId = req.userId;
+  const { projects, statuses } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await projects.exists(projectId, userId))) {
+      res.status(404).json({ error: 'Project not found or unauthorized.' });
+      return;
+    }
+
+    res.status(201).json(await statuses.create(projectId, userId, {
+      name,
+      color: color || null,
+      wip_limit: wip_limit ?? null,
+      is_done: is_done || false,
+    }));
+    return;
+  } catch (err: any) {
+    console.error('Failed to create project status:', err.message || err);
+    res.status(500).json({ error: 'Failed to create project status', details: err.message });
+    return;
+  }
+});
+
+// Put the project's statuses in a new order: { ids } lists every status of the project once.
+// Responds with the statuses in their new order.
+router.put('/order', validateBody(reorderProjectStatusesSchema), async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  const { ids } = req.body as ReorderProjectStatusesInput;
+  const userId = req.userId;
+  const { projects, statuses } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await projects.exists(projectId, userId))) {
+      res.status(404).json({ error: 'Project not found or unauthorized.' });
+      return;
+    }
+
+    const current = (await statuses.list(projectId, userId)).map((status) => status.id);
+    if (new Set(ids).size !== ids.length || ids.length !== current.length || !current.every((id) => ids.includes(id))) {
+      res.status(400).json({ error: 'ids must list each status of the project exactly once.' });
+      return;
+    }
+
+    await statuses.reorder(projectId, userId, ids);
+    res.json(await statuses.list(projectId, userId));
+    return;
+  } catch (err: any) {
+    console.error('Failed to reorder project statuses:', err.message || err);
+    res.status(500).json({ error: 'Failed to reorder project statuses', details: err.message });
+    return;
+  }
+});
+
+// Rename, recolor or change the WIP limit of a status. Changing is_done moves the tasks in the status
+// to a status that matches their completed flag.
+router.put('/:statusId', validateBody(updateProjectStatusSchema), async (req: Request, res: Response) => {
+  const { projectId, statusId } = req.params;
+  const userId = req.userId;
+  const { statuses } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  if (isEmptyPatch(req.body)) {
+    res.status(400).json({ error: 'No valid fields provided for update.' });
+    return;
+  }
+
+  try {
+    const existing = await statuses.find(statusId, userId);
+    const status = existing && String(existing.project_id) === projectId
+      ? await statuses.update(statusId, userId, req.body)
+      : null;
+
+    if (!status) {
+      res.status(404).json({ error: 'Status not found or unauthorized.' });
+      return;
+    }
+
+    res.json(status);
+    return;
+  } catch (err: any) {
+    console.error('Failed to update project status:', err.message || err);
+    res.status(500).json({ error: 'Failed to update project status', details: err.message });
+    return;
+  }
+});
+
+// Delete a status. Its tasks move to the project's first remaining status that matches their completed flag.
+router.delete('/:statusId', async (req: Request, res: Response) => {
+  const { projectId, statusId } = req.params;
+  const userId = req.userId;
+  const { statuses } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const existing = await statuses.find(statusId, userId);
+    if (!existing || String(existing.project_id) !== projectId || !(await statuses.delete(statusId, userId))) {
+      res.status(404).json({ error: 'Status not found or unauthorized.' });
+      return;
+    }
+
+    res.status(204).send();
+    return;
+  } catch (err: any) {
+    console.error('Failed to delete project status:', err.message || err);
+    res.status(500).json({ error: 'Failed to delete project status', details: err.message });
+    return;
+  }
+});
+
+export default router;
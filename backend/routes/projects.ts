@@ -1,9 +1,17 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { query } from '../lib/db';
+import { diffFields, recordChange } from '../lib/history';
+import { parseBooleanParam } from '../lib/pagination';
+import { isEmptyPatch } from '../lib/patch';
+import { projectRoleError } from '../lib/projectAccess';
+import { validateBody } from '../lib/validate';
+import { UpdateProjectInput, createProjectSchema, updateProjectSchema } from '../shared/schemas';
 
 const router = express.Router();
 
-// Get all projects for the authenticated user
+const NO_ORGANIZATION_ERROR = 'Sign in to an organization to share projects with it.';
+
+// Get all projects for the authenticated user. archived=true lists the archived projects instead
+// (most recently archived first) of the active ones.
 router.get('/', async (req: Request, res: Response) => {
   const userId = req.userId; // Get userId from the request object
 
@@ -12,9 +20,15 @@ router.get('/', async (req: Request, res: Response) => {
     return; // Optional: Add 'return;' to exit the function on the next line
   }
 
+  const archived = parseBooleanParam(req.query.archived, 'archived');
+  if (archived.error) {
+    res.status(400).json({ error: archived.error });
+    return;
+  }
+
   try {
-    const result = await query('SELECT * FROM projects WHERE user_id = $1 ORDER BY created_at DESC', [userId]);
-    res.json(result.rows);
+    // task_count lets the sidebar show per-project counts without loading every task
+    res.json(await req.app.locals.repositories.projects.list(userId, archived.value ?? false));
     return; // Optional: Add 'return;' here to ensure void return after sending response
   } catch (err: any) {
     console.error('Failed to fetch projects:', err.message || err);
@@ -23,9 +37,10 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
-// Create a new project for the authenticated user
-router.post('/', async (req: Request, res: Response) => {
-  const { name, color, description } = req.body;
+// Create a new project for the authenticated user. With shared: true it belongs to the organization the
+// user is signed in to, and every member sees it with their organization role.
+router.post('/', validateBody(createProjectSchema), async (req: Request, res: Response) => {
+  const { name, color, description, shared } = req.body;
   const userId = req.userId; // Get userId from the request object
 
   if (!userId) {
@@ -33,18 +48,20 @@ router.post('/', async (req: Request, res: Response) => {
     return; // Optional: Add 'return;' to exit the function on the next line
   }
 
-  // Basic validation: name is mandatory
-  if (!name) {
-    res.status(400).json({ error: 'Project name is required.' }); // REMOVED 'return' before res.status(...)
-    return; // Optional: Add 'return;' to exit the function on the next line
+  if (shared && !req.orgId) {
+    res.status(400).json({ error: NO_ORGANIZATION_ERROR });
+    return;
   }
 
   try {
-    const result = await query(
-      'INSERT INTO projects (name, color, description, user_id) VALUES ($1, $2, $3, $4) RETURNING *',
-      [name, color || null, description || null, userId]
-    );
-    res.status(201).json(result.rows[0]);
+    const project = await req.app.locals.repositories.projects.create(userId, {
+      name,
+      color: color || null,
+      description: description || null,
+      org_id: shared ? req.orgId! : null,
+    });
+    await recordChange(req, 'project', project.id, 'create', diffFields('project', null, project));
+    res.status(201).json(project);
     return; // Optional: Add 'return;' here to ensure void return after sending response
   } catch (err: any) {
     console.error('Failed to create project:', err.message || err);
@@ -53,10 +70,12 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
-// Update a project for the authenticated user
-router.put('/:id', async (req: Request, res: Response) => {
+// Update a project for the authenticated user. Only owners can, and archived projects must be unarchived first.
+// shared: true shares a personal project with the user's organization; shared: false makes a shared project the
+// personal project of the user who unshares it.
+router.put('/:id', validateBody(updateProjectSchema), async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { name, color, description } = req.body;
+  const { shared, ...fields } = req.body as UpdateProjectInput;
   const userId = req.userId; // Get userId from the request object
 
   if (!userId) {
@@ -64,54 +83,44 @@ router.put('/:id', async (req: Request, res: Response) => {
     return; // Optional: Add 'return;' to exit the function on the next line
   }
 
-  try {
-    let updateFields = [];
-    let params = [];
-    let paramIndex = 1;
-
-    if (name !== undefined) {
-      updateFields.push(`name = $${paramIndex++}`);
-      params.push(name);
-    }
+  if (isEmptyPatch(req.body)) {
+    res.status(400).json({ error: 'No valid fields provided for update.' }); // REMOVED 'return' before res.status(...)
+    return; // Optional: Add 'return;' to exit the function on the next line
+  }
 
-    if (color !== undefined) {
-      updateFields.push(`color = $${paramIndex++}`);
-      params.push(color);
+  try {
+    const { projects } = req.app.locals.repositories;
+    // The project as it was, for the change history
+    const previous = await projects.find(id, userId);
+    const roleError = previous && projectRoleError(previous, 'owner');
+    if (roleError) {
+      res.status(roleError.status).json({ error: roleError.error });
+      return;
     }
 
-    if (description !== undefined) {
-      updateFields.push(`description = $${paramIndex++}`);
-      params.push(description);
+    if (previous?.archived_at) {
+      res.status(409).json({ error: `Project "${previous.name}" is archived. Unarchive it to make changes.` });
+      return;
     }
 
-    // Always update the updated_at timestamp
-    updateFields.push(`updated_at = CURRENT_TIMESTAMP`);
-
-    // Ensure there are fields to update other than updated_at
-    if (updateFields.length === 1 && updateFields[0].includes('updated_at')) {
-      res.status(400).json({ error: 'No valid fields provided for update.' }); // REMOVED 'return' before res.status(...)
-      return; // Optional: Add 'return;' to exit the function on the next line
+    const orgId = shared ? previous?.org_id ?? req.orgId : null;
+    if (shared && !orgId) {
+      res.status(400).json({ error: NO_ORGANIZATION_ERROR });
+      return;
     }
 
-    // Add the ID and userId as the last parameters for WHERE clause
-    params.push(id);
-    params.push(userId);
+    const project = previous && await projects.update(id, userId, {
+      ...fields,
+      org_id: shared === undefined ? undefined : orgId,
+    });
 
-    const updateQuery = `
-      UPDATE projects
-      SET ${updateFields.join(', ')}
-      WHERE id = $${paramIndex++} AND user_id = $${paramIndex}
-      RETURNING *
-    `;
-
-    const result = await query(updateQuery, params);
-
-    if (result.rows.length === 0) {
+    if (!project) {
       res.status(404).json({ error: 'Project not found or unauthorized.' }); // REMOVED 'return' before res.status(...)
       return; // Optional: Add 'return;' to exit the function on the next line
     }
 
-    res.json(result.rows[0]);
+    await recordChange(req, 'project', project.id, 'update', diffFields('project', previous, project));
+    res.json(project);
     return; // Optional: Add 'return;' here to ensure void return after sending response
   } catch (err: any) {
     console.error('Failed to update project:', err.message || err);
@@ -120,7 +129,88 @@ router.put('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// Delete a project for the authenticated user
+// Why the user cannot archive, unarchive or delete project `:id`: only its owners can.
+// Null when they can or the project is not found, which the route reports itself.
+const ownerRoleError = async (req: Request, userId: string) => {
+  const project = await req.app.locals.repositories.projects.find(req.params.id, userId);
+  return project && projectRoleError(project, 'owner');
+};
+
+// Archive or unarchive project `:id` and respond with it
+const setArchived = async (req: Request, res: Response, archived: boolean) => {
+  const { id } = req.params;
+  const userId = req.userId;
+  const action = archived ? 'archive' : 'unarchive';
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const { projects } = req.app.locals.repositories;
+    const roleError = await ownerRoleError(req, userId);
+    if (roleError) {
+      res.status(roleError.status).json({ error: roleError.error });
+      return;
+    }
+
+    const project = await projects.setArchived(id, userId, archived);
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found or unauthorized.' });
+      return;
+    }
+
+    res.json(project);
+    return;
+  } catch (err: any) {
+    console.error(`Failed to ${action} project:`, err.message || err);
+    res.status(500).json({ error: `Failed to ${action} project`, details: err.message });
+    return;
+  }
+};
+
+// Archive a project: it moves out of the project list, and its tasks leave the default task list, the calendar
+// feed and reminders. Its tasks, notes and statuses stay readable and searchable but cannot be changed.
+router.post('/:id/archive', async (req: Request, res: Response) => {
+  await setArchived(req, res, true);
+});
+
+// Unarchive a project, which makes it and its work editable again
+router.post('/:id/unarchive', async (req: Request, res: Response) => {
+  await setArchived(req, res, false);
+});
+
+// List the people who can see project `:id` with their roles, ordered by email: the members of its organization,
+// or its creator for a personal project. Tasks can be assigned to the owners and editors among them.
+router.get('/:id/members', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const members = await req.app.locals.repositories.projects.members(id, userId);
+
+    if (!members) {
+      res.status(404).json({ error: 'Project not found or unauthorized.' });
+      return;
+    }
+
+    res.json(members);
+    return;
+  } catch (err: any) {
+    console.error('Failed to fetch project members:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch project members', details: err.message });
+    return;
+  }
+});
+
+// Move a project, with its tasks and notes, to the trash (see routes/trash.ts)
 router.delete('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
   const userId = req.userId; // Get userId from the request object
@@ -131,13 +221,18 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 
   try {
-    const result = await query('DELETE FROM projects WHERE id = $1 AND user_id = $2 RETURNING id', [id, userId]);
+    const roleError = await ownerRoleError(req, userId);
+    if (roleError) {
+      res.status(roleError.status).json({ error: roleError.error });
+      return;
+    }
 
-    if (result.rows.length === 0) {
+    if (!(await req.app.locals.repositories.projects.delete(id, userId))) {
       res.status(404).json({ error: 'Project not found or unauthorized.' }); // REMOVED 'return' before res.status(...)
       return; // Optional: Add 'return;' to exit the function on the next line
     }
 
+    await recordChange(req, 'project', id, 'delete');
     res.status(204).send(); // 204 No Content for successful deletion
     return; // Optional: Add 'return;' here to ensure void return after sending response
   } catch (err: any) {
@@ -0,0 +1,62 @@
+import express, { Request, Response } from 'express';
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, parseSearchTerms } from '../lib/search';
+import { SEARCH_TYPES, SearchType } from '../repositories';
+
+const router = express.Router();
+
+// Search the authenticated user's tasks, notes and projects (items in the trash are left out).
+// Query parameters: q (required; every word must match the start of a word, so "foc sess" finds
+// "Focus session"), types=task,note,project (default all) and limit (default 20, max 50).
+// Responds with { data, terms }: results are ranked best first, and title_highlight / snippet wrap
+// the matching words in <mark>...</mark> (the rest of the text is not HTML-escaped).
+router.get('/', async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { q, types, limit } = req.query;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  const terms = typeof q === 'string' ? parseSearchTerms(q) : [];
+  if (terms.length === 0) {
+    res.status(400).json({ error: "Query parameter 'q' must contain at least one word." });
+    return;
+  }
+
+  let searchTypes: SearchType[] = [...SEARCH_TYPES];
+  if (typeof types === 'string' && types) {
+    const requested = types.split(',').map((type) => type.trim()).filter(Boolean);
+    const invalid = requested.find((type) => !(SEARCH_TYPES as readonly string[]).includes(type));
+    if (invalid) {
+      res.status(400).json({ error: `Invalid type "${invalid}". Allowed values: ${SEARCH_TYPES.join(', ')}.` });
+      return;
+    }
+    searchTypes = requested as SearchType[];
+  }
+
+  let resultLimit = DEFAULT_SEARCH_LIMIT;
+  if (limit !== undefined) {
+    resultLimit = Number(limit);
+    if (!Number.isInteger(resultLimit) || resultLimit < 1 || resultLimit > MAX_SEARCH_LIMIT) {
+      res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}.` });
+      return;
+    }
+  }
+
+  try {
+    const data = await req.app.locals.repositories.search.search(userId, {
+      terms,
+      types: [...new Set(searchTypes)],
+      limit: resultLimit,
+    });
+    res.json({ data, terms });
+    return;
+  } catch (err: any) {
+    console.error('Failed to search:', err.message || err);
+    res.status(500).json({ error: 'Failed to search', details: err.message });
+    return;
+  }
+});
+
+export default router;
@@ -0,0 +1,117 @@
+import express, { Request, Response } from 'express';
+import { isEmptyPatch } from '../lib/patch';
+import { validateBody } from '../lib/validate';
+import { createTagSchema, updateTagSchema } from '../shared/schemas';
+
+const router = express.Router();
+
+// Get all tags for the authenticated user, with the number of tasks using each one
+router.get('/', async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    res.json(await req.app.locals.repositories.tags.list(userId));
+    return;
+  } catch (err: any) {
+    console.error('Failed to fetch tags:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch tags', details: err.message });
+    return;
+  }
+});
+
+// Create a new tag for the authenticated user. Tag names are unique per user (case-insensitive).
+router.post('/', validateBody(createTagSchema), async (req: Request, res: Response) => {
+  const { name, color } = req.body;
+  const userId = req.userId;
+  const { tags } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (await tags.nameTaken(userId, name)) {
+      res.status(409).json({ error: `A tag named "${name}" already exists.` });
+      return;
+    }
+
+    res.status(201).json(await tags.create(userId, { name, color: color || null }));
+    return;
+  } catch (err: any) {
+    console.error('Failed to create tag:', err.message || err);
+    res.status(500).json({ error: 'Failed to create tag', details: err.message });
+    return;
+  }
+});
+
+// Update (rename or recolor) a tag for the authenticated user
+router.put('/:id', validateBody(updateTagSchema), async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { name } = req.body;
+  const userId = req.userId;
+  const { tags } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  if (isEmptyPatch(req.body)) {
+    res.status(400).json({ error: 'No valid fields provided for update.' });
+    return;
+  }
+
+  try {
+    if (name !== undefined && await tags.nameTaken(userId, name, id)) {
+      res.status(409).json({ error: `A tag named "${name}" already exists.` });
+      return;
+    }
+
+    const tag = await tags.update(id, userId, req.body);
+
+    if (!tag) {
+      res.status(404).json({ error: 'Tag not found or unauthorized.' });
+      return;
+    }
+
+    res.json(tag);
+    return;
+  } catch (err: any) {
+    console.error('Failed to update tag:', err.message || err);
+    res.status(500).json({ error: 'Failed to update tag', details: err.message });
+    return;
+  }
+});
+
+// Delete a tag for the authenticated user. task_tags rows are removed by ON DELETE CASCADE.
+router.delete('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await req.app.locals.repositories.tags.delete(id, userId))) {
+      res.status(404).json({ error: 'Tag not found or unauthorized.' });
+      return;
+    }
+
+    res.status(204).send();
+    return;
+  } catch (err: any) {
+    console.error('Failed to delete tag:', err.message || err);
+    res.status(500).json({ error: 'Failed to delete tag', details: err.message });
+    return;
+  }
+});
+
+export default router;
@@ -1,9 +1,129 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { query } from '../lib/db';
+import { diffFields, patchFromChanges, recordChange, revertChanges } from '../lib/history';
+import { buildPage, parseBooleanParam, parsePageRequest, parseSort } from '../lib/pagination';
+import { isEmptyPatch } from '../lib/patch';
+import { projectChangeError, refuseProjectChanges } from '../lib/projectAccess';
+import { publish } from '../lib/notificationHub';
+import { advanceRecurrence, validateRecurrence } from '../lib/recurrence';
+import { validateBody } from '../lib/validate';
+import { TASK_SORT_KEYS, TaskListFilters, TaskPatch, TaskRow } from '../repositories';
+import {
+  TASK_PRIORITIES, BulkTaskInput, MoveTaskInput, bulkTaskSchema, createTaskSchema, moveTaskSchema, updateTaskSchema, reminderSchema,
+} from '../shared/schemas';
 
 const router = express.Router();
 
-// Get all tasks for the authenticated user
+// Tasks of archived projects are read-only
+router.param('id', refuseProjectChanges('task'));
+
+// When a recurring task is completed, create its next occurrence: a copy of the task (with its tags
+// and reminders) due on the next date of the series. Reminders at a fixed time keep the same distance
+// from the due date; reminders relative to the due date are copied as they are.
+// Tasks without a due date are scheduled from the completion date. Returns the new task, or null
+// when the series has ended (COUNT used up or UNTIL passed).
+const createNextOccurrence = async (req: Request, task: TaskRow) => {
+  const currentDue: Date = task.duedate ? new Date(task.duedate) : new Date();
+
+  let next;
+  try {
+    next = advanceRecurrence(task.recurrence_pattern!, currentDue);
+  } catch (err: any) {
+    // Patterns saved before recurrence rules were validated may not parse; the task is simply not repeated
+    console.error(`Skipping next occurrence of task ${task.id}:`, err.message || err);
+    return null;
+  }
+  if (!next) return null;
+
+  const occurrence = await req.app.locals.repositories.tasks.createOccurrence(task, {
+    dueDate: next.dueDate,
+    recurrence_pattern: next.pattern,
+    reminderShiftMs: next.dueDate.getTime() - currentDue.getTime(),
+  });
+  await recordChange(req, 'task', occurrence.id, 'create', diffFields('task', null, occurrence), 'recurrence');
+  return occurrence;
+};
+
+// After tasks were completed, notify the creator and the assignee of each task that waited on them and is
+// no longer blocked, whoever completed them. A task that waited on several of the completed tasks is only
+// mentioned once.
+const notifyUnblocked = async (req: Request, userId: string, completed: TaskRow[]) => {
+  const { tasks, notifications } = req.app.locals.repositories;
+  const notified = new Set<number>();
+  for (const blocker of completed) {
+    for (const task of await tasks.unblockedBy(userId, blocker.id)) {
+      if (notified.has(task.id)) continue;
+      notified.add(task.id);
+      for (const recipient of new Set([task.user_id, task.assignee_id ?? task.user_id])) {
+        publish(await notifications.create(recipient, {
+          task_id: task.id,
+          type: 'unblocked',
+          title: task.title,
+          body: `"${blocker.title}" is completed, so this task is no longer blocked.`,
+        }));
+      }
+    }
+  }
+};
+
+// Position for a task placed directly below `above` and directly above `below` (either may be missing)
+const positionBetween = (above: TaskRow | null, below: TaskRow | null) => {
+  if (above && below) return (above.position + below.position) / 2;
+  return above ? above.position + 1 : below!.position - 1;
+};
+
+// Why task `parentId` cannot be the parent of task `taskId` (null for a new task), or null if it can be.
+// The parent must be one of the user's tasks, and neither the task itself nor one of its subtasks.
+const parentTaskError = async (req: Request, userId: string, taskId: number | string | null, parentId: number) => {
+  const { tasks } = req.app.locals.repositories;
+  if (!(await tasks.exists(parentId, userId))) {
+    return `Parent task with ID ${parentId} does not exist or does not belong to the current user.`;
+  }
+  if (taskId !== null && (String(parentId) === String(taskId) || (await tasks.subtaskIds(taskId, userId)).includes(parentId))) {
+    return 'A task cannot be a subtask of itself or of one of its own subtasks.';
+  }
+  return null;
+};
+
+// Why `task` cannot be assigned to user `assigneeId` while in project `projectId`, or null if it can be.
+// A task in a project can be assigned to the project's owners and editors, one outside any project only
+// to its creator.
+const assigneeError = async (req: Request, userId: string, task: TaskRow, projectId: number | null, assigneeId: string) => {
+  if (projectId === null) {
+    return assigneeId === task.user_id ? null : 'A task outside any project can only be assigned to its creator.';
+  }
+  const members = await req.app.locals.repositories.projects.members(projectId, userId);
+  const member = members?.find((m) => m.user_id === assigneeId);
+  return member && member.role !== 'viewer'
+    ? null
+    : `User ${assigneeId} is not an owner or editor of the task's project.`;
+};
+
+// Check that `task` (null for a new task) can be put in status `statusId` while in project `projectId`:
+// the status must belong to that project, and moving into it must not go over its WIP limit. A task that
+// is already in the status may stay there even if the limit was lowered since.
+// Returns the status, or the error and the HTTP status code to respond with.
+const checkStatus = async (req: Request, userId: string, task: TaskRow | null, projectId: number | null, statusId: number) => {
+  const { statuses } = req.app.locals.repositories;
+  const status = await statuses.find(statusId, userId);
+  if (!status || status.project_id !== projectId) {
+    return { code: 400, error: `Status with ID ${statusId} does not exist or does not belong to the task's project.` };
+  }
+  if (status.wip_limit !== null && task?.status_id !== status.id
+    && await statuses.countTasks(status.id, task?.id) >= status.wip_limit) {
+    return { code: 409, error: `"${status.name}" is at its WIP limit of ${status.wip_limit} task${status.wip_limit === 1 ? '' : 's'}.` };
+  }
+  return { status };
+};
+
+// Get tasks for the authenticated user, one page at a time.
+// Query parameters (all optional):
+//   completed=true|false, project_id=<id>|none, parent_id=<id>|none (subtasks of a task, or top-level tasks), due_from / due_to (ISO 8601, from inclusive, to exclusive),
+//   has_due_date=true|false, priority=high,urgent, search (title/description), tag (a tag ID or name),
+//   blocked=true|false (whether the task waits on an open task), archived=true|false (whether the task's project
+//   is archived), assignee_id=me|none|<user ID>, sort=<column> or -<column> (default -created_at; `position` is the manual order), limit
+//   (default 50, max 200) and cursor.
+// Tasks of archived projects are left out unless `archived` is given, or project_id / parent_id picks them.
+// Responds with { data, total, page, limit, nextCursor }.
 router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   const userId = req.userId; // Get userId from the request object
 
@@ -12,9 +132,97 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
     return; // Optional: Add 'return;' to exit the function on the next line
   }
 
+  const pageRequest = parsePageRequest(req.query);
+  const sort = parseSort(req.query.sort, TASK_SORT_KEYS, '-created_at');
+  const completed = parseBooleanParam(req.query.completed, 'completed');
+  const hasDueDate = parseBooleanParam(req.query.has_due_date, 'has_due_date');
+  const blocked = parseBooleanParam(req.query.blocked, 'blocked');
+  const archived = parseBooleanParam(req.query.archived, 'archived');
+  const parseError = pageRequest.error || sort.error || completed.error || hasDueDate.error || blocked.error || archived.error;
+
+  if (parseError) {
+    res.status(400).json({ error: parseError });
+    return;
+  }
+
+  const filters: TaskListFilters = {
+    completed: completed.value,
+    hasDueDate: hasDueDate.value,
+    blocked: blocked.value,
+    archived: archived.value,
+    sort: sort.value!,
+    page: pageRequest.value!,
+  };
+  const { project_id, parent_id, assignee_id, due_from, due_to, priority, search, tag } = req.query;
+
+  if (typeof project_id === 'string' && project_id) {
+    if (project_id === 'none') {
+      filters.projectId = null;
+    } else if (!/^\d+$/.test(project_id)) {
+      res.status(400).json({ error: `Invalid project_id: ${project_id}` });
+      return;
+    } else {
+      filters.projectId = Number(project_id);
+    }
+  }
+
+  if (typeof parent_id === 'string' && parent_id) {
+    if (parent_id === 'none') {
+      filters.parentId = null;
+    } else if (!/^\d+$/.test(parent_id)) {
+      res.status(400).json({ error: `Invalid parent_id: ${parent_id}` });
+      return;
+    } else {
+      filters.parentId = Number(parent_id);
+    }
+  }
+
+  if (typeof assignee_id === 'string' && assignee_id) {
+    filters.assigneeId = assignee_id === 'me' ? userId : assignee_id === 'none' ? null : assignee_id;
+  }
+
+  // Browsing an archived project, or the subtasks of one of its tasks, shows its tasks
+  if (filters.archived === undefined && !filters.projectId && !filters.parentId) {
+    filters.archived = false;
+  }
+
+  if (typeof due_from === 'string' && due_from) {
+    if (isNaN(Date.parse(due_from))) {
+      res.status(400).json({ error: `Invalid 'due_from' date: ${due_from}` });
+      return;
+    }
+    filters.dueFrom = due_from;
+  }
+
+  if (typeof due_to === 'string' && due_to) {
+    if (isNaN(Date.parse(due_to))) {
+      res.status(400).json({ error: `Invalid 'due_to' date: ${due_to}` });
+      return;
+    }
+    filters.dueTo = due_to;
+  }
+
+  if (typeof priority === 'string' && priority) {
+    const priorities = priority.split(',').map((p) => p.trim()).filter(Boolean);
+    const invalid = priorities.find((p) => !(TASK_PRIORITIES as readonly string[]).includes(p));
+    if (invalid) {
+      res.status(400).json({ error: `Invalid priority "${invalid}". Allowed values: ${TASK_PRIORITIES.join(', ')}.` });
+      return;
+    }
+    filters.priorities = priorities;
+  }
+
+  if (typeof search === 'string' && search.trim()) {
+    filters.search = search.trim();
+  }
+
+  if (typeof tag === 'string' && tag.trim()) {
+    filters.tag = tag.trim();
+  }
+
   try {
-    const result = await query('SELECT * FROM tasks WHERE user_id = $1 ORDER BY created_at DESC', [userId]);
-    res.json(result.rows);
+    const { rows, total } = await req.app.locals.repositories.tasks.list(userId, filters);
+    res.json(buildPage(rows, total, filters.page));
     return; // Optional: Add 'return;' here to ensure void return after sending response
   } catch (err: any) {
     console.error('Failed to fetch tasks:', err.message || err);
@@ -23,51 +231,76 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
-// Create a new task for the authenticated user
-router.post('/', async (req: Request, res: Response, next: NextFunction) => {
-  const { title, description, dueDate, priority, project_id, is_recurring, completed } = req.body;
+// Create a new task for the authenticated user.
+// `reminders` may list reminders to add, e.g. [{ offset_minutes: 60 }, { remind_at: '2025-01-01T09:00:00Z' }].
+// `parent_task_id` makes the new task a subtask of another task.
+// `status_id` puts the task in a status of its project, and makes it completed if that is a done status.
+// `estimate_minutes` is how long the task is expected to take.
+router.post('/', validateBody(createTaskSchema), async (req: Request, res: Response, next: NextFunction) => {
+  const {
+    title, description, dueDate, priority, reminders, project_id, parent_task_id, is_recurring, recurrence_pattern, completed,
+    status_id, estimate_minutes,
+  } = req.body;
   const userId = req.userId; // Get userId from the request object
+  const { tasks, projects } = req.app.locals.repositories;
 
   if (!userId) {
     res.status(401).json({ error: 'Unauthorized: User ID not found.' }); // REMOVED 'return' before res.status(...)
     return; // Optional: Add 'return;' to exit the function on the next line
   }
 
-  // Basic validation: title is mandatory
-  if (!title) {
-    res.status(400).json({ error: 'Title is required to create a task.' }); // REMOVED 'return' before res.status(...)
-    return; // Optional: Add 'return;' to exit the function on the next line
+  // recurrence_pattern must be an RRULE or a preset the recurrence engine understands
+  const recurrenceError = recurrence_pattern ? validateRecurrence(recurrence_pattern) : null;
+  if (recurrenceError) {
+    res.status(400).json({ error: `Invalid recurrence_pattern: ${recurrenceError}` });
+    return;
   }
 
   try {
     // Validate if project_id exists and belongs to the same user if provided
-    if (project_id !== null && project_id !== undefined) {
-      const projectExists = await query('SELECT id FROM projects WHERE id = $1 AND user_id = $2', [project_id, userId]);
-
-      if (projectExists.rows.length === 0) {
-        res.status(400).json({ // REMOVED 'return' before res.status(...)
-          error: `Project with ID ${project_id} does not exist or does not belong to the current user. Cannot assign task to non-existent or unauthorized project.`,
-        });
-        return; // Optional: Add 'return;' to exit the function on the next line
-      }
+    if (project_id !== null && project_id !== undefined && !(await projects.exists(project_id, userId))) {
+      res.status(400).json({ // REMOVED 'return' before res.status(...)
+        error: `Project with ID ${project_id} does not exist or does not belong to the current user. Cannot assign task to non-existent or unauthorized project.`,
+      });
+      return; // Optional: Add 'return;' to exit the function on the next line
     }
 
-    const result = await query(
-      'INSERT INTO tasks (title, description, dueDate, priority, project_id, is_recurring, completed, user_id) VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *',
-      [
-        title,
-        description || null,
-        dueDate || null,
-        priority || 'medium',
-        project_id === 0 ? null : project_id, // Convert 0 to null since 0 is not a valid ID
-        is_recurring || false,
-        completed || false,
-        userId // Insert the user ID
-      ]
-    );
-
-    console.log('Created task:', result.rows[0]);
-    res.status(201).json(result.rows[0]);
+    const accessError = await projectChangeError(req, userId, project_id);
+    if (accessError) {
+      res.status(accessError.status).json({ error: accessError.error });
+      return;
+    }
+
+    const parentError = parent_task_id ? await parentTaskError(req, userId, null, parent_task_id) : null;
+    if (parentError) {
+      res.status(400).json({ error: parentError });
+      return;
+    }
+
+    const statusCheck = status_id ? await checkStatus(req, userId, null, project_id || null, status_id) : null;
+    if (statusCheck?.error) {
+      res.status(statusCheck.code).json({ error: statusCheck.error });
+      return;
+    }
+
+    const task = await tasks.create(userId, {
+      title,
+      description: description || null,
+      dueDate: dueDate || null,
+      priority: priority || 'medium',
+      project_id: project_id === 0 ? null : project_id ?? null, // Convert 0 to null since 0 is not a valid ID
+      parent_task_id: parent_task_id || null,
+      is_recurring: is_recurring || false,
+      recurrence_pattern: recurrence_pattern || null,
+      completed: statusCheck?.status ? statusCheck.status.is_done : completed || false,
+      status_id: status_id || null,
+      estimate_minutes: estimate_minutes ?? null,
+      reminders: reminders || [],
+    });
+
+    console.log('Created task:', task);
+    await recordChange(req, 'task', task.id, 'create', diffFields('task', null, task));
+    res.status(201).json(task);
     return; // Optional: Add 'return;' here to ensure void return after sending response
   } catch (err: any) {
     console.error('Error creating task:', err.message || err);
@@ -76,98 +309,210 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
-// Update a task for the authenticated user
-router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
-  const { id } = req.params;
-  const { title, description, completed, dueDate, priority, project_id, is_recurring } = req.body;
-  const userId = req.userId; // Get userId from the request object
+// Apply one operation to many tasks at once, in a single transaction:
+//   { ids: [1, 2, 3], operation: { type: 'complete' | 'uncomplete' | 'delete' } }  (delete moves them to the trash)
+//   { ids, operation: { type: 'move', project_id } }        (null or 0 removes the project; tasks whose assignee
+//                                                             cannot work in the new project are unassigned, as with PUT)
+//   { ids, operation: { type: 'set_priority', priority } }
+//   { ids, operation: { type: 'set_due_date', dueDate } }   (null clears the due date)
+//   { ids, operation: { type: 'add_tag', tag_id } }
+// If any of the tasks does not belong to the user, nothing is changed and the response is a 404
+// listing missing_ids; likewise a 403 listing read_only_ids when any of them belong to shared projects the
+// user only views, and a 409 listing archived_ids when any of them belong to archived projects.
+// Otherwise responds with { tasks, deleted_ids, next_occurrences }.
+router.post('/bulk', validateBody(bulkTaskSchema), async (req: Request, res: Response) => {
+  const { operation } = req.body as BulkTaskInput;
+  const ids = [...new Set((req.body as BulkTaskInput).ids)];
+  const userId = req.userId;
+  const { tasks, projects, tags } = req.app.locals.repositories;
 
   if (!userId) {
-    res.status(401).json({ error: 'Unauthorized: User ID not found.' }); // REMOVED 'return' before res.status(...)
-    return; // Optional: Add 'return;' to exit the function on the next line
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
   }
 
   try {
-    // Validate if project_id exists and belongs to the same user if provided
-    if (project_id !== null && project_id !== undefined) {
-      const projectExists = await query('SELECT id FROM projects WHERE id = $1 AND user_id = $2', [project_id, userId]);
-
-      if (projectExists.rows.length === 0) {
-        res.status(400).json({ // REMOVED 'return' before res.status(...)
-          error: `Project with ID ${project_id} does not exist or does not belong to the current user.`,
-        });
-        return; // Optional: Add 'return;' to exit the function on the next line
-      }
+    if (operation.type === 'move' && operation.project_id && !(await projects.exists(operation.project_id, userId))) {
+      res.status(400).json({
+        error: `Project with ID ${operation.project_id} does not exist or does not belong to the current user.`,
+      });
+      return;
     }
 
-    // Build the query dynamically based on provided fields
-    let updateFields = [];
-    let params = [];
-    let paramIndex = 1;
-
-    if (title !== undefined) {
-      updateFields.push(`title = $${paramIndex++}`);
-      params.push(title);
+    const accessError = operation.type === 'move' ? await projectChangeError(req, userId, operation.project_id) : null;
+    if (accessError) {
+      res.status(accessError.status).json({ error: accessError.error });
+      return;
     }
 
-    if (description !== undefined) {
-      updateFields.push(`description = $${paramIndex++}`);
-      params.push(description);
+    if (operation.type === 'add_tag' && !(await tags.exists(operation.tag_id, userId))) {
+      res.status(400).json({ error: `Tag with ID ${operation.tag_id} does not exist or does not belong to the current user.` });
+      return;
     }
 
-    if (completed !== undefined) {
-      updateFields.push(`completed = $${paramIndex++}`);
-      params.push(completed);
+    const result = await tasks.bulk(userId, ids, operation);
+
+    if (result.missingIds.length > 0) {
+      res.status(404).json({ error: 'Some tasks were not found or unauthorized.', missing_ids: result.missingIds });
+      return;
     }
 
-    if (dueDate !== undefined) {
-      updateFields.push(`dueDate = $${paramIndex++}`);
-      params.push(dueDate);
+    if (result.readOnlyIds.length > 0) {
+      res.status(403).json({ error: 'Some tasks belong to projects you can only view.', read_only_ids: result.readOnlyIds });
+      return;
     }
 
-    if (priority !== undefined) {
-      updateFields.push(`priority = $${paramIndex++}`);
-      params.push(priority);
+    if (result.archivedIds.length > 0) {
+      res.status(409).json({ error: 'Some tasks belong to archived projects.', archived_ids: result.archivedIds });
+      return;
     }
 
-    if (project_id !== undefined) {
-      updateFields.push(`project_id = $${paramIndex++}`);
-      params.push(project_id === 0 ? null : project_id); // Convert 0 to null
+    for (const [index, previous] of result.previous.entries()) {
+      if (operation.type === 'delete') {
+        await recordChange(req, 'task', previous.id, 'delete', {}, 'bulk');
+      } else {
+        await recordChange(req, 'task', previous.id, 'update', diffFields('task', previous, result.tasks[index]), 'bulk');
+      }
     }
 
-    if (is_recurring !== undefined) {
-      updateFields.push(`is_recurring = $${paramIndex++}`);
-      params.push(is_recurring);
+    // Completing recurring tasks schedules their next occurrences, as PUT /:id does
+    const nextOccurrences = [];
+    for (const task of result.tasks) {
+      if (result.completedIds.includes(task.id) && task.is_recurring && task.recurrence_pattern) {
+        const nextOccurrence = await createNextOccurrence(req, task);
+        if (nextOccurrence) nextOccurrences.push(nextOccurrence);
+      }
     }
+    await notifyUnblocked(req, userId, result.tasks.filter((task) => result.completedIds.includes(task.id)));
+
+    res.json({
+      tasks: result.tasks,
+      deleted_ids: operation.type === 'delete' ? ids : [],
+      next_occurrences: nextOccurrences,
+    });
+    return;
+  } catch (err: any) {
+    console.error('Failed to apply bulk task operation:', err.message || err);
+    res.status(500).json({ error: 'Failed to apply bulk task operation', details: err.message });
+    return;
+  }
+});
 
-    // Always update the updated_at timestamp
-    updateFields.push(`updated_at = CURRENT_TIMESTAMP`);
+// Update a task for the authenticated user.
+// With complete_subtasks=true, completing the task also completes all of its subtasks (and theirs);
+// the response lists them as completed_subtasks.
+// Moving the task to a status (status_id) sets completed to match it; a move that would go over the
+// status' WIP limit is refused with a 409. Changing only completed moves the task to a matching status.
+// `assignee_id` assigns the task to an owner or editor of its project (see assigneeError), null unassigns it.
+// Moving an assigned task to a project its assignee cannot work in unassigns it.
+router.put('/:id', validateBody(updateTaskSchema), async (req: Request, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const { project_id, parent_task_id, recurrence_pattern, status_id, assignee_id } = req.body;
+  const userId = req.userId; // Get userId from the request object
+  const { tasks, projects } = req.app.locals.repositories;
 
-    // Ensure there are fields to update other than updated_at
-    if (updateFields.length === 1 && updateFields[0].includes('updated_at')) {
-      res.status(400).json({ error: 'No valid fields provided for update.' }); // REMOVED 'return' before res.status(...)
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' }); // REMOVED 'return' before res.status(...)
+    return; // Optional: Add 'return;' to exit the function on the next line
+  }
+
+  const recurrenceError = recurrence_pattern ? validateRecurrence(recurrence_pattern) : null;
+  if (recurrenceError) {
+    res.status(400).json({ error: `Invalid recurrence_pattern: ${recurrenceError}` });
+    return;
+  }
+
+  if (isEmptyPatch(req.body)) {
+    res.status(400).json({ error: 'No valid fields provided for update.' }); // REMOVED 'return' before res.status(...)
+    return; // Optional: Add 'return;' to exit the function on the next line
+  }
+
+  const completeSubtasks = parseBooleanParam(req.query.complete_subtasks, 'complete_subtasks');
+  if (completeSubtasks.error) {
+    res.status(400).json({ error: completeSubtasks.error });
+    return;
+  }
+
+  try {
+    // Validate if project_id exists and belongs to the same user if provided
+    if (project_id !== null && project_id !== undefined && !(await projects.exists(project_id, userId))) {
+      res.status(400).json({ // REMOVED 'return' before res.status(...)
+        error: `Project with ID ${project_id} does not exist or does not belong to the current user.`,
+      });
       return; // Optional: Add 'return;' to exit the function on the next line
     }
 
-    // Add the ID and userId as the last parameters for WHERE clause
-    params.push(id);
-    params.push(userId);
+    const accessError = await projectChangeError(req, userId, project_id);
+    if (accessError) {
+      res.status(accessError.status).json({ error: accessError.error });
+      return;
+    }
 
-    const updateQuery = `
-      UPDATE tasks
-      SET ${updateFields.join(', ')}
-      WHERE id = $${paramIndex++} AND user_id = $${paramIndex}
-      RETURNING *
-    `;
+    const parentError = parent_task_id ? await parentTaskError(req, userId, id, parent_task_id) : null;
+    if (parentError) {
+      res.status(400).json({ error: parentError });
+      return;
+    }
+
+    // Remember whether the task was already completed, so the next occurrence of a recurring
+    // task is only created when it goes from open to completed
+    const previous = await tasks.find(id, userId);
 
-    const result = await query(updateQuery, params);
+    const projectId = project_id === undefined ? previous?.project_id ?? null : project_id || null;
+    const statusCheck = previous && status_id ? await checkStatus(req, userId, previous, projectId, status_id) : null;
+    if (statusCheck?.error) {
+      res.status(statusCheck.code).json({ error: statusCheck.error });
+      return;
+    }
 
-    if (result.rows.length === 0) {
+    const assignError = previous && assignee_id ? await assigneeError(req, userId, previous, projectId, assignee_id) : null;
+    if (assignError) {
+      res.status(400).json({ error: assignError });
+      return;
+    }
+    const keepsAssignee = !previous?.assignee_id || project_id === undefined || assignee_id !== undefined
+      || !(await assigneeError(req, userId, previous, projectId, previous.assignee_id));
+
+    const updatedTask = previous && await tasks.update(id, userId, {
+      ...req.body,
+      assignee_id: keepsAssignee ? assignee_id : null,
+      project_id: project_id === 0 ? null : project_id, // Convert 0 to null
+      parent_task_id: parent_task_id === 0 ? null : parent_task_id,
+      recurrence_pattern: recurrence_pattern === undefined ? undefined : recurrence_pattern || null,
+      status_id: status_id === 0 ? null : status_id,
+      completed: statusCheck?.status ? statusCheck.status.is_done : req.body.completed,
+    });
+
+    if (!updatedTask) {
       res.status(404).json({ error: 'Task not found or unauthorized.' }); // REMOVED 'return' before res.status(...)
       return; // Optional: Add 'return;' to exit the function on the next line
     }
 
-    res.json(result.rows[0]);
+    await recordChange(req, 'task', updatedTask.id, 'update', diffFields('task', previous, updatedTask));
+
+    const nextOccurrence = !previous.completed && updatedTask.completed && updatedTask.is_recurring && updatedTask.recurrence_pattern
+      ? await createNextOccurrence(req, updatedTask)
+      : null;
+
+    // Complete the subtasks as a bulk operation, which also schedules the next occurrences of recurring ones
+    const subtaskIds = completeSubtasks.value && updatedTask.completed ? await tasks.subtaskIds(updatedTask.id, userId) : [];
+    const completedSubtasks = [];
+    if (subtaskIds.length > 0) {
+      const result = await tasks.bulk(userId, subtaskIds, { type: 'complete' });
+      for (const [index, subtask] of result.tasks.entries()) {
+        await recordChange(req, 'task', subtask.id, 'update', diffFields('task', result.previous[index], subtask), 'bulk');
+        if (!result.completedIds.includes(subtask.id)) continue;
+        completedSubtasks.push(subtask);
+        if (subtask.is_recurring && subtask.recurrence_pattern) await createNextOccurrence(req, subtask);
+      }
+    }
+    await notifyUnblocked(req, userId, [...(!previous.completed && updatedTask.completed ? [updatedTask] : []), ...completedSubtasks]);
+
+    // The subtask counts changed with the subtasks
+    const task = completedSubtasks.length > 0 ? (await tasks.find(updatedTask.id, userId))! : updatedTask;
+
+    // next_occurrence is the task created for the next date of a recurring series, if any
+    res.json({ ...task, next_occurrence: nextOccurrence, completed_subtasks: completedSubtasks });
     return; // Optional: Add 'return;' here to ensure void return after sending response
   } catch (err: any) {
     console.error('Error updating task:', err.message || err);
@@ -176,7 +521,65 @@ router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
-// Delete a task for the authenticated user
+// Move a task in the manual order (sort=position): { previous_id, next_id } are the tasks that end up
+// directly above and below it. Only the moved task gets a new position, halfway between its neighbours;
+// when repeated moves have left no room between them, the positions of the tasks that share a project and
+// parent task with the three are renumbered first, including other members' tasks in a shared project.
+router.post('/:id/move', validateBody(moveTaskSchema), async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { previous_id, next_id } = req.body as MoveTaskInput;
+  const userId = req.userId;
+  const { tasks } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  if (String(previous_id) === String(id) || String(next_id) === String(id)) {
+    res.status(400).json({ error: 'A task cannot be moved next to itself.' });
+    return;
+  }
+
+  try {
+    if (!(await tasks.exists(id, userId))) {
+      res.status(404).json({ error: 'Task not found or unauthorized.' });
+      return;
+    }
+
+    const neighbours = () => Promise.all([
+      previous_id ? tasks.find(previous_id, userId) : null,
+      next_id ? tasks.find(next_id, userId) : null,
+    ]);
+    let [above, below] = await neighbours();
+    const missingId = previous_id && !above ? previous_id : next_id && !below ? next_id : null;
+    if (missingId) {
+      res.status(400).json({ error: `Task with ID ${missingId} does not exist or does not belong to the current user.` });
+      return;
+    }
+
+    const fits = (position: number) => (!above || position > above.position) && (!below || position < below.position);
+    let position = positionBetween(above, below);
+    if (!fits(position)) {
+      await tasks.renumberPositions([id, previous_id, next_id].filter((taskId) => taskId !== undefined && taskId !== null), userId);
+      [above, below] = await neighbours();
+      position = positionBetween(above, below);
+      if (!fits(position)) {
+        res.status(400).json({ error: 'previous_id must come before next_id in the manual order.' });
+        return;
+      }
+    }
+
+    res.json(await tasks.setPosition(id, userId, position));
+    return;
+  } catch (err: any) {
+    console.error('Failed to move task:', err.message || err);
+    res.status(500).json({ error: 'Failed to move task', details: err.message });
+    return;
+  }
+});
+
+// Move a task and its subtasks to the trash (see routes/trash.ts)
 router.delete('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
   const userId = req.userId; // Get userId from the request object
@@ -187,13 +590,12 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 
   try {
-    const result = await query('DELETE FROM tasks WHERE id = $1 AND user_id = $2 RETURNING id', [id, userId]);
-
-    if (result.rows.length === 0) {
+    if (!(await req.app.locals.repositories.tasks.delete(id, userId))) {
       res.status(404).json({ error: 'Task not found or unauthorized.' }); // REMOVED 'return' before res.status(...)
       return; // Optional: Add 'return;' to exit the function on the next line
     }
 
+    await recordChange(req, 'task', id, 'delete');
     res.status(204).send(); // 204 No Content for successful deletion
     return; // Optional: Add 'return;' here to ensure void return after sending response
   } catch (err: any) {
@@ -203,4 +605,314 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
-export default router;
\ No newline at end of file
+// The task's change history, newest first: { data: [{ id, action, changes, actor_id, source, created_at, ... }] }.
+// `changes` maps each changed field to { from, to }.
+router.get('/:id/history', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.userId;
+  const { tasks, history } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await tasks.exists(id, userId))) {
+      res.status(404).json({ error: 'Task not found or unauthorized.' });
+      return;
+    }
+
+    res.json({ data: await history.list('task', id) });
+    return;
+  } catch (err: any) {
+    console.error('Failed to fetch task history:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch task history', details: err.message });
+    return;
+  }
+});
+
+// Revert a task to the version right after one of its history entries. Tags and reminders are left
+// alone, and completing a recurring task this way does not schedule its next occurrence.
+// Responds with the task; 409 when the project or parent task of that version can no longer be used (the
+// project is gone or archived), and 403 when the user only views that project.
+router.post('/:id/history/:entryId/revert', async (req: Request, res: Response) => {
+  const { id, entryId } = req.params;
+  const userId = req.userId;
+  const { tasks, projects, history } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const task = await tasks.find(id, userId);
+
+    if (!task) {
+      res.status(404).json({ error: 'Task not found or unauthorized.' });
+      return;
+    }
+
+    const changes = revertChanges('task', task, await history.list('task', task.id), Number(entryId));
+
+    if (!changes) {
+      res.status(404).json({ error: 'History entry not found.' });
+      return;
+    }
+
+    const patch: TaskPatch = patchFromChanges(changes);
+    if (patch.project_id && !(await projects.exists(patch.project_id, userId))) {
+      res.status(409).json({ error: `Project with ID ${patch.project_id} no longer exists. Cannot revert to this version.` });
+      return;
+    }
+
+    // Moving back into a project takes the same role as moving there with PUT, and the project must not be archived
+    const accessError = await projectChangeError(req, userId, patch.project_id);
+    if (accessError) {
+      res.status(accessError.status).json({ error: accessError.error });
+      return;
+    }
+
+    const parentError = patch.parent_task_id ? await parentTaskError(req, userId, task.id, patch.parent_task_id) : null;
+    if (parentError) {
+      res.status(409).json({ error: `${parentError} Cannot revert to this version.` });
+      return;
+    }
+
+    const revertedTask = isEmptyPatch(patch) ? task : await tasks.update(task.id, userId, patch);
+    await recordChange(req, 'task', task.id, 'revert', changes);
+
+    res.json(revertedTask);
+    return;
+  } catch (err: any) {
+    console.error('Failed to revert task:', err.message || err);
+    res.status(500).json({ error: 'Failed to revert task', details: err.message });
+    return;
+  }
+});
+
+// The time spent on a task against its estimate:
+// { task_id, estimate_minutes, tracked_seconds, session_count, remaining_seconds }.
+// Only finished focus sessions linked to the task count. remaining_seconds is null without an estimate,
+// and negative once the task has overrun it.
+router.get('/:id/time', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.userId;
+  const { tasks, focusSessions } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const task = await tasks.find(id, userId);
+
+    if (!task) {
+      res.status(404).json({ error: 'Task not found or unauthorized.' });
+      return;
+    }
+
+    const { tracked_seconds, session_count } = await focusSessions.taskTotals(task.id);
+    res.json({
+      task_id: task.id,
+      estimate_minutes: task.estimate_minutes,
+      tracked_seconds,
+      session_count,
+      remaining_seconds: task.estimate_minutes === null ? null : task.estimate_minutes * 60 - tracked_seconds,
+    });
+    return;
+  } catch (err: any) {
+    console.error('Failed to fetch task time:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch task time', details: err.message });
+    return;
+  }
+});
+
+// Attach a tag to a task. Both must belong to the authenticated user.
+router.post('/:id/tags/:tagId', async (req: Request, res: Response) => {
+  const { id, tagId } = req.params;
+  const userId = req.userId;
+  const { tasks, tags } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await tasks.exists(id, userId))) {
+      res.status(404).json({ error: 'Task not found or unauthorized.' });
+      return;
+    }
+
+    if (!(await tags.exists(tagId, userId))) {
+      res.status(404).json({ error: 'Tag not found or unauthorized.' });
+      return;
+    }
+
+    await tasks.addTag(id, tagId);
+
+    res.json(await tasks.find(id, userId));
+    return;
+  } catch (err: any) {
+    console.error('Failed to add tag to task:', err.message || err);
+    res.status(500).json({ error: 'Failed to add tag to task', details: err.message });
+    return;
+  }
+});
+
+// Detach a tag from a task
+router.delete('/:id/tags/:tagId', async (req: Request, res: Response) => {
+  const { id, tagId } = req.params;
+  const userId = req.userId;
+  const { tasks } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await tasks.exists(id, userId))) {
+      res.status(404).json({ error: 'Task not found or unauthorized.' });
+      return;
+    }
+
+    await tasks.removeTag(id, tagId);
+
+    res.json(await tasks.find(id, userId));
+    return;
+  } catch (err: any) {
+    console.error('Failed to remove tag from task:', err.message || err);
+    res.status(500).json({ error: 'Failed to remove tag from task', details: err.message });
+    return;
+  }
+});
+
+// Mark a task as blocked by another of the user's tasks: it waits until `blockerId` is completed.
+// A task cannot wait on itself, or on a task that (directly or through other tasks) waits on it.
+router.post('/:id/blocked-by/:blockerId', async (req: Request, res: Response) => {
+  const { id, blockerId } = req.params;
+  const userId = req.userId;
+  const { tasks } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await tasks.exists(id, userId))) {
+      res.status(404).json({ error: 'Task not found or unauthorized.' });
+      return;
+    }
+
+    if (!(await tasks.exists(blockerId, userId))) {
+      res.status(404).json({ error: 'Blocking task not found or unauthorized.' });
+      return;
+    }
+
+    if (String(id) === String(blockerId) || (await tasks.blockerIds(blockerId)).includes(Number(id))) {
+      res.status(400).json({ error: 'A task cannot be blocked by itself or by a task that is waiting on it.' });
+      return;
+    }
+
+    await tasks.addDependency(id, blockerId);
+
+    res.json(await tasks.find(id, userId));
+    return;
+  } catch (err: any) {
+    console.error('Failed to add task dependency:', err.message || err);
+    res.status(500).json({ error: 'Failed to add task dependency', details: err.message });
+    return;
+  }
+});
+
+// Remove a blocking task from a task
+router.delete('/:id/blocked-by/:blockerId', async (req: Request, res: Response) => {
+  const { id, blockerId } = req.params;
+  const userId = req.userId;
+  const { tasks } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await tasks.exists(id, userId))) {
+      res.status(404).json({ error: 'Task not found or unauthorized.' });
+      return;
+    }
+
+    if (!(await tasks.removeDependency(id, blockerId))) {
+      res.status(404).json({ error: 'The task is not blocked by this task.' });
+      return;
+    }
+
+    res.json(await tasks.find(id, userId));
+    return;
+  } catch (err: any) {
+    console.error('Failed to remove task dependency:', err.message || err);
+    res.status(500).json({ error: 'Failed to remove task dependency', details: err.message });
+    return;
+  }
+});
+
+// Add a reminder to a task: { remind_at } for a fixed time or { offset_minutes } before the due date
+router.post('/:id/reminders', validateBody(reminderSchema), async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.userId;
+  const { tasks } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await tasks.exists(id, userId))) {
+      res.status(404).json({ error: 'Task not found or unauthorized.' });
+      return;
+    }
+
+    await tasks.addReminder(id, userId, req.body);
+
+    res.status(201).json(await tasks.find(id, userId));
+    return;
+  } catch (err: any) {
+    console.error('Failed to add reminder:', err.message || err);
+    res.status(500).json({ error: 'Failed to add reminder', details: err.message });
+    return;
+  }
+});
+
+// Remove a reminder from a task
+router.delete('/:id/reminders/:reminderId', async (req: Request, res: Response) => {
+  const { id, reminderId } = req.params;
+  const userId = req.userId;
+  const { tasks } = req.app.locals.repositories;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    if (!(await tasks.removeReminder(id, userId, reminderId))) {
+      res.status(404).json({ error: 'Reminder not found or unauthorized.' });
+      return;
+    }
+
+    res.json(await tasks.find(id, userId));
+    return;
+  } catch (err: any) {
+    console.error('Failed to remove reminder:', err.message || err);
+    res.status(500).json({ error: 'Failed to remove reminder', details: err.message });
+    return;
+  }
+});
+
+export default router;
@@ -0,0 +1,161 @@
+import express, { Request, Response } from 'express';
+import { recordChange } from '../lib/history';
+import { trashChangeError } from '../lib/projectAccess';
+import { trashRetentionDays } from '../lib/trashPurger';
+import { TrashItemType } from '../repositories';
+
+const router = express.Router();
+
+// URL segment for each kind of item, e.g. POST /api/trash/tasks/12/restore
+const TRASH_PATHS: Record<string, TrashItemType> = {
+  projects: 'project',
+  tasks: 'task',
+  notes: 'note',
+};
+
+const ITEM_NAMES: Record<TrashItemType, string> = { project: 'Project', task: 'Task', note: 'Note' };
+
+// Check that the user can restore or purge item `id` of `type` (see TrashRepository). Responds with the
+// error and returns false when they cannot.
+const checkTrashedItem = async (req: Request, res: Response, type: TrashItemType, id: string, userId: string) => {
+  const item = await req.app.locals.repositories.trash.find(type, id, userId);
+  if (!item) {
+    res.status(404).json({ error: `${ITEM_NAMES[type]} not found in trash or unauthorized.` });
+    return false;
+  }
+  const accessError = trashChangeError(item);
+  if (accessError) {
+    res.status(accessError.status).json({ error: accessError.error });
+    return false;
+  }
+  return true;
+};
+
+// List what is in the authenticated user's trash, newest first.
+// Responds with { data, retention_days }: items are deleted for good `retention_days` after deleted_at.
+// A project lists the number of tasks and notes that went to the trash with it (task_count, note_count).
+// Items of shared projects are listed for every member; read_only marks those the user's role does not let
+// them restore or purge.
+router.get('/', async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const data = await req.app.locals.repositories.trash.list(userId);
+    res.json({ data, retention_days: trashRetentionDays() });
+    return;
+  } catch (err: any) {
+    console.error('Failed to fetch trash:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch trash', details: err.message });
+    return;
+  }
+});
+
+// Move an item out of the trash. Restoring a project also restores the tasks and notes deleted with it.
+// A task or note whose project is still in the trash cannot be restored on its own (409), nor can a
+// subtask whose parent task is.
+router.post('/:type/:id/restore', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const type = TRASH_PATHS[req.params.type];
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  if (!type) {
+    res.status(404).json({ error: `Unknown item type: ${req.params.type}` });
+    return;
+  }
+
+  try {
+    if (!(await checkTrashedItem(req, res, type, id, userId))) return;
+
+    const result = await req.app.locals.repositories.trash.restore(type, id, userId);
+
+    if (result === 'not_found') {
+      res.status(404).json({ error: `${ITEM_NAMES[type]} not found in trash or unauthorized.` });
+      return;
+    }
+
+    if (result === 'project_in_trash') {
+      res.status(409).json({ error: `The ${type}'s project is in the trash. Restore the project first.` });
+      return;
+    }
+
+    if (result === 'parent_in_trash') {
+      res.status(409).json({ error: 'The parent task is in the trash. Restore the parent task first.' });
+      return;
+    }
+
+    await recordChange(req, type, id, 'restore');
+    res.status(204).send();
+    return;
+  } catch (err: any) {
+    console.error('Failed to restore item:', err.message || err);
+    res.status(500).json({ error: 'Failed to restore item', details: err.message });
+    return;
+  }
+});
+
+// Delete an item in the trash for good. Purging a project also removes its tasks and notes, and purging
+// a task the subtasks that were deleted with it.
+router.delete('/:type/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const type = TRASH_PATHS[req.params.type];
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  if (!type) {
+    res.status(404).json({ error: `Unknown item type: ${req.params.type}` });
+    return;
+  }
+
+  try {
+    if (!(await checkTrashedItem(req, res, type, id, userId))) return;
+
+    if (!(await req.app.locals.repositories.trash.purge(type, id, userId))) {
+      res.status(404).json({ error: `${ITEM_NAMES[type]} not found in trash or unauthorized.` });
+      return;
+    }
+
+    res.status(204).send();
+    return;
+  } catch (err: any) {
+    console.error('Failed to purge item:', err.message || err);
+    res.status(500).json({ error: 'Failed to purge item', details: err.message });
+    return;
+  }
+});
+
+// Empty the trash of everything the user can purge. Responds with { deleted }, the number of projects, tasks
+// and notes removed.
+router.delete('/', async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized: User ID not found.' });
+    return;
+  }
+
+  try {
+    const deleted = await req.app.locals.repositories.trash.empty(userId);
+    res.json({ deleted });
+    return;
+  } catch (err: any) {
+    console.error('Failed to empty trash:', err.message || err);
+    res.status(500).json({ error: 'Failed to empty trash', details: err.message });
+    return;
+  }
+});
+
+export default router;
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import { loadMigrations, migrate, migrationStatus, rollback } from '../lib/migrations';
+import { closePool } from '../lib/db';
+
+// Command line entry point for schema migrations (npm run migrate -- <command>):
+//   up              apply all pending migrations
+//   down [steps]    revert the last `steps` migrations (default 1)
+//   status          list applied and pending migrations
+//   create <name>   add an empty NNN_<name>.up.sql / .down.sql pair
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+
+const usage = () => {
+  console.log('Usage: npm run migrate -- <up | down [steps] | status | create <name>>');
+};
+
+const create = (name: string | undefined) => {
+  if (!name || !/^[a-z0-9_]+$/.test(name)) {
+    throw new Error('Migration names may only contain lowercase letters, digits and underscores.');
+  }
+  const last = loadMigrations(MIGRATIONS_DIR).at(-1);
+  const prefix = `${String((last?.version ?? 0) + 1).padStart(3, '0')}_${name}`;
+  fs.writeFileSync(path.join(MIGRATIONS_DIR, `${prefix}.up.sql`), '');
+  fs.writeFileSync(path.join(MIGRATIONS_DIR, `${prefix}.down.sql`), '');
+  console.log(`Created migrations/${prefix}.up.sql and migrations/${prefix}.down.sql`);
+};
+
+const main = async () => {
+  const [command, arg] = process.argv.slice(2);
+  const migrations = () => loadMigrations(MIGRATIONS_DIR);
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrate(migrations());
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s).` : 'Database is up to date.');
+      break;
+    }
+    case 'down': {
+      const steps = arg === undefined ? 1 : Number(arg);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error('steps must be a positive integer.');
+      }
+      const reverted = await rollback(steps, migrations());
+      console.log(reverted.length > 0 ? `Reverted ${reverted.length} migration(s).` : 'No migrations to revert.');
+      break;
+    }
+    case 'status': {
+      for (const migration of await migrationStatus(migrations())) {
+        const state = migration.missing
+          ? 'applied, file missing'
+          : migration.appliedAt
+            ? `applied ${migration.appliedAt.toISOString()}${migration.modified ? ' (modified since)' : ''}`
+            : 'pending';
+        console.log(`${String(migration.version).padStart(3, '0')}_${migration.name}  ${state}`);
+      }
+      break;
+    }
+    case 'create':
+      create(arg);
+      break;
+    default:
+      usage();
+      process.exitCode = 1;
+  }
+};
+
+main()
+  .catch((err) => {
+    console.error(err.message || err);
+    process.exitCode = 1;
+  })
+  .finally(closePool);
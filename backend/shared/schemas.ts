@@ -0,0 +1,258 @@
+import { z } from 'zod';
+
+// Request body schemas shared by the API routes (through lib/validate.ts) and the frontend forms
+// (imported there as @shared/schemas). Keep this file free of server-only imports.
+// Object schemas drop keys they do not know, so clients may send whole objects back on update.
+
+export const TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+
+// ISO 8601 date or date-time string, e.g. "2025-01-31" or "2025-01-31T09:00:00.000Z"
+const isoDate = z.string().refine((value) => !isNaN(Date.parse(value)), { message: 'Must be an ISO 8601 date.' });
+
+// Row IDs. 0 is accepted where the API treats it as "none" (e.g. project_id: 0 removes the project).
+const optionalId = z.number().int().nonnegative().nullable().optional();
+
+const color = z.string().max(50, 'Color must be 50 characters or fewer.').nullable().optional();
+
+// --- Tasks ---
+
+export const taskPrioritySchema = z.enum(TASK_PRIORITIES);
+
+// Either a fixed time or a number of minutes before the task's due date. Other keys are dropped, so reminders
+// can be sent back as the API returns them (with id, sent_at and the unused field set to null).
+export const reminderSchema = z.union([
+  z.object({ remind_at: isoDate }),
+  z.object({ offset_minutes: z.number().int().nonnegative('offset_minutes must be 0 or more.') }),
+], { errorMap: () => ({ message: 'A reminder needs either remind_at or offset_minutes.' }) });
+
+const taskFields = {
+  title: z.string().trim().min(1, 'Title is required.').max(255, 'Title must be 255 characters or fewer.'),
+  description: z.string().nullable().optional(),
+  dueDate: isoDate.nullable().optional(),
+  priority: taskPrioritySchema.nullable().optional(),
+  project_id: optionalId,
+  parent_task_id: optionalId, // Makes the task a subtask; null or 0 makes it a top-level task again
+  is_recurring: z.boolean().optional(),
+  recurrence_pattern: z.string().max(500, 'recurrence_pattern must be 500 characters or fewer.').nullable().optional(),
+  completed: z.boolean().optional(),
+  status_id: optionalId, // A status of the task's project; moving there sets completed to the status' is_done
+  estimate_minutes: z.number().int().positive('estimate_minutes must be 1 or more.').nullable().optional(), // null: no estimate
+};
+
+export const createTaskSchema = z.object({
+  ...taskFields,
+  reminders: z.array(reminderSchema).optional(),
+});
+
+export const updateTaskSchema = z.object({
+  ...taskFields,
+  assignee_id: z.string().min(1, 'assignee_id must not be empty.').nullable(), // A user ID; null unassigns the task
+}).partial();
+
+export const BULK_TASK_LIMIT = 500;
+
+// One change applied to every task of a bulk request
+export const bulkTaskOperationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('complete') }),
+  z.object({ type: z.literal('uncomplete') }),
+  z.object({ type: z.literal('delete') }),
+  z.object({ type: z.literal('move'), project_id: z.number().int().nonnegative().nullable() }), // null or 0: no project
+  z.object({ type: z.literal('set_priority'), priority: taskPrioritySchema }),
+  z.object({ type: z.literal('set_due_date'), dueDate: isoDate.nullable() }),
+  z.object({ type: z.literal('add_tag'), tag_id: z.number().int().positive() }),
+]);
+
+export const bulkTaskSchema = z.object({
+  ids: z.array(z.number().int().positive())
+    .min(1, 'Select at least one task.')
+    .max(BULK_TASK_LIMIT, `At most ${BULK_TASK_LIMIT} tasks can be changed at once.`),
+  operation: bulkTaskOperationSchema,
+});
+
+// Where a dragged task goes in the manual order: between the task that ends up directly above it
+// (previous_id) and the one directly below it (next_id). Leave one out to move to the top or bottom.
+export const moveTaskSchema = z.object({
+  previous_id: z.number().int().positive().nullable().optional(),
+  next_id: z.number().int().positive().nullable().optional(),
+}).refine((move) => move.previous_id || move.next_id, { message: 'Give previous_id, next_id or both.' });
+
+// --- Notes ---
+
+const noteFields = {
+  title: z.string().trim().min(1, 'Title is required.').max(255, 'Title must be 255 characters or fewer.'),
+  content: z.string().nullable().optional(),
+  project_id: optionalId,
+};
+
+export const createNoteSchema = z.object(noteFields);
+export const updateNoteSchema = z.object(noteFields).partial();
+
+// --- Projects ---
+
+const projectFields = {
+  name: z.string().trim().min(1, 'Project name is required.').max(255, 'Project name must be 255 characters or fewer.'),
+  color,
+  description: z.string().nullable().optional(),
+};
+
+// shared: true shares the project with the organization the user is signed in to; false makes it personal again
+const shared = z.boolean().optional();
+
+export const createProjectSchema = z.object({ ...projectFields, shared });
+export const updateProjectSchema = z.object({ ...projectFields, shared }).partial();
+
+// --- Tags ---
+
+const tagFields = {
+  name: z.string().trim().min(1, 'Tag name is required.').max(50, 'Tag name must be 50 characters or fewer.'),
+  color,
+};
+
+export const createTagSchema = z.object(tagFields);
+export const updateTagSchema = z.object(tagFields).partial();
+
+// --- Project statuses ---
+
+const projectStatusFields = {
+  name: z.string().trim().min(1, 'Status name is required.').max(50, 'Status name must be 50 characters or fewer.'),
+  color,
+  wip_limit: z.number().int().positive('wip_limit must be 1 or more.').nullable().optional(), // null: no limit
+  is_done: z.boolean().optional(), // Tasks in a done status are completed
+};
+
+export const createProjectStatusSchema = z.object(projectStatusFields);
+export const updateProjectStatusSchema = z.object(projectStatusFields).partial();
+
+// The project's statuses in their new order; every status must be listed once
+export const reorderProjectStatusesSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1, 'List at least one status.'),
+});
+
+// --- Focus sessions ---
+
+const focusSessionFields = {
+  start_time: isoDate,
+  end_time: isoDate.nullable().optional(),
+  duration: z.number().int().nonnegative().nullable().optional(), // Seconds
+  session_type: z.string().max(50).nullable().optional(),
+  notes: z.string().nullable().optional(),
+  task_id: optionalId,
+};
+
+export const createFocusSessionSchema = z.object(focusSessionFields);
+export const updateFocusSessionSchema = z.object(focusSessionFields).partial();
+export const startFocusSessionSchema = z.object(focusSessionFields).pick({ session_type: true, notes: true, task_id: true });
+export const stopFocusSessionSchema = z.object(focusSessionFields).pick({ notes: true });
+
+// --- Account export / import ---
+
+// An account archive as produced by GET /api/export and accepted by POST /api/import.
+// IDs are the ones the items had in the exported account; the import gives every item a new ID
+// and rewrites project_id, parent_task_id, task_id, tag_ids and blocked_by_ids to match.
+
+export const ARCHIVE_FORMAT = 'focusflow-export';
+export const ARCHIVE_VERSION = 1;
+
+const archiveId = z.number().int().positive();
+const archiveReference = archiveId.nullable().optional();
+
+const archiveTimestamps = {
+  created_at: isoDate.optional(),
+  updated_at: isoDate.optional(),
+};
+
+// A reminder as in reminderSchema, plus when it was delivered (so the import does not fire it again)
+export const archiveReminderSchema = z.union([
+  z.object({ remind_at: isoDate, sent_at: isoDate.nullable().optional() }).strict(),
+  z.object({ offset_minutes: z.number().int().nonnegative(), sent_at: isoDate.nullable().optional() }).strict(),
+], { errorMap: () => ({ message: 'A reminder needs either remind_at or offset_minutes.' }) });
+
+const archiveProjectSchema = z.object({
+  id: archiveId, ...projectFields, archived_at: isoDate.nullable().optional(), ...archiveTimestamps,
+});
+
+const archiveTagSchema = z.object({ id: archiveId, ...tagFields, created_at: isoDate.optional() });
+
+const archiveTaskSchema = z.object({
+  id: archiveId,
+  ...taskFields,
+  project_id: archiveReference,
+  parent_task_id: archiveReference,
+  position: z.number().finite().optional(),
+  tag_ids: z.array(archiveId).optional(),
+  blocked_by_ids: z.array(archiveId).optional(),
+  reminders: z.array(archiveReminderSchema).optional(),
+  ...archiveTimestamps,
+});
+
+const archiveNoteSchema = z.object({ id: archiveId, ...noteFields, project_id: archiveReference, ...archiveTimestamps });
+
+const archiveFocusSessionSchema = z.object({
+  id: archiveId,
+  ...focusSessionFields,
+  task_id: archiveReference,
+  created_at: isoDate.optional(),
+});
+
+export const accountArchiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT, { errorMap: () => ({ message: 'Not a FocusFlow export.' }) }),
+  version: z.literal(ARCHIVE_VERSION, { errorMap: () => ({ message: `Only version ${ARCHIVE_VERSION} exports can be imported.` }) }),
+  exported_at: isoDate.optional(),
+  projects: z.array(archiveProjectSchema).default([]),
+  tags: z.array(archiveTagSchema).default([]),
+  tasks: z.array(archiveTaskSchema).default([]),
+  notes: z.array(archiveNoteSchema).default([]),
+  focus_sessions: z.array(archiveFocusSessionSchema).default([]),
+}).superRefine((archive, ctx) => {
+  // IDs are what references point at, so they must be unique within each list
+  for (const entity of ['projects', 'tags', 'tasks', 'notes', 'focus_sessions'] as const) {
+    const seen = new Set<number>();
+    archive[entity].forEach((item, index) => {
+      if (seen.has(item.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [entity, index, 'id'], message: `Duplicate id ${item.id}.` });
+      }
+      seen.add(item.id);
+    });
+  }
+
+  // Tag names are unique per user, ignoring case
+  const tagNames = new Set<string>();
+  archive.tags.forEach((tag, index) => {
+    const name = tag.name.toLowerCase();
+    if (tagNames.has(name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tags', index, 'name'], message: `Duplicate tag name "${tag.name}".` });
+    }
+    tagNames.add(name);
+  });
+});
+
+// --- iCalendar import ---
+
+// The text of an .ics file, and the project the imported tasks go into (null or 0: none)
+export const calendarImportSchema = z.object({
+  calendar: z.string().min(1, 'The calendar file is empty.'),
+  project_id: optionalId,
+});
+
+// --- Local auth (AUTH_PROVIDER=local) ---
+
+export const localLoginSchema = z.object({
+  userId: z.string().trim().min(1, 'Choose a user to sign in as.'),
+});
+
+export type CreateTaskInput = z.infer<typeof createTaskSchema>;
+export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
+export type ReminderInput = z.infer<typeof reminderSchema>;
+export type BulkTaskInput = z.infer<typeof bulkTaskSchema>;
+export type BulkTaskOperation = z.infer<typeof bulkTaskOperationSchema>;
+export type MoveTaskInput = z.infer<typeof moveTaskSchema>;
+export type CreateNoteInput = z.infer<typeof createNoteSchema>;
+export type UpdateNoteInput = z.infer<typeof updateNoteSchema>;
+export type CreateProjectInput = z.infer<typeof createProjectSchema>;
+export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
+export type CreateProjectStatusInput = z.infer<typeof createProjectStatusSchema>;
+export type UpdateProjectStatusInput = z.infer<typeof updateProjectStatusSchema>;
+export type ReorderProjectStatusesInput = z.infer<typeof reorderProjectStatusesSchema>;
+export type ArchiveReminder = z.infer<typeof archiveReminderSchema>;
+export type AccountArchive = z.infer<typeof accountArchiveSchema>;
+export type CalendarImportInput = z.infer<typeof calendarImportSchema>;
@@ -4,7 +4,6 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
-import { ClerkProvider, RedirectToSignIn, SignedIn, SignedOut } from "@clerk/clerk-react";
 
 import AppLayout from "./components/layout/AppLayout"; // Assuming this path remains
 import Dashboard from "./pages/Dashboard"; // Assuming this path remains
@@ -12,17 +11,21 @@ import Tasks from "./pages/Tasks"; // Assuming this path remains
 import Focus from "./pages/Focus"; // Assuming this path remains
 import Notes from "./pages/Notes"; // Assuming this path remains
 import Calendar from "./pages/Calendar"; // Assuming this path remains
+import Trash from "./pages/Trash";
+import Search from "./pages/Search";
+import ImportExport from "./pages/ImportExport";
 import NotFound from "./pages/NotFound"; // Assuming this path remains
 import LandingPage from "./pages/LandingPage"; // Assuming this path remains
 import CustomLogin from "./features/auth/CustomLogin"; // Updated path for CustomLogin
 import CustomSignUp from "./features/auth/CustomSignUp"; // Updated path for CustomSignUp
+import LocalLogin from "./features/auth/LocalLogin";
+import AuthProvider from "./features/auth/AuthProvider";
+import RequireAuth from "./features/auth/RequireAuth";
+import { AUTH_PROVIDER } from "./features/auth/auth-context";
 
 import { useTasks, useProjects, useNotes } from "@/hooks/useApi"; // Import the updated useApi hooks
 import { Task, Note, Project } from "@/types"; // Import types for clarity
 
-// Get Clerk publishable key from environment variables
-const clerkPubKey = import.meta.env.VITE_CLERK_PUBLISHABLE_KEY;
-
 // Create a new QueryClient instance outside of any component
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -58,7 +61,6 @@ const AppContent = () => {
   } = useProjects();
 
   const {
-    notes,
     notesLoading,
     addNote, // Renamed from saveNote for consistency with useNotes hook
     updateNote,
@@ -84,7 +86,6 @@ const AppContent = () => {
         priority: "high",
         is_recurring: false,
         completed: false,
-        reminder: null,
         recurrence_pattern: null,
         project_id: projectId || null,
       });
@@ -131,21 +132,17 @@ const AppContent = () => {
           <Routes>
             {/* Public routes */}
             <Route path="/" element={<LandingPage />} />
-            <Route path="/login" element={<CustomLogin />} />
-            <Route path="/signup" element={<CustomSignUp />} />
+            {/* Local auth has no sign-up: its users are seeded by the backend */}
+            <Route path="/login" element={AUTH_PROVIDER === "local" ? <LocalLogin /> : <CustomLogin />} />
+            <Route path="/signup" element={AUTH_PROVIDER === "local" ? <Navigate to="/login" replace /> : <CustomSignUp />} />
 
             {/* Protected routes - only accessible when signed in */}
             <Route
               path="/app" // Changed path from "/app/*" to "/app" for base path
               element={
-                <>
-                  <SignedIn>
-                    <AppLayout /> {/* AppLayout will render the Outlet for nested routes */}
-                  </SignedIn>
-                  <SignedOut>
-                    <RedirectToSignIn /> {/* Redirects to sign-in if not authenticated */}
-                  </SignedOut>
-                </>
+                <RequireAuth> {/* Redirects to /login if not authenticated */}
+                  <AppLayout /> {/* AppLayout will render the Outlet for nested routes */}
+                </RequireAuth>
               }
             >
               <Route
@@ -182,13 +179,11 @@ const AppContent = () => {
                 path="notes"
                 element={
                   <Notes
-                    notes={notes || []}
                     onSaveNote={(noteData) => {
                       if (noteData.id) {
-                        updateNote(Number(noteData.id), noteData as Partial<Note>);
-                      } else {
-                        addNote(noteData as Omit<Note, 'id' | 'user_id' | 'created_at' | 'updated_at'>);
+                        return updateNote(Number(noteData.id), noteData as Partial<Note>);
                       }
+                      return addNote(noteData as Omit<Note, 'id' | 'user_id' | 'created_at' | 'updated_at'>);
                     }}
                     onDeleteNote={(id) => deleteNote(Number(id))}
                   />
@@ -214,7 +209,6 @@ const AppContent = () => {
                         priority: "high",
                         is_recurring: false,
                         completed: false,
-                        reminder: null,
                         recurrence_pattern: null,
                         project_id: null,
                       });
@@ -224,6 +218,9 @@ const AppContent = () => {
                   />
                 }
               />
+              <Route path="trash" element={<Trash />} />
+              <Route path="search" element={<Search />} />
+              <Route path="data" element={<ImportExport />} />
               <Route path="*" element={<NotFound />} />
             </Route>
 
@@ -245,14 +242,14 @@ const AppContent = () => {
 
 const App = () => {
   return (
-    <ClerkProvider publishableKey={clerkPubKey}>
+    <AuthProvider>
       {/* Provide the QueryClient to the entire application */}
       <QueryClientProvider client={queryClient}>
         <>
         <AppContent />
         </>
       </QueryClientProvider>
-    </ClerkProvider>
+    </AuthProvider>
   );
 };
 
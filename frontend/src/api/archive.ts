@@ -0,0 +1,48 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/features/auth/auth-context';
+import { API_BASE_URL, useAuthenticatedFetch, toQueryString } from './client';
+import { ArchiveEntity, CalendarImportResult, ExportFormat, ImportResult } from '@/types';
+
+export function useArchiveApi() {
+  const authenticatedFetch = useAuthenticatedFetch();
+  const { getToken } = useAuth();
+
+  // The whole account as a JSON archive, or one entity as CSV. Returned as a file to save,
+  // so it is fetched directly rather than parsed as JSON by authenticatedFetch.
+  const exportAccount = useCallback(async (format: ExportFormat, entity?: ArchiveEntity): Promise<Blob> => {
+    const token = await getToken();
+    const response = await fetch(`${API_BASE_URL}/export${toQueryString({ format, entity })}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `Export failed with status ${response.status}`);
+    }
+    return response.blob();
+  }, [getToken]);
+
+  // Add an archive from exportAccount('json') to the account. With dryRun nothing is written and
+  // the result says what the import would do.
+  const importAccount = useCallback(async (archive: unknown, dryRun = false): Promise<ImportResult> => {
+    return authenticatedFetch<ImportResult>(`/import${toQueryString({ dry_run: dryRun || undefined })}`, {
+      method: 'POST',
+      body: JSON.stringify(archive),
+    });
+  }, [authenticatedFetch]);
+
+  // Create tasks from the text of an .ics file, optionally in a project. With dryRun nothing is
+  // written and the result previews the tasks.
+  const importCalendar = useCallback(async (calendar: string, projectId: number | null, dryRun = false): Promise<CalendarImportResult> => {
+    return authenticatedFetch<CalendarImportResult>(`/import/ics${toQueryString({ dry_run: dryRun || undefined })}`, {
+      method: 'POST',
+      body: JSON.stringify({ calendar, project_id: projectId }),
+    });
+  }, [authenticatedFetch]);
+
+  return {
+    exportAccount,
+    importAccount,
+    importCalendar,
+  };
+}
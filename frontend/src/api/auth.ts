@@ -0,0 +1,25 @@
+import { API_BASE_URL } from './client';
+import { ApiErrorResponse, LocalAuthUser, LocalLoginResponse } from '@/types';
+
+// Sign-in calls for the local auth provider. They run before there is a token,
+// so they use plain fetch rather than useAuthenticatedFetch.
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorBody: Partial<ApiErrorResponse> = await response.json().catch(() => ({}));
+    throw new Error(errorBody.error || `Request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export async function getLocalUsers(): Promise<LocalAuthUser[]> {
+  return parseResponse<LocalAuthUser[]>(await fetch(`${API_BASE_URL}/auth/local/users`));
+}
+
+export async function loginLocalUser(userId: string): Promise<LocalLoginResponse> {
+  return parseResponse<LocalLoginResponse>(await fetch(`${API_BASE_URL}/auth/local/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId }),
+  }));
+}
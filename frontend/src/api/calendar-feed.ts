@@ -0,0 +1,32 @@
+import { useCallback } from 'react';
+import { useAuthenticatedFetch } from './client';
+import { CalendarFeed } from '@/types';
+
+export function useCalendarFeedApi() {
+  const authenticatedFetch = useAuthenticatedFetch();
+
+  // null until a feed has been created
+  const getCalendarFeed = useCallback(async (): Promise<CalendarFeed | null> => {
+    const { data } = await authenticatedFetch<{ data: CalendarFeed | null }>('/calendar-feed');
+    return data;
+  }, [authenticatedFetch]);
+
+  // Create the feed, or replace its token so the previous URL stops working
+  const rotateCalendarFeed = useCallback(async (): Promise<CalendarFeed> => {
+    return authenticatedFetch<CalendarFeed>('/calendar-feed', {
+      method: 'POST',
+    });
+  }, [authenticatedFetch]);
+
+  const deleteCalendarFeed = useCallback(async (): Promise<void> => {
+    return authenticatedFetch<void>('/calendar-feed', {
+      method: 'DELETE',
+    });
+  }, [authenticatedFetch]);
+
+  return {
+    getCalendarFeed,
+    rotateCalendarFeed,
+    deleteCalendarFeed,
+  };
+}
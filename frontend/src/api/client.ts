@@ -1,14 +1,27 @@
 /**
  * @fileoverview Centralized API client for making authenticated requests to the backend.
  * This file sets up a custom hook that provides a fetch wrapper, automatically including
- * the Clerk session token in the Authorization header for every request.
+ * the auth provider's session token (Clerk or local) in the Authorization header for every request.
  */
 
-import { useAuth } from '@clerk/clerk-react'; // Import Clerk's useAuth hook
+import { useAuth } from '@/features/auth/auth-context'; // Active auth provider (Clerk or local)
 import { ApiErrorResponse } from '@/types/api'; // Import your ApiErrorResponse type
 
 // Define your backend API base URL from environment variables
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+
+/**
+ * Serializes list filters into a query string (including the leading '?'), skipping empty values.
+ */
+export function toQueryString(filters: object): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  });
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+}
 
 /**
  * Custom hook to provide an authenticated fetch function.
@@ -28,8 +41,8 @@ export function useAuthenticatedFetch() {
     endpoint: string,
     options?: RequestInit
   ): Promise<T> => {
-    // Get the Clerk session token using the hook's getToken
-    const token = await getToken({ template: 'backend' }); // 'backend' template is often used for custom backends
+    // Get the session token from the active auth provider
+    const token = await getToken();
 
     const headers = {
       'Content-Type': 'application/json',
@@ -61,8 +74,9 @@ export function useAuthenticatedFetch() {
         // If parsing fails, use a generic error message
         console.error('Failed to parse error response:', parseError);
       }
-      // Throw an error with structured details
-      throw new Error(errorData.error || 'API request failed');
+      // Throw an error with structured details; validation errors list the offending fields
+      const fieldMessages = errorData.fields ? Object.values(errorData.fields).join(' ') : '';
+      throw new Error([errorData.error || 'API request failed', fieldMessages].filter(Boolean).join(' '));
     }
 
     // Handle 204 No Content for successful deletions
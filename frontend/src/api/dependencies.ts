@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { useAuthenticatedFetch } from './client';
+import { Task } from '@/types';
+
+export function useDependenciesApi() {
+  const authenticatedFetch = useAuthenticatedFetch();
+
+  // Adding and removing return the updated task with its blockers
+  const addBlocker = useCallback(async (taskId: number, blockerId: number): Promise<Task> => {
+    return authenticatedFetch<Task>(`/tasks/${taskId}/blocked-by/${blockerId}`, {
+      method: 'POST',
+    });
+  }, [authenticatedFetch]);
+
+  const removeBlocker = useCallback(async (taskId: number, blockerId: number): Promise<Task> => {
+    return authenticatedFetch<Task>(`/tasks/${taskId}/blocked-by/${blockerId}`, {
+      method: 'DELETE',
+    });
+  }, [authenticatedFetch]);
+
+  return {
+    addBlocker,
+    removeBlocker,
+  };
+}
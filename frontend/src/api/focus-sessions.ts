@@ -0,0 +1,69 @@
+import { useCallback } from 'react';
+import { useAuthenticatedFetch, toQueryString } from './client';
+import { FocusSession, PartialUpdate } from '@/types';
+
+/**
+ * Optional filters for listing focus sessions. `from` and `to` are ISO 8601 strings
+ * compared against each session's start_time (`from` inclusive, `to` exclusive).
+ */
+export interface FocusSessionRange {
+  from?: string;
+  to?: string;
+  task_id?: number;
+}
+
+export function useFocusSessionsApi() {
+  const authenticatedFetch = useAuthenticatedFetch();
+
+  const getFocusSessions = useCallback(async (range: FocusSessionRange = {}): Promise<FocusSession[]> => {
+    return authenticatedFetch<FocusSession[]>(`/focus-sessions${toQueryString(range)}`);
+  }, [authenticatedFetch]);
+
+  const getActiveFocusSession = useCallback(async (): Promise<FocusSession | null> => {
+    return authenticatedFetch<FocusSession | null>('/focus-sessions/active');
+  }, [authenticatedFetch]);
+
+  const createFocusSession = useCallback(async (sessionData: Omit<FocusSession, 'id' | 'user_id' | 'created_at'>): Promise<FocusSession> => {
+    return authenticatedFetch<FocusSession>('/focus-sessions', {
+      method: 'POST',
+      body: JSON.stringify(sessionData),
+    });
+  }, [authenticatedFetch]);
+
+  const updateFocusSession = useCallback(async (id: number, updates: PartialUpdate<FocusSession>): Promise<FocusSession> => {
+    return authenticatedFetch<FocusSession>(`/focus-sessions/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }, [authenticatedFetch]);
+
+  const deleteFocusSession = useCallback(async (id: number): Promise<void> => {
+    return authenticatedFetch<void>(`/focus-sessions/${id}`, {
+      method: 'DELETE',
+    });
+  }, [authenticatedFetch]);
+
+  const startFocusSession = useCallback(async (sessionData: Pick<FocusSession, 'session_type' | 'notes' | 'task_id'> = {}): Promise<FocusSession> => {
+    return authenticatedFetch<FocusSession>('/focus-sessions/start', {
+      method: 'POST',
+      body: JSON.stringify(sessionData),
+    });
+  }, [authenticatedFetch]);
+
+  const stopFocusSession = useCallback(async (id: number, notes?: string): Promise<FocusSession> => {
+    return authenticatedFetch<FocusSession>(`/focus-sessions/${id}/stop`, {
+      method: 'POST',
+      body: JSON.stringify({ notes }),
+    });
+  }, [authenticatedFetch]);
+
+  return {
+    getFocusSessions,
+    getActiveFocusSession,
+    createFocusSession,
+    updateFocusSession,
+    deleteFocusSession,
+    startFocusSession,
+    stopFocusSession,
+  };
+}
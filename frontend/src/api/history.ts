@@ -0,0 +1,31 @@
+import { useCallback } from 'react';
+import { useAuthenticatedFetch } from './client';
+import { HistoryList, Note, Task } from '@/types';
+
+// Tasks and notes expose their change history
+export type HistorySubjectType = 'task' | 'note';
+
+const HISTORY_PATHS: Record<HistorySubjectType, string> = {
+  task: 'tasks',
+  note: 'notes',
+};
+
+export function useHistoryApi() {
+  const authenticatedFetch = useAuthenticatedFetch();
+
+  const getHistory = useCallback(async (type: HistorySubjectType, id: number): Promise<HistoryList> => {
+    return authenticatedFetch<HistoryList>(`/${HISTORY_PATHS[type]}/${id}/history`);
+  }, [authenticatedFetch]);
+
+  // Put the task or note back to its version right after history entry `entryId`; returns the reverted item
+  const revertToEntry = useCallback(async (type: HistorySubjectType, id: number, entryId: number): Promise<Task | Note> => {
+    return authenticatedFetch<Task | Note>(`/${HISTORY_PATHS[type]}/${id}/history/${entryId}/revert`, {
+      method: 'POST',
+    });
+  }, [authenticatedFetch]);
+
+  return {
+    getHistory,
+    revertToEntry,
+  };
+}
@@ -6,5 +6,16 @@
 export * from './client';
 export * from './tasks';
 export * from './projects';
+export * from './project-statuses';
 export * from './notes';
-// Add other API service exports here as you create them (e.g., focus-sessions, tags)
+export * from './focus-sessions';
+export * from './tags';
+export * from './reminders';
+export * from './dependencies';
+export * from './notifications';
+export * from './trash';
+export * from './history';
+export * from './search';
+export * from './archive';
+export * from './calendar-feed';
+// Add other API service exports here as you create them
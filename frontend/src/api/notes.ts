@@ -1,12 +1,23 @@
 import { useCallback } from 'react';
-import { useAuthenticatedFetch } from './client';
-import { Note, PartialUpdate } from '@/types';
+import { useAuthenticatedFetch, toQueryString } from './client';
+import { Note, PartialUpdate, PaginatedResponse } from '@/types';
+
+/**
+ * Optional server-side filters, sorting and paging for listing notes.
+ */
+export interface NoteFilters {
+  project_id?: number | 'none';
+  search?: string;
+  sort?: 'created_at' | '-created_at' | 'updated_at' | '-updated_at' | 'title' | '-title';
+  limit?: number;
+  cursor?: string;
+}
 
 export function useNotesApi() {
   const authenticatedFetch = useAuthenticatedFetch();
 
-  const getNotes = useCallback(async (): Promise<Note[]> => {
-    return authenticatedFetch<Note[]>('/notes');
+  const getNotes = useCallback(async (filters: NoteFilters = {}): Promise<PaginatedResponse<Note>> => {
+    return authenticatedFetch<PaginatedResponse<Note>>(`/notes${toQueryString(filters)}`);
   }, [authenticatedFetch]);
 
   const createNote = useCallback(async (noteData: Omit<Note, 'id' | 'user_id' | 'created_at' | 'updated_at'>): Promise<Note> => {
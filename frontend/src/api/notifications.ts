@@ -0,0 +1,84 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/features/auth/auth-context';
+import { API_BASE_URL, useAuthenticatedFetch, toQueryString } from './client';
+import { Notification, NotificationList } from '@/types';
+
+export interface NotificationFilters {
+  unread?: boolean;
+  limit?: number;
+}
+
+export function useNotificationsApi() {
+  const authenticatedFetch = useAuthenticatedFetch();
+  const { getToken } = useAuth();
+
+  const getNotifications = useCallback(async (filters: NotificationFilters = {}): Promise<NotificationList> => {
+    return authenticatedFetch<NotificationList>(`/notifications${toQueryString(filters)}`);
+  }, [authenticatedFetch]);
+
+  const markNotificationRead = useCallback(async (id: number): Promise<Notification> => {
+    return authenticatedFetch<Notification>(`/notifications/${id}/read`, {
+      method: 'POST',
+    });
+  }, [authenticatedFetch]);
+
+  const markAllNotificationsRead = useCallback(async (): Promise<void> => {
+    return authenticatedFetch<void>('/notifications/read-all', {
+      method: 'POST',
+    });
+  }, [authenticatedFetch]);
+
+  const deleteNotification = useCallback(async (id: number): Promise<void> => {
+    return authenticatedFetch<void>(`/notifications/${id}`, {
+      method: 'DELETE',
+    });
+  }, [authenticatedFetch]);
+
+  /**
+   * Reads the server-sent event stream of new notifications until it closes or `signal` aborts.
+   * EventSource cannot send the Authorization header, so the stream is read with fetch instead.
+   * @param since ID of the last notification already seen; anything newer is replayed first.
+   * @param onNotification Called for every notification received.
+   */
+  const streamNotifications = useCallback(async (
+    since: number,
+    onNotification: (notification: Notification) => void,
+    signal: AbortSignal
+  ): Promise<void> => {
+    const token = await getToken();
+    const response = await fetch(`${API_BASE_URL}/notifications/stream${toQueryString({ since: since || undefined })}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Notification stream failed with status ${response.status}`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+
+      // Events are separated by a blank line; lines starting with ':' are heartbeats
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+      for (const event of events) {
+        const lines = event.split('\n');
+        if (!lines.includes('event: notification')) continue;
+        const data = lines.filter(line => line.startsWith('data: ')).map(line => line.slice(6)).join('\n');
+        onNotification(JSON.parse(data));
+      }
+    }
+  }, [getToken]);
+
+  return {
+    getNotifications,
+    markNotificationRead,
+    markAllNotificationsRead,
+    deleteNotification,
+    streamNotifications,
+  };
+}
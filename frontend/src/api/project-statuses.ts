@@ -0,0 +1,47 @@
+import { useCallback } from 'react';
+import { useAuthenticatedFetch } from './client';
+import { ProjectStatus, ProjectStatusInput } from '@/types';
+
+export function useProjectStatusesApi() {
+  const authenticatedFetch = useAuthenticatedFetch();
+
+  const getProjectStatuses = useCallback(async (projectId: number): Promise<ProjectStatus[]> => {
+    return authenticatedFetch<ProjectStatus[]>(`/projects/${projectId}/statuses`);
+  }, [authenticatedFetch]);
+
+  const createProjectStatus = useCallback(async (projectId: number, statusData: ProjectStatusInput): Promise<ProjectStatus> => {
+    return authenticatedFetch<ProjectStatus>(`/projects/${projectId}/statuses`, {
+      method: 'POST',
+      body: JSON.stringify(statusData),
+    });
+  }, [authenticatedFetch]);
+
+  const updateProjectStatus = useCallback(async (projectId: number, id: number, updates: Partial<ProjectStatusInput>): Promise<ProjectStatus> => {
+    return authenticatedFetch<ProjectStatus>(`/projects/${projectId}/statuses/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }, [authenticatedFetch]);
+
+  // `ids` lists every status of the project in the new order; returns the statuses in that order
+  const reorderProjectStatuses = useCallback(async (projectId: number, ids: number[]): Promise<ProjectStatus[]> => {
+    return authenticatedFetch<ProjectStatus[]>(`/projects/${projectId}/statuses/order`, {
+      method: 'PUT',
+      body: JSON.stringify({ ids }),
+    });
+  }, [authenticatedFetch]);
+
+  const deleteProjectStatus = useCallback(async (projectId: number, id: number): Promise<void> => {
+    return authenticatedFetch<void>(`/projects/${projectId}/statuses/${id}`, {
+      method: 'DELETE',
+    });
+  }, [authenticatedFetch]);
+
+  return {
+    getProjectStatuses,
+    createProjectStatus,
+    updateProjectStatus,
+    reorderProjectStatuses,
+    deleteProjectStatus,
+  };
+}
@@ -1,28 +1,46 @@
 import { useCallback } from 'react';
 import { useAuthenticatedFetch } from './client';
-import { Project, PartialUpdate } from '@/types';
+import { Project, PartialUpdate, ProjectMember, ProjectSharing } from '@/types';
 
 export function useProjectsApi() {
   const authenticatedFetch = useAuthenticatedFetch();
 
-  const getProjects = useCallback(async (): Promise<Project[]> => {
-    return authenticatedFetch<Project[]>('/projects');
+  // The active projects, or the archived ones (most recently archived first)
+  const getProjects = useCallback(async (archived = false): Promise<Project[]> => {
+    return authenticatedFetch<Project[]>(archived ? '/projects?archived=true' : '/projects');
   }, [authenticatedFetch]);
 
-  const createProject = useCallback(async (projectData: Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'>): Promise<Project> => {
+  const createProject = useCallback(async (projectData: Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'> & ProjectSharing): Promise<Project> => {
     return authenticatedFetch<Project>('/projects', {
       method: 'POST',
       body: JSON.stringify(projectData),
     });
   }, [authenticatedFetch]);
 
-  const updateProject = useCallback(async (id: number, updates: PartialUpdate<Project>): Promise<Project> => {
+  const updateProject = useCallback(async (id: number, updates: PartialUpdate<Project> & ProjectSharing): Promise<Project> => {
     return authenticatedFetch<Project>(`/projects/${id}`, {
       method: 'PUT',
       body: JSON.stringify(updates),
     });
   }, [authenticatedFetch]);
 
+  const archiveProject = useCallback(async (id: number): Promise<Project> => {
+    return authenticatedFetch<Project>(`/projects/${id}/archive`, {
+      method: 'POST',
+    });
+  }, [authenticatedFetch]);
+
+  const unarchiveProject = useCallback(async (id: number): Promise<Project> => {
+    return authenticatedFetch<Project>(`/projects/${id}/unarchive`, {
+      method: 'POST',
+    });
+  }, [authenticatedFetch]);
+
+  // The people who can see the project, ordered by email
+  const getProjectMembers = useCallback(async (id: number): Promise<ProjectMember[]> => {
+    return authenticatedFetch<ProjectMember[]>(`/projects/${id}/members`);
+  }, [authenticatedFetch]);
+
   const deleteProject = useCallback(async (id: number): Promise<void> => {
     return authenticatedFetch<void>(`/projects/${id}`, {
       method: 'DELETE',
@@ -33,6 +51,9 @@ export function useProjectsApi() {
     getProjects,
     createProject,
     updateProject,
+    archiveProject,
+    unarchiveProject,
+    getProjectMembers,
     deleteProject,
   };
 }
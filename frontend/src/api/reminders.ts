@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { useAuthenticatedFetch } from './client';
+import { NewTaskReminder, Task } from '@/types';
+
+export function useRemindersApi() {
+  const authenticatedFetch = useAuthenticatedFetch();
+
+  // Adding and removing return the updated task with its reminders
+  const addReminder = useCallback(async (taskId: number, reminder: NewTaskReminder): Promise<Task> => {
+    return authenticatedFetch<Task>(`/tasks/${taskId}/reminders`, {
+      method: 'POST',
+      body: JSON.stringify(reminder),
+    });
+  }, [authenticatedFetch]);
+
+  const removeReminder = useCallback(async (taskId: number, reminderId: number): Promise<Task> => {
+    return authenticatedFetch<Task>(`/tasks/${taskId}/reminders/${reminderId}`, {
+      method: 'DELETE',
+    });
+  }, [authenticatedFetch]);
+
+  return {
+    addReminder,
+    removeReminder,
+  };
+}
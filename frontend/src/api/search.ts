@@ -0,0 +1,22 @@
+import { useCallback } from 'react';
+import { useAuthenticatedFetch, toQueryString } from './client';
+import { SearchResponse, SearchResultType } from '@/types';
+
+export interface SearchParams {
+  q: string;
+  types?: SearchResultType[]; // Default: tasks, notes and projects
+  limit?: number; // Default 20, at most 50
+}
+
+export function useSearchApi() {
+  const authenticatedFetch = useAuthenticatedFetch();
+
+  // Every word of `q` must match the start of a word in the item, e.g. "foc sess" finds "Focus session"
+  const search = useCallback(async (params: SearchParams): Promise<SearchResponse> => {
+    return authenticatedFetch<SearchResponse>(`/search${toQueryString(params)}`);
+  }, [authenticatedFetch]);
+
+  return {
+    search,
+  };
+}
@@ -0,0 +1,53 @@
+import { useCallback } from 'react';
+import { useAuthenticatedFetch } from './client';
+import { Tag, Task } from '@/types';
+
+export function useTagsApi() {
+  const authenticatedFetch = useAuthenticatedFetch();
+
+  const getTags = useCallback(async (): Promise<Tag[]> => {
+    return authenticatedFetch<Tag[]>('/tags');
+  }, [authenticatedFetch]);
+
+  const createTag = useCallback(async (tagData: Pick<Tag, 'name' | 'color'>): Promise<Tag> => {
+    return authenticatedFetch<Tag>('/tags', {
+      method: 'POST',
+      body: JSON.stringify(tagData),
+    });
+  }, [authenticatedFetch]);
+
+  const updateTag = useCallback(async (id: number, updates: Partial<Pick<Tag, 'name' | 'color'>>): Promise<Tag> => {
+    return authenticatedFetch<Tag>(`/tags/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }, [authenticatedFetch]);
+
+  const deleteTag = useCallback(async (id: number): Promise<void> => {
+    return authenticatedFetch<void>(`/tags/${id}`, {
+      method: 'DELETE',
+    });
+  }, [authenticatedFetch]);
+
+  // Attaching and detaching return the updated task with its tags
+  const addTagToTask = useCallback(async (taskId: number, tagId: number): Promise<Task> => {
+    return authenticatedFetch<Task>(`/tasks/${taskId}/tags/${tagId}`, {
+      method: 'POST',
+    });
+  }, [authenticatedFetch]);
+
+  const removeTagFromTask = useCallback(async (taskId: number, tagId: number): Promise<Task> => {
+    return authenticatedFetch<Task>(`/tasks/${taskId}/tags/${tagId}`, {
+      method: 'DELETE',
+    });
+  }, [authenticatedFetch]);
+
+  return {
+    getTags,
+    createTag,
+    updateTag,
+    deleteTag,
+    addTagToTask,
+    removeTagFromTask,
+  };
+}
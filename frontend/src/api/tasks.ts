@@ -1,24 +1,53 @@
 import { useCallback } from 'react';
-import { useAuthenticatedFetch } from './client';
-import { Task, PartialUpdate } from '@/types';
+import { useAuthenticatedFetch, toQueryString } from './client';
+import { Task, NewTaskReminder, PartialUpdate, PaginatedResponse, BulkTaskOperation, BulkTaskResult, TaskPlacement, TaskTime } from '@/types';
+
+/**
+ * Optional server-side filters, sorting and paging for listing tasks.
+ * Dates are ISO 8601 strings; `due_from` is inclusive and `due_to` exclusive.
+ * `sort` is a column name, prefixed with '-' for descending order (e.g. '-created_at'); 'position' is the manual order.
+ */
+export interface TaskFilters {
+  completed?: boolean;
+  project_id?: number | 'none';
+  parent_id?: number | 'none'; // Subtasks of a task, or 'none' for top-level tasks only
+  due_from?: string;
+  due_to?: string;
+  has_due_date?: boolean;
+  priority?: Task['priority'][];
+  search?: string;
+  tag?: number | string; // A tag ID or a tag name
+  blocked?: boolean; // Whether the task waits on an open task
+  assignee_id?: string | 'me' | 'none'; // A user ID, the signed-in user, or unassigned tasks only
+  sort?: 'created_at' | '-created_at' | 'updated_at' | '-updated_at' | 'dueDate' | '-dueDate' | 'priority' | '-priority' | 'title' | '-title'
+    | 'position' | '-position';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface UpdateTaskOptions {
+  completeSubtasks?: boolean;
+}
 
 export function useTasksApi() {
   const authenticatedFetch = useAuthenticatedFetch();
 
   // Memoize all API functions
-  const getTasks = useCallback(async (): Promise<Task[]> => {
-    return authenticatedFetch<Task[]>('/tasks');
+  const getTasks = useCallback(async (filters: TaskFilters = {}): Promise<PaginatedResponse<Task>> => {
+    return authenticatedFetch<PaginatedResponse<Task>>(`/tasks${toQueryString(filters)}`);
   }, [authenticatedFetch]);
 
-  const createTask = useCallback(async (taskData: Omit<Task, 'id' | 'user_id' | 'created_at' | 'updated_at'>): Promise<Task> => {
+  // `reminders` are created with the task, each with either remind_at or offset_minutes
+  const createTask = useCallback(async (taskData: Omit<Task, 'id' | 'user_id' | 'created_at' | 'updated_at' | 'reminders'> & { reminders?: NewTaskReminder[] }): Promise<Task> => {
     return authenticatedFetch<Task>('/tasks', {
       method: 'POST',
       body: JSON.stringify(taskData),
     });
   }, [authenticatedFetch]);
 
-  const updateTask = useCallback(async (id: number, updates: PartialUpdate<Task>): Promise<Task> => {
-    return authenticatedFetch<Task>(`/tasks/${id}`, {
+  // With completeSubtasks, completing the task also completes all of its subtasks
+  const updateTask = useCallback(async (id: number, updates: PartialUpdate<Task>, options: UpdateTaskOptions = {}): Promise<Task> => {
+    return authenticatedFetch<Task>(`/tasks/${id}${toQueryString({ complete_subtasks: options.completeSubtasks })}`, {
       method: 'PUT',
       body: JSON.stringify(updates),
     });
@@ -30,10 +59,61 @@ export function useTasksApi() {
     });
   }, [authenticatedFetch]);
 
+  // Copies the task together with its subtasks, their subtasks and so on. The copy of the task itself
+  // keeps the original's parent; the copies of the subtasks hang under the new copies.
   const duplicateTask = useCallback(async (task: Task): Promise<Task> => {
-    const { id, user_id, created_at, updated_at, ...newTaskData } = task;
-    return createTask(newTaskData);
-  }, [createTask]);
+    const copyTree = async (original: Task, parentId: number | null): Promise<Task> => {
+      // Tags and blockers live in their own tables and are not part of the create payload, so they are re-attached to the copy.
+      // The copy starts in the first column that matches it, so it never runs into a WIP limit.
+      // Its reminders are new ones at the same times, which have not fired yet.
+      const { id, user_id, created_at, updated_at, tags, subtask_count, subtasks_completed, blocked_by, position, status_id, tracked_seconds, reminders, ...newTaskData } = original;
+      let copy = await createTask({
+        ...newTaskData,
+        parent_task_id: parentId,
+        reminders: (reminders || []).map((reminder): NewTaskReminder => reminder.remind_at
+          ? { remind_at: reminder.remind_at }
+          : { offset_minutes: reminder.offset_minutes ?? 0 }),
+      });
+      for (const tag of tags || []) {
+        copy = await authenticatedFetch<Task>(`/tasks/${copy.id}/tags/${tag.id}`, { method: 'POST' });
+      }
+      for (const blocker of blocked_by || []) {
+        copy = await authenticatedFetch<Task>(`/tasks/${copy.id}/blocked-by/${blocker.id}`, { method: 'POST' });
+      }
+
+      let cursor: string | undefined;
+      do {
+        const page = await getTasks({ parent_id: id, sort: 'created_at', limit: 200, cursor });
+        for (const subtask of page.data) {
+          await copyTree(subtask, copy.id);
+        }
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      return copy;
+    };
+    return copyTree(task, task.parent_task_id ?? null);
+  }, [createTask, getTasks, authenticatedFetch]);
+
+  // Move a task in the manual order; only the moved task changes on the server
+  const reorderTask = useCallback(async (id: number, placement: TaskPlacement): Promise<Task> => {
+    return authenticatedFetch<Task>(`/tasks/${id}/move`, {
+      method: 'POST',
+      body: JSON.stringify(placement),
+    });
+  }, [authenticatedFetch]);
+
+  // Apply one operation to several tasks; the server changes all of them or none
+  const bulkUpdateTasks = useCallback(async (ids: number[], operation: BulkTaskOperation): Promise<BulkTaskResult> => {
+    return authenticatedFetch<BulkTaskResult>('/tasks/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ ids, operation }),
+    });
+  }, [authenticatedFetch]);
+
+  // Focus time recorded on the task, compared with its estimate
+  const getTaskTime = useCallback(async (id: number): Promise<TaskTime> => {
+    return authenticatedFetch<TaskTime>(`/tasks/${id}/time`);
+  }, [authenticatedFetch]);
 
   return {
     getTasks,
@@ -41,5 +121,8 @@ export function useTasksApi() {
     updateTask,
     deleteTask,
     duplicateTask,
+    reorderTask,
+    bulkUpdateTasks,
+    getTaskTime,
   };
 }
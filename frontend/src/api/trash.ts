@@ -0,0 +1,44 @@
+import { useCallback } from 'react';
+import { useAuthenticatedFetch } from './client';
+import { TrashItemType, TrashList } from '@/types';
+
+// URL segment for each kind of item, e.g. /trash/tasks/12/restore
+const TRASH_PATHS: Record<TrashItemType, string> = {
+  project: 'projects',
+  task: 'tasks',
+  note: 'notes',
+};
+
+export function useTrashApi() {
+  const authenticatedFetch = useAuthenticatedFetch();
+
+  const getTrash = useCallback(async (): Promise<TrashList> => {
+    return authenticatedFetch<TrashList>('/trash');
+  }, [authenticatedFetch]);
+
+  // Restoring a project also restores the tasks and notes that were deleted with it
+  const restoreTrashItem = useCallback(async (type: TrashItemType, id: number): Promise<void> => {
+    return authenticatedFetch<void>(`/trash/${TRASH_PATHS[type]}/${id}/restore`, {
+      method: 'POST',
+    });
+  }, [authenticatedFetch]);
+
+  const purgeTrashItem = useCallback(async (type: TrashItemType, id: number): Promise<void> => {
+    return authenticatedFetch<void>(`/trash/${TRASH_PATHS[type]}/${id}`, {
+      method: 'DELETE',
+    });
+  }, [authenticatedFetch]);
+
+  const emptyTrash = useCallback(async (): Promise<{ deleted: number }> => {
+    return authenticatedFetch<{ deleted: number }>('/trash', {
+      method: 'DELETE',
+    });
+  }, [authenticatedFetch]);
+
+  return {
+    getTrash,
+    restoreTrashItem,
+    purgeTrashItem,
+    emptyTrash,
+  };
+}
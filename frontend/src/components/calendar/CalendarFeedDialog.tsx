@@ -0,0 +1,140 @@
+/**
+ * @fileoverview CalendarFeedDialog creates the secret URL of the user's iCalendar feed, which calendar
+ * apps (Google Calendar, Apple Calendar, Outlook) subscribe to in order to show tasks with a due date.
+ * Rotating the URL replaces it with a new one, so anyone holding the old URL loses access.
+ */
+
+import React, { useState } from "react";
+import { Copy, Link, RefreshCw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { useCalendarFeed } from "@/hooks/useApi";
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FeedUrl: React.FC<{ id: string; label: string; url: string }> = ({ id, label, url }) => {
+  const { toast } = useToast();
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(url);
+    toast({
+      title: "Copied",
+      description: "Feed URL copied to clipboard",
+    });
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-2">
+        <Input id={id} value={url} readOnly onFocus={(event) => event.target.select()} />
+        <Button variant="outline" size="icon" onClick={handleCopy} aria-label={`Copy ${label.toLowerCase()}`}>
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const CalendarFeedDialog: React.FC<CalendarFeedDialogProps> = ({ open, onOpenChange }) => {
+  const { calendarFeed, calendarFeedLoading, rotateCalendarFeed, deleteCalendarFeed, calendarFeedUpdating } = useCalendarFeed();
+  const [isConfirmingRotate, setIsConfirmingRotate] = useState(false);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch {
+      // useCalendarFeed already reports the failure with a toast
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Subscribe in a calendar app</DialogTitle>
+            <DialogDescription>
+              Add this URL to Google Calendar, Apple Calendar or Outlook to see your tasks with a due date. Calendar apps check it for changes about once an hour.
+            </DialogDescription>
+          </DialogHeader>
+
+          {calendarFeedLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : calendarFeed ? (
+            <div className="space-y-4">
+              <FeedUrl id="calendar-feed-url" label="Events" url={calendarFeed.url} />
+              <FeedUrl id="calendar-feed-todo-url" label="To-dos (for apps that show tasks)" url={`${calendarFeed.url}?type=todo`} />
+              <p className="text-sm text-muted-foreground">
+                Anyone with these URLs can see your tasks. If one has been shared by mistake, rotate it.
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              You don't have a feed URL yet. The URL is secret: anyone who has it can see your tasks.
+            </p>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            {calendarFeed ? (
+              <>
+                <Button variant="ghost" onClick={() => run(deleteCalendarFeed)} disabled={calendarFeedUpdating}>
+                  Turn off feed
+                </Button>
+                <Button variant="outline" onClick={() => setIsConfirmingRotate(true)} disabled={calendarFeedUpdating}>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Rotate URL
+                </Button>
+              </>
+            ) : (
+              <Button onClick={() => run(rotateCalendarFeed)} disabled={calendarFeedLoading || calendarFeedUpdating}>
+                <Link className="mr-2 h-4 w-4" />
+                {calendarFeedUpdating ? "Creating..." : "Create feed URL"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isConfirmingRotate} onOpenChange={setIsConfirmingRotate}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Rotate the feed URL?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The current URL stops working immediately. Calendars subscribed to it need to be updated with the new URL.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => run(rotateCalendarFeed)}>Rotate</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default CalendarFeedDialog;
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview CalendarImportDialog imports tasks from an iCalendar (.ics) file exported by another
+ * task manager or calendar. The file is checked with a dry run first, and the tasks it would create are
+ * shown in a table, together with anything that was skipped, before the user confirms the import.
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import ProjectSelector from "@/components/projects/ProjectSelector";
+import { useCalendarImport, useProjects } from "@/hooks/useApi";
+import { CalendarImportIssue, CalendarTaskPreview, Project } from "@/types";
+import { describeRecurrence } from "@/utils/recurrence";
+import { describeReminder } from "@/utils/reminders";
+
+interface CalendarImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface PendingImport {
+  fileName: string;
+  calendar: string;
+  tasks: CalendarTaskPreview[];
+  issues: CalendarImportIssue[];
+}
+
+const PRIORITY_LABELS: Record<CalendarTaskPreview["priority"], string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  urgent: "Urgent",
+};
+
+const PreviewTable: React.FC<{ tasks: CalendarTaskPreview[] }> = ({ tasks }) => (
+  <div className="max-h-72 overflow-y-auto rounded-md border border-border">
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Title</TableHead>
+          <TableHead>Due</TableHead>
+          <TableHead>Priority</TableHead>
+          <TableHead>Repeats</TableHead>
+          <TableHead>Reminders</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {tasks.map(task => (
+          <TableRow key={task.index}>
+            <TableCell className={task.completed ? "line-through text-muted-foreground" : ""}>{task.title}</TableCell>
+            <TableCell className="whitespace-nowrap">{task.dueDate ? format(new Date(task.dueDate), "PPp") : "—"}</TableCell>
+            <TableCell>{PRIORITY_LABELS[task.priority]}</TableCell>
+            <TableCell>{task.recurrence_pattern ? describeRecurrence(task.recurrence_pattern, task.dueDate) : "—"}</TableCell>
+            <TableCell>{task.reminders.length > 0 ? task.reminders.map(describeReminder).join(", ") : "—"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+const CalendarImportDialog: React.FC<CalendarImportDialogProps> = ({ open, onOpenChange }) => {
+  const { toast } = useToast();
+  const { projects } = useProjects();
+  const { previewCalendarImport, importCalendar, importingCalendar } = useCalendarImport();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [project, setProject] = useState<Project | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  // Start over every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setPending(null);
+    setProject(null);
+  }, [open]);
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Choosing the same file again should check it again
+    if (!file) return;
+
+    setPending(null);
+    setChecking(true);
+    try {
+      const calendar = await file.text();
+      const preview = await previewCalendarImport(calendar, project?.id ?? null);
+      setPending({ fileName: file.name, calendar, ...preview });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Cannot import ${file.name}: ${(error as Error).message || "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    try {
+      await importCalendar(pending.calendar, project?.id ?? null);
+      onOpenChange(false);
+    } catch {
+      // useCalendarImport already reports the failure with a toast
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import from a calendar file</DialogTitle>
+          <DialogDescription>
+            Choose an .ics file exported from another task manager or calendar. Its to-dos and events become tasks, with their due dates, priorities, repeat rules and reminders.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label>Add the tasks to</Label>
+              <ProjectSelector
+                projects={projects as Project[]}
+                currentProject={project}
+                onSelectProject={setProject}
+                emptyLabel="No project"
+              />
+            </div>
+            <input ref={fileInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleFileSelected} />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={checking || importingCalendar}>
+              <Upload className="mr-2 h-4 w-4" />
+              {checking ? "Checking..." : pending ? "Choose another file..." : "Choose an .ics file..."}
+            </Button>
+          </div>
+
+          {pending && (
+            <>
+              <p className="text-sm">
+                Importing <span className="font-medium">{pending.fileName}</span> will create {pending.tasks.length} task{pending.tasks.length === 1 ? "" : "s"}:
+              </p>
+              {pending.tasks.length > 0 && <PreviewTable tasks={pending.tasks} />}
+              {pending.issues.length > 0 && (
+                <ul className="space-y-1 text-sm max-h-40 overflow-y-auto">
+                  {pending.issues.map((issue, index) => (
+                    <li key={index} className="flex items-start gap-2">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+                      <span>
+                        <span className="text-muted-foreground">{issue.title || `Item ${issue.index}`}: </span>
+                        {issue.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={importingCalendar}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!pending || pending.tasks.length === 0 || importingCalendar}>
+            {importingCalendar ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarImportDialog;
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview HistoryTimeline component listing the change history of a task or note, newest first.
+ * Each entry shows who changed which fields and how; "Revert to this version" puts the item back to
+ * its state right after that entry (the revert is itself recorded, so it can be undone the same way).
+ */
+
+import React from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/features/auth/auth-context";
+import { useHistory } from "@/hooks/useApi";
+import { HistorySubjectType } from "@/api";
+import { HistoryEntry, Note, Project, Task } from "@/types";
+import { describeRecurrence } from "@/utils/recurrence";
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  content: "Content",
+  completed: "Status",
+  dueDate: "Due date",
+  priority: "Priority",
+  project_id: "Project",
+  parent_task_id: "Parent task",
+  is_recurring: "Repeats",
+  recurrence_pattern: "Repeat rule",
+};
+
+const ACTION_LABELS: Record<HistoryEntry["action"], string> = {
+  create: "Created",
+  update: "Edited",
+  delete: "Moved to the trash",
+  restore: "Restored from the trash",
+  revert: "Reverted to an earlier version",
+};
+
+const SOURCE_LABELS: Partial<Record<HistoryEntry["source"], string>> = {
+  bulk: "with a bulk action",
+  recurrence: "as the next occurrence of a repeating task",
+  import: "by importing a calendar file",
+};
+
+const MAX_TEXT_LENGTH = 80;
+
+// A changed value as the user would read it
+const formatValue = (field: string, value: unknown, projects: Project[]): string => {
+  if (value === null || value === undefined || value === "") return "none";
+  switch (field) {
+    case "completed":
+      return value ? "completed" : "open";
+    case "is_recurring":
+      return value ? "yes" : "no";
+    case "dueDate":
+      return format(new Date(String(value)), "PPp");
+    case "project_id":
+      return projects.find(project => project.id === value)?.name ?? `Project #${value}`;
+    case "parent_task_id":
+      return `Task #${value}`;
+    case "recurrence_pattern":
+      return describeRecurrence(String(value));
+    default: {
+      const text = String(value);
+      return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+    }
+  }
+};
+
+interface HistoryTimelineProps {
+  type: HistorySubjectType;
+  id: number;
+  projects?: Project[]; // To show project names instead of IDs
+  onReverted?: (item: Task | Note) => void;
+}
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ type, id, projects = [], onReverted }) => {
+  const { user } = useAuth();
+  const { historyEntries, historyLoading, historyError, revertToEntry, reverting } = useHistory(type, id);
+
+  const handleRevert = async (entryId: number) => {
+    try {
+      const item = await revertToEntry(entryId);
+      onReverted?.(item);
+    } catch {
+      // useHistory already reports the failure with a toast
+    }
+  };
+
+  if (historyLoading) {
+    return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  }
+
+  if (historyError) {
+    return <p className="text-sm text-red-500">Error loading history: {historyError}</p>;
+  }
+
+  if (historyEntries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {historyEntries.map((entry, index) => {
+        const changes = Object.entries(entry.changes);
+        // The newest entry is the current version; trash moves do not change any field
+        const canRevert = index > 0 && changes.length > 0;
+        const createdAt = new Date(entry.created_at);
+
+        return (
+          <li key={entry.id} className="ml-4">
+            <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-muted-foreground" />
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  {ACTION_LABELS[entry.action]}
+                  {SOURCE_LABELS[entry.source] && ` ${SOURCE_LABELS[entry.source]}`}
+                </p>
+                <p className="text-xs text-muted-foreground" title={createdAt.toLocaleString()}>
+                  {entry.actor_id === user?.id ? "You" : entry.actor_id} · {formatDistanceToNow(createdAt, { addSuffix: true })}
+                </p>
+              </div>
+              {canRevert && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="shrink-0"
+                  disabled={reverting}
+                  onClick={() => handleRevert(entry.id)}
+                >
+                  <RotateCcw className="mr-1 h-3 w-3" />
+                  Revert to this version
+                </Button>
+              )}
+            </div>
+            {changes.length > 0 && (
+              <ul className="mt-1 space-y-0.5 text-xs">
+                {changes.map(([field, change]) => (
+                  <li key={field} className="break-words">
+                    <span className="text-muted-foreground">{FIELD_LABELS[field] ?? field}: </span>
+                    {entry.action !== "create" && (
+                      <>
+                        <span className="line-through text-muted-foreground">{formatValue(field, change.from, projects)}</span>
+                        {" → "}
+                      </>
+                    )}
+                    <span>{formatValue(field, change.to, projects)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default HistoryTimeline;
@@ -2,10 +2,14 @@ import React, { useState } from "react";
 import { Outlet } from "react-router-dom";
 import Sidebar from "./Sidebar"; // Assuming Sidebar is in the same directory
 import { cn } from "@/lib/utils"; // Assuming 'cn' is a utility for class concatenation
+import { useNotificationStream } from "@/hooks/useApi";
 
 const AppLayout: React.FC = () => {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
 
+  // Show reminders and other notifications as toasts while any app page is open
+  useNotificationStream();
+
   return (
     <div className="flex min-h-screen bg-background overflow-hidden"> {/* Added overflow-hidden here */}
       {/* Sidebar component, passing collapsed state and setter */}
@@ -0,0 +1,81 @@
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, X } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useNotifications } from "@/hooks/useApi";
+
+// Bell with the unread notification count; opens a list of recent notifications
+const NotificationBell: React.FC = () => {
+  const {
+    notifications,
+    unreadCount,
+    markNotificationRead,
+    markAllNotificationsRead,
+    deleteNotification,
+  } = useNotifications();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label={`Notifications (${unreadCount} unread)`}>
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4 text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-border">
+          <span className="font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => markAllNotificationsRead()}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">No notifications yet</p>
+          ) : (
+            notifications.map((notification) => (
+              <div
+                key={notification.id}
+                className={cn(
+                  "group flex items-start gap-2 px-4 py-3 border-b border-border last:border-b-0 cursor-pointer hover:bg-accent",
+                  !notification.read_at && "bg-accent/40"
+                )}
+                onClick={() => !notification.read_at && markNotificationRead(notification.id)}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className={cn("text-sm truncate", !notification.read_at && "font-medium")}>{notification.title}</p>
+                  {notification.body && <p className="text-sm text-muted-foreground">{notification.body}</p>}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                  aria-label="Delete notification"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    deleteNotification(notification.id);
+                  }}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -1,10 +1,11 @@
 import React from "react";
 import { NavLink } from "react-router-dom";
-import { Home, CheckSquare, Clock, FileText, Calendar } from "lucide-react"; // Grouped imports
+import { Home, Search, CheckSquare, Clock, FileText, Calendar, Trash2, ArrowDownUp } from "lucide-react"; // Grouped imports
 import { cn } from "@/lib/utils"; // Assuming 'cn' is a utility for class concatenation
 import ThemeToggle from "./ThemeToggle";
+import NotificationBell from "./NotificationBell";
 import { Button } from "@/components/ui/button"; // Assuming this is a custom Button component
-import { UserButton } from "@clerk/clerk-react";
+import UserMenu from "@/features/auth/UserMenu";
 
 interface SidebarProps {
   collapsed: boolean;
@@ -15,10 +16,13 @@ interface SidebarProps {
 // This is a micro-optimization for static data.
 const navItems = [
   { name: "Dashboard", href: "/app/dashboard", icon: Home },
+  { name: "Search", href: "/app/search", icon: Search },
   { name: "Tasks", href: "/app/tasks", icon: CheckSquare },
   { name: "Focus", href: "/app/focus", icon: Clock },
   { name: "Notes", href: "/app/notes", icon: FileText },
   { name: "Calendar", href: "/app/calendar", icon: Calendar },
+  { name: "Trash", href: "/app/trash", icon: Trash2 },
+  { name: "Import & Export", href: "/app/data", icon: ArrowDownUp },
 ];
 
 const Sidebar: React.FC<SidebarProps> = ({ collapsed, setCollapsed }) => {
@@ -98,10 +102,11 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, setCollapsed }) => {
       <div
         className={cn(
           "p-4 border-t border-border flex items-center justify-center",
-          collapsed ? "flex-col gap-4" : "flex-row gap-7" // Layout based on collapsed state
+          collapsed ? "flex-col gap-4" : "flex-row gap-5" // Layout based on collapsed state
         )}
       >
-        <UserButton /> {/* Clerk's UserButton component */}
+        <UserMenu /> {/* Clerk's UserButton, or a sign-out menu with local auth */}
+        <NotificationBell />
         <ThemeToggle /> {/* Custom ThemeToggle component */}
       </div>
     </aside>
@@ -2,6 +2,7 @@
  * @fileoverview NoteEditor component for creating and editing notes.
  * This component handles the UI and local state for a single note,
  * and passes the note data to parent handlers for persistence.
+ * Existing notes also show their change history, from which the note can be reverted.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -21,17 +22,21 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { toast } from '@/components/ui/use-toast';
+import HistoryTimeline from '@/components/history/HistoryTimeline';
+import { History } from 'lucide-react';
 
 interface NoteEditorProps {
   note?: Note | null; // Optional prop for existing note to edit
   onSaveNote: (note: Omit<Note, 'user_id' | 'created_at' | 'updated_at'> | Note) => void; // Handles both add and update
   onDeleteNote: (id: number) => void; // For deleting existing notes
   onCloseEditor: () => void; // To close the editor, typically after save/cancel
+  onNoteReverted?: (note: Note) => void; // The note was reverted to an earlier version (already saved)
 }
 
-const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSaveNote, onDeleteNote, onCloseEditor }) => {
+const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSaveNote, onDeleteNote, onCloseEditor, onNoteReverted }) => {
   const [title, setTitle] = useState(note?.title || '');
   const [content, setContent] = useState(note?.content || '');
+  const [showHistory, setShowHistory] = useState(false);
 
   // Effect to update local state if a new note prop is passed (e.g., when selecting a different note)
   useEffect(() => {
@@ -70,6 +75,13 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSaveNote, onDeleteNote,
     }
   };
 
+  // The server has saved the reverted version; show it in the editor
+  const handleReverted = (reverted: Note) => {
+    setTitle(reverted.title);
+    setContent(reverted.content || '');
+    onNoteReverted?.(reverted);
+  };
+
   return (
     <div className="flex flex-col h-full p-4 space-y-4 bg-card rounded-lg shadow-md">
       <Input
@@ -84,7 +96,18 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSaveNote, onDeleteNote,
         onChange={(e) => setContent(e.target.value)}
         className="flex-grow min-h-[200px] resize-none"
       />
+      {note && showHistory && (
+        <div className="max-h-72 overflow-y-auto rounded-md border border-border p-3">
+          <HistoryTimeline type="note" id={note.id} onReverted={(item) => handleReverted(item as Note)} />
+        </div>
+      )}
       <div className="flex justify-end space-x-2">
+        {note && (
+          <Button variant="ghost" className="mr-auto" onClick={() => setShowHistory(prev => !prev)}>
+            <History className="h-4 w-4 mr-1" />
+            {showHistory ? 'Hide history' : 'History'}
+          </Button>
+        )}
         {note && ( // Show delete button only for existing notes
           <AlertDialog>
             <AlertDialogTrigger asChild>
@@ -92,10 +115,10 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSaveNote, onDeleteNote,
             </AlertDialogTrigger>
             <AlertDialogContent>
               <AlertDialogHeader>
-                <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                <AlertDialogTitle>Move this note to the trash?</AlertDialogTitle>
                 <AlertDialogDescription>
-                  This action cannot be undone. This will permanently delete your
-                  note.
+                  You can restore it from the Trash page until it is deleted
+                  permanently.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -2,9 +2,13 @@
  * @fileoverview ProjectForm component for creating and editing projects.
  * This component handles the UI for project input and color selection,
  * passing data to a parent handler for persistence.
+ * When the user is signed in to an organization, the project can be shared with it.
  */
 
-import React, { useState, useEffect } from "react";
+import React, { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 import {
   Dialog,
   DialogContent,
@@ -14,8 +18,11 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Project } from "@/types"; // Import Project from the main types barrel file
-import { toast } from '@/components/ui/use-toast'; // Assuming you have toast for validation feedback
+import { Switch } from "@/components/ui/switch";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/features/auth/auth-context";
+import { Project, ProjectSharing } from "@/types"; // Import Project from the main types barrel file
+import { createProjectSchema } from "@shared/schemas";
 
 // Predefined color options
 const PROJECT_COLORS = [
@@ -31,11 +38,16 @@ const PROJECT_COLORS = [
   "#78909c", // Blue Grey
 ];
 
+// Same rules as POST /api/projects
+const projectFormSchema = createProjectSchema.pick({ name: true, color: true, shared: true });
+
+type ProjectFormValues = z.infer<typeof projectFormSchema>;
+
 interface ProjectFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   // onSave now accepts either a new project (omitting generated fields) or an existing project (for updates)
-  onSave: (project: Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'> | Project) => void;
+  onSave: (project: (Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'> | Project) & ProjectSharing) => void;
   editingProject?: Project | null;
 }
 
@@ -45,37 +57,41 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
   onSave,
   editingProject = null,
 }) => {
-  const [projectName, setProjectName] = useState(editingProject?.name || "");
-  const [selectedColor, setSelectedColor] = useState(editingProject?.color || PROJECT_COLORS[0]);
+  const { orgId } = useAuth();
+  // Shared projects can always be unshared; personal ones need an organization to be shared with
+  const canShare = !!orgId || !!editingProject?.org_id;
+
+  const form = useForm<ProjectFormValues>({
+    resolver: zodResolver(projectFormSchema),
+    defaultValues: {
+      name: editingProject?.name || "",
+      color: editingProject?.color || PROJECT_COLORS[0],
+      shared: !!editingProject?.org_id,
+    },
+  });
 
   // Effect to update form state if a new editingProject is provided
   useEffect(() => {
-    setProjectName(editingProject?.name || "");
-    setSelectedColor(editingProject?.color || PROJECT_COLORS[0]);
-  }, [editingProject]);
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!projectName.trim()) {
-      toast({
-        title: "Validation Error",
-        description: "Project name cannot be empty.",
-        variant: "destructive",
-      });
-      return;
-    }
+    form.reset({
+      name: editingProject?.name || "",
+      color: editingProject?.color || PROJECT_COLORS[0],
+      shared: !!editingProject?.org_id,
+    });
+  }, [editingProject, form]);
 
+  const handleSubmit = (values: ProjectFormValues) => {
+    // Only send `shared` when it changes, so editing a shared project does not need an active organization
+    const sharing: ProjectSharing = !!values.shared !== !!editingProject?.org_id ? { shared: !!values.shared } : {};
     // Determine if we are creating or updating
-    const projectToSave: Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'> | Project = editingProject
-      ? { ...editingProject, name: projectName.trim(), color: selectedColor } // Existing project for update
-      : { name: projectName.trim(), color: selectedColor }; // New project
+    const projectToSave = editingProject
+      ? { ...editingProject, name: values.name, color: values.color, ...sharing } // Existing project for update
+      : { name: values.name, color: values.color, ...sharing }; // New project
 
     onSave(projectToSave); // Pass the data to the parent handler
 
     // Reset form for next use if it was a new project or dialog is closing
     if (!editingProject) {
-      setProjectName("");
-      setSelectedColor(PROJECT_COLORS[0]);
+      form.reset({ name: "", color: PROJECT_COLORS[0], shared: false });
     }
     onOpenChange(false); // Close dialog
   };
@@ -89,51 +105,80 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
           </DialogTitle>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit}>
-          <div className="grid gap-4 py-4">
-            <div className="grid gap-2">
-              <label htmlFor="projectName" className="text-sm font-medium">
-                Project Name
-              </label>
-              <Input
-                id="projectName"
-                value={projectName}
-                onChange={(e) => setProjectName(e.target.value)}
-                placeholder="Enter project name..."
-                autoFocus
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)}>
+            <div className="grid gap-4 py-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="grid gap-2 space-y-0">
+                    <FormLabel>Project Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter project name..." autoFocus {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem className="grid gap-2 space-y-0">
+                    <FormLabel>Project Color</FormLabel>
+                    <div className="flex flex-wrap gap-2">
+                      {PROJECT_COLORS.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          className={`w-6 h-6 rounded-full transition-all ${
+                            field.value === color ? 'ring-2 ring-offset-2 ring-primary' : ''
+                          }`}
+                          style={{ backgroundColor: color }}
+                          onClick={() => field.onChange(color)}
+                          aria-label={`Select ${color} color`}
+                        />
+                      ))}
+                    </div>
+                  </FormItem>
+                )}
               />
-            </div>
 
-            <div className="grid gap-2">
-              <label className="text-sm font-medium">
-                Project Color
-              </label>
-              <div className="flex flex-wrap gap-2">
-                {PROJECT_COLORS.map((color) => (
-                  <button
-                    key={color}
-                    type="button"
-                    className={`w-6 h-6 rounded-full transition-all ${
-                      selectedColor === color ? 'ring-2 ring-offset-2 ring-primary' : ''
-                    }`}
-                    style={{ backgroundColor: color }}
-                    onClick={() => setSelectedColor(color)}
-                    aria-label={`Select ${color} color`}
-                  />
-                ))}
-              </div>
+              {canShare && (
+                <FormField
+                  control={form.control}
+                  name="shared"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                      <div className="grid gap-1">
+                        <FormLabel>Share with organization</FormLabel>
+                        <FormDescription>
+                          {editingProject?.org_id && !field.value
+                            ? "The project becomes your personal project, and other members lose access to it."
+                            : "Members see the project and its tasks and notes, and work on it with their organization role."}
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
-          </div>
-
-          <DialogFooter>
-            <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
-              Cancel
-            </Button>
-            <Button type="submit">
-              {editingProject ? "Update Project" : "Create Project"}
-            </Button>
-          </DialogFooter>
-        </form>
+
+            <DialogFooter>
+              <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingProject ? "Update Project" : "Create Project"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
       </DialogContent>
     </Dialog>
   );
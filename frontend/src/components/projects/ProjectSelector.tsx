@@ -1,6 +1,6 @@
 /**
  * @fileoverview ProjectSelector component for selecting a project from a dropdown.
- * This component displays the currently selected project or "All Projects" and
+ * This component displays the currently selected project or "All Projects" (or `emptyLabel`) and
  * allows users to switch between projects or trigger the "Add Project" form.
  */
 
@@ -21,7 +21,8 @@ interface ProjectSelectorProps {
   projects: Project[]; // Array of projects to display
   currentProject: Project | null; // Currently selected project
   onSelectProject: (project: Project | null) => void; // Handler for selecting a project
-  onAddProject: () => void; // Handler for opening the add project form
+  onAddProject?: () => void; // Handler for opening the add project form; without it the option is hidden
+  emptyLabel?: string; // Label for "no project selected"
 }
 
 const ProjectSelector: React.FC<ProjectSelectorProps> = ({
@@ -29,6 +30,7 @@ const ProjectSelector: React.FC<ProjectSelectorProps> = ({
   currentProject,
   onSelectProject,
   onAddProject,
+  emptyLabel = "All Projects",
 }) => {
   return (
     <DropdownMenu>
@@ -46,7 +48,7 @@ const ProjectSelector: React.FC<ProjectSelectorProps> = ({
             ) : (
               <>
                 <Folder className="mr-2 h-4 w-4" />
-                All Projects
+                {emptyLabel}
               </>
             )}
           </div>
@@ -61,7 +63,7 @@ const ProjectSelector: React.FC<ProjectSelectorProps> = ({
           className={!currentProject ? "bg-accent" : ""}
         >
           <Folder className="mr-2 h-4 w-4" />
-          All Projects
+          {emptyLabel}
         </DropdownMenuItem>
         {projects.map((project) => (
           <DropdownMenuItem
@@ -76,11 +78,15 @@ const ProjectSelector: React.FC<ProjectSelectorProps> = ({
             {project.name}
           </DropdownMenuItem>
         ))}
-        <DropdownMenuSeparator />
-        <DropdownMenuItem onClick={onAddProject}>
-          <FolderPlus className="mr-2 h-4 w-4" />
-          Create New Project
-        </DropdownMenuItem>
+        {onAddProject && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onAddProject}>
+              <FolderPlus className="mr-2 h-4 w-4" />
+              Create New Project
+            </DropdownMenuItem>
+          </>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
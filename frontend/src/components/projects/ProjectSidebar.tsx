@@ -2,13 +2,22 @@
  * @fileoverview ProjectSidebar component for displaying a list of projects in a sidebar.
  * This component shows project names, colors, and task counts, allowing users to
  * filter tasks by project and create new projects.
+ * Projects with estimates or tracked focus time also show the time tracked against the estimated total,
+ * and how many of their tasks have overrun their estimate.
+ * Archived projects are listed in a collapsed "Archived" section below, loaded when it is first opened;
+ * selecting one shows its work read-only.
+ * Projects shared with the user's organization carry a "Shared" badge with the user's role in them.
  */
 
-import React from "react";
+import React, { useState } from "react";
 import { Project } from "@/types"; // Import Project from the main types barrel file
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { FolderPlus, Folder } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Archive, ChevronDown, ChevronRight, FolderPlus, Folder, Users } from "lucide-react";
 import { cn } from "@/lib/utils"; // Assuming 'cn' is a utility for class concatenation
+import { formatMinutes, formatSeconds } from "@/utils/duration";
+import { useArchivedProjects } from "@/hooks/useApi";
 
 // Extend Project to include taskCount for display in the sidebar
 interface ProjectWithTaskCount extends Project {
@@ -20,6 +29,7 @@ interface ProjectSidebarProps {
   currentProjectId: number | null; // ID of the currently selected project
   onSelectProject: (projectId: number | null) => void; // Handler for selecting a project
   onAddProject: () => void; // Handler for opening the add project form
+  onSelectArchivedProject?: (project: Project) => void; // Without it, the Archived section is not shown
 }
 
 const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
@@ -27,10 +37,22 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
   currentProjectId,
   onSelectProject,
   onAddProject,
+  onSelectArchivedProject,
 }) => {
+  const [archivedOpen, setArchivedOpen] = useState(false);
+  const { archivedProjects, archivedProjectsLoading } = useArchivedProjects(archivedOpen && !!onSelectArchivedProject);
+
   // Calculate total tasks across all projects for the "All Projects" count
   const totalTaskCount = projects.reduce((sum, p) => sum + p.taskCount, 0);
 
+  // "tracked / estimated" for a project, or null when it has neither
+  const timeRollup = (project: ProjectWithTaskCount) => {
+    const tracked = project.tracked_seconds ?? 0;
+    const estimate = project.estimate_minutes ?? 0;
+    if (!tracked && !estimate) return null;
+    return estimate ? `${formatSeconds(tracked)} / ${formatMinutes(estimate)}` : formatSeconds(tracked);
+  };
+
   return (
     <div className="space-y-2 py-2">
       <h3 className="px-4 text-sm font-medium text-muted-foreground">My Projects</h3>
@@ -52,26 +74,53 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
       </Button>
 
       {/* Map through projects to render individual project buttons */}
-      {projects.map(project => (
-        <Button
-          key={project.id}
-          variant="ghost"
-          className={cn(
-            "w-full justify-start gap-3 pl-4",
-            currentProjectId === project.id && "bg-accent" // Highlight if this project is selected
-          )}
-          onClick={() => onSelectProject(project.id)}
-        >
-          <div
-            className="w-3 h-3 rounded-full"
-            style={{ backgroundColor: project.color || '#ccc' }} // Fallback color
-          />
-          <span>{project.name}</span>
-          <span className="ml-auto text-xs text-muted-foreground">
-            {project.taskCount}
-          </span>
-        </Button>
-      ))}
+      {projects.map(project => {
+        const rollup = timeRollup(project);
+        const overruns = project.overrun_count ?? 0;
+        return (
+          <Button
+            key={project.id}
+            variant="ghost"
+            className={cn(
+              "w-full justify-start gap-3 pl-4",
+              rollup && "h-auto py-1.5",
+              currentProjectId === project.id && "bg-accent" // Highlight if this project is selected
+            )}
+            onClick={() => onSelectProject(project.id)}
+          >
+            <div
+              className="w-3 h-3 rounded-full shrink-0"
+              style={{ backgroundColor: project.color || '#ccc' }} // Fallback color
+            />
+            <span className="flex flex-col items-start min-w-0">
+              <span className="flex items-center gap-1.5 max-w-full">
+                <span className="truncate">{project.name}</span>
+                {project.org_id && (
+                  <Badge
+                    variant="outline"
+                    title={`Shared with your organization; you are ${project.role === "editor" ? "an editor" : `a ${project.role}`}`}
+                    className="gap-1 px-1.5 py-0 text-[10px] font-normal shrink-0"
+                  >
+                    <Users className="h-3 w-3" />
+                    Shared
+                  </Badge>
+                )}
+              </span>
+              {rollup && (
+                <span className="text-[10px] font-normal text-muted-foreground" title="Focus time tracked / estimated">
+                  {rollup}
+                  {overruns > 0 && (
+                    <span className="text-destructive"> · {overruns} over</span>
+                  )}
+                </span>
+              )}
+            </span>
+            <span className="ml-auto text-xs text-muted-foreground">
+              {project.taskCount}
+            </span>
+          </Button>
+        );
+      })}
 
       {/* Button to add a new project */}
       <Button
@@ -82,6 +131,39 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
         <FolderPlus className="mr-2 h-4 w-4" />
         Add Project
       </Button>
+
+      {onSelectArchivedProject && (
+        <Collapsible open={archivedOpen} onOpenChange={setArchivedOpen} className="pt-2">
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" className="w-full justify-start gap-3 pl-4 text-muted-foreground">
+              {archivedOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              <span>Archived</span>
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-1">
+            {archivedProjectsLoading ? (
+              <p className="px-4 py-1 text-xs text-muted-foreground">Loading...</p>
+            ) : archivedProjects.length === 0 ? (
+              <p className="px-4 py-1 text-xs text-muted-foreground">No archived projects</p>
+            ) : (
+              archivedProjects.map(project => (
+                <Button
+                  key={project.id}
+                  variant="ghost"
+                  className={cn(
+                    "w-full justify-start gap-3 pl-4 text-muted-foreground",
+                    currentProjectId === project.id && "bg-accent"
+                  )}
+                  onClick={() => onSelectArchivedProject(project)}
+                >
+                  <Archive className="h-4 w-4 shrink-0" style={{ color: project.color || undefined }} />
+                  <span className="truncate">{project.name}</span>
+                </Button>
+              ))
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
     </div>
   );
 };
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview ProjectStatusDialog edits the workflow statuses of a project, which are the columns of its
+ * Kanban board: their names, colors, order and WIP limits, and whether tasks in them count as done.
+ * Fields are saved when they lose focus. Deleting a column moves its tasks to the first remaining column
+ * that matches them (open or done).
+ */
+
+import React, { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useProjectStatuses } from "@/hooks/useApi";
+import { Project, ProjectStatus, ProjectStatusInput } from "@/types";
+
+interface ProjectStatusDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Color of new columns
+const DEFAULT_STATUS_COLOR = "#78909c";
+
+interface StatusRowProps {
+  status: ProjectStatus;
+  isFirst: boolean;
+  isLast: boolean;
+  onUpdate: (id: number, updates: Partial<ProjectStatusInput>) => void;
+  onMove: (id: number, offset: -1 | 1) => void;
+  onDelete: (id: number) => void;
+}
+
+const StatusRow: React.FC<StatusRowProps> = ({ status, isFirst, isLast, onUpdate, onMove, onDelete }) => {
+  const [name, setName] = useState(status.name);
+  const [color, setColor] = useState(status.color || DEFAULT_STATUS_COLOR);
+  const [wipLimit, setWipLimit] = useState(status.wip_limit ? String(status.wip_limit) : "");
+
+  // Show the saved values again when the status changes on the server
+  useEffect(() => {
+    setName(status.name);
+    setColor(status.color || DEFAULT_STATUS_COLOR);
+    setWipLimit(status.wip_limit ? String(status.wip_limit) : "");
+  }, [status]);
+
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (!trimmed) setName(status.name);
+    else if (trimmed !== status.name) onUpdate(status.id, { name: trimmed });
+  };
+
+  // An empty or invalid limit removes it
+  const saveWipLimit = () => {
+    const limit = Number(wipLimit);
+    const next = Number.isInteger(limit) && limit > 0 ? limit : null;
+    if (next === null) setWipLimit("");
+    if (next !== (status.wip_limit ?? null)) onUpdate(status.id, { wip_limit: next });
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+      <input
+        type="color"
+        className="h-8 w-8 shrink-0 cursor-pointer rounded border border-border bg-transparent p-0.5"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+        onBlur={() => color !== (status.color || DEFAULT_STATUS_COLOR) && onUpdate(status.id, { color })}
+        aria-label={`Color of ${status.name}`}
+      />
+      <Input
+        className="h-8 flex-1"
+        value={name}
+        maxLength={50}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={saveName}
+        aria-label="Column name"
+      />
+      <Input
+        className="h-8 w-24"
+        type="number"
+        min={1}
+        placeholder="No limit"
+        value={wipLimit}
+        onChange={(e) => setWipLimit(e.target.value)}
+        onBlur={saveWipLimit}
+        aria-label={`WIP limit of ${status.name}`}
+      />
+      <label className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Switch
+          checked={status.is_done}
+          onCheckedChange={(checked) => onUpdate(status.id, { is_done: checked })}
+          aria-label={`Tasks in ${status.name} are done`}
+        />
+        Done
+      </label>
+      <Button variant="ghost" size="icon" className="h-8 w-8" disabled={isFirst} onClick={() => onMove(status.id, -1)} aria-label="Move column earlier">
+        <ArrowUp className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" disabled={isLast} onClick={() => onMove(status.id, 1)} aria-label="Move column later">
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDelete(status.id)} aria-label={`Delete ${status.name}`}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </li>
+  );
+};
+
+const ProjectStatusDialog: React.FC<ProjectStatusDialogProps> = ({ project, open, onOpenChange }) => {
+  const { statuses, addStatus, updateStatus, reorderStatuses, deleteStatus } = useProjectStatuses(project.id);
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    if (open) setNewName("");
+  }, [open]);
+
+  // useProjectStatuses already reports failures with a toast
+  const ignoreFailure = () => undefined;
+
+  const handleMove = (id: number, offset: -1 | 1) => {
+    const ids = statuses.map(status => status.id);
+    const index = ids.indexOf(id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderStatuses(ids).catch(ignoreFailure);
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    try {
+      await addStatus({ name, color: DEFAULT_STATUS_COLOR, wip_limit: null, is_done: false });
+      setNewName("");
+    } catch {
+      // useProjectStatuses already reports the failure with a toast
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Board columns</DialogTitle>
+          <DialogDescription>
+            The columns of the "{project.name}" board, from left to right. Tasks in a Done column are completed;
+            a WIP limit stops more tasks from being moved into a column once it is full.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="grid gap-2 py-2">
+          {statuses.map((status, index) => (
+            <StatusRow
+              key={status.id}
+              status={status}
+              isFirst={index === 0}
+              isLast={index === statuses.length - 1}
+              onUpdate={(id, updates) => updateStatus(id, updates).catch(ignoreFailure)}
+              onMove={handleMove}
+              onDelete={(id) => deleteStatus(id).catch(ignoreFailure)}
+            />
+          ))}
+        </ul>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd();
+          }}
+        >
+          <Input
+            className="h-8"
+            placeholder="New column name"
+            value={newName}
+            maxLength={50}
+            onChange={(e) => setNewName(e.target.value)}
+            aria-label="New column name"
+          />
+          <Button type="submit" size="sm" disabled={!newName.trim()}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add
+          </Button>
+        </form>
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)} variant="outline">
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectStatusDialog;
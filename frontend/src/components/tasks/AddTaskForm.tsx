@@ -1,70 +1,92 @@
 
 import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { CalendarIcon } from "lucide-react";
-import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { createTaskSchema } from "@shared/schemas";
+
+// Same title rules as POST /api/tasks; the due date is picked as a Date and serialized by the caller
+const addTaskFormSchema = createTaskSchema.pick({ title: true }).extend({
+  dueDate: z.date().nullable(),
+});
+
+type AddTaskFormValues = z.infer<typeof addTaskFormSchema>;
 
 interface AddTaskFormProps {
   onAddTask: (title: string, dueDate: Date | null) => void;
 }
 
 const AddTaskForm: React.FC<AddTaskFormProps> = ({ onAddTask }) => {
-  const [title, setTitle] = useState("");
-  const [date, setDate] = useState<Date | null>(null);
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const form = useForm<AddTaskFormValues>({
+    resolver: zodResolver(addTaskFormSchema),
+    defaultValues: { title: "", dueDate: null },
+  });
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (title.trim()) {
-      onAddTask(title.trim(), date);
-      setTitle("");
-      setDate(null);
-    }
+  const handleSubmit = (values: AddTaskFormValues) => {
+    onAddTask(values.title, values.dueDate);
+    form.reset();
   };
 
   return (
-    <form onSubmit={handleSubmit} className="flex gap-3 items-center">
-      <Input
-        type="text"
-        placeholder="Add a new task..."
-        value={title}
-        onChange={(e) => setTitle(e.target.value)}
-        className="flex-1"
-      />
-      
-      <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
-        <PopoverTrigger asChild>
-          <Button
-            variant="outline"
-            className={cn(
-              "w-[40px] p-0",
-              date && "text-primary"
-            )}
-          >
-            <CalendarIcon className="h-4 w-4" />
-            <span className="sr-only">Open date picker</span>
-          </Button>
-        </PopoverTrigger>
-        <PopoverContent className="w-auto p-0">
-          <Calendar
-            mode="single"
-            selected={date}
-            onSelect={(date) => {
-              setDate(date);
-              setIsCalendarOpen(false);
-            }}
-            initialFocus
-          />
-        </PopoverContent>
-      </Popover>
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="flex gap-3 items-start">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem className="flex-1">
+              <FormControl>
+                <Input type="text" placeholder="Add a new task..." {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="dueDate"
+          render={({ field }) => (
+            <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className={cn(
+                    "w-[40px] p-0",
+                    field.value && "text-primary"
+                  )}
+                >
+                  <CalendarIcon className="h-4 w-4" />
+                  <span className="sr-only">Open date picker</span>
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0">
+                <Calendar
+                  mode="single"
+                  selected={field.value ?? undefined}
+                  onSelect={(date) => {
+                    field.onChange(date ?? null);
+                    setIsCalendarOpen(false);
+                  }}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          )}
+        />
 
-      <Button type="submit">Add</Button>
-    </form>
+        <Button type="submit">Add</Button>
+      </form>
+    </Form>
   );
 };
 
-export default AddTaskForm;
\ No newline at end of file
+export default AddTaskForm;
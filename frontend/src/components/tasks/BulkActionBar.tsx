@@ -0,0 +1,218 @@
+/**
+ * @fileoverview BulkActionBar component shown above a task list while tasks are selected.
+ * It applies one operation (complete, reopen, move, priority, due date, tag, delete) to all
+ * selected tasks through POST /api/tasks/bulk, and clears the selection once it succeeds.
+ */
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { BulkTaskOperation, Project, Task } from "@/types";
+import { CalendarIcon, Check, Flag, Move, RotateCcw, Tag as TagIcon, Trash2, X } from "lucide-react";
+import { useTags } from "@/hooks/useApi";
+
+const PRIORITIES: { value: NonNullable<Task["priority"]>; label: string; className: string }[] = [
+  { value: "urgent", label: "Urgent", className: "text-red-600" },
+  { value: "high", label: "High", className: "text-red-500" },
+  { value: "medium", label: "Medium", className: "text-amber-500" },
+  { value: "low", label: "Low", className: "text-blue-500" },
+];
+
+interface BulkActionBarProps {
+  selectedIds: number[];
+  totalCount: number; // Tasks that can be selected, for "Select all"
+  projects?: Project[];
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onBulkAction: (ids: number[], operation: BulkTaskOperation) => Promise<unknown>;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedIds,
+  totalCount,
+  projects = [],
+  onSelectAll,
+  onClearSelection,
+  onBulkAction,
+}) => {
+  const { tags } = useTags();
+  const [isPending, setIsPending] = useState(false);
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const count = selectedIds.length;
+  const allSelected = count === totalCount;
+  // Tasks cannot be moved into shared projects the user only views
+  const moveTargets = projects.filter(project => project.role !== "viewer");
+
+  const run = async (operation: BulkTaskOperation) => {
+    setIsPending(true);
+    try {
+      await onBulkAction(selectedIds, operation);
+      onClearSelection();
+    } catch {
+      // The mutation already reported the error; keep the selection so the user can retry
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-10 mb-2 flex flex-wrap items-center gap-2 rounded-md border border-border bg-card px-3 py-2 shadow-sm">
+      <Checkbox
+        checked={allSelected ? true : "indeterminate"}
+        onCheckedChange={() => (allSelected ? onClearSelection() : onSelectAll())}
+        aria-label={allSelected ? "Clear selection" : "Select all tasks"}
+      />
+      <span className="text-sm font-medium mr-2">{count} selected</span>
+
+      <Button variant="ghost" size="sm" disabled={isPending} onClick={() => run({ type: "complete" })}>
+        <Check className="mr-1 h-4 w-4" />
+        Complete
+      </Button>
+      <Button variant="ghost" size="sm" disabled={isPending} onClick={() => run({ type: "uncomplete" })}>
+        <RotateCcw className="mr-1 h-4 w-4" />
+        Reopen
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" disabled={isPending}>
+            <Move className="mr-1 h-4 w-4" />
+            Move
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {moveTargets.map(project => (
+            <DropdownMenuItem key={project.id} onClick={() => run({ type: "move", project_id: project.id })}>
+              <div className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: project.color || "#ccc" }} />
+              {project.name}
+            </DropdownMenuItem>
+          ))}
+          {moveTargets.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onClick={() => run({ type: "move", project_id: null })}>No project</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" disabled={isPending}>
+            <Flag className="mr-1 h-4 w-4" />
+            Priority
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {PRIORITIES.map(({ value, label, className }) => (
+            <DropdownMenuItem key={value} onClick={() => run({ type: "set_priority", priority: value })}>
+              <Flag className={`mr-2 h-4 w-4 ${className}`} />
+              {label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" disabled={isPending}>
+            <CalendarIcon className="mr-1 h-4 w-4" />
+            Due date
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0">
+          <Calendar
+            mode="single"
+            onSelect={(date) => {
+              setIsCalendarOpen(false);
+              if (date) run({ type: "set_due_date", dueDate: date.toISOString() });
+            }}
+            initialFocus
+          />
+          <div className="border-t border-border p-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => {
+                setIsCalendarOpen(false);
+                run({ type: "set_due_date", dueDate: null });
+              }}
+            >
+              Clear due date
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {tags.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={isPending}>
+              <TagIcon className="mr-1 h-4 w-4" />
+              Tag
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {tags.map(tag => (
+              <DropdownMenuItem key={tag.id} onClick={() => run({ type: "add_tag", tag_id: tag.id })}>
+                <div className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: tag.color || "#ccc" }} />
+                {tag.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-destructive"
+        disabled={isPending}
+        onClick={() => setIsConfirmingDelete(true)}
+      >
+        <Trash2 className="mr-1 h-4 w-4" />
+        Delete
+      </Button>
+
+      <Button variant="ghost" size="sm" className="ml-auto h-7 w-7 p-0" onClick={onClearSelection}>
+        <X className="h-4 w-4" />
+        <span className="sr-only">Clear selection</span>
+      </Button>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Move {count} task{count === 1 ? "" : "s"} to the trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected tasks are moved to the trash, where they can be restored until they are deleted permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => run({ type: "delete" })}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default BulkActionBar;
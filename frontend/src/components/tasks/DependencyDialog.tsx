@@ -0,0 +1,136 @@
+/**
+ * @fileoverview DependencyDialog lists the tasks a task waits on and adds new ones, found by searching
+ * the open tasks. A task is blocked while any of these is open; completing the last one sends an
+ * "unblocked" notification. The backend refuses links that would make tasks wait on each other.
+ */
+
+import React, { useEffect, useState } from "react";
+import { CheckCircle2, Lock, Plus, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useDependencies, useTaskList } from "@/hooks/useApi";
+import { Task } from "@/types";
+
+interface DependencyDialogProps {
+  task: Task;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Most search results shown at once
+const RESULT_LIMIT = 8;
+
+// Open tasks matching the search, other than the task itself and its current blockers.
+// Rendered inside the dialog content, so the search only runs while the dialog is open.
+const BlockerSearch: React.FC<{ task: Task; search: string; onAdd: (blocker: Task) => void }> = ({ task, search, onAdd }) => {
+  const { tasks, tasksLoading } = useTaskList({
+    completed: false,
+    search: search.trim() || undefined,
+    sort: "-updated_at",
+    limit: RESULT_LIMIT + 1 + (task.blocked_by?.length ?? 0),
+  });
+  const blockerIds = new Set((task.blocked_by || []).map(blocker => blocker.id));
+  const candidates = tasks.filter(candidate => candidate.id !== task.id && !blockerIds.has(candidate.id)).slice(0, RESULT_LIMIT);
+
+  if (tasksLoading) {
+    return <p className="text-sm text-muted-foreground">Searching...</p>;
+  }
+  if (candidates.length === 0) {
+    return <p className="text-sm text-muted-foreground">No matching open tasks.</p>;
+  }
+  return (
+    <ul className="grid gap-1 max-h-48 overflow-y-auto">
+      {candidates.map(candidate => (
+        <li key={candidate.id}>
+          <Button variant="ghost" className="w-full justify-start h-8 px-2 font-normal" onClick={() => onAdd(candidate)}>
+            <Plus className="mr-2 h-4 w-4 shrink-0" />
+            <span className="truncate">{candidate.title}</span>
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const DependencyDialog: React.FC<DependencyDialogProps> = ({ task, open, onOpenChange }) => {
+  const { addBlocker, removeBlocker } = useDependencies();
+  const [search, setSearch] = useState("");
+
+  // Start with an empty search every time the dialog opens
+  useEffect(() => {
+    if (open) setSearch("");
+  }, [open]);
+
+  const blockers = task.blocked_by || [];
+
+  const handleAddBlocker = async (blocker: Task) => {
+    try {
+      await addBlocker(task.id, blocker.id);
+    } catch {
+      // useDependencies already reports the failure with a toast
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Blocked By</DialogTitle>
+          <DialogDescription>
+            Choose the tasks that must be completed before "{task.title}" can start.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {blockers.length > 0 && (
+            <ul className="grid gap-1">
+              {blockers.map(blocker => (
+                <li key={blocker.id} className="flex items-center gap-2 text-sm">
+                  {blocker.completed
+                    ? <CheckCircle2 className="h-4 w-4 text-green-500" />
+                    : <Lock className="h-4 w-4 text-muted-foreground" />}
+                  <span className={blocker.completed ? "flex-1 text-muted-foreground line-through" : "flex-1"}>
+                    {blocker.title}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    aria-label="Remove blocking task"
+                    onClick={() => removeBlocker(task.id, blocker.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <Input
+            placeholder="Search open tasks..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            aria-label="Search open tasks"
+          />
+          <BlockerSearch task={task} search={search} onAdd={handleAddBlocker} />
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)} variant="outline">
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DependencyDialog;
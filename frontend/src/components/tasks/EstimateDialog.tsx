@@ -0,0 +1,112 @@
+/**
+ * @fileoverview EstimateDialog sets how long a task is expected to take, in minutes or as a number of
+ * 25-minute pomodoros. The focus time tracked on the task is shown next to it for comparison.
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Task } from "@/types";
+import { formatMinutes, formatSeconds, isOverEstimate } from "@/utils/duration";
+
+interface EstimateDialogProps {
+  task: Task;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (estimateMinutes: number | null) => void; // null removes the estimate
+}
+
+// Length of one pomodoro, matching the focus timer
+const POMODORO_MINUTES = 25;
+
+const POMODORO_PRESETS = [1, 2, 4, 8];
+
+const EstimateDialog: React.FC<EstimateDialogProps> = ({ task, open, onOpenChange, onSave }) => {
+  const [minutes, setMinutes] = useState("");
+
+  useEffect(() => {
+    if (open) setMinutes(task.estimate_minutes ? String(task.estimate_minutes) : "");
+  }, [open, task.estimate_minutes]);
+
+  const value = Number(minutes);
+  const isValid = Number.isInteger(value) && value > 0;
+  const trackedSeconds = task.tracked_seconds ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Estimate</DialogTitle>
+          <DialogDescription>
+            How long do you expect "{task.title}" to take?
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="estimate-minutes" className="shrink-0">
+              Minutes
+            </Label>
+            <Input
+              id="estimate-minutes"
+              type="number"
+              min={1}
+              value={minutes}
+              onChange={(e) => setMinutes(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && isValid && onSave(value)}
+              autoFocus
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {POMODORO_PRESETS.map((count) => (
+              <Button
+                key={count}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setMinutes(String(count * POMODORO_MINUTES))}
+              >
+                {count} pomodoro{count === 1 ? "" : "s"}
+              </Button>
+            ))}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Tracked so far: {formatSeconds(trackedSeconds)}
+            {isValid && (
+              <span className={isOverEstimate(trackedSeconds, value) ? "text-destructive" : undefined}>
+                {" "}of {formatMinutes(value)}
+              </span>
+            )}
+          </p>
+        </div>
+        <DialogFooter className="gap-2 sm:justify-between">
+          {task.estimate_minutes ? (
+            <Button variant="outline" onClick={() => onSave(null)}>
+              Remove estimate
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => onSave(value)} disabled={!isValid}>
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EstimateDialog;
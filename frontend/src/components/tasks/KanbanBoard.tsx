@@ -0,0 +1,226 @@
+/**
+ * @fileoverview KanbanBoard shows a project's tasks in one column per workflow status (see ProjectStatus).
+ * Dragging a task to another column moves it to that status, which also completes it (Done columns) or
+ * reopens it (any other column). Column headers show how many tasks each column holds against its WIP limit;
+ * a full column does not accept more tasks, and the server refuses the move as well.
+ * A project without columns can start from the default Backlog / In Progress / Review / Done set.
+ * The board of an archived project is read-only: tasks cannot be dragged and the columns cannot be edited.
+ */
+
+import React, { useState } from "react";
+import { Settings2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import TaskItem from "./TaskItem";
+import ProjectStatusDialog from "@/components/projects/ProjectStatusDialog";
+import { useProjectStatuses } from "@/hooks/useApi";
+import { Project, ProjectStatus, ProjectStatusInput, Task } from "@/types";
+
+interface KanbanBoardProps {
+  project: Project;
+  tasks: Task[]; // Tasks of the project
+  projects?: Project[];
+  onToggleComplete: (id: number) => void;
+  onDeleteTask: (id: number) => void;
+  onUpdateTask?: (id: number, updates: Partial<Task>) => void;
+  onDuplicateTask?: (task: Task) => void;
+  onMoveTask?: (taskId: number, projectId: number) => void;
+  onMoveToStatus: (id: number, statusId: number) => void;
+  readOnly?: boolean;
+}
+
+// The columns "Use default columns" creates, from left to right
+const DEFAULT_STATUSES: ProjectStatusInput[] = [
+  { name: "Backlog", color: "#78909c", wip_limit: null, is_done: false },
+  { name: "In Progress", color: "#42a5f5", wip_limit: 3, is_done: false },
+  { name: "Review", color: "#ffca28", wip_limit: null, is_done: false },
+  { name: "Done", color: "#66bb6a", wip_limit: null, is_done: true },
+];
+
+// A column with a WIP limit that holds that many tasks or more
+const isFull = (status: ProjectStatus) =>
+  !!status.wip_limit && (status.task_count ?? 0) >= status.wip_limit;
+
+const KanbanBoard: React.FC<KanbanBoardProps> = ({
+  project,
+  tasks,
+  projects = [],
+  onToggleComplete,
+  onDeleteTask,
+  onUpdateTask,
+  onDuplicateTask,
+  onMoveTask,
+  onMoveToStatus,
+  readOnly = false,
+}) => {
+  const { statuses, statusesLoading, addStatus } = useProjectStatuses(project.id);
+  const [isEditingColumns, setIsEditingColumns] = useState(false);
+  const [creatingDefaults, setCreatingDefaults] = useState(false);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  // ID of the column the dragged task is over
+  const [dropStatusId, setDropStatusId] = useState<number | null>(null);
+
+  const handleUseDefaults = async () => {
+    setCreatingDefaults(true);
+    try {
+      // One at a time, so the columns keep their order
+      for (const status of DEFAULT_STATUSES) {
+        await addStatus(status);
+      }
+    } catch {
+      // useProjectStatuses already reports the failure with a toast
+    } finally {
+      setCreatingDefaults(false);
+    }
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropStatusId(null);
+  };
+
+  const handleDrop = (status: ProjectStatus) => {
+    const task = tasks.find(t => t.id === draggedId);
+    handleDragEnd();
+    if (task && task.status_id !== status.id && !isFull(status)) onMoveToStatus(task.id, status.id);
+  };
+
+  const renderTask = (task: Task) => (
+    <div
+      key={task.id}
+      draggable={!readOnly}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        e.dataTransfer.setData("text/plain", String(task.id));
+        setDraggedId(task.id);
+      }}
+      onDragEnd={handleDragEnd}
+      className={draggedId === task.id ? "opacity-50" : undefined}
+    >
+      <TaskItem
+        task={task}
+        onToggleComplete={onToggleComplete}
+        onDeleteTask={onDeleteTask}
+        onUpdateTask={onUpdateTask}
+        onDuplicateTask={onDuplicateTask}
+        onMoveTask={onMoveTask}
+        projects={projects}
+        currentProject={project}
+        readOnly={readOnly}
+      />
+    </div>
+  );
+
+  const renderColumn = (status: ProjectStatus) => {
+    const columnTasks = tasks.filter(task => task.status_id === status.id);
+    const count = status.task_count ?? columnTasks.length;
+    const full = isFull(status);
+    const canDrop = draggedId !== null && !columnTasks.some(task => task.id === draggedId) && !full;
+    return (
+      <Card
+        key={status.id}
+        className={cn(
+          "flex-1 min-w-[260px] max-w-sm bg-card-secondary border border-border shadow-md",
+          dropStatusId === status.id && "ring-2 ring-primary"
+        )}
+        onDragOver={(e) => {
+          if (!canDrop) return;
+          e.preventDefault();
+          if (dropStatusId !== status.id) setDropStatusId(status.id);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropStatusId(null);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop(status);
+        }}
+      >
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold flex items-center gap-2">
+            <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: status.color || undefined }} />
+            {status.name}
+            <span
+              className={cn(
+                "text-xs px-2 py-0.5 rounded-full",
+                status.wip_limit && count > status.wip_limit
+                  ? "bg-destructive text-destructive-foreground"
+                  : "bg-muted text-muted-foreground"
+              )}
+              title={status.wip_limit ? `WIP limit: ${status.wip_limit}` : undefined}
+            >
+              {status.wip_limit ? `${count}/${status.wip_limit}` : count}
+            </span>
+          </CardTitle>
+          {draggedId !== null && full && !columnTasks.some(task => task.id === draggedId) && (
+            <p className="text-xs text-muted-foreground">At its WIP limit</p>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {columnTasks.length === 0
+            ? <div className="text-center text-muted-foreground text-sm py-4">No tasks</div>
+            : columnTasks.map(renderTask)}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  if (statusesLoading) {
+    return <div className="text-center py-8 text-muted-foreground">Loading columns...</div>;
+  }
+
+  if (statuses.length === 0 && readOnly) {
+    return <div className="text-center py-8 text-muted-foreground">"{project.name}" has no board columns.</div>;
+  }
+
+  if (statuses.length === 0) {
+    return (
+      <div className="text-center py-8 space-y-3">
+        <p className="text-muted-foreground">"{project.name}" has no board columns yet.</p>
+        <div className="flex justify-center gap-2">
+          <Button onClick={handleUseDefaults} disabled={creatingDefaults}>
+            {creatingDefaults ? "Creating..." : "Use default columns"}
+          </Button>
+          <Button variant="outline" onClick={() => setIsEditingColumns(true)}>
+            Set up columns...
+          </Button>
+        </div>
+        <ProjectStatusDialog project={project} open={isEditingColumns} onOpenChange={setIsEditingColumns} />
+      </div>
+    );
+  }
+
+  // Tasks the project has no matching column for, e.g. completed tasks when there is no Done column
+  const statusIds = new Set(statuses.map(status => status.id));
+  const unsortedTasks = tasks.filter(task => !task.status_id || !statusIds.has(task.status_id));
+
+  return (
+    <div className="space-y-2">
+      {!readOnly && (
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => setIsEditingColumns(true)}>
+            <Settings2 className="mr-2 h-4 w-4" />
+            Edit columns
+          </Button>
+        </div>
+      )}
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {statuses.map(renderColumn)}
+        {unsortedTasks.length > 0 && (
+          <Card className="flex-1 min-w-[260px] max-w-sm bg-card-secondary border border-dashed border-border">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base font-semibold text-muted-foreground">No column</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {unsortedTasks.map(renderTask)}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+      <ProjectStatusDialog project={project} open={isEditingColumns} onOpenChange={setIsEditingColumns} />
+    </div>
+  );
+};
+
+export default KanbanBoard;
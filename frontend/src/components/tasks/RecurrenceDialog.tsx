@@ -0,0 +1,259 @@
+/**
+ * @fileoverview RecurrenceDialog lets the user choose how a task repeats:
+ * a frequency and interval, the weekdays (weekly) or day of the month (monthly),
+ * and when the series ends. The result is saved as the task's recurrence_pattern.
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Task } from "@/types";
+import {
+  RecurrenceFrequency,
+  RecurrenceOptions,
+  Weekday,
+  WEEKDAYS,
+  buildRecurrencePattern,
+  defaultRecurrenceOptions,
+  describeRecurrence,
+  parseRecurrencePattern,
+} from "@/utils/recurrence";
+
+interface RecurrenceDialogProps {
+  task: Task;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (recurrencePattern: string | null) => void; // null removes the recurrence
+}
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+  YEARLY: "year(s)",
+};
+
+const ORDINAL_OPTIONS = [
+  { value: 1, label: "first" },
+  { value: 2, label: "second" },
+  { value: 3, label: "third" },
+  { value: 4, label: "fourth" },
+  { value: -1, label: "last" },
+];
+
+const RecurrenceDialog: React.FC<RecurrenceDialogProps> = ({ task, open, onOpenChange, onSave }) => {
+  const [options, setOptions] = useState<RecurrenceOptions>(() => defaultRecurrenceOptions(task.dueDate));
+
+  // Start from the task's current pattern every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const current = task.recurrence_pattern ? parseRecurrencePattern(task.recurrence_pattern, task.dueDate) : null;
+    setOptions(current || defaultRecurrenceOptions(task.dueDate));
+  }, [open, task.recurrence_pattern, task.dueDate]);
+
+  const update = (changes: Partial<RecurrenceOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const pattern = buildRecurrencePattern(options);
+  const isValid =
+    options.interval >= 1 &&
+    (options.freq !== "WEEKLY" || options.weekdays.length > 0) &&
+    (options.end !== "count" || options.count >= 1) &&
+    (options.end !== "until" || Boolean(options.until));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Repeat</DialogTitle>
+          <DialogDescription>
+            When "{task.title}" is completed, the next occurrence is created automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {/* Frequency and interval */}
+          <div className="flex items-center gap-2">
+            <Label htmlFor="recurrence-interval" className="shrink-0">Every</Label>
+            <Input
+              id="recurrence-interval"
+              type="number"
+              min={1}
+              className="w-20"
+              value={options.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+            />
+            <Select value={options.freq} onValueChange={(value) => update({ freq: value as RecurrenceFrequency })}>
+              <SelectTrigger className="w-32" aria-label="Frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FREQUENCY_UNITS) as RecurrenceFrequency[]).map((freq) => (
+                  <SelectItem key={freq} value={freq}>{FREQUENCY_UNITS[freq]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Weekly: days of the week */}
+          {options.freq === "WEEKLY" && (
+            <div className="grid gap-2">
+              <Label>On</Label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                className="justify-start flex-wrap"
+                value={options.weekdays}
+                onValueChange={(value) => update({ weekdays: value as Weekday[] })}
+              >
+                {WEEKDAYS.map((weekday) => (
+                  <ToggleGroupItem key={weekday.value} value={weekday.value} aria-label={weekday.label} className="w-11">
+                    {weekday.short}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          )}
+
+          {/* Monthly: a day of the month or the Nth weekday */}
+          {options.freq === "MONTHLY" && (
+            <RadioGroup
+              value={options.monthlyMode}
+              onValueChange={(value) => update({ monthlyMode: value as RecurrenceOptions["monthlyMode"] })}
+              className="grid gap-3"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="day" id="monthly-day" />
+                <Label htmlFor="monthly-day" className="shrink-0">On day</Label>
+                <Select
+                  value={String(options.monthDay)}
+                  onValueChange={(value) => update({ monthlyMode: "day", monthDay: Number(value) })}
+                >
+                  <SelectTrigger className="w-28" aria-label="Day of the month">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 31 }, (_, i) => i + 1).map((day) => (
+                      <SelectItem key={day} value={String(day)}>{day}</SelectItem>
+                    ))}
+                    <SelectItem value="-1">Last day</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="weekday" id="monthly-weekday" />
+                <Label htmlFor="monthly-weekday" className="shrink-0">On the</Label>
+                <Select
+                  value={String(options.weekdayOrdinal)}
+                  onValueChange={(value) => update({ monthlyMode: "weekday", weekdayOrdinal: Number(value) })}
+                >
+                  <SelectTrigger className="w-28" aria-label="Which week">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ORDINAL_OPTIONS.map((ordinal) => (
+                      <SelectItem key={ordinal.value} value={String(ordinal.value)}>{ordinal.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={options.monthWeekday}
+                  onValueChange={(value) => update({ monthlyMode: "weekday", monthWeekday: value as Weekday })}
+                >
+                  <SelectTrigger className="w-32" aria-label="Weekday">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((weekday) => (
+                      <SelectItem key={weekday.value} value={weekday.value}>{weekday.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </RadioGroup>
+          )}
+
+          {/* End of the series */}
+          <div className="grid gap-2">
+            <Label>Ends</Label>
+            <RadioGroup
+              value={options.end}
+              onValueChange={(value) => update({ end: value as RecurrenceOptions["end"] })}
+              className="grid gap-3"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="never" id="end-never" />
+                <Label htmlFor="end-never">Never</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="count" id="end-count" />
+                <Label htmlFor="end-count" className="shrink-0">After</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-20"
+                  value={options.count}
+                  onChange={(e) => update({ end: "count", count: Math.max(1, Number(e.target.value) || 1) })}
+                  aria-label="Number of occurrences"
+                />
+                <span className="text-sm text-muted-foreground">occurrences</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="until" id="end-until" />
+                <Label htmlFor="end-until" className="shrink-0">On</Label>
+                <Input
+                  type="date"
+                  className="w-44"
+                  value={options.until}
+                  onChange={(e) => update({ end: "until", until: e.target.value })}
+                  aria-label="End date"
+                />
+              </div>
+            </RadioGroup>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {isValid ? describeRecurrence(pattern, task.dueDate) : "Choose at least one day and an end for the series."}
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {task.is_recurring ? (
+            <Button variant="outline" onClick={() => onSave(null)}>
+              Stop repeating
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => onSave(pattern)} disabled={!isValid}>
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecurrenceDialog;
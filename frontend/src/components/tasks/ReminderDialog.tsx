@@ -0,0 +1,188 @@
+/**
+ * @fileoverview ReminderDialog lists a task's reminders and adds new ones, either at a
+ * specific date and time or a fixed amount of time before the task is due.
+ * The backend scheduler delivers them as notifications when they fire.
+ */
+
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Bell, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { useReminders } from "@/hooks/useApi";
+import { Task, NewTaskReminder } from "@/types";
+import { REMINDER_OFFSETS, describeReminder } from "@/utils/reminders";
+
+interface ReminderDialogProps {
+  task: Task;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AT_TIME = "at";
+
+const ReminderDialog: React.FC<ReminderDialogProps> = ({ task, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const { addReminder, removeReminder } = useReminders();
+  const [when, setWhen] = useState(AT_TIME);
+  const [reminderDate, setReminderDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [reminderTime, setReminderTime] = useState(format(new Date(), "HH:mm"));
+
+  // Start from a reminder "now" (or before the due date, if there is one) every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setWhen(task.dueDate ? "60" : AT_TIME);
+    setReminderDate(format(new Date(), "yyyy-MM-dd"));
+    setReminderTime(format(new Date(), "HH:mm"));
+  }, [open, task.dueDate]);
+
+  const reminders = task.reminders || [];
+
+  const handleAddReminder = async () => {
+    let reminder: NewTaskReminder;
+    if (when === AT_TIME) {
+      const remindAt = new Date(`${reminderDate}T${reminderTime}`);
+      if (isNaN(remindAt.getTime())) {
+        toast({
+          title: "Invalid Date/Time",
+          description: "Please enter a valid date and time for the reminder.",
+          variant: "destructive",
+        });
+        return;
+      }
+      reminder = { remind_at: remindAt.toISOString() };
+    } else {
+      reminder = { offset_minutes: Number(when) };
+    }
+
+    try {
+      await addReminder(task.id, reminder);
+      toast({
+        title: "Reminder set",
+        description: "remind_at" in reminder
+          ? `Reminder set for ${describeReminder(reminder)}`
+          : `You'll be reminded ${describeReminder(reminder).toLowerCase()}`,
+      });
+    } catch {
+      // useReminders already reports the failure with a toast
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Reminders</DialogTitle>
+          <DialogDescription>
+            Choose when you want to be reminded about "{task.title}".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {reminders.length > 0 && (
+            <ul className="grid gap-1">
+              {reminders.map((reminder) => (
+                <li key={reminder.id} className="flex items-center gap-2 text-sm">
+                  <Bell className="h-4 w-4 text-muted-foreground" />
+                  <span className={reminder.sent_at ? "flex-1 text-muted-foreground line-through" : "flex-1"}>
+                    {describeReminder(reminder)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    aria-label="Remove reminder"
+                    onClick={() => removeReminder(task.id, reminder.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label className="text-right">Remind me</Label>
+            <Select value={when} onValueChange={setWhen}>
+              <SelectTrigger className="col-span-3" aria-label="When to remind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AT_TIME}>At a specific time</SelectItem>
+                {REMINDER_OFFSETS.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)} disabled={!task.dueDate}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {when === AT_TIME ? (
+            <>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="reminder-date" className="text-right">
+                  Date
+                </Label>
+                <Input
+                  id="reminder-date"
+                  type="date"
+                  value={reminderDate}
+                  onChange={(e) => setReminderDate(e.target.value)}
+                  className="col-span-3"
+                />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="reminder-time" className="text-right">
+                  Time
+                </Label>
+                <Input
+                  id="reminder-time"
+                  type="time"
+                  value={reminderTime}
+                  onChange={(e) => setReminderTime(e.target.value)}
+                  className="col-span-3"
+                />
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Moves with the task if its due date changes.
+            </p>
+          )}
+          {!task.dueDate && (
+            <p className="text-sm text-muted-foreground">
+              Give the task a due date to be reminded relative to it.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)} variant="outline">
+            Close
+          </Button>
+          <Button onClick={handleAddReminder}>Add Reminder</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReminderDialog;
@@ -2,13 +2,22 @@
  * @fileoverview TaskBoard component for displaying tasks grouped by timeframe.
  * This component filters, groups, and renders tasks, and provides an interface
  * for adding new tasks to specific timeframes.
+ * With `onBulkAction`, tasks can be multi-selected across columns and changed together from a BulkActionBar.
+ * The Today column can hide blocked tasks (ones waiting on an open task), leaving what can be worked on now.
+ * With `onRescheduleTask`, dragging a task to another column moves its due date to that column's day
+ * (keeping the time of day); dropping it on "No Due Date / Later" clears the due date.
  */
 
-import React from "react";
-import { Task, Project } from "@/types"; // Import Task and Project from the main types barrel file
+import React, { useState } from "react";
+import { Task, Project, BulkTaskOperation } from "@/types"; // Import Task and Project from the main types barrel file
 import { format, isToday, isTomorrow, addDays, isAfter, isBefore, startOfDay } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
 import TaskItem from "./TaskItem";
+import BulkActionBar from "./BulkActionBar";
+import { useTaskSelection } from "@/hooks/useTaskSelection";
 // Assuming QuickTaskForm is correctly imported and located, often in a shared or dashboard context
 import { QuickTaskForm } from "@/components/dashboard/QuickTaskForm"; // Updated path based on typical structure
 
@@ -22,6 +31,8 @@ interface TaskBoardProps {
   onUpdateTask?: (id: number, updates: Partial<Task>) => void;
   onDuplicateTask?: (task: Task) => void;
   onMoveTask?: (taskId: number, projectId: number) => void;
+  onBulkAction?: (ids: number[], operation: BulkTaskOperation) => Promise<unknown>;
+  onRescheduleTask?: (id: number, dueDate: string | null) => void;
 }
 
 const TaskBoard: React.FC<TaskBoardProps> = ({
@@ -34,7 +45,14 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
   onUpdateTask,
   onDuplicateTask,
   onMoveTask,
+  onBulkAction,
+  onRescheduleTask,
 }) => {
+  const [hideBlockedToday, setHideBlockedToday] = useState(false);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  // Title of the column the dragged task is over
+  const [dropColumn, setDropColumn] = useState<string | null>(null);
+
   // Get current date for filtering logic
   const today = startOfDay(new Date());
   const tomorrow = addDays(today, 1);
@@ -46,13 +64,18 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
     ? tasks.filter(task => task.project_id === currentProject.id)
     : tasks;
 
+  const selection = useTaskSelection(filteredTasks);
+
   // Group tasks by timeframe
   const overdueTasks = filteredTasks.filter(
     (task) => !task.completed && task.dueDate && isBefore(new Date(task.dueDate), today)
   );
 
+  // Open tasks that wait on at least one open task
+  const isBlocked = (task: Task) => !task.completed && (task.blocked_by || []).some(blocker => !blocker.completed);
+
   const todayTasks = filteredTasks.filter(
-    (task) => task.dueDate && isToday(new Date(task.dueDate))
+    (task) => task.dueDate && isToday(new Date(task.dueDate)) && !(hideBlockedToday && isBlocked(task))
   );
 
   const tomorrowTasks = filteredTasks.filter(
@@ -87,6 +110,25 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
     });
   };
 
+  // Give the dropped task the column's day as its due date, at the time of day it was due before
+  const handleDropOnColumn = (taskList: Task[], dueDay: Date | null) => {
+    const task = filteredTasks.find(t => t.id === draggedId);
+    setDraggedId(null);
+    setDropColumn(null);
+    if (!task || !onRescheduleTask || taskList.includes(task)) return;
+
+    if (!dueDay) {
+      onRescheduleTask(task.id, null);
+      return;
+    }
+    const dueDate = new Date(dueDay);
+    if (task.dueDate) {
+      const previous = new Date(task.dueDate);
+      dueDate.setHours(previous.getHours(), previous.getMinutes(), previous.getSeconds(), 0);
+    }
+    onRescheduleTask(task.id, dueDate.toISOString());
+  };
+
   // Function to render the task list for a column
   const renderTaskList = (taskList: Task[]) => {
     if (taskList.length === 0) {
@@ -98,24 +140,66 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
     }
 
     return taskList.map((task) => (
-      <TaskItem
+      <div
         key={task.id}
-        task={task}
-        onToggleComplete={onToggleComplete}
-        onDeleteTask={onDeleteTask}
-        onUpdateTask={onUpdateTask}
-        onDuplicateTask={onDuplicateTask}
-        onMoveTask={onMoveTask}
-        projects={projects}
-        showProjectBadge={!currentProject} // Only show project badge if not viewing a specific project
-        currentProject={currentProject}
-      />
+        draggable={!!onRescheduleTask}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = "move";
+          e.dataTransfer.setData("text/plain", String(task.id));
+          setDraggedId(task.id);
+        }}
+        onDragEnd={() => {
+          setDraggedId(null);
+          setDropColumn(null);
+        }}
+        className={draggedId === task.id ? "opacity-50" : undefined}
+      >
+        <TaskItem
+          task={task}
+          onToggleComplete={onToggleComplete}
+          onDeleteTask={onDeleteTask}
+          onUpdateTask={onUpdateTask}
+          onDuplicateTask={onDuplicateTask}
+          onMoveTask={onMoveTask}
+          projects={projects}
+          showProjectBadge={!currentProject} // Only show project badge if not viewing a specific project
+          currentProject={currentProject}
+          selected={selection.isSelected(task.id)}
+          onToggleSelect={onBulkAction && selection.toggle}
+        />
+      </div>
     ));
   };
 
-  // Render a column with tasks and add task form
-  const renderColumn = (title: string, taskList: Task[], defaultDueDate: Date | null, count: number) => (
-    <Card className="flex-1 min-w-[280px] max-w-sm bg-card-secondary border border-border shadow-md">
+  // Render a column with tasks and add task form; `action` is shown at the right of the title.
+  // Tasks dragged from another column are rescheduled to `defaultDueDate`, unless `acceptsDrops` is false.
+  const renderColumn = (
+    title: string,
+    taskList: Task[],
+    defaultDueDate: Date | null,
+    count: number,
+    action?: React.ReactNode,
+    acceptsDrops = true
+  ) => (
+    <Card
+      className={cn(
+        "flex-1 min-w-[280px] max-w-sm bg-card-secondary border border-border shadow-md",
+        dropColumn === title && "ring-2 ring-primary"
+      )}
+      onDragOver={(e) => {
+        if (!acceptsDrops || draggedId === null || taskList.some(task => task.id === draggedId)) return;
+        e.preventDefault();
+        if (dropColumn !== title) setDropColumn(title);
+      }}
+      onDragLeave={(e) => {
+        // Moving onto a child element also leaves the card itself
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropColumn(null);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        handleDropOnColumn(taskList, defaultDueDate);
+      }}
+    >
       <CardHeader className="pb-2">
         <div className="flex justify-between items-center">
           <CardTitle className="text-lg font-semibold flex items-center gap-2">
@@ -126,6 +210,7 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
               </span>
             )}
           </CardTitle>
+          {action}
         </div>
       </CardHeader>
       <CardContent className="space-y-2">
@@ -145,12 +230,36 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
   );
 
   return (
-    <div className="flex flex-wrap lg:flex-nowrap gap-4 overflow-x-auto pb-4 px-4 sm:px-0">
-      {renderColumn("Overdue", overdueTasks, today, overdueTasks.length)}
-      {renderColumn("Today", todayTasks, today, todayTasks.length)}
-      {renderColumn("Tomorrow", tomorrowTasks, tomorrow, tomorrowTasks.length)}
-      {renderColumn("Upcoming (Next 7 Days)", upcomingTasks, dayAfterTomorrow, upcomingTasks.length)}
-      {renderColumn("No Due Date / Later", noDueDateTasks, null, noDueDateTasks.length)}
+    <div>
+      {onBulkAction && selection.selectedIds.length > 0 && (
+        <BulkActionBar
+          selectedIds={selection.selectedIds}
+          totalCount={filteredTasks.length}
+          projects={projects}
+          onSelectAll={selection.selectAll}
+          onClearSelection={selection.clear}
+          onBulkAction={onBulkAction}
+        />
+      )}
+      <div className="flex flex-wrap lg:flex-nowrap gap-4 overflow-x-auto pb-4 px-4 sm:px-0">
+        {renderColumn("Overdue", overdueTasks, today, overdueTasks.length, undefined, false)}
+        {renderColumn("Today", todayTasks, today, todayTasks.length, (
+          <Button
+            variant={hideBlockedToday ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            aria-pressed={hideBlockedToday}
+            title={hideBlockedToday ? "Show blocked tasks" : "Hide tasks that are waiting on other tasks"}
+            onClick={() => setHideBlockedToday(hidden => !hidden)}
+          >
+            <Lock className="mr-1 h-3 w-3" />
+            {hideBlockedToday ? "Blocked hidden" : "Hide blocked"}
+          </Button>
+        ))}
+        {renderColumn("Tomorrow", tomorrowTasks, tomorrow, tomorrowTasks.length)}
+        {renderColumn("Upcoming (Next 7 Days)", upcomingTasks, dayAfterTomorrow, upcomingTasks.length)}
+        {renderColumn("No Due Date / Later", noDueDateTasks, null, noDueDateTasks.length)}
+      </div>
     </div>
   );
 };
@@ -1,22 +1,30 @@
 /**
  * @fileoverview TaskContextMenu component provides a context menu (right-click)
  * and a dropdown menu (mobile) for various task actions like setting priority,
- * reminders, duplicating, moving, and deleting.
+ * reminders, repeating, estimates, tags, blocking tasks, assigning, adding subtasks, duplicating, moving, and deleting, and opens the task's details and history.
  */
 
 import React, { useState } from "react";
 import {
   ContextMenu,
+  ContextMenuCheckboxItem,
   ContextMenuContent,
   ContextMenuItem,
   ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
   ContextMenuTrigger,
 } from "@/components/ui/context-menu";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -27,13 +35,24 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Task, Project } from "@/types"; // Import Task and Project from the main types barrel file
-import { Calendar, Flag, Clock, Copy, Move, Link, Trash2, MoreHorizontal, Bell } from "lucide-react";
+import { Task, Project, Tag } from "@/types"; // Import Task and Project from the main types barrel file
+import { Calendar, Flag, Clock, Copy, Move, Link, Trash2, MoreHorizontal, Bell, Tag as TagIcon, Plus, History, ListPlus, Lock, Timer, UserPlus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
-import { format } from "date-fns";
+import { useProjectMembers, useTags } from "@/hooks/useApi";
+import { useAuth } from "@/features/auth/auth-context";
+import { describeRecurrence } from "@/utils/recurrence";
+import { formatMinutes } from "@/utils/duration";
+import RecurrenceDialog from "./RecurrenceDialog";
+import EstimateDialog from "./EstimateDialog";
+import ReminderDialog from "./ReminderDialog";
+import DependencyDialog from "./DependencyDialog";
+import TaskDetailDialog from "./TaskDetailDialog";
+
+// Colors offered when creating a tag from the picker
+const TAG_COLORS = ["#ff5252", "#ffca28", "#66bb6a", "#26c6da", "#42a5f5", "#ab47bc", "#78909c"];
 
 interface TaskContextMenuProps {
   task: Task;
@@ -43,6 +62,7 @@ interface TaskContextMenuProps {
   onDeleteTask: (id: number) => void; // Changed id type to number
   onDuplicateTask: (task: Task) => void;
   onMoveTask: (taskId: number, projectId: number) => void; // Changed id types to number
+  onAddSubtask?: (parent: Task, title: string) => void;
 }
 
 const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
@@ -53,25 +73,31 @@ const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
   onDeleteTask,
   onDuplicateTask,
   onMoveTask,
+  onAddSubtask,
 }) => {
   const { toast } = useToast();
+  const { tags, addTag, addTagToTask, removeTagFromTask } = useTags();
+  const [isTagDialogOpen, setIsTagDialogOpen] = useState(false);
+  const [newTagName, setNewTagName] = useState("");
+  const [newTagColor, setNewTagColor] = useState(TAG_COLORS[0]);
+  const [isRecurrenceDialogOpen, setIsRecurrenceDialogOpen] = useState(false);
   const [isReminderDialogOpen, setIsReminderDialogOpen] = useState(false);
-  // Initialize reminderDate and reminderTime from existing task reminder or current date/time
-  const [reminderDate, setReminderDate] = useState(
-    task.reminder?.date ? format(new Date(task.reminder.date), "yyyy-MM-dd") : format(new Date(), "yyyy-MM-dd")
-  );
-  const [reminderTime, setReminderTime] = useState(
-    task.reminder?.time || format(new Date(), "HH:mm")
-  );
-
-  // Update local reminder state when task prop changes (e.g., if reminder is set/cleared externally)
-  React.useEffect(() => {
-    setReminderDate(
-      task.reminder?.date ? format(new Date(task.reminder.date), "yyyy-MM-dd") : format(new Date(), "yyyy-MM-dd")
-    );
-    setReminderTime(task.reminder?.time || format(new Date(), "HH:mm"));
-  }, [task.reminder]);
-
+  const [isEstimateDialogOpen, setIsEstimateDialogOpen] = useState(false);
+  const [isDependencyDialogOpen, setIsDependencyDialogOpen] = useState(false);
+  const [isDetailDialogOpen, setIsDetailDialogOpen] = useState(false);
+  const [isSubtaskDialogOpen, setIsSubtaskDialogOpen] = useState(false);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
+  const reminderCount = (task.reminders || []).length;
+  // Tasks cannot be moved into shared projects the user only views
+  const moveTargets = projects.filter(project => project.role !== "viewer");
+  const blockerCount = (task.blocked_by || []).length;
+  const { user } = useAuth();
+  const { members } = useProjectMembers(task.project_id ?? null);
+  // Who the task can be assigned to: the owners and editors of its project, or its creator outside any project
+  const assignTargets = task.project_id
+    ? members.filter(member => member.role !== "viewer")
+    : [{ user_id: task.user_id, email: task.user_id === user?.id ? user.email ?? "" : "" }];
+  const assigneeLabel = (userId: string, email: string) => (userId === user?.id ? "Me" : email);
 
   const handleSetPriority = (priority: Task["priority"]) => {
     onUpdateTask(task.id, { priority });
@@ -81,68 +107,93 @@ const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
     });
   };
 
-  const handleToggleRecurring = () => {
-    onUpdateTask(task.id, { is_recurring: !task.is_recurring }); // Use is_recurring
+  // Save the pattern chosen in the recurrence editor; null stops the task from repeating
+  const handleSaveRecurrence = (recurrencePattern: string | null) => {
+    onUpdateTask(task.id, { is_recurring: recurrencePattern !== null, recurrence_pattern: recurrencePattern });
+    setIsRecurrenceDialogOpen(false);
     toast({
-      title: task.is_recurring ? "Recurring removed" : "Set as recurring",
-      description: task.is_recurring
-        ? "Task is no longer recurring"
-        : "Task is now set as recurring",
+      title: recurrencePattern ? "Repeat updated" : "Recurring removed",
+      description: recurrencePattern
+        ? describeRecurrence(recurrencePattern, task.dueDate)
+        : "Task is no longer recurring",
     });
   };
 
-  const handleCopyLink = () => {
-    // In a real app, this would copy a sharable link to the task's detail page
-    // For now, let's just copy the task title
-    navigator.clipboard.writeText(task.title);
+  // Save the estimate chosen in the estimate editor; null removes it
+  const handleSaveEstimate = (estimateMinutes: number | null) => {
+    onUpdateTask(task.id, { estimate_minutes: estimateMinutes });
+    setIsEstimateDialogOpen(false);
     toast({
-      title: "Link copied",
-      description: "Task title copied to clipboard",
+      title: estimateMinutes ? "Estimate updated" : "Estimate removed",
+      description: estimateMinutes ? `Estimated at ${formatMinutes(estimateMinutes)}` : "Task no longer has an estimate",
     });
   };
 
-  const handleDuplicate = () => {
-    onDuplicateTask(task);
+  // Assign the task to a user; null unassigns it
+  const handleAssign = (assigneeId: string | null) => {
+    onUpdateTask(task.id, { assignee_id: assigneeId });
+    const target = assignTargets.find(member => member.user_id === assigneeId);
     toast({
-      title: "Task duplicated",
-      description: "A copy of this task has been created",
+      title: assigneeId ? "Task assigned" : "Task unassigned",
+      description: target ? `Assigned to ${assigneeLabel(target.user_id, target.email)}` : "Task no longer has an assignee",
     });
   };
 
-  const handleSetReminder = () => {
-    const reminderDateTime = new Date(`${reminderDate}T${reminderTime}`);
-    if (isNaN(reminderDateTime.getTime())) {
+  const taskTagIds = new Set((task.tags || []).map(tag => tag.id));
+
+  const handleToggleTag = (tag: Tag) => {
+    if (taskTagIds.has(tag.id)) {
+      removeTagFromTask(task.id, tag.id);
+    } else {
+      addTagToTask(task.id, tag.id);
+    }
+  };
+
+  // Create a tag from the picker and attach it to this task straight away
+  const handleCreateTag = async () => {
+    const name = newTagName.trim();
+    if (!name) {
       toast({
-        title: "Invalid Date/Time",
-        description: "Please enter a valid date and time for the reminder.",
+        title: "Validation Error",
+        description: "Tag name cannot be empty.",
         variant: "destructive",
       });
       return;
     }
 
-    const reminderObj: Task['reminder'] = { // Ensure type matches Task['reminder']
-      date: format(reminderDateTime, "yyyy-MM-dd"), // Store just the date part
-      time: format(reminderDateTime, "HH:mm"), // Store just the time part
-      notified: false, // Default to false
-      // Add other reminder properties if your Task type has them (e.g., timestamp, message)
-      // timestamp: reminderDateTime.toISOString(),
-    };
+    try {
+      const tag = await addTag({ name, color: newTagColor });
+      await addTagToTask(task.id, tag.id);
+      setNewTagName("");
+      setIsTagDialogOpen(false);
+    } catch {
+      // useTags already reports the failure with a toast
+    }
+  };
 
-    onUpdateTask(task.id, { reminder: reminderObj });
-    setIsReminderDialogOpen(false); // Close dialog
+  const handleAddSubtask = () => {
+    const title = newSubtaskTitle.trim();
+    if (!title || !onAddSubtask) return;
+    onAddSubtask(task, title);
+    setNewSubtaskTitle("");
+    setIsSubtaskDialogOpen(false);
+  };
 
+  const handleCopyLink = () => {
+    // In a real app, this would copy a sharable link to the task's detail page
+    // For now, let's just copy the task title
+    navigator.clipboard.writeText(task.title);
     toast({
-      title: "Reminder set",
-      description: `Reminder set for ${format(reminderDateTime, "PPp")}`,
+      title: "Link copied",
+      description: "Task title copied to clipboard",
     });
   };
 
-  const handleRemoveReminder = () => {
-    onUpdateTask(task.id, { reminder: null });
-
+  const handleDuplicate = () => {
+    onDuplicateTask(task);
     toast({
-      title: "Reminder removed",
-      description: "The reminder has been removed from this task",
+      title: "Task duplicated",
+      description: "A copy of this task has been created",
     });
   };
 
@@ -160,6 +211,11 @@ const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => setIsDetailDialogOpen(true)}>
+          <History className="mr-2 h-4 w-4" />
+          Details & History...
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
         <DropdownMenuItem onClick={() => handleSetPriority("high")}>
           <Flag className="mr-2 h-4 w-4 text-red-500" />
           High Priority
@@ -177,21 +233,81 @@ const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
           No Priority
         </DropdownMenuItem>
         <DropdownMenuSeparator />
-        <DropdownMenuItem onClick={handleToggleRecurring}>
+        <DropdownMenuItem onClick={() => setIsRecurrenceDialogOpen(true)}>
           <Clock className="mr-2 h-4 w-4" />
-          {task.is_recurring ? "Remove Recurring" : "Make Recurring"}
+          {task.is_recurring ? "Edit Repeat..." : "Repeat..."}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => setIsEstimateDialogOpen(true)}>
+          <Timer className="mr-2 h-4 w-4" />
+          {task.estimate_minutes ? `Estimate (${formatMinutes(task.estimate_minutes)})...` : "Estimate..."}
         </DropdownMenuItem>
         <DropdownMenuItem onClick={() => setIsReminderDialogOpen(true)}>
           <Bell className="mr-2 h-4 w-4" />
-          Set Reminder
+          {reminderCount > 0 ? `Reminders (${reminderCount})...` : "Set Reminder..."}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => setIsDependencyDialogOpen(true)}>
+          <Lock className="mr-2 h-4 w-4" />
+          {blockerCount > 0 ? `Blocked By (${blockerCount})...` : "Blocked By..."}
         </DropdownMenuItem>
-        {task.reminder && (
-          <DropdownMenuItem onClick={handleRemoveReminder}>
-            <Bell className="mr-2 h-4 w-4 text-red-500" />
-            Remove Reminder
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <TagIcon className="mr-2 h-4 w-4" />
+            Tags
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-48">
+            {tags.map((tag) => (
+              <DropdownMenuCheckboxItem
+                key={tag.id}
+                checked={taskTagIds.has(tag.id)}
+                onCheckedChange={() => handleToggleTag(tag)}
+                onSelect={(e) => e.preventDefault()} // Keep the menu open to toggle several tags
+              >
+                <div
+                  className="w-2 h-2 rounded-full mr-2"
+                  style={{ backgroundColor: tag.color || '#ccc' }}
+                />
+                {tag.name}
+              </DropdownMenuCheckboxItem>
+            ))}
+            {tags.length > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuItem onClick={() => setIsTagDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Tag...
+            </DropdownMenuItem>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <UserPlus className="mr-2 h-4 w-4" />
+            Assign To
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-56">
+            {assignTargets.map((member) => (
+              <DropdownMenuCheckboxItem
+                key={member.user_id}
+                checked={task.assignee_id === member.user_id}
+                onCheckedChange={() => handleAssign(member.user_id)}
+              >
+                {assigneeLabel(member.user_id, member.email)}
+              </DropdownMenuCheckboxItem>
+            ))}
+            {task.assignee_id && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => handleAssign(null)}>
+                  Unassign
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuSeparator />
+        {onAddSubtask && (
+          <DropdownMenuItem onClick={() => setIsSubtaskDialogOpen(true)}>
+            <ListPlus className="mr-2 h-4 w-4" />
+            Add Subtask...
           </DropdownMenuItem>
         )}
-        <DropdownMenuSeparator />
         <DropdownMenuItem onClick={handleDuplicate}>
           <Copy className="mr-2 h-4 w-4" />
           Duplicate
@@ -202,13 +318,13 @@ const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
         </DropdownMenuItem>
         <DropdownMenuSeparator />
         {/* Move to Project sub-menu */}
-        {projects.length > 0 && (
+        {moveTargets.length > 0 && (
           <>
             <DropdownMenuItem className="font-semibold" disabled>
               <Move className="mr-2 h-4 w-4" />
               Move to Project
             </DropdownMenuItem>
-            {projects.map((project) => (
+            {moveTargets.map((project) => (
               <DropdownMenuItem
                 key={project.id}
                 onClick={() => onMoveTask(task.id, project.id)}
@@ -239,8 +355,13 @@ const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
     <>
       {/* Context Menu (for desktop) */}
       <ContextMenu>
-        <ContextMenuTrigger>{children}</ContextMenuTrigger>
+        <ContextMenuTrigger className="block flex-1 min-w-0">{children}</ContextMenuTrigger>
         <ContextMenuContent className="w-56">
+          <ContextMenuItem onClick={() => setIsDetailDialogOpen(true)}>
+            <History className="mr-2 h-4 w-4" />
+            Details & History...
+          </ContextMenuItem>
+          <ContextMenuSeparator />
           <ContextMenuItem onClick={() => handleSetPriority("high")}>
             <Flag className="mr-2 h-4 w-4 text-red-500" />
             High Priority
@@ -258,21 +379,81 @@ const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
             No Priority
           </ContextMenuItem>
           <ContextMenuSeparator />
-          <ContextMenuItem onClick={handleToggleRecurring}>
+          <ContextMenuItem onClick={() => setIsRecurrenceDialogOpen(true)}>
             <Clock className="mr-2 h-4 w-4" />
-            {task.is_recurring ? "Remove Recurring" : "Make Recurring"}
+            {task.is_recurring ? "Edit Repeat..." : "Repeat..."}
+          </ContextMenuItem>
+          <ContextMenuItem onClick={() => setIsEstimateDialogOpen(true)}>
+            <Timer className="mr-2 h-4 w-4" />
+            {task.estimate_minutes ? `Estimate (${formatMinutes(task.estimate_minutes)})...` : "Estimate..."}
           </ContextMenuItem>
           <ContextMenuItem onClick={() => setIsReminderDialogOpen(true)}>
             <Bell className="mr-2 h-4 w-4" />
-            Set Reminder
+            {reminderCount > 0 ? `Reminders (${reminderCount})...` : "Set Reminder..."}
+          </ContextMenuItem>
+          <ContextMenuItem onClick={() => setIsDependencyDialogOpen(true)}>
+            <Lock className="mr-2 h-4 w-4" />
+            {blockerCount > 0 ? `Blocked By (${blockerCount})...` : "Blocked By..."}
           </ContextMenuItem>
-          {task.reminder && (
-            <ContextMenuItem onClick={handleRemoveReminder}>
-              <Bell className="mr-2 h-4 w-4 text-red-500" />
-              Remove Reminder
+          <ContextMenuSub>
+            <ContextMenuSubTrigger>
+              <TagIcon className="mr-2 h-4 w-4" />
+              Tags
+            </ContextMenuSubTrigger>
+            <ContextMenuSubContent className="w-48">
+              {tags.map((tag) => (
+                <ContextMenuCheckboxItem
+                  key={tag.id}
+                  checked={taskTagIds.has(tag.id)}
+                  onCheckedChange={() => handleToggleTag(tag)}
+                  onSelect={(e) => e.preventDefault()} // Keep the menu open to toggle several tags
+                >
+                  <div
+                    className="w-2 h-2 rounded-full mr-2"
+                    style={{ backgroundColor: tag.color || '#ccc' }}
+                  />
+                  {tag.name}
+                </ContextMenuCheckboxItem>
+              ))}
+              {tags.length > 0 && <ContextMenuSeparator />}
+              <ContextMenuItem onClick={() => setIsTagDialogOpen(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Tag...
+              </ContextMenuItem>
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+          <ContextMenuSub>
+            <ContextMenuSubTrigger>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Assign To
+            </ContextMenuSubTrigger>
+            <ContextMenuSubContent className="w-56">
+              {assignTargets.map((member) => (
+                <ContextMenuCheckboxItem
+                  key={member.user_id}
+                  checked={task.assignee_id === member.user_id}
+                  onCheckedChange={() => handleAssign(member.user_id)}
+                >
+                  {assigneeLabel(member.user_id, member.email)}
+                </ContextMenuCheckboxItem>
+              ))}
+              {task.assignee_id && (
+                <>
+                  <ContextMenuSeparator />
+                  <ContextMenuItem onClick={() => handleAssign(null)}>
+                    Unassign
+                  </ContextMenuItem>
+                </>
+              )}
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+          <ContextMenuSeparator />
+          {onAddSubtask && (
+            <ContextMenuItem onClick={() => setIsSubtaskDialogOpen(true)}>
+              <ListPlus className="mr-2 h-4 w-4" />
+              Add Subtask...
             </ContextMenuItem>
           )}
-          <ContextMenuSeparator />
           <ContextMenuItem onClick={handleDuplicate}>
             <Copy className="mr-2 h-4 w-4" />
             Duplicate
@@ -283,13 +464,13 @@ const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
           </ContextMenuItem>
           <ContextMenuSeparator />
           {/* Move to Project sub-menu */}
-          {projects.length > 0 && (
+          {moveTargets.length > 0 && (
             <>
               <ContextMenuItem className="font-semibold" disabled>
                 <Move className="mr-2 h-4 w-4" />
                 Move to Project
               </ContextMenuItem>
-              {projects.map((project) => (
+              {moveTargets.map((project) => (
                 <ContextMenuItem
                   key={project.id}
                   onClick={() => onMoveTask(task.id, project.id)}
@@ -322,49 +503,122 @@ const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
         </div>
       </ContextMenu>
 
-      {/* Reminder Dialog */}
-      <Dialog open={isReminderDialogOpen} onOpenChange={setIsReminderDialogOpen}>
+      {/* Recurrence Editor Dialog */}
+      <RecurrenceDialog
+        task={task}
+        open={isRecurrenceDialogOpen}
+        onOpenChange={setIsRecurrenceDialogOpen}
+        onSave={handleSaveRecurrence}
+      />
+
+      {/* Estimate Dialog */}
+      <EstimateDialog
+        task={task}
+        open={isEstimateDialogOpen}
+        onOpenChange={setIsEstimateDialogOpen}
+        onSave={handleSaveEstimate}
+      />
+
+      {/* New Tag Dialog */}
+      <Dialog open={isTagDialogOpen} onOpenChange={setIsTagDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
-            <DialogTitle>Set Reminder</DialogTitle>
+            <DialogTitle>New Tag</DialogTitle>
             <DialogDescription>
-              Choose when you want to be reminded about this task.
+              Create a tag and add it to "{task.title}".
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
             <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="reminder-date" className="text-right">
-                Date
+              <Label htmlFor="tag-name" className="text-right">
+                Name
               </Label>
               <Input
-                id="reminder-date"
-                type="date"
-                value={reminderDate}
-                onChange={(e) => setReminderDate(e.target.value)}
+                id="tag-name"
+                value={newTagName}
+                maxLength={50}
+                onChange={(e) => setNewTagName(e.target.value)}
                 className="col-span-3"
+                autoFocus
               />
             </div>
             <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="reminder-time" className="text-right">
-                Time
-              </Label>
-              <Input
-                id="reminder-time"
-                type="time"
-                value={reminderTime}
-                onChange={(e) => setReminderTime(e.target.value)}
-                className="col-span-3"
-              />
+              <Label className="text-right">Color</Label>
+              <div className="col-span-3 flex flex-wrap gap-2">
+                {TAG_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    className={`w-5 h-5 rounded-full transition-all ${
+                      newTagColor === color ? 'ring-2 ring-offset-2 ring-primary' : ''
+                    }`}
+                    style={{ backgroundColor: color }}
+                    onClick={() => setNewTagColor(color)}
+                    aria-label={`Select ${color} color`}
+                  />
+                ))}
+              </div>
             </div>
           </div>
           <DialogFooter>
-            <Button onClick={() => setIsReminderDialogOpen(false)} variant="outline">
+            <Button onClick={() => setIsTagDialogOpen(false)} variant="outline">
               Cancel
             </Button>
-            <Button onClick={handleSetReminder}>Save Reminder</Button>
+            <Button onClick={handleCreateTag}>Create Tag</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* New Subtask Dialog */}
+      <Dialog open={isSubtaskDialogOpen} onOpenChange={setIsSubtaskDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>New Subtask</DialogTitle>
+            <DialogDescription>
+              Add a subtask to "{task.title}".
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Input
+              value={newSubtaskTitle}
+              maxLength={255}
+              placeholder="Subtask title"
+              aria-label="Subtask title"
+              onChange={(e) => setNewSubtaskTitle(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAddSubtask()}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIsSubtaskDialogOpen(false)} variant="outline">
+              Cancel
+            </Button>
+            <Button onClick={handleAddSubtask} disabled={!newSubtaskTitle.trim()}>Add Subtask</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reminder Dialog */}
+      <ReminderDialog
+        task={task}
+        open={isReminderDialogOpen}
+        onOpenChange={setIsReminderDialogOpen}
+      />
+
+      {/* Blocked By Dialog */}
+      <DependencyDialog
+        task={task}
+        open={isDependencyDialogOpen}
+        onOpenChange={setIsDependencyDialogOpen}
+      />
+
+      {/* Details & History Dialog */}
+      <TaskDetailDialog
+        task={task}
+        projects={projects}
+        open={isDetailDialogOpen}
+        onOpenChange={setIsDetailDialogOpen}
+      />
     </>
   );
 };
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview TaskDetailDialog shows a task's details together with its change history,
+ * from which the task can be reverted to an earlier version. The details include the focus time
+ * tracked on the task against its estimate.
+ */
+
+import React from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import HistoryTimeline from "@/components/history/HistoryTimeline";
+import { Project, Task } from "@/types";
+import { describeRecurrence } from "@/utils/recurrence";
+import { formatMinutes, formatSeconds } from "@/utils/duration";
+import { useTaskTime } from "@/hooks/useApi";
+
+interface TaskDetailDialogProps {
+  task: Task;
+  projects: Project[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TaskDetailDialog: React.FC<TaskDetailDialogProps> = ({ task, projects, open, onOpenChange }) => {
+  const project = projects.find(p => p.id === task.project_id);
+  // Only fetch the tracked time while the dialog is open
+  const { taskTime } = useTaskTime(open ? task.id : undefined);
+  const trackedSeconds = taskTime?.tracked_seconds ?? task.tracked_seconds ?? 0;
+  const sessionCount = taskTime?.session_count;
+  const remaining = taskTime?.remaining_seconds ?? null;
+
+  const details: { label: string; value: string }[] = [
+    { label: "Status", value: task.completed ? "Completed" : "Open" },
+    { label: "Due", value: task.dueDate ? format(new Date(task.dueDate), "PPp") : "No due date" },
+    { label: "Priority", value: task.priority ? task.priority[0].toUpperCase() + task.priority.slice(1) : "None" },
+    { label: "Project", value: project?.name || "No project" },
+    { label: "Repeats", value: describeRecurrence(task.is_recurring ? task.recurrence_pattern : null, task.dueDate) },
+    { label: "Estimate", value: task.estimate_minutes ? formatMinutes(task.estimate_minutes) : "No estimate" },
+    {
+      label: "Tracked",
+      value: [
+        formatSeconds(trackedSeconds),
+        sessionCount !== undefined && ` in ${sessionCount} focus session${sessionCount === 1 ? "" : "s"}`,
+        remaining !== null && (remaining < 0 ? ` (${formatSeconds(-remaining)} over)` : ` (${formatSeconds(remaining)} left)`),
+      ].filter(Boolean).join(""),
+    },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="break-words">{task.title}</DialogTitle>
+          <DialogDescription>
+            Created {format(new Date(task.created_at), "PPp")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {task.description && (
+          <p className="text-sm whitespace-pre-wrap">{task.description}</p>
+        )}
+
+        <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+          {details.map(({ label, value }) => (
+            <React.Fragment key={label}>
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd>{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+
+        {task.tags && task.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {task.tags.map(tag => (
+              <Badge key={tag.id} variant="outline" style={{ borderColor: tag.color || undefined }}>
+                {tag.name}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <Separator />
+
+        <div>
+          <h3 className="text-sm font-semibold mb-3">History</h3>
+          {/* Only fetch the history while the dialog is open */}
+          {open && <HistoryTimeline type="task" id={task.id} projects={projects} />}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskDetailDialog;
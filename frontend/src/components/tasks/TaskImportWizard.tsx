@@ -0,0 +1,268 @@
+/**
+ * @fileoverview TaskImportWizard brings tasks over from Todoist, Trello or Microsoft To Do export files.
+ * Step 1 picks the app and the files, step 2 reviews what will be created (existing projects with the same
+ * name are reused and tasks that are already there are skipped), and step 3 reports the result, including
+ * every row that could not be imported.
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/components/ui/use-toast";
+import { useTaskImport } from "@/hooks/useApi";
+import { describeRecurrence } from "@/utils/recurrence";
+import {
+  IMPORT_SOURCES,
+  ImportRowError,
+  ImportSource,
+  TaskImportPlan,
+  TaskImportReport,
+  mergeImports,
+  parseImportFile,
+} from "@/utils/taskImport";
+
+interface TaskImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RowErrors: React.FC<{ errors: ImportRowError[] }> = ({ errors }) => (
+  <ul className="space-y-1 text-sm max-h-40 overflow-y-auto">
+    {errors.map((error, index) => (
+      <li key={index} className="flex items-start gap-2">
+        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+        <span>
+          <span className="text-muted-foreground">{error.project}, {error.row}: </span>
+          {error.message}
+        </span>
+      </li>
+    ))}
+  </ul>
+);
+
+const PlanReview: React.FC<{ plan: TaskImportPlan }> = ({ plan }) => (
+  <div className="space-y-4">
+    {plan.projects.map(planned => {
+      const duplicates = planned.tasks.filter(({ duplicate }) => duplicate).length;
+      return (
+        <section key={planned.name} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <h3 className="font-medium">{planned.name}</h3>
+            <Badge variant="outline">{planned.project ? "Existing project" : "New project"}</Badge>
+            <span className="text-sm text-muted-foreground">
+              {planned.tasks.length - duplicates} new task{planned.tasks.length - duplicates === 1 ? "" : "s"}
+              {duplicates > 0 && `, ${duplicates} already imported`}
+            </span>
+          </div>
+          {planned.tasks.length > 0 && (
+            <div className="max-h-56 overflow-y-auto rounded-md border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>Labels</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {planned.tasks.map(({ task, duplicate }, index) => (
+                    <TableRow key={index} className={duplicate ? "text-muted-foreground" : ""}>
+                      <TableCell className={task.completed ? "line-through" : ""}>
+                        {task.title}
+                        {task.recurrence_pattern && (
+                          <div className="text-xs text-muted-foreground">{describeRecurrence(task.recurrence_pattern, task.dueDate)}</div>
+                        )}
+                        {task.warnings.map((warning, warningIndex) => (
+                          <div key={warningIndex} className="text-xs text-amber-600">{warning}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{task.dueDate ? format(new Date(task.dueDate), "PP") : "—"}</TableCell>
+                      <TableCell className="capitalize">{task.priority}</TableCell>
+                      <TableCell>{task.tags.join(", ") || "—"}</TableCell>
+                      <TableCell>{duplicate ? "Skipped (already imported)" : "New"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </section>
+      );
+    })}
+    {plan.errors.length > 0 && (
+      <div>
+        <p className="text-sm font-medium mb-1">
+          {plan.errors.length} row{plan.errors.length === 1 ? "" : "s"} cannot be imported
+        </p>
+        <RowErrors errors={plan.errors} />
+      </div>
+    )}
+  </div>
+);
+
+const TaskImportWizard: React.FC<TaskImportWizardProps> = ({ open, onOpenChange }) => {
+  const { toast } = useToast();
+  const { planTaskImport, runTaskImport, importingTasks, importProgress } = useTaskImport();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<ImportSource>("todoist");
+  const [plan, setPlan] = useState<TaskImportPlan | null>(null);
+  const [report, setReport] = useState<TaskImportReport | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const sourceInfo = IMPORT_SOURCES.find(option => option.value === source)!;
+  const newTaskCount = plan?.projects.reduce((sum, project) => sum + project.tasks.filter(({ duplicate }) => !duplicate).length, 0) ?? 0;
+
+  // Start over every time the wizard opens
+  useEffect(() => {
+    if (!open) return;
+    setPlan(null);
+    setReport(null);
+  }, [open]);
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = ""; // Choosing the same files again should read them again
+    if (files.length === 0) return;
+
+    setChecking(true);
+    try {
+      const parsed = await Promise.all(files.map(async file => {
+        try {
+          return parseImportFile(source, file.name, await file.text());
+        } catch (error) {
+          throw new Error(`${file.name}: ${(error as Error).message}`);
+        }
+      }));
+      setPlan(await planTaskImport(mergeImports(parsed)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Cannot import: ${(error as Error).message || "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    try {
+      setReport(await runTaskImport(plan));
+      setPlan(null);
+    } catch {
+      // useTaskImport already reports the failure with a toast
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !importingTasks && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import from another app</DialogTitle>
+          <DialogDescription>
+            {report
+              ? "Import complete."
+              : plan
+                ? "Check what will be created. Tasks that are already in a project with the same name are skipped, so importing the same file again is safe."
+                : "Bring your projects, tasks, priorities and labels over from Todoist, Trello or Microsoft To Do."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Created {report.tasks} task{report.tasks === 1 ? "" : "s"} and {report.projects} project{report.projects === 1 ? "" : "s"}
+              {report.duplicates > 0 && `; skipped ${report.duplicates} task${report.duplicates === 1 ? "" : "s"} that were already imported`}.
+            </p>
+            {report.errors.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-1">
+                  {report.errors.length} row{report.errors.length === 1 ? "" : "s"} could not be imported
+                </p>
+                <RowErrors errors={report.errors} />
+              </div>
+            )}
+          </div>
+        ) : plan ? (
+          importingTasks && importProgress ? (
+            <div className="space-y-2">
+              <p className="text-sm">Importing {importProgress.done} of {importProgress.total} tasks...</p>
+              <Progress value={importProgress.total > 0 ? (importProgress.done / importProgress.total) * 100 : 100} />
+            </div>
+          ) : (
+            <PlanReview plan={plan} />
+          )
+        ) : (
+          <div className="space-y-4">
+            <RadioGroup value={source} onValueChange={(value) => setSource(value as ImportSource)} className="space-y-1">
+              {IMPORT_SOURCES.map(option => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <RadioGroupItem value={option.value} id={`import-source-${option.value}`} />
+                  <Label htmlFor={`import-source-${option.value}`}>{option.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <p className="text-sm text-muted-foreground">{sourceInfo.hint}</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={sourceInfo.accept}
+              multiple={sourceInfo.multiple}
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={checking}>
+              <Upload className="mr-2 h-4 w-4" />
+              {checking ? "Checking..." : `Choose ${sourceInfo.label} export files...`}
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : plan ? (
+            <>
+              <Button variant="ghost" onClick={() => setPlan(null)} disabled={importingTasks}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={importingTasks || newTaskCount === 0}>
+                {importingTasks ? "Importing..." : `Import ${newTaskCount} task${newTaskCount === 1 ? "" : "s"}`}
+              </Button>
+            </>
+          ) : (
+            <Button variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskImportWizard;
@@ -1,15 +1,28 @@
 /**
  * @fileoverview TaskItem component for displaying a single task.
  * It includes a checkbox for completion, task title, optional project badge,
- * due date, and a delete button (visible on hover).
+ * tag chips, repeat and reminder icons, due date, and a delete button (visible on hover).
+ * When an update handler is provided, the row also opens TaskContextMenu on right-click.
+ * When a selection handler is provided, a second checkbox selects the task for bulk actions.
+ * Tasks with subtasks show how many of them are completed, and a chevron to collapse or expand
+ * them when TaskList renders them underneath. Open tasks that wait on open tasks show a "Blocked" badge.
+ * Tasks with an estimate or tracked focus time show the time tracked against the estimate, in red once it is overrun.
+ * Assigned tasks show the assignee's avatar.
  */
 
 import React from "react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useAuth } from "@/features/auth/auth-context";
 import { cn } from "@/lib/utils";
 import { Task, Project } from "@/types"; // Import Task and Project from the main types barrel file
-import { Trash2 } from "lucide-react"; // Import Trash2 icon directly for clarity
+import { Trash2, Repeat, Bell, ChevronDown, ChevronRight, ListChecks, Lock, Timer } from "lucide-react"; // Import Trash2 icon directly for clarity
+import { describeRecurrence } from "@/utils/recurrence";
+import { describeReminder } from "@/utils/reminders";
+import { formatMinutes, formatSeconds, isOverEstimate } from "@/utils/duration";
+import TaskContextMenu from "./TaskContextMenu";
 
 interface TaskItemProps {
   task: Task;
@@ -21,6 +34,12 @@ interface TaskItemProps {
   projects?: Project[];
   showProjectBadge?: boolean;
   currentProject?: Project | null;
+  selected?: boolean;
+  onToggleSelect?: (id: number) => void;
+  expanded?: boolean; // Whether the subtasks below the task are shown; undefined when none are listed
+  onToggleExpanded?: (id: number) => void;
+  onAddSubtask?: (parent: Task, title: string) => void;
+  readOnly?: boolean; // e.g. tasks of an archived project: no completing, deleting or context menu
 }
 
 const TaskItem: React.FC<TaskItemProps> = ({
@@ -33,19 +52,72 @@ const TaskItem: React.FC<TaskItemProps> = ({
   projects = [],
   showProjectBadge = false,
   currentProject = null,
+  selected = false,
+  onToggleSelect,
+  expanded,
+  onToggleExpanded,
+  onAddSubtask,
+  readOnly = false,
 }) => {
+  const { user } = useAuth();
+
   // Find the project this task belongs to
   const taskProject = showProjectBadge && task.project_id
     ? projects.find(p => p.id === task.project_id)
     : null;
 
-  return (
-    <div className="flex items-center justify-between py-2 px-3 hover:bg-accent/30 rounded-md transition-colors group">
+  // Reminders that have not fired yet
+  const pendingReminders = (task.reminders || []).filter(reminder => !reminder.sent_at);
+  const subtaskCount = task.subtask_count ?? 0;
+  const subtaskProgress = `${task.subtasks_completed ?? 0} of ${subtaskCount} subtasks completed`;
+  // Blockers that still have to be completed before the task can start
+  const openBlockers = task.completed ? [] : (task.blocked_by || []).filter(blocker => !blocker.completed);
+  const blockedBy = `Blocked by ${openBlockers.map(blocker => `"${blocker.title}"`).join(", ")}`;
+  // Focus time tracked against the estimate
+  const trackedSeconds = task.tracked_seconds ?? 0;
+  const overEstimate = isOverEstimate(trackedSeconds, task.estimate_minutes);
+  const timeSummary = task.estimate_minutes
+    ? `${formatSeconds(trackedSeconds)} tracked of ${formatMinutes(task.estimate_minutes)} estimated`
+    : `${formatSeconds(trackedSeconds)} tracked, no estimate`;
+  const assignee = task.assignee_id === user?.id ? "you" : task.assignee_email || "someone";
+
+  const row = (
+    <div
+      className={cn(
+        "flex items-center justify-between py-2 px-3 hover:bg-accent/30 rounded-md transition-colors group",
+        selected && "bg-accent/40"
+      )}
+    >
       <div className="flex items-center gap-3">
+        {expanded !== undefined && onToggleExpanded && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onToggleExpanded(task.id)}
+            className="h-5 w-5 p-0 -mr-1 text-muted-foreground"
+            aria-expanded={expanded}
+          >
+            <span className="sr-only">{expanded ? "Collapse subtasks" : "Expand subtasks"}</span>
+            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </Button>
+        )}
+        {onToggleSelect && (
+          // Hidden until hover on larger screens, unless the task is selected
+          <Checkbox
+            checked={selected}
+            onCheckedChange={() => onToggleSelect(task.id)}
+            aria-label={`Select ${task.title}`}
+            className={cn(
+              "rounded-full border-muted-foreground",
+              !selected && "md:opacity-0 md:group-hover:opacity-100 md:focus-visible:opacity-100"
+            )}
+          />
+        )}
         <Checkbox
           id={`task-${task.id}`}
           checked={task.completed}
           onCheckedChange={() => onToggleComplete(task.id)}
+          disabled={readOnly}
         />
         <div>
           <label
@@ -70,10 +142,74 @@ const TaskItem: React.FC<TaskItemProps> = ({
               </span>
             </div>
           )}
+
+          {task.tags && task.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {task.tags.map(tag => (
+                <span
+                  key={tag.id}
+                  className="inline-flex items-center rounded-full border border-border px-2 py-0.5 text-[10px] text-muted-foreground"
+                >
+                  <span
+                    className="w-1.5 h-1.5 rounded-full mr-1"
+                    style={{ backgroundColor: tag.color || '#ccc' }}
+                  />
+                  {tag.name}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
       <div className="flex items-center gap-2">
+        {openBlockers.length > 0 && (
+          <Badge variant="outline" title={blockedBy} className="gap-1 px-1.5 py-0 text-[10px] font-normal text-amber-600 border-amber-300">
+            <Lock className="h-3 w-3" />
+            Blocked
+            <span className="sr-only">{blockedBy}</span>
+          </Badge>
+        )}
+        {subtaskCount > 0 && (
+          <span title={subtaskProgress} className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+            <ListChecks className="h-3 w-3" />
+            <span aria-hidden="true">{task.subtasks_completed ?? 0}/{subtaskCount}</span>
+            <span className="sr-only">{subtaskProgress}</span>
+          </span>
+        )}
+        {(task.estimate_minutes || trackedSeconds > 0) && (
+          <span
+            title={timeSummary}
+            className={cn("inline-flex items-center gap-1 text-xs", overEstimate ? "text-destructive" : "text-muted-foreground")}
+          >
+            <Timer className="h-3 w-3" />
+            <span aria-hidden="true">
+              {formatSeconds(trackedSeconds)}{task.estimate_minutes ? ` / ${formatMinutes(task.estimate_minutes)}` : ""}
+            </span>
+            <span className="sr-only">{timeSummary}</span>
+          </span>
+        )}
+        {task.is_recurring && task.recurrence_pattern && (
+          <span title={describeRecurrence(task.recurrence_pattern, task.dueDate)} className="text-muted-foreground">
+            <Repeat className="h-3 w-3" />
+            <span className="sr-only">{describeRecurrence(task.recurrence_pattern, task.dueDate)}</span>
+          </span>
+        )}
+        {pendingReminders.length > 0 && (
+          <span title={pendingReminders.map(describeReminder).join(", ")} className="text-muted-foreground">
+            <Bell className="h-3 w-3" />
+            <span className="sr-only">Reminders: {pendingReminders.map(describeReminder).join(", ")}</span>
+          </span>
+        )}
+        {task.assignee_id && (
+          <Avatar className="h-5 w-5" title={`Assigned to ${assignee}`}>
+            {task.assignee_id === user?.id && user.imageUrl && <AvatarImage src={user.imageUrl} alt="" />}
+            <AvatarFallback className="text-[10px]">
+              {(task.assignee_email || "?").charAt(0).toUpperCase()}
+            </AvatarFallback>
+            <span className="sr-only">Assigned to {assignee}</span>
+          </Avatar>
+        )}
         {task.dueDate && (
           <span className="text-xs text-muted-foreground">
             {/* Format date only if dueDate is a valid date string */}
@@ -81,7 +217,7 @@ const TaskItem: React.FC<TaskItemProps> = ({
           </span>
         )}
         {/* The delete button using a custom SVG, replaced with Trash2 for consistency and clarity */}
-        <div className="hidden md:block">
+        <div className={readOnly ? "hidden" : "hidden md:block"}>
           <Button
             variant="ghost"
             size="sm"
@@ -95,6 +231,27 @@ const TaskItem: React.FC<TaskItemProps> = ({
       </div>
     </div>
   );
+
+  // Without an update handler the row is read-only, so there is no context menu
+  if (!onUpdateTask || readOnly) {
+    return row;
+  }
+
+  return (
+    <div className="flex items-center">
+      <TaskContextMenu
+        task={task}
+        projects={projects}
+        onUpdateTask={onUpdateTask}
+        onDeleteTask={onDeleteTask}
+        onDuplicateTask={onDuplicateTask || (() => {})}
+        onMoveTask={onMoveTask || ((taskId, projectId) => onUpdateTask(taskId, { project_id: projectId }))}
+        onAddSubtask={onAddSubtask}
+      >
+        {row}
+      </TaskContextMenu>
+    </div>
+  );
 };
 
 export default TaskItem;
@@ -1,11 +1,32 @@
 /**
  * @fileoverview TaskList component for rendering a collection of TaskItem components.
  * It serves as a container for displaying lists of tasks.
+ * Subtasks are rendered indented under their parent when the parent is in the list as well, and can be
+ * collapsed; subtasks whose parent is not in the list (e.g. filtered out) are shown at the top level.
+ * With `onCompleteWithSubtasks`, completing a task with open subtasks asks whether to complete them too.
+ * With `onBulkAction`, tasks can be multi-selected and changed together from a BulkActionBar.
+ * With `onReorder`, tasks can be dragged up and down among their siblings to change the manual order;
+ * the list shows the new order right away and keeps it until the reordered list arrives from the server.
+ * With `readOnly` (e.g. the tasks of an archived project), tasks can only be looked at; so can the tasks of
+ * shared projects the user is a viewer of.
  */
 
-import React from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import TaskItem from "./TaskItem";
-import { Task, Project } from "@/types"; // Import Task and Project from the main types barrel file
+import BulkActionBar from "./BulkActionBar";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Task, Project, BulkTaskOperation, TaskPlacement } from "@/types"; // Import Task and Project from the main types barrel file
+import { useTaskSelection } from "@/hooks/useTaskSelection";
+import { cn } from "@/lib/utils";
 
 interface TaskListProps {
   tasks: Task[];
@@ -14,11 +35,27 @@ interface TaskListProps {
   onUpdateTask?: (id: number, updates: Partial<Task>) => void;
   onDuplicateTask?: (task: Task) => void;
   onMoveTask?: (taskId: number, projectId: number) => void;
+  onAddSubtask?: (parent: Task, title: string) => void;
+  onCompleteWithSubtasks?: (id: number) => void;
   projects?: Project[];
   showProjectBadge?: boolean;
   currentProject?: Project | null;
+  onBulkAction?: (ids: number[], operation: BulkTaskOperation) => Promise<unknown>;
+  onReorder?: (id: number, placement: TaskPlacement) => void;
+  readOnly?: boolean;
 }
 
+// `tasks` with task `id` moved to the place the server will give it
+const applyPlacement = (tasks: Task[], id: number, { previous_id, next_id }: TaskPlacement) => {
+  const moved = tasks.find(task => task.id === id);
+  const rest = tasks.filter(task => task.id !== id);
+  const index = previous_id
+    ? rest.findIndex(task => task.id === previous_id) + 1
+    : rest.findIndex(task => task.id === next_id);
+  if (!moved || index < 0 || (previous_id && index === 0)) return tasks;
+  return [...rest.slice(0, index), moved, ...rest.slice(index)];
+};
+
 const TaskList: React.FC<TaskListProps> = ({
   tasks,
   onToggleComplete,
@@ -26,34 +63,197 @@ const TaskList: React.FC<TaskListProps> = ({
   onUpdateTask,
   onDuplicateTask,
   onMoveTask,
+  onAddSubtask,
+  onCompleteWithSubtasks,
   projects = [],
   showProjectBadge = false,
   currentProject = null,
+  onBulkAction,
+  onReorder,
+  readOnly = false,
 }) => {
+  const selection = useTaskSelection(tasks);
+  const [collapsedIds, setCollapsedIds] = useState<Set<number>>(new Set());
+  // The task being completed while the user decides what happens to its open subtasks
+  const [completing, setCompleting] = useState<Task | null>(null);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  // The row the dragged task would be dropped on, and whether it goes below (or above) that row
+  const [dropTarget, setDropTarget] = useState<{ id: number; below: boolean } | null>(null);
+  // The last move, shown until the tasks come back from the server in their new order
+  const [pendingMove, setPendingMove] = useState<{ id: number; placement: TaskPlacement } | null>(null);
+
+  useEffect(() => {
+    setPendingMove(null);
+  }, [tasks]);
+
+  // Top-level tasks and the subtasks of each listed task, in list order
+  const { rootTasks, subtasksByParent } = useMemo(() => {
+    const ordered = pendingMove ? applyPlacement(tasks, pendingMove.id, pendingMove.placement) : tasks;
+    const listedIds = new Set(ordered.map(task => task.id));
+    const subtasks = new Map<number, Task[]>();
+    const roots: Task[] = [];
+    for (const task of ordered) {
+      if (task.parent_task_id && listedIds.has(task.parent_task_id)) {
+        subtasks.set(task.parent_task_id, [...(subtasks.get(task.parent_task_id) || []), task]);
+      } else {
+        roots.push(task);
+      }
+    }
+    return { rootTasks: roots, subtasksByParent: subtasks };
+  }, [tasks, pendingMove]);
+
   if (tasks.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
-        <p>No tasks yet. Add one to get started!</p>
+        <p>{readOnly ? "No tasks." : "No tasks yet. Add one to get started!"}</p>
       </div>
     );
   }
 
+  const handleToggleExpanded = (id: number) => {
+    setCollapsedIds(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleToggleComplete = (id: number) => {
+    const task = tasks.find(t => t.id === id);
+    const openSubtasks = (task?.subtask_count ?? 0) - (task?.subtasks_completed ?? 0);
+    if (task && !task.completed && openSubtasks > 0 && onCompleteWithSubtasks) {
+      setCompleting(task);
+      return;
+    }
+    onToggleComplete(id);
+  };
+
+  // The tasks shown at the same level as `task`: its parent's subtasks, or the top-level tasks
+  const siblingsOf = (task: Task) => (task.parent_task_id && subtasksByParent.get(task.parent_task_id)) || rootTasks;
+
+  // Tasks can only be dropped among their own siblings
+  const canDropOn = (target: Task) =>
+    draggedId !== null && draggedId !== target.id && siblingsOf(target).some(task => task.id === draggedId);
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (target: Task, below: boolean) => {
+    const dragged = tasks.find(task => task.id === draggedId);
+    handleDragEnd();
+    if (!dragged || !onReorder || !canDropOn(target)) return;
+
+    const current = siblingsOf(target);
+    const siblings = current.filter(task => task.id !== dragged.id);
+    const index = siblings.findIndex(task => task.id === target.id) + (below ? 1 : 0);
+    const placement = { previous_id: siblings[index - 1]?.id ?? null, next_id: siblings[index]?.id ?? null };
+
+    // Dropped right where it already was
+    const at = current.findIndex(task => task.id === dragged.id);
+    if ((current[at - 1]?.id ?? null) === placement.previous_id && (current[at + 1]?.id ?? null) === placement.next_id) return;
+
+    setPendingMove({ id: dragged.id, placement });
+    onReorder(dragged.id, placement);
+  };
+
+  const openSubtaskCount = completing ? (completing.subtask_count ?? 0) - (completing.subtasks_completed ?? 0) : 0;
+
+  // Tasks of shared projects the user only views, e.g. in the All Tasks list
+  const isViewedOnly = (task: Task) => projects.some(project => project.id === task.project_id && project.role === "viewer");
+
+  const renderTask = (task: Task): React.ReactNode => {
+    const subtasks = subtasksByParent.get(task.id);
+    const expanded = subtasks ? !collapsedIds.has(task.id) : undefined;
+    const taskReadOnly = readOnly || isViewedOnly(task);
+    return (
+      <div key={task.id}>
+        <div
+          draggable={!!onReorder && !taskReadOnly}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData("text/plain", String(task.id));
+            setDraggedId(task.id);
+          }}
+          onDragOver={(e) => {
+            if (!canDropOn(task)) return;
+            e.preventDefault();
+            const rect = e.currentTarget.getBoundingClientRect();
+            const below = e.clientY > rect.top + rect.height / 2;
+            if (dropTarget?.id !== task.id || dropTarget.below !== below) setDropTarget({ id: task.id, below });
+          }}
+          onDragLeave={() => setDropTarget(target => (target?.id === task.id ? null : target))}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(task, dropTarget?.id === task.id && dropTarget.below);
+          }}
+          onDragEnd={handleDragEnd}
+          className={cn(
+            onReorder && "border-y-2 border-transparent",
+            draggedId === task.id && "opacity-50",
+            dropTarget?.id === task.id && (dropTarget.below ? "border-b-primary" : "border-t-primary")
+          )}
+        >
+          <TaskItem
+            task={task}
+            onToggleComplete={handleToggleComplete}
+            onDeleteTask={onDelete} // Pass onDelete to onDeleteTask prop of TaskItem
+            onUpdateTask={onUpdateTask}
+            onDuplicateTask={onDuplicateTask}
+            onMoveTask={onMoveTask}
+            onAddSubtask={onAddSubtask}
+            projects={projects}
+            showProjectBadge={showProjectBadge}
+            currentProject={currentProject}
+            selected={selection.isSelected(task.id)}
+            onToggleSelect={taskReadOnly ? undefined : onBulkAction && selection.toggle}
+            expanded={expanded}
+            onToggleExpanded={handleToggleExpanded}
+            readOnly={taskReadOnly}
+          />
+        </div>
+        {subtasks && expanded && (
+          <div className="ml-6 pl-2 border-l border-border space-y-1">
+            {subtasks.map(renderTask)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-1">
-      {tasks.map((task) => (
-        <TaskItem
-          key={task.id}
-          task={task}
-          onToggleComplete={onToggleComplete}
-          onDeleteTask={onDelete} // Pass onDelete to onDeleteTask prop of TaskItem
-          onUpdateTask={onUpdateTask}
-          onDuplicateTask={onDuplicateTask}
-          onMoveTask={onMoveTask}
+      {onBulkAction && selection.selectedIds.length > 0 && (
+        <BulkActionBar
+          selectedIds={selection.selectedIds}
+          totalCount={tasks.length}
           projects={projects}
-          showProjectBadge={showProjectBadge}
-          currentProject={currentProject}
+          onSelectAll={selection.selectAll}
+          onClearSelection={selection.clear}
+          onBulkAction={onBulkAction}
         />
-      ))}
+      )}
+      {rootTasks.map(renderTask)}
+
+      <AlertDialog open={completing !== null} onOpenChange={(open) => !open && setCompleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Complete the subtasks too?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{completing?.title}" has {openSubtaskCount} open subtask{openSubtaskCount === 1 ? "" : "s"}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => completing && onToggleComplete(completing.id)}>
+              Only this task
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={() => completing && onCompleteWithSubtasks?.(completing.id)}>
+              Complete all
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,14 @@
+import React from 'react';
+import ClerkAuthProvider from './ClerkAuthProvider';
+import LocalAuthProvider from './LocalAuthProvider';
+import { AUTH_PROVIDER } from './auth-context';
+
+/**
+ * Provides the auth session (see useAuth) from the provider selected by VITE_AUTH_PROVIDER.
+ */
+const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
+  AUTH_PROVIDER === 'local'
+    ? <LocalAuthProvider>{children}</LocalAuthProvider>
+    : <ClerkAuthProvider>{children}</ClerkAuthProvider>;
+
+export default AuthProvider;
@@ -0,0 +1,43 @@
+import React, { useMemo } from 'react';
+import { ClerkProvider, useAuth as useClerkAuth, useUser } from '@clerk/clerk-react';
+import { AuthSession } from '@/types';
+import { AuthContext } from './auth-context';
+
+// Get Clerk publishable key from environment variables
+const clerkPubKey = import.meta.env.VITE_CLERK_PUBLISHABLE_KEY;
+
+// Exposes Clerk's session through the app's AuthContext
+const ClerkSessionBridge: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isLoaded, isSignedIn, orgId, getToken, signOut } = useClerkAuth();
+  const { user } = useUser();
+
+  const session = useMemo<AuthSession>(() => ({
+    provider: 'clerk',
+    isLoaded,
+    isSignedIn: !!isSignedIn,
+    user: user
+      ? {
+          id: user.id,
+          email: user.primaryEmailAddress?.emailAddress ?? null,
+          name: user.fullName,
+          imageUrl: user.imageUrl,
+        }
+      : null,
+    getToken: () => getToken({ template: 'backend' }), // 'backend' template is often used for custom backends
+    signOut: () => signOut(),
+    orgId: orgId ?? null,
+  }), [isLoaded, isSignedIn, orgId, user, getToken, signOut]);
+
+  return <AuthContext.Provider value={session}>{children}</AuthContext.Provider>;
+};
+
+/**
+ * Default auth provider: Clerk-hosted accounts (VITE_CLERK_PUBLISHABLE_KEY).
+ */
+const ClerkAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ClerkProvider publishableKey={clerkPubKey}>
+    <ClerkSessionBridge>{children}</ClerkSessionBridge>
+  </ClerkProvider>
+);
+
+export default ClerkAuthProvider;
@@ -0,0 +1,68 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { loginLocalUser } from '@/api/auth';
+import { AuthSession, AuthUser } from '@/types';
+import { AuthContext, LocalSignInContext } from './auth-context';
+
+const TOKEN_STORAGE_KEY = 'focusflow.localAuthToken';
+
+// Reads the claims of a stored token; expired or malformed tokens count as signed out.
+// The backend checks the signature, so this only needs to decode the payload.
+const claimsFromToken = (token: string | null) => {
+  if (!token) return null;
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload));
+    if (typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+};
+
+const userFromToken = (token: string | null): AuthUser | null => {
+  const claims = claimsFromToken(token);
+  return claims && { id: claims.sub, email: claims.email ?? null, name: claims.name ?? null };
+};
+
+/**
+ * Auth provider for offline development and automated tests: signs in as one of the backend's
+ * seeded users (AUTH_PROVIDER=local) and keeps the issued token in localStorage.
+ */
+const LocalAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [token, setToken] = useState<string | null>(() => {
+    const stored = localStorage.getItem(TOKEN_STORAGE_KEY);
+    return userFromToken(stored) ? stored : null;
+  });
+
+  const signInAs = useCallback(async (userId: string) => {
+    const { token: newToken } = await loginLocalUser(userId);
+    localStorage.setItem(TOKEN_STORAGE_KEY, newToken);
+    setToken(newToken);
+  }, []);
+
+  const session = useMemo<AuthSession>(() => {
+    const user = userFromToken(token);
+    return {
+      provider: 'local',
+      isLoaded: true,
+      isSignedIn: !!user,
+      user,
+      getToken: async () => (userFromToken(token) ? token : null),
+      signOut: async () => {
+        localStorage.removeItem(TOKEN_STORAGE_KEY);
+        setToken(null);
+      },
+      orgId: claimsFromToken(token)?.org_id ?? null,
+    };
+  }, [token]);
+
+  return (
+    <AuthContext.Provider value={session}>
+      <LocalSignInContext.Provider value={signInAs}>
+        {children}
+      </LocalSignInContext.Provider>
+    </AuthContext.Provider>
+  );
+};
+
+export default LocalAuthProvider;
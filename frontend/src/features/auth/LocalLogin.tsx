@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { getLocalUsers } from '@/api/auth';
+import { LocalAuthUser } from '@/types';
+import { useAuth, useLocalSignIn } from './auth-context';
+
+// Login page for VITE_AUTH_PROVIDER=local: pick one of the backend's seeded users
+const LocalLogin: React.FC = () => {
+  const { isSignedIn } = useAuth();
+  const signInAs = useLocalSignIn();
+  const navigate = useNavigate();
+
+  const [users, setUsers] = useState<LocalAuthUser[] | null>(null);
+  const [error, setError] = useState('');
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null);
+
+  // Redirect if already signed in
+  useEffect(() => {
+    if (isSignedIn) {
+      navigate('/app');
+    }
+  }, [isSignedIn, navigate]);
+
+  useEffect(() => {
+    getLocalUsers()
+      .then(setUsers)
+      .catch((err: Error) => setError(`${err.message}. Is the backend running with AUTH_PROVIDER=local?`));
+  }, []);
+
+  const handleSignIn = async (userId: string) => {
+    setError('');
+    setPendingUserId(userId);
+    try {
+      await signInAs(userId);
+      navigate('/app');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  if (isSignedIn) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#1A1A1A] font-sans">
+      <div className="w-full max-w-md p-6 bg-[#282828] shadow-xl rounded-lg border border-[#3A3A3A]">
+        <div className="text-center mb-6">
+          <h1 className="text-3xl font-bold text-white mb-1">Local sign in</h1>
+          <p className="text-gray-400">Development mode: choose a seeded user</p>
+        </div>
+
+        <div className="space-y-3">
+          {users === null && !error && <p className="text-gray-400 text-sm text-center">Loading users...</p>}
+          {users?.map(user => (
+            <button
+              key={user.id}
+              type="button"
+              disabled={pendingUserId !== null}
+              onClick={() => handleSignIn(user.id)}
+              className="w-full flex flex-col items-start px-4 py-2 border border-[#3A3A3A] rounded-md text-left text-white bg-[#3A3A3A] hover:bg-[#4A4A4A] focus:outline-none focus:ring-2 focus:ring-[#FF8C00] transition duration-200 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <span className="font-medium">{pendingUserId === user.id ? 'Signing in...' : user.name}</span>
+              <span className="text-sm text-gray-400">
+                {user.email}
+                {user.orgId && ` · ${user.orgRole} in ${user.orgId}`}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="text-red-500 text-sm text-center mt-4">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default LocalLogin;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { UserButton } from '@clerk/clerk-react';
+import { LogOut } from 'lucide-react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { AUTH_PROVIDER, useAuth } from './auth-context';
+
+// Account menu for the local provider, standing in for Clerk's UserButton
+const LocalUserMenu: React.FC = () => {
+  const { user, signOut } = useAuth();
+  const label = user?.name || user?.email || user?.id || '';
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="rounded-full focus:outline-none focus:ring-2 focus:ring-ring" aria-label="Account">
+        <Avatar className="h-7 w-7">
+          <AvatarFallback className="text-xs">{label.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="right" align="end">
+        <DropdownMenuLabel className="font-normal">
+          <div className="font-medium">{label}</div>
+          {user?.email && <div className="text-xs text-muted-foreground">{user.email}</div>}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => signOut()}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+// The signed-in user's avatar and account menu for the active auth provider
+const UserMenu: React.FC = () => (AUTH_PROVIDER === 'local' ? <LocalUserMenu /> : <UserButton />);
+
+export default UserMenu;
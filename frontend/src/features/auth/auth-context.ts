@@ -0,0 +1,33 @@
+import { createContext, useContext } from 'react';
+import { AuthProviderName, AuthSession } from '@/types';
+
+// Selected at build time; 'local' signs in as a seeded user against a backend running with AUTH_PROVIDER=local
+export const AUTH_PROVIDER: AuthProviderName = import.meta.env.VITE_AUTH_PROVIDER === 'local' ? 'local' : 'clerk';
+
+export const AuthContext = createContext<AuthSession | null>(null);
+
+/**
+ * Returns the current auth session from the active provider (Clerk or local).
+ * Must be called inside <AuthProvider>.
+ */
+export function useAuth(): AuthSession {
+  const session = useContext(AuthContext);
+  if (!session) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return session;
+}
+
+// Only provided by the local auth provider: exchanges a seeded user's ID for a token
+export const LocalSignInContext = createContext<((userId: string) => Promise<void>) | null>(null);
+
+/**
+ * Returns the local provider's sign-in function. Must be called inside the local <AuthProvider>.
+ */
+export function useLocalSignIn() {
+  const signInAs = useContext(LocalSignInContext);
+  if (!signInAs) {
+    throw new Error('useLocalSignIn requires VITE_AUTH_PROVIDER=local');
+  }
+  return signInAs;
+}
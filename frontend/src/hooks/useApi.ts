@@ -1,27 +1,41 @@
 // frontend/src/hooks/useApi.ts
 /**
- * @fileoverview Custom React hooks for fetching and managing application data (Tasks, Projects, Notes).
+ * @fileoverview Custom React hooks for fetching and managing application data (Tasks, Projects, Project statuses, Notes, Focus Sessions, Tags,
+ * Reminders, Dependencies, Notifications, Trash, Change history, Search, Export / import, Calendar feed,
+ * Imports from other task managers).
  * These hooks now utilize React Query for robust data fetching, caching, and state management,
  * leveraging the centralized API service functions from '@/api' for authenticated operations.
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '@clerk/clerk-react'; // Needed to check auth status for fetching
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/features/auth/auth-context'; // Needed to check auth status for fetching
 import { toast } from '@/components/ui/use-toast'; // For displaying notifications
 
 // Import the API service hooks (assuming they are now memoized and stable)
-import { useTasksApi, useProjectsApi, useNotesApi } from '@/api';
+import { useTasksApi, useProjectsApi, useProjectStatusesApi, useNotesApi, useFocusSessionsApi, useTagsApi, useRemindersApi, useDependenciesApi, useNotificationsApi, useTrashApi, useHistoryApi, useSearchApi, useArchiveApi, useCalendarFeedApi, HistorySubjectType, FocusSessionRange, TaskFilters, NoteFilters, UpdateTaskOptions } from '@/api';
 
 // Import your defined types
-import { Task, Project, Note } from '@/types';
-import { useState } from 'react';
+import { Task, TaskPlacement, TaskTime, Project, ProjectMember, ProjectSharing, ProjectStatus, ProjectStatusInput, Note, FocusSession, Tag, NewTaskReminder, Notification, NotificationList, BulkTaskOperation, BulkTaskResult, TrashItemType, TrashList, HistoryList, SearchResponse, ImportResult, CalendarFeed, CalendarImportResult, CalendarTaskPreview } from '@/types';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { ParsedImport, PlannedImportProject, TaskImportPlan, TaskImportReport, taskImportKey } from '@/utils/taskImport';
 
 // Define query keys for React Query caching
 // This helps React Query identify and manage cached data.
 const queryKeys = {
   tasks: ['tasks'],
   projects: ['projects'],
+  // Statuses carry task counts, so they sit under the tasks key and refresh whenever the tasks do
+  projectStatuses: ['tasks', 'projectStatuses'], // Followed by the project ID
+  taskTime: ['tasks', 'time'], // Followed by the task ID
   notes: ['notes'],
+  focusSessions: ['focusSessions'],
+  activeFocusSession: ['focusSessions', 'active'],
+  tags: ['tags'],
+  notifications: ['notifications'],
+  trash: ['trash'],
+  history: ['history'], // Followed by the item type and ID
+  search: ['search'], // Followed by the query
+  calendarFeed: ['calendarFeed'],
   // You might add specific keys if you fetch individual items or filtered lists:
   // task: (id: number) => ['tasks', id],
   // project: (id: number) => ['projects', id],
@@ -30,46 +44,69 @@ const queryKeys = {
 
 
 /**
- * Custom hook for managing tasks using React Query.
- * Provides functions for fetching, adding, updating, deleting, and duplicating tasks.
+ * Custom hook for reading one filtered list of tasks, a page at a time.
+ * Each filter set is cached separately; `loadMoreTasks` appends the next page to `tasks`.
+ * Use this for extra read-only lists on a page that already calls `useTasks`.
+ * @param filters Optional server-side filters, sorting and page size (see TaskFilters).
  */
-export function useTasks() {
+export function useTaskList(filters: TaskFilters = {}) {
   const { isSignedIn } = useAuth();
+  const { getTasks: getTasksApi } = useTasksApi();
+
+  const {
+    data: tasksData,
+    isLoading: tasksLoading,
+    error: tasksError,
+    refetch: refetchTasks,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [...queryKeys.tasks, filters],
+    queryFn: ({ pageParam }) => getTasksApi({ ...filters, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: isSignedIn,
+    // Keep showing the previous list while a new filter set loads
+    placeholderData: (previousData) => previousData,
+  });
+
+  // Flatten the loaded pages into a single list
+  const tasks = useMemo(() => tasksData?.pages.flatMap(page => page.data) ?? [], [tasksData]);
+
+  return {
+    tasks,
+    totalTasks: tasksData?.pages[0]?.total ?? 0, // Number of tasks matching the filters, not just the loaded ones
+    hasMoreTasks: hasNextPage,
+    loadMoreTasks: fetchNextPage,
+    loadingMoreTasks: isFetchingNextPage,
+    tasksLoading,
+    tasksError: tasksError?.message || null,
+    refetchTasks,
+  };
+}
+
+/**
+ * Custom hook for managing tasks using React Query.
+ * Provides a paged task list (see useTaskList) and functions for adding, updating, deleting, duplicating,
+ * reordering and bulk-updating tasks.
+ * @param filters Optional server-side filters, sorting and page size (see TaskFilters).
+ */
+export function useTasks(filters: TaskFilters = {}) {
   const queryClient = useQueryClient(); // Get the query client instance
   const showToast = toast; // Alias toast for consistent usage
 
   // Renamed API functions when destructuring to avoid clashes
   const {
-    getTasks: getTasksApi,
     createTask: createTaskApi,
     updateTask: updateTaskApi,
     deleteTask: deleteTaskApi,
     duplicateTask: duplicateTaskApi,
+    reorderTask: reorderTaskApi,
+    bulkUpdateTasks: bulkUpdateTasksApi,
   } = useTasksApi();
 
-  const [tasks, setTasks] = useState<Task[]>([]); // Keep for now if needed for intermediate states or non-RQ management
-
-  // useQuery for fetching tasks
-  const {
-    data: tasksData, // Renamed 'data' to 'tasksData' to avoid conflict with 'tasks' state, though you might just use data from RQ
-    isLoading: tasksLoading,
-    error: tasksError,
-    refetch: refetchTasks,
-  } = useQuery<Task[], Error>({
-    queryKey: queryKeys.tasks,
-    queryFn: getTasksApi, // Use the renamed API function
-    enabled: isSignedIn,
-    initialData: [],
-    placeholderData: (previousData) => previousData,
-    onError: (error) => {
-      console.error("Failed to fetch tasks:", error);
-      showToast({
-        title: "Error",
-        description: `Failed to load tasks: ${error.message || 'Unknown error'}`,
-        variant: "destructive",
-      });
-    },
-  });
+  const taskList = useTaskList(filters);
 
   // useMutation for adding a task
   const addTaskMutation = useMutation<Task, Error, Omit<Task, 'id' | 'user_id' | 'created_at' | 'updated_at'>>({
@@ -92,13 +129,23 @@ export function useTasks() {
   });
 
   // useMutation for updating a task
-  const updateTaskMutation = useMutation<Task, Error, { id: number; updates: Partial<Task> }>({
-    mutationFn: ({ id, updates }) => updateTaskApi(id, updates), // Use the renamed API function
+  const updateTaskMutation = useMutation<Task, Error, { id: number; updates: Partial<Task>; options?: UpdateTaskOptions }>({
+    mutationFn: ({ id, updates, options }) => updateTaskApi(id, updates, options), // Use the renamed API function
     onSuccess: (updatedTask) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects }); // Open task counts and estimate totals
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.history, 'task'] });
+      // Completing a recurring task creates its next occurrence on the server
+      const next = updatedTask.next_occurrence;
+      const subtaskCount = updatedTask.completed_subtasks?.length ?? 0;
+      const withSubtasks = subtaskCount > 0 ? ` with ${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'}` : '';
       showToast({
         title: "Success",
-        description: `Task "${updatedTask.title}" updated.`,
+        description: next
+          ? `Task "${updatedTask.title}" completed${withSubtasks}. Next occurrence${next.dueDate ? ` due ${new Date(next.dueDate).toLocaleDateString()}` : ' created'}.`
+          : subtaskCount > 0
+            ? `Task "${updatedTask.title}" completed${withSubtasks}.`
+            : `Task "${updatedTask.title}" updated.`,
       });
     },
     onError: (error) => {
@@ -116,9 +163,10 @@ export function useTasks() {
     mutationFn: deleteTaskApi, // Use the renamed API function
     onSuccess: () => { // Removed 'data, id' as they are not needed when invalidating
       queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
       showToast({
         title: "Success",
-        description: "Task deleted.",
+        description: "Task moved to trash.",
       });
     },
     onError: (error) => {
@@ -151,22 +199,67 @@ export function useTasks() {
     },
   });
 
+  // useMutation for moving a task in the manual order; no toast, the list itself shows the result
+  const reorderTaskMutation = useMutation<Task, Error, { id: number; placement: TaskPlacement }>({
+    mutationFn: ({ id, placement }) => reorderTaskApi(id, placement),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks }),
+    onError: (error) => {
+      console.error("Failed to move task:", error);
+      showToast({
+        title: "Error",
+        description: `Failed to move task: ${error.message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // useMutation for applying one operation to several tasks
+  const bulkUpdateTasksMutation = useMutation<BulkTaskResult, Error, { ids: number[]; operation: BulkTaskOperation }>({
+    mutationFn: ({ ids, operation }) => bulkUpdateTasksApi(ids, operation),
+    onSuccess: (result, { ids, operation }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.history, 'task'] });
+      if (operation.type === 'delete') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+      }
+      const count = `${ids.length} task${ids.length === 1 ? '' : 's'}`;
+      const nextCount = result.next_occurrences.length;
+      showToast({
+        title: "Success",
+        description: operation.type === 'delete'
+          ? `${count} moved to trash.`
+          : operation.type === 'complete' && nextCount > 0
+            ? `${count} completed. ${nextCount} next occurrence${nextCount === 1 ? '' : 's'} created.`
+            : `${count} updated.`,
+      });
+    },
+    onError: (error) => {
+      console.error("Failed to update tasks:", error);
+      showToast({
+        title: "Error",
+        description: `Failed to update tasks: ${error.message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Expose simplified functions to the component using mutation triggers
   const addTask = (taskData: Omit<Task, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => addTaskMutation.mutateAsync(taskData);
-  const updateTask = (id: number, updates: Partial<Task>) => updateTaskMutation.mutateAsync({ id, updates });
+  const updateTask = (id: number, updates: Partial<Task>, options?: UpdateTaskOptions) => updateTaskMutation.mutateAsync({ id, updates, options });
   const deleteTask = (id: number) => deleteTaskMutation.mutateAsync(id);
   const duplicateTask = (task: Task) => duplicateTaskMutation.mutateAsync(task); // Renamed to avoid previous clash, now matches common use
+  const reorderTask = (id: number, placement: TaskPlacement) => reorderTaskMutation.mutateAsync({ id, placement });
+  const bulkUpdateTasks = (ids: number[], operation: BulkTaskOperation) => bulkUpdateTasksMutation.mutateAsync({ ids, operation });
 
   return {
     // Return data from React Query, not local state
-    tasks: tasksData || [],
-    tasksLoading,
-    tasksError: tasksError?.message || null,
+    ...taskList,
     addTask,
     updateTask,
     deleteTask,
     duplicateTask,
-    refetchTasks,
+    reorderTask,
+    bulkUpdateTasks,
   };
 }
 
@@ -184,6 +277,8 @@ export function useProjects() {
     getProjects: getProjectsApi,
     createProject: createProjectApi,
     updateProject: updateProjectApi,
+    archiveProject: archiveProjectApi,
+    unarchiveProject: unarchiveProjectApi,
     deleteProject: deleteProjectApi,
   } = useProjectsApi();
 
@@ -196,7 +291,7 @@ export function useProjects() {
     refetch: refetchProjects,
   } = useQuery<Project[], Error>({
     queryKey: queryKeys.projects,
-    queryFn: getProjectsApi, // Use the renamed API function
+    queryFn: () => getProjectsApi(), // Use the renamed API function
     enabled: isSignedIn,
     initialData: [],
     placeholderData: (previousData) => previousData,
@@ -210,7 +305,7 @@ export function useProjects() {
     },
   });
 
-  const addProjectMutation = useMutation<Project, Error, Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'>>({
+  const addProjectMutation = useMutation<Project, Error, Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'> & ProjectSharing>({
     mutationFn: createProjectApi, // Use the renamed API function
     onSuccess: (newProject) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.projects });
@@ -229,10 +324,12 @@ export function useProjects() {
     },
   });
 
-  const updateProjectMutation = useMutation<Project, Error, { id: number; updates: Partial<Project> }>({
+  const updateProjectMutation = useMutation<Project, Error, { id: number; updates: Partial<Project> & ProjectSharing }>({
     mutationFn: ({ id, updates }) => updateProjectApi(id, updates), // Use the renamed API function
-    onSuccess: (updatedProject) => {
+    onSuccess: (updatedProject, { updates }) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.projects });
+      // Sharing or unsharing changes whose tasks the project's members see
+      if (updates.shared !== undefined) queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
       showToast({
         title: "Success",
         description: `Project "${updatedProject.name}" updated.`,
@@ -248,13 +345,62 @@ export function useProjects() {
     },
   });
 
+  // Archiving moves the project between the active and archived lists, and its tasks in or out of the default lists
+  const invalidateArchived = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.projects });
+    queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+    queryClient.invalidateQueries({ queryKey: queryKeys.search });
+  };
+
+  const archiveProjectMutation = useMutation<Project, Error, number>({
+    mutationFn: archiveProjectApi,
+    onSuccess: (project) => {
+      invalidateArchived();
+      showToast({
+        title: "Success",
+        description: `Project "${project.name}" archived.`,
+      });
+    },
+    onError: (error) => {
+      console.error("Failed to archive project:", error);
+      showToast({
+        title: "Error",
+        description: `Failed to archive project: ${error.message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unarchiveProjectMutation = useMutation<Project, Error, number>({
+    mutationFn: unarchiveProjectApi,
+    onSuccess: (project) => {
+      invalidateArchived();
+      showToast({
+        title: "Success",
+        description: `Project "${project.name}" unarchived.`,
+      });
+    },
+    onError: (error) => {
+      console.error("Failed to unarchive project:", error);
+      showToast({
+        title: "Error",
+        description: `Failed to unarchive project: ${error.message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteProjectMutation = useMutation<void, Error, number>({
     mutationFn: deleteProjectApi, // Use the renamed API function
     onSuccess: () => {
+      // The project's tasks and notes go to the trash with it
       queryClient.invalidateQueries({ queryKey: queryKeys.projects });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notes });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
       showToast({
         title: "Success",
-        description: "Project deleted.",
+        description: "Project moved to trash.",
       });
     },
     onError: (error) => {
@@ -267,8 +413,10 @@ export function useProjects() {
     },
   });
 
-  const addProject = (projectData: Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => addProjectMutation.mutateAsync(projectData);
-  const updateProject = (id: number, updates: Partial<Project>) => updateProjectMutation.mutateAsync({ id, updates });
+  const addProject = (projectData: Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'> & ProjectSharing) => addProjectMutation.mutateAsync(projectData);
+  const updateProject = (id: number, updates: Partial<Project> & ProjectSharing) => updateProjectMutation.mutateAsync({ id, updates });
+  const archiveProject = (id: number) => archiveProjectMutation.mutateAsync(id);
+  const unarchiveProject = (id: number) => unarchiveProjectMutation.mutateAsync(id);
   const deleteProject = (id: number) => deleteProjectMutation.mutateAsync(id);
 
   return {
@@ -277,16 +425,72 @@ export function useProjects() {
     projectsError: projectsError?.message || null,
     addProject,
     updateProject,
+    archiveProject,
+    unarchiveProject,
     deleteProject,
     refetchProjects,
   };
 }
 
+/**
+ * Custom hook for the archived projects, most recently archived first.
+ * They sit under the projects key, so they refresh whenever the projects do; archive and unarchive
+ * them with useProjects.
+ * @param enabled Nothing is fetched while this is false, e.g. while the archived list is collapsed.
+ */
+export function useArchivedProjects(enabled = true) {
+  const { isSignedIn } = useAuth();
+  const { getProjects: getProjectsApi } = useProjectsApi();
+
+  const {
+    data: archivedProjects,
+    isLoading: archivedProjectsLoading,
+    error: archivedProjectsError,
+  } = useQuery<Project[], Error>({
+    queryKey: [...queryKeys.projects, 'archived'],
+    queryFn: () => getProjectsApi(true),
+    enabled: isSignedIn && enabled,
+  });
+
+  return {
+    archivedProjects: archivedProjects || [],
+    archivedProjectsLoading,
+    archivedProjectsError: archivedProjectsError?.message || null,
+  };
+}
+
+/**
+ * Custom hook for the people who can see a project (see ProjectMember), e.g. to pick who a task is assigned to.
+ * The members sit under the projects key, so they refresh when a project is shared or unshared.
+ * @param projectId The project whose members are loaded; nothing is fetched while it is null.
+ */
+export function useProjectMembers(projectId: number | null) {
+  const { isSignedIn } = useAuth();
+  const { getProjectMembers: getProjectMembersApi } = useProjectsApi();
+
+  const {
+    data: members,
+    isLoading: membersLoading,
+    error: membersError,
+  } = useQuery<ProjectMember[], Error>({
+    queryKey: [...queryKeys.projects, 'members', projectId],
+    queryFn: () => getProjectMembersApi(projectId!),
+    enabled: isSignedIn && projectId !== null,
+  });
+
+  return {
+    members: members || [],
+    membersLoading,
+    membersError: membersError?.message || null,
+  };
+}
 
 /**
  * Custom hook for managing notes using React Query.
+ * Notes are loaded a page at a time; `loadMoreNotes` appends the next page to `notes`.
+ * @param filters Optional server-side filters, sorting and page size (see NoteFilters).
  */
-export function useNotes() {
+export function useNotes(filters: NoteFilters = {}) {
   const { isSignedIn } = useAuth();
   const queryClient = useQueryClient();
   const showToast = toast;
@@ -299,29 +503,26 @@ export function useNotes() {
     deleteNote: deleteNoteApi,
   } = useNotesApi();
 
-  const [notes, setNotes] = useState<Note[]>([]); // Keep for now if needed
-
   const {
     data: notesData,
     isLoading: notesLoading,
     error: notesError,
     refetch: refetchNotes,
-  } = useQuery<Note[], Error>({
-    queryKey: queryKeys.notes,
-    queryFn: getNotesApi, // Use the renamed API function
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [...queryKeys.notes, filters],
+    queryFn: ({ pageParam }) => getNotesApi({ ...filters, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
     enabled: isSignedIn,
-    initialData: [],
     placeholderData: (previousData) => previousData,
-    onError: (error) => {
-      console.error("Failed to fetch notes:", error);
-      showToast({
-        title: "Error",
-        description: `Failed to load notes: ${error.message || 'Unknown error'}`,
-        variant: "destructive",
-      });
-    },
   });
 
+  // Flatten the loaded pages into a single list
+  const notes = useMemo(() => notesData?.pages.flatMap(page => page.data) ?? [], [notesData]);
+
   const addNoteMutation = useMutation<Note, Error, Omit<Note, 'id' | 'user_id' | 'created_at' | 'updated_at'>>({
     mutationFn: createNoteApi, // Use the renamed API function
     onSuccess: (newNote) => {
@@ -345,6 +546,7 @@ export function useNotes() {
     mutationFn: ({ id, updates }) => updateNoteApi(id, updates), // Use the renamed API function
     onSuccess: (updatedNote) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.notes });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.history, 'note'] });
       showToast({
         title: "Success",
         description: `Note "${updatedNote.title}" updated.`,
@@ -364,9 +566,10 @@ export function useNotes() {
     mutationFn: deleteNoteApi, // Use the renamed API function
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.notes });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
       showToast({
         title: "Success",
-        description: "Note deleted.",
+        description: "Note moved to trash.",
       });
     },
     onError: (error) => {
@@ -384,7 +587,11 @@ export function useNotes() {
   const deleteNote = (id: number) => deleteNoteMutation.mutateAsync(id);
 
   return {
-    notes: notesData || [],
+    notes,
+    totalNotes: notesData?.pages[0]?.total ?? 0, // Number of notes matching the filters, not just the loaded ones
+    hasMoreNotes: hasNextPage,
+    loadMoreNotes: fetchNextPage,
+    loadingMoreNotes: isFetchingNextPage,
     notesLoading,
     notesError: notesError?.message || null,
     addNote,
@@ -392,4 +599,987 @@ export function useNotes() {
     deleteNote,
     refetchNotes,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Custom hook for managing focus sessions using React Query.
+ * Sessions are persisted on the backend, so a running Pomodoro survives a page refresh:
+ * `activeSession` is the session that has been started but not yet stopped.
+ * @param range Optional date range (ISO strings) used to limit the listed sessions.
+ */
+export function useFocusSessions(range: FocusSessionRange = {}) {
+  const { isSignedIn } = useAuth();
+  const queryClient = useQueryClient();
+  const showToast = toast;
+
+  const {
+    getFocusSessions: getFocusSessionsApi,
+    getActiveFocusSession: getActiveFocusSessionApi,
+    createFocusSession: createFocusSessionApi,
+    updateFocusSession: updateFocusSessionApi,
+    deleteFocusSession: deleteFocusSessionApi,
+    startFocusSession: startFocusSessionApi,
+    stopFocusSession: stopFocusSessionApi,
+  } = useFocusSessionsApi();
+
+  const {
+    data: focusSessionsData,
+    isLoading: focusSessionsLoading,
+    error: focusSessionsError,
+    refetch: refetchFocusSessions,
+  } = useQuery<FocusSession[], Error>({
+    queryKey: [...queryKeys.focusSessions, range],
+    queryFn: () => getFocusSessionsApi(range),
+    enabled: isSignedIn,
+    placeholderData: (previousData) => previousData,
+  });
+
+  const { data: activeSession } = useQuery<FocusSession | null, Error>({
+    queryKey: queryKeys.activeFocusSession,
+    queryFn: getActiveFocusSessionApi,
+    enabled: isSignedIn,
+  });
+
+  // Every session mutation can change both the list and the active session, and the time tracked on tasks and projects
+  const invalidateSessions = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.focusSessions });
+    queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+    queryClient.invalidateQueries({ queryKey: queryKeys.projects });
+  };
+
+  const reportError = (action: string) => (error: Error) => {
+    console.error(`Failed to ${action} focus session:`, error);
+    showToast({
+      title: "Error",
+      description: `Failed to ${action} focus session: ${error.message || 'Unknown error'}`,
+      variant: "destructive",
+    });
+  };
+
+  const startSessionMutation = useMutation<FocusSession, Error, Pick<FocusSession, 'session_type' | 'notes' | 'task_id'> | undefined>({
+    mutationFn: (sessionData) => startFocusSessionApi(sessionData),
+    onSuccess: invalidateSessions,
+    onError: reportError('start'),
+  });
+
+  const stopSessionMutation = useMutation<FocusSession, Error, { id: number; notes?: string }>({
+    mutationFn: ({ id, notes }) => stopFocusSessionApi(id, notes),
+    onSuccess: invalidateSessions,
+    onError: reportError('stop'),
+  });
+
+  const addSessionMutation = useMutation<FocusSession, Error, Omit<FocusSession, 'id' | 'user_id' | 'created_at'>>({
+    mutationFn: createFocusSessionApi,
+    onSuccess: invalidateSessions,
+    onError: reportError('add'),
+  });
+
+  const updateSessionMutation = useMutation<FocusSession, Error, { id: number; updates: Partial<FocusSession> }>({
+    mutationFn: ({ id, updates }) => updateFocusSessionApi(id, updates),
+    onSuccess: invalidateSessions,
+    onError: reportError('update'),
+  });
+
+  const deleteSessionMutation = useMutation<void, Error, number>({
+    mutationFn: deleteFocusSessionApi,
+    onSuccess: () => {
+      invalidateSessions();
+      showToast({
+        title: "Success",
+        description: "Focus session deleted.",
+      });
+    },
+    onError: reportError('delete'),
+  });
+
+  const startSession = (sessionData?: Pick<FocusSession, 'session_type' | 'notes' | 'task_id'>) => startSessionMutation.mutateAsync(sessionData);
+  const stopSession = (id: number, notes?: string) => stopSessionMutation.mutateAsync({ id, notes });
+  const addSession = (sessionData: Omit<FocusSession, 'id' | 'user_id' | 'created_at'>) => addSessionMutation.mutateAsync(sessionData);
+  const updateSession = (id: number, updates: Partial<FocusSession>) => updateSessionMutation.mutateAsync({ id, updates });
+  const deleteSession = (id: number) => deleteSessionMutation.mutateAsync(id);
+
+  return {
+    focusSessions: focusSessionsData || [],
+    activeSession: activeSession || null,
+    focusSessionsLoading,
+    focusSessionsError: focusSessionsError?.message || null,
+    startSession,
+    stopSession,
+    addSession,
+    updateSession,
+    deleteSession,
+    refetchFocusSessions,
+  };
+}
+
+
+/**
+ * Custom hook for managing tags and attaching them to tasks using React Query.
+ */
+export function useTags() {
+  const { isSignedIn } = useAuth();
+  const queryClient = useQueryClient();
+  const showToast = toast;
+
+  const {
+    getTags: getTagsApi,
+    createTag: createTagApi,
+    updateTag: updateTagApi,
+    deleteTag: deleteTagApi,
+    addTagToTask: addTagToTaskApi,
+    removeTagFromTask: removeTagFromTaskApi,
+  } = useTagsApi();
+
+  const {
+    data: tagsData,
+    isLoading: tagsLoading,
+    error: tagsError,
+    refetch: refetchTags,
+  } = useQuery<Tag[], Error>({
+    queryKey: queryKeys.tags,
+    queryFn: getTagsApi,
+    enabled: isSignedIn,
+    placeholderData: (previousData) => previousData,
+  });
+
+  const reportError = (action: string) => (error: Error) => {
+    console.error(`Failed to ${action}:`, error);
+    showToast({
+      title: "Error",
+      description: `Failed to ${action}: ${error.message || 'Unknown error'}`,
+      variant: "destructive",
+    });
+  };
+
+  // Tag changes show up on tasks too, so both caches are refreshed
+  const invalidateTagsAndTasks = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+    queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+  };
+
+  const addTagMutation = useMutation<Tag, Error, Pick<Tag, 'name' | 'color'>>({
+    mutationFn: createTagApi,
+    onSuccess: (newTag) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+      showToast({
+        title: "Success",
+        description: `Tag "${newTag.name}" created.`,
+      });
+    },
+    onError: reportError('create tag'),
+  });
+
+  const updateTagMutation = useMutation<Tag, Error, { id: number; updates: Partial<Pick<Tag, 'name' | 'color'>> }>({
+    mutationFn: ({ id, updates }) => updateTagApi(id, updates),
+    onSuccess: invalidateTagsAndTasks,
+    onError: reportError('update tag'),
+  });
+
+  const deleteTagMutation = useMutation<void, Error, number>({
+    mutationFn: deleteTagApi,
+    onSuccess: () => {
+      invalidateTagsAndTasks();
+      showToast({
+        title: "Success",
+        description: "Tag deleted.",
+      });
+    },
+    onError: reportError('delete tag'),
+  });
+
+  const attachTagMutation = useMutation<Task, Error, { taskId: number; tagId: number }>({
+    mutationFn: ({ taskId, tagId }) => addTagToTaskApi(taskId, tagId),
+    onSuccess: invalidateTagsAndTasks,
+    onError: reportError('add tag to task'),
+  });
+
+  const detachTagMutation = useMutation<Task, Error, { taskId: number; tagId: number }>({
+    mutationFn: ({ taskId, tagId }) => removeTagFromTaskApi(taskId, tagId),
+    onSuccess: invalidateTagsAndTasks,
+    onError: reportError('remove tag from task'),
+  });
+
+  const addTag = (tagData: Pick<Tag, 'name' | 'color'>) => addTagMutation.mutateAsync(tagData);
+  const updateTag = (id: number, updates: Partial<Pick<Tag, 'name' | 'color'>>) => updateTagMutation.mutateAsync({ id, updates });
+  const deleteTag = (id: number) => deleteTagMutation.mutateAsync(id);
+  const addTagToTask = (taskId: number, tagId: number) => attachTagMutation.mutateAsync({ taskId, tagId });
+  const removeTagFromTask = (taskId: number, tagId: number) => detachTagMutation.mutateAsync({ taskId, tagId });
+
+  return {
+    tags: tagsData || [],
+    tagsLoading,
+    tagsError: tagsError?.message || null,
+    addTag,
+    updateTag,
+    deleteTag,
+    addTagToTask,
+    removeTagFromTask,
+    refetchTags,
+  };
+}
+
+
+/**
+ * Custom hook for the workflow statuses (Kanban columns) of one project.
+ * Changing the statuses can move tasks to another status, so the task lists are refreshed as well.
+ * @param projectId The project whose statuses are loaded; nothing is fetched while it is null.
+ */
+export function useProjectStatuses(projectId: number | null) {
+  const { isSignedIn } = useAuth();
+  const queryClient = useQueryClient();
+  const showToast = toast;
+
+  const {
+    getProjectStatuses: getProjectStatusesApi,
+    createProjectStatus: createProjectStatusApi,
+    updateProjectStatus: updateProjectStatusApi,
+    reorderProjectStatuses: reorderProjectStatusesApi,
+    deleteProjectStatus: deleteProjectStatusApi,
+  } = useProjectStatusesApi();
+
+  const {
+    data: statusesData,
+    isLoading: statusesLoading,
+    error: statusesError,
+  } = useQuery<ProjectStatus[], Error>({
+    queryKey: [...queryKeys.projectStatuses, projectId],
+    queryFn: () => getProjectStatusesApi(projectId!),
+    enabled: isSignedIn && projectId !== null,
+  });
+
+  const reportError = (action: string) => (error: Error) => {
+    console.error(`Failed to ${action}:`, error);
+    showToast({
+      title: "Error",
+      description: `Failed to ${action}: ${error.message || 'Unknown error'}`,
+      variant: "destructive",
+    });
+  };
+
+  // Also refreshes the statuses, which live under the tasks key
+  const invalidateTasks = () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+
+  const addStatusMutation = useMutation<ProjectStatus, Error, ProjectStatusInput>({
+    mutationFn: (statusData) => createProjectStatusApi(projectId!, statusData),
+    onSuccess: invalidateTasks,
+    onError: reportError('add column'),
+  });
+
+  const updateStatusMutation = useMutation<ProjectStatus, Error, { id: number; updates: Partial<ProjectStatusInput> }>({
+    mutationFn: ({ id, updates }) => updateProjectStatusApi(projectId!, id, updates),
+    onSuccess: invalidateTasks,
+    onError: reportError('update column'),
+  });
+
+  const reorderStatusesMutation = useMutation<ProjectStatus[], Error, number[]>({
+    mutationFn: (ids) => reorderProjectStatusesApi(projectId!, ids),
+    onSuccess: invalidateTasks,
+    onError: reportError('reorder columns'),
+  });
+
+  const deleteStatusMutation = useMutation<void, Error, number>({
+    mutationFn: (id) => deleteProjectStatusApi(projectId!, id),
+    onSuccess: invalidateTasks,
+    onError: reportError('delete column'),
+  });
+
+  const addStatus = (statusData: ProjectStatusInput) => addStatusMutation.mutateAsync(statusData);
+  const updateStatus = (id: number, updates: Partial<ProjectStatusInput>) => updateStatusMutation.mutateAsync({ id, updates });
+  const reorderStatuses = (ids: number[]) => reorderStatusesMutation.mutateAsync(ids);
+  const deleteStatus = (id: number) => deleteStatusMutation.mutateAsync(id);
+
+  return {
+    statuses: statusesData || [],
+    statusesLoading,
+    statusesError: statusesError?.message || null,
+    addStatus,
+    updateStatus,
+    reorderStatuses,
+    deleteStatus,
+  };
+}
+
+/**
+ * Custom hook for adding and removing task reminders.
+ * Reminders are returned with their task, so the task lists are refreshed after each change.
+ */
+export function useReminders() {
+  const queryClient = useQueryClient();
+  const showToast = toast;
+  const { addReminder: addReminderApi, removeReminder: removeReminderApi } = useRemindersApi();
+
+  const reportError = (action: string) => (error: Error) => {
+    console.error(`Failed to ${action}:`, error);
+    showToast({
+      title: "Error",
+      description: `Failed to ${action}: ${error.message || 'Unknown error'}`,
+      variant: "destructive",
+    });
+  };
+
+  const addReminderMutation = useMutation<Task, Error, { taskId: number; reminder: NewTaskReminder }>({
+    mutationFn: ({ taskId, reminder }) => addReminderApi(taskId, reminder),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks }),
+    onError: reportError('add reminder'),
+  });
+
+  const removeReminderMutation = useMutation<Task, Error, { taskId: number; reminderId: number }>({
+    mutationFn: ({ taskId, reminderId }) => removeReminderApi(taskId, reminderId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks }),
+    onError: reportError('remove reminder'),
+  });
+
+  const addReminder = (taskId: number, reminder: NewTaskReminder) => addReminderMutation.mutateAsync({ taskId, reminder });
+  const removeReminder = (taskId: number, reminderId: number) => removeReminderMutation.mutateAsync({ taskId, reminderId });
+
+  return {
+    addReminder,
+    removeReminder,
+  };
+}
+
+/**
+ * Custom hook for marking tasks as blocked by other tasks and removing those links.
+ * Blockers are returned with their task, so the task lists are refreshed after each change.
+ */
+export function useDependencies() {
+  const queryClient = useQueryClient();
+  const showToast = toast;
+  const { addBlocker: addBlockerApi, removeBlocker: removeBlockerApi } = useDependenciesApi();
+
+  const reportError = (action: string) => (error: Error) => {
+    console.error(`Failed to ${action}:`, error);
+    showToast({
+      title: "Error",
+      description: `Failed to ${action}: ${error.message || 'Unknown error'}`,
+      variant: "destructive",
+    });
+  };
+
+  const addBlockerMutation = useMutation<Task, Error, { taskId: number; blockerId: number }>({
+    mutationFn: ({ taskId, blockerId }) => addBlockerApi(taskId, blockerId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks }),
+    onError: reportError('add blocking task'),
+  });
+
+  const removeBlockerMutation = useMutation<Task, Error, { taskId: number; blockerId: number }>({
+    mutationFn: ({ taskId, blockerId }) => removeBlockerApi(taskId, blockerId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks }),
+    onError: reportError('remove blocking task'),
+  });
+
+  const addBlocker = (taskId: number, blockerId: number) => addBlockerMutation.mutateAsync({ taskId, blockerId });
+  const removeBlocker = (taskId: number, blockerId: number) => removeBlockerMutation.mutateAsync({ taskId, blockerId });
+
+  return {
+    addBlocker,
+    removeBlocker,
+  };
+}
+
+/**
+ * Custom hook for the authenticated user's recent notifications and unread count.
+ * New notifications arrive through NotificationListener, which refreshes this query.
+ */
+export function useNotifications() {
+  const { isSignedIn } = useAuth();
+  const queryClient = useQueryClient();
+  const {
+    getNotifications: getNotificationsApi,
+    markNotificationRead: markNotificationReadApi,
+    markAllNotificationsRead: markAllNotificationsReadApi,
+    deleteNotification: deleteNotificationApi,
+  } = useNotificationsApi();
+
+  const {
+    data: notificationsData,
+    isLoading: notificationsLoading,
+    error: notificationsError,
+  } = useQuery<NotificationList, Error>({
+    queryKey: queryKeys.notifications,
+    queryFn: () => getNotificationsApi(),
+    enabled: isSignedIn,
+  });
+
+  const invalidateNotifications = () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications });
+
+  const markReadMutation = useMutation<Notification, Error, number>({
+    mutationFn: markNotificationReadApi,
+    onSuccess: invalidateNotifications,
+  });
+
+  const markAllReadMutation = useMutation<void, Error, void>({
+    mutationFn: () => markAllNotificationsReadApi(),
+    onSuccess: invalidateNotifications,
+  });
+
+  const deleteNotificationMutation = useMutation<void, Error, number>({
+    mutationFn: deleteNotificationApi,
+    onSuccess: invalidateNotifications,
+  });
+
+  return {
+    notifications: notificationsData?.data || [],
+    unreadCount: notificationsData?.unread || 0,
+    notificationsLoading,
+    notificationsError: notificationsError?.message || null,
+    markNotificationRead: (id: number) => markReadMutation.mutateAsync(id),
+    markAllNotificationsRead: () => markAllReadMutation.mutateAsync(),
+    deleteNotification: (id: number) => deleteNotificationMutation.mutateAsync(id),
+  };
+}
+
+/**
+ * Custom hook for the trash: deleted projects, tasks and notes, which can be restored or deleted for good.
+ * Restoring brings items back into the project, task and note lists, so those caches are refreshed too.
+ */
+export function useTrash() {
+  const { isSignedIn } = useAuth();
+  const queryClient = useQueryClient();
+  const showToast = toast;
+  const {
+    getTrash: getTrashApi,
+    restoreTrashItem: restoreTrashItemApi,
+    purgeTrashItem: purgeTrashItemApi,
+    emptyTrash: emptyTrashApi,
+  } = useTrashApi();
+
+  const {
+    data: trashData,
+    isLoading: trashLoading,
+    error: trashError,
+  } = useQuery<TrashList, Error>({
+    queryKey: queryKeys.trash,
+    queryFn: getTrashApi,
+    enabled: isSignedIn,
+  });
+
+  const reportError = (action: string) => (error: Error) => {
+    console.error(`Failed to ${action}:`, error);
+    showToast({
+      title: "Error",
+      description: `Failed to ${action}: ${error.message || 'Unknown error'}`,
+      variant: "destructive",
+    });
+  };
+
+  const restoreMutation = useMutation<void, Error, { type: TrashItemType; id: number }>({
+    mutationFn: ({ type, id }) => restoreTrashItemApi(type, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notes });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags }); // Tag counts include restored tasks
+      queryClient.invalidateQueries({ queryKey: queryKeys.history }); // Restores are recorded in the history
+      showToast({
+        title: "Success",
+        description: "Restored from trash.",
+      });
+    },
+    onError: reportError('restore item'),
+  });
+
+  const purgeMutation = useMutation<void, Error, { type: TrashItemType; id: number }>({
+    mutationFn: ({ type, id }) => purgeTrashItemApi(type, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+      showToast({
+        title: "Success",
+        description: "Deleted permanently.",
+      });
+    },
+    onError: reportError('delete item'),
+  });
+
+  const emptyMutation = useMutation<{ deleted: number }, Error, void>({
+    mutationFn: () => emptyTrashApi(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+      showToast({
+        title: "Success",
+        description: "Trash emptied.",
+      });
+    },
+    onError: reportError('empty trash'),
+  });
+
+  return {
+    trashItems: trashData?.data || [],
+    retentionDays: trashData?.retention_days ?? null,
+    trashLoading,
+    trashError: trashError?.message || null,
+    restoreTrashItem: (type: TrashItemType, id: number) => restoreMutation.mutateAsync({ type, id }),
+    purgeTrashItem: (type: TrashItemType, id: number) => purgeMutation.mutateAsync({ type, id }),
+    emptyTrash: () => emptyMutation.mutateAsync(),
+  };
+}
+
+/**
+ * Custom hook for the focus time recorded on one task, compared with its estimate.
+ * The time sits under the tasks key, so it refreshes whenever the tasks or focus sessions change.
+ * @param id The task's ID; nothing is fetched while it is undefined.
+ */
+export function useTaskTime(id: number | undefined) {
+  const { isSignedIn } = useAuth();
+  const { getTaskTime: getTaskTimeApi } = useTasksApi();
+
+  const {
+    data: taskTime,
+    isLoading: taskTimeLoading,
+    error: taskTimeError,
+  } = useQuery<TaskTime, Error>({
+    queryKey: [...queryKeys.taskTime, id],
+    queryFn: () => getTaskTimeApi(id!),
+    enabled: isSignedIn && id !== undefined,
+  });
+
+  return {
+    taskTime: taskTime || null,
+    taskTimeLoading,
+    taskTimeError: taskTimeError?.message || null,
+  };
+}
+
+/**
+ * Custom hook for the change history of one task or note, newest first.
+ * `revertToEntry` puts the item back to its version right after an entry; the reverted item is
+ * returned and the task or note lists are refreshed.
+ * @param type 'task' or 'note'.
+ * @param id The item's ID; nothing is fetched while it is undefined.
+ */
+export function useHistory(type: HistorySubjectType, id: number | undefined) {
+  const { isSignedIn } = useAuth();
+  const queryClient = useQueryClient();
+  const showToast = toast;
+  const { getHistory: getHistoryApi, revertToEntry: revertToEntryApi } = useHistoryApi();
+
+  const {
+    data: historyData,
+    isLoading: historyLoading,
+    error: historyError,
+  } = useQuery<HistoryList, Error>({
+    queryKey: [...queryKeys.history, type, id],
+    queryFn: () => getHistoryApi(type, id!),
+    enabled: isSignedIn && id !== undefined,
+  });
+
+  const revertMutation = useMutation<Task | Note, Error, number>({
+    mutationFn: (entryId) => revertToEntryApi(type, id!, entryId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.history, type, id] });
+      queryClient.invalidateQueries({ queryKey: type === 'task' ? queryKeys.tasks : queryKeys.notes });
+      showToast({
+        title: "Success",
+        description: `${type === 'task' ? 'Task' : 'Note'} reverted.`,
+      });
+    },
+    onError: (error) => {
+      console.error(`Failed to revert ${type}:`, error);
+      showToast({
+        title: "Error",
+        description: `Failed to revert ${type}: ${error.message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    historyEntries: historyData?.data || [],
+    historyLoading,
+    historyError: historyError?.message || null,
+    revertToEntry: (entryId: number) => revertMutation.mutateAsync(entryId),
+    reverting: revertMutation.isPending,
+  };
+}
+
+/**
+ * Custom hook for full-text search across tasks, notes and projects.
+ * Nothing is fetched while `q` is blank. Results are refetched whenever the search is shown again,
+ * since any edit elsewhere in the app can change them.
+ */
+export function useSearch(q: string) {
+  const { isSignedIn } = useAuth();
+  const { search: searchApi } = useSearchApi();
+  const query = q.trim();
+
+  const {
+    data: searchData,
+    isLoading: searchLoading,
+    isFetching: searchFetching,
+    error: searchError,
+  } = useQuery<SearchResponse, Error>({
+    queryKey: [...queryKeys.search, query],
+    queryFn: () => searchApi({ q: query }),
+    enabled: isSignedIn && query !== '',
+    staleTime: 0,
+    placeholderData: (previousData) => previousData, // Keep the last results while the next search loads
+  });
+
+  return {
+    searchResults: searchData?.data || [],
+    searchTerms: searchData?.terms || [],
+    searchLoading,
+    searchFetching,
+    searchError: searchError?.message || null,
+  };
+}
+
+/**
+ * Custom hook for exporting the account and importing an export.
+ * `previewImport` is a dry run that changes nothing; `importAccount` adds the archive's items and
+ * refreshes every list they can show up in.
+ */
+export function useAccountTransfer() {
+  const queryClient = useQueryClient();
+  const showToast = toast;
+  const { exportAccount, importAccount: importAccountApi } = useArchiveApi();
+
+  const importMutation = useMutation<ImportResult, Error, unknown>({
+    mutationFn: (archive) => importAccountApi(archive),
+    onSuccess: ({ counts }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notes });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+      queryClient.invalidateQueries({ queryKey: queryKeys.focusSessions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.search });
+      showToast({
+        title: "Success",
+        description: `Imported ${counts.projects} projects, ${counts.tasks} tasks and ${counts.notes} notes.`,
+      });
+    },
+    onError: (error) => {
+      console.error("Failed to import account:", error);
+      showToast({
+        title: "Error",
+        description: `Failed to import: ${error.message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    exportAccount,
+    previewImport: (archive: unknown) => importAccountApi(archive, true),
+    importAccount: (archive: unknown) => importMutation.mutateAsync(archive),
+    importing: importMutation.isPending,
+  };
+}
+
+/**
+ * Custom hook for importing the export files of other task managers (see utils/taskImport.ts).
+ * `planTaskImport` matches the files' projects to existing ones by name and marks tasks that are
+ * already there as duplicates; a name that matches an archived project is reported as a conflict
+ * instead of creating a second project with that name. `runTaskImport` creates the rest through the
+ * same project, task, tag and reminder endpoints as the rest of the app, one row at a time, reports
+ * the rows that failed and refreshes the cached lists once at the end.
+ */
+export function useTaskImport() {
+  const queryClient = useQueryClient();
+  const showToast = toast;
+  const { getProjects, createProject } = useProjectsApi();
+  const { getTasks, createTask } = useTasksApi();
+  const { getTags, createTag, addTagToTask } = useTagsApi();
+  const { addReminder } = useRemindersApi();
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // All tasks of a project, page by page
+  const listProjectTasks = async (projectId: number) => {
+    const tasks: Task[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await getTasks({ project_id: projectId, limit: 200, cursor });
+      tasks.push(...page.data);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return tasks;
+  };
+
+  const planTaskImport = async (parsed: ParsedImport): Promise<TaskImportPlan> => {
+    const [activeProjects, archivedProjects] = await Promise.all([getProjects(), getProjects(true)]);
+    const sameName = (project: Project, name: string) => project.name.trim().toLowerCase() === name.trim().toLowerCase();
+    const projects: PlannedImportProject[] = [];
+    const errors = [...parsed.errors];
+    for (const { name, tasks } of parsed.projects) {
+      const archived = archivedProjects.find(existing => sameName(existing, name));
+      if (archived && !activeProjects.some(existing => sameName(existing, name))) {
+        const message = `The project "${archived.name}" is archived; unarchive it to import into it.`;
+        tasks.forEach(task => errors.push({ project: name, row: task.row, message }));
+        continue;
+      }
+      const project = activeProjects.find(existing => sameName(existing, name)) ?? null;
+      const seen = new Set(project ? (await listProjectTasks(project.id)).map(taskImportKey) : []);
+      projects.push({
+        name,
+        project,
+        tasks: tasks.map(task => {
+          const key = taskImportKey(task);
+          const duplicate = seen.has(key);
+          seen.add(key);
+          return { task, duplicate };
+        }),
+      });
+    }
+    return { projects, errors };
+  };
+
+  const importMutation = useMutation<TaskImportReport, Error, TaskImportPlan>({
+    mutationFn: async (plan) => {
+      const report: TaskImportReport = { projects: 0, tasks: 0, duplicates: 0, errors: [...plan.errors] };
+      const tags = new Map((await getTags()).map(tag => [tag.name.toLowerCase(), tag]));
+      const total = plan.projects.reduce((sum, project) => sum + project.tasks.filter(({ duplicate }) => !duplicate).length, 0);
+      let done = 0;
+      setProgress({ done, total });
+
+      for (const planned of plan.projects) {
+        const newTasks = planned.tasks.filter(({ duplicate }) => !duplicate).map(({ task }) => task);
+        report.duplicates += planned.tasks.length - newTasks.length;
+        if (newTasks.length === 0) continue;
+
+        let projectId = planned.project?.id;
+        if (!projectId) {
+          try {
+            projectId = (await createProject({ name: planned.name, color: null, description: null })).id;
+            report.projects++;
+          } catch (error) {
+            const message = `The project could not be created: ${(error as Error).message}`;
+            newTasks.forEach(task => report.errors.push({ project: planned.name, row: task.row, message }));
+            done += newTasks.length;
+            setProgress({ done, total });
+            continue;
+          }
+        }
+
+        for (const task of newTasks) {
+          let created: Task | null = null;
+          try {
+            created = await createTask({
+              title: task.title,
+              description: task.description,
+              dueDate: task.dueDate,
+              priority: task.priority,
+              completed: task.completed,
+              project_id: projectId,
+              is_recurring: task.recurrence_pattern !== null,
+              recurrence_pattern: task.recurrence_pattern,
+            });
+            for (const name of task.tags) {
+              let tag = tags.get(name.toLowerCase());
+              if (!tag) {
+                tag = await createTag({ name, color: null });
+                tags.set(name.toLowerCase(), tag);
+              }
+              await addTagToTask(created.id, tag.id);
+            }
+            for (const reminder of task.reminders) {
+              await addReminder(created.id, reminder);
+            }
+            report.tasks++;
+          } catch (error) {
+            report.errors.push({
+              project: planned.name,
+              row: task.row,
+              message: created
+                ? `Created without all of its labels and reminders: ${(error as Error).message}`
+                : (error as Error).message,
+            });
+            if (created) report.tasks++;
+          }
+          setProgress({ done: ++done, total });
+        }
+      }
+
+      return report;
+    },
+    onSuccess: (report) => {
+      showToast({
+        title: report.errors.length > 0 ? "Import finished with errors" : "Success",
+        description: `Imported ${report.tasks} task${report.tasks === 1 ? '' : 's'}`
+          + (report.duplicates > 0 ? `, skipped ${report.duplicates} already imported` : '')
+          + (report.errors.length > 0 ? `; ${report.errors.length} row${report.errors.length === 1 ? '' : 's'} failed` : '')
+          + '.',
+        variant: report.errors.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      console.error("Failed to import tasks:", error);
+      showToast({
+        title: "Error",
+        description: `Failed to import: ${error.message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      setProgress(null);
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+      queryClient.invalidateQueries({ queryKey: queryKeys.search });
+    },
+  });
+
+  return {
+    planTaskImport,
+    runTaskImport: (plan: TaskImportPlan) => importMutation.mutateAsync(plan),
+    importingTasks: importMutation.isPending,
+    importProgress: progress,
+  };
+}
+
+/**
+ * Custom hook for importing tasks from an .ics file: `previewCalendarImport` is a dry run that
+ * writes nothing, `importCalendar` creates the tasks.
+ */
+export function useCalendarImport() {
+  const queryClient = useQueryClient();
+  const showToast = toast;
+  const { importCalendar: importCalendarApi } = useArchiveApi();
+
+  const importMutation = useMutation<CalendarImportResult, Error, { calendar: string; projectId: number | null }>({
+    mutationFn: ({ calendar, projectId }) => importCalendarApi(calendar, projectId),
+    onSuccess: ({ tasks }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.search });
+      showToast({
+        title: "Success",
+        description: `Imported ${tasks.length} task${tasks.length === 1 ? '' : 's'}.`,
+      });
+    },
+    onError: (error) => {
+      console.error("Failed to import calendar:", error);
+      showToast({
+        title: "Error",
+        description: `Failed to import: ${error.message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    previewCalendarImport: async (calendar: string, projectId: number | null) => {
+      const result = await importCalendarApi(calendar, projectId, true);
+      return { tasks: result.tasks as CalendarTaskPreview[], issues: result.issues };
+    },
+    importCalendar: (calendar: string, projectId: number | null) => importMutation.mutateAsync({ calendar, projectId }),
+    importingCalendar: importMutation.isPending,
+  };
+}
+
+/**
+ * Custom hook for the iCalendar feed that shows tasks with a due date in calendar apps.
+ * `calendarFeed` is null until one is created; rotating replaces the URL, deleting turns the feed off.
+ */
+export function useCalendarFeed() {
+  const { isSignedIn } = useAuth();
+  const queryClient = useQueryClient();
+  const showToast = toast;
+  const {
+    getCalendarFeed: getCalendarFeedApi,
+    rotateCalendarFeed: rotateCalendarFeedApi,
+    deleteCalendarFeed: deleteCalendarFeedApi,
+  } = useCalendarFeedApi();
+
+  const {
+    data: calendarFeed,
+    isLoading: calendarFeedLoading,
+    error: calendarFeedError,
+  } = useQuery<CalendarFeed | null, Error>({
+    queryKey: queryKeys.calendarFeed,
+    queryFn: getCalendarFeedApi,
+    enabled: isSignedIn,
+  });
+
+  const reportError = (action: string) => (error: Error) => {
+    console.error(`Failed to ${action}:`, error);
+    showToast({
+      title: "Error",
+      description: `Failed to ${action}: ${error.message || 'Unknown error'}`,
+      variant: "destructive",
+    });
+  };
+
+  const rotateMutation = useMutation<CalendarFeed, Error, void>({
+    mutationFn: () => rotateCalendarFeedApi(),
+    onSuccess: (feed) => {
+      queryClient.setQueryData(queryKeys.calendarFeed, feed);
+    },
+    onError: reportError("create the calendar feed URL"),
+  });
+
+  const deleteMutation = useMutation<void, Error, void>({
+    mutationFn: () => deleteCalendarFeedApi(),
+    onSuccess: () => {
+      queryClient.setQueryData(queryKeys.calendarFeed, null);
+      showToast({
+        title: "Success",
+        description: "Calendar feed turned off.",
+      });
+    },
+    onError: reportError("turn off the calendar feed"),
+  });
+
+  return {
+    calendarFeed: calendarFeed ?? null,
+    calendarFeedLoading,
+    calendarFeedError: calendarFeedError?.message || null,
+    rotateCalendarFeed: () => rotateMutation.mutateAsync(),
+    deleteCalendarFeed: () => deleteMutation.mutateAsync(),
+    calendarFeedUpdating: rotateMutation.isPending || deleteMutation.isPending,
+  };
+}
+
+const STREAM_RETRY_MS = 5000;
+
+/**
+ * Keeps a connection to the notification stream open while the user is signed in.
+ * Each new notification is shown as a toast and refreshes the notification and task caches
+ * (a fired reminder shows up as sent on its task). After a dropped connection it reconnects
+ * and replays anything it missed. Mount it once, in the app layout.
+ */
+export function useNotificationStream() {
+  const { isSignedIn } = useAuth();
+  const queryClient = useQueryClient();
+  const { streamNotifications } = useNotificationsApi();
+
+  // The API function changes identity between renders; the effect should only restart on sign-in/out
+  const streamRef = useRef(streamNotifications);
+  streamRef.current = streamNotifications;
+  const lastIdRef = useRef(0);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const onNotification = (notification: Notification) => {
+      lastIdRef.current = Math.max(lastIdRef.current, notification.id);
+      toast({
+        title: notification.title,
+        description: notification.body || undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks });
+    };
+
+    const connect = async () => {
+      try {
+        await streamRef.current(lastIdRef.current, onNotification, controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Notification stream disconnected:', error);
+      }
+      if (!controller.signal.aborted) {
+        retryTimer = setTimeout(connect, STREAM_RETRY_MS);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [isSignedIn, queryClient]);
+}
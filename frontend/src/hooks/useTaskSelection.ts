@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Multi-select state for task lists (used with BulkActionBar).
+ * Selected IDs that are no longer in `tasks` (deleted, filtered out) are dropped automatically.
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { Task } from '@/types';
+
+export function useTaskSelection(tasks: Task[]) {
+  const [selection, setSelection] = useState<Set<number>>(new Set());
+
+  // Only IDs of tasks that are still shown count as selected
+  const selectedIds = useMemo(
+    () => tasks.filter(task => selection.has(task.id)).map(task => task.id),
+    [tasks, selection]
+  );
+
+  const isSelected = useCallback((id: number) => selection.has(id), [selection]);
+
+  const toggle = useCallback((id: number) => {
+    setSelection(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const selectAll = useCallback(() => setSelection(new Set(tasks.map(task => task.id))), [tasks]);
+  const clear = useCallback(() => setSelection(new Set()), []);
+
+  return { selectedIds, isSelected, toggle, selectAll, clear };
+}
@@ -2,6 +2,7 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { AUTH_PROVIDER } from './features/auth/auth-context'
 
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'; // Optional: for debugging
@@ -19,7 +20,8 @@ const queryClient = new QueryClient({
 // Import your Publishable Key
 const PUBLISHABLE_KEY = import.meta.env.VITE_CLERK_PUBLISHABLE_KEY
 
-if (!PUBLISHABLE_KEY) {
+// Only Clerk needs one; VITE_AUTH_PROVIDER=local signs in against the backend's seeded users
+if (AUTH_PROVIDER === 'clerk' && !PUBLISHABLE_KEY) {
   throw new Error('Missing Publishable Key')
 }
 
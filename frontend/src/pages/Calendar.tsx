@@ -4,20 +4,24 @@
  * and provides various ways to visualize and interact with tasks based on their due dates.
  */
 
-import React, { useState, useMemo, useCallback } from "react";
+import React, { useState, useMemo, useCallback, useEffect } from "react";
+import { addDays, addMonths, startOfMonth } from "date-fns";
 import { Calendar } from "@/components/ui/calendar"; // Assuming custom calendar component
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Task, Project } from "@/types"; // Import Task and Project from the main types barrel file
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import TaskBoard from "@/components/tasks/TaskBoard"; // Existing TaskBoard
 import TaskItem from "@/components/tasks/TaskItem"; // To display tasks
+import CalendarFeedDialog from "@/components/calendar/CalendarFeedDialog";
+import CalendarImportDialog from "@/components/calendar/CalendarImportDialog";
 import { Button } from "@/components/ui/button"; // For Add Task button
-import { Plus } from "lucide-react"; // Plus icon
+import { CalendarPlus, FileUp, Plus } from "lucide-react";
 import { useNavigate } from "react-router-dom"; // For navigation
 import { toast } from "@/components/ui/use-toast"; // For toasts
 
 // Import the useApi hooks from your centralized hooks directory
-import { useTasks, useProjects } from "@/hooks/useApi";
+import { useTasks, useTaskList, useProjects } from "@/hooks/useApi";
+import { TaskFilters } from "@/api";
 
 interface CalendarPageProps {
   // These props are now handled internally by the useTasks and useProjects hooks
@@ -26,46 +30,13 @@ interface CalendarPageProps {
 }
 
 const CalendarPage: React.FC<CalendarPageProps> = () => {
-  // Use the hooks to get tasks and projects data and their respective CRUD operations
-  const {
-    tasks,
-    tasksLoading,
-    tasksError,
-    addTask,
-    updateTask,
-    deleteTask,
-    duplicateTask,
-    refetchTasks // Added refetch for manual refresh if needed
-  } = useTasks();
-
-  const {
-    projects,
-    projectsLoading,
-    projectsError,
-    refetchProjects // Added refetch for manual refresh if needed
-  } = useProjects();
-
   const [date, setDate] = useState<Date | undefined>(new Date());
+  const [month, setMonth] = useState<Date>(new Date()); // Month shown in the calendar view
   const [activeTab, setActiveTab] = useState<string>("board"); // Default to board view
+  const [isFeedDialogOpen, setIsFeedDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const navigate = useNavigate();
 
-  // Show loading/error states
-  if (tasksLoading || projectsLoading) {
-    return (
-      <div className="flex items-center justify-center h-[calc(100vh-120px)] text-muted-foreground">
-        Loading calendar data...
-      </div>
-    );
-  }
-
-  if (tasksError || projectsError) {
-    return (
-      <div className="flex items-center justify-center h-[calc(100vh-120px)] text-red-500">
-        Error loading data: {tasksError || projectsError}
-      </div>
-    );
-  }
-
   // Memoize today's date for consistent comparisons
   const today = useMemo(() => {
     const d = new Date();
@@ -91,6 +62,77 @@ const CalendarPage: React.FC<CalendarPageProps> = () => {
     return d;
   }, [today]);
 
+  // Only the tasks this page can show are fetched, never the whole task list:
+  // the next seven days (board columns), the month in the calendar view, overdue tasks,
+  // tasks without a due date and tasks due later. Each filter set is memoized because
+  // it is part of the React Query key.
+  const taskWindows = useMemo<Record<'week' | 'month' | 'overdue' | 'undated' | 'later', TaskFilters>>(() => {
+    const nextWeek = addDays(today, 7);
+    return {
+      week: { due_from: today.toISOString(), due_to: nextWeek.toISOString(), sort: 'dueDate', limit: 200 },
+      month: {
+        due_from: startOfMonth(month).toISOString(),
+        due_to: addMonths(startOfMonth(month), 1).toISOString(),
+        sort: 'dueDate',
+        limit: 200,
+      },
+      overdue: { completed: false, due_to: today.toISOString(), sort: 'dueDate' },
+      undated: { has_due_date: false },
+      later: { due_from: nextWeek.toISOString(), sort: 'dueDate' },
+    };
+  }, [today, month]);
+
+  // Use the hooks to get tasks and projects data and their respective CRUD operations
+  const {
+    tasks: weekTasks,
+    hasMoreTasks: hasMoreWeekTasks,
+    loadMoreTasks: loadMoreWeekTasks,
+    loadingMoreTasks: loadingMoreWeekTasks,
+    tasksLoading,
+    tasksError,
+    addTask,
+    updateTask,
+    deleteTask,
+    duplicateTask,
+    bulkUpdateTasks,
+    refetchTasks // Added refetch for manual refresh if needed
+  } = useTasks(taskWindows.week);
+
+  const {
+    tasks: monthTasks,
+    hasMoreTasks: hasMoreMonthTasks,
+    loadMoreTasks: loadMoreMonthTasks,
+    loadingMoreTasks: loadingMoreMonthTasks,
+  } = useTaskList(taskWindows.month);
+
+  // Overdue, undated and later tasks are open-ended, so only their first page is shown
+  const { tasks: overdueList } = useTaskList(taskWindows.overdue);
+  const { tasks: undatedList } = useTaskList(taskWindows.undated);
+  const { tasks: laterList } = useTaskList(taskWindows.later);
+
+  // The week and month windows are bounded by date, so load them completely
+  useEffect(() => {
+    if (hasMoreWeekTasks && !loadingMoreWeekTasks) loadMoreWeekTasks();
+  }, [hasMoreWeekTasks, loadingMoreWeekTasks, loadMoreWeekTasks]);
+
+  useEffect(() => {
+    if (hasMoreMonthTasks && !loadingMoreMonthTasks) loadMoreMonthTasks();
+  }, [hasMoreMonthTasks, loadingMoreMonthTasks, loadMoreMonthTasks]);
+
+  // Merge the windows into one list; a task can appear in more than one of them
+  const tasks = useMemo(() => {
+    const byId = new Map<number, Task>();
+    [...overdueList, ...weekTasks, ...monthTasks, ...laterList, ...undatedList].forEach(task => byId.set(task.id, task));
+    return Array.from(byId.values());
+  }, [overdueList, weekTasks, monthTasks, laterList, undatedList]);
+
+  const {
+    projects,
+    projectsLoading,
+    projectsError,
+    refetchProjects // Added refetch for manual refresh if needed
+  } = useProjects();
+
   // Memoize and group tasks by date for calendar markers and lookup
   const tasksByDate = useMemo(() => {
     const grouped: Record<string, Task[]> = {};
@@ -222,10 +264,40 @@ const CalendarPage: React.FC<CalendarPageProps> = () => {
     }
   }, [addTask, toast]);
 
+  // Show loading/error states (after all hooks, so the hook order never changes between renders)
+  if (tasksLoading || projectsLoading) {
+    return (
+      <div className="flex items-center justify-center h-[calc(100vh-120px)] text-muted-foreground">
+        Loading calendar data...
+      </div>
+    );
+  }
+
+  if (tasksError || projectsError) {
+    return (
+      <div className="flex items-center justify-center h-[calc(100vh-120px)] text-red-500">
+        Error loading data: {tasksError || projectsError}
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-6 p-4 md:p-6 bg-background rounded-lg shadow-lg">
-      <h1 className="text-3xl font-bold text-foreground mb-6">Calendar</h1>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-foreground">Calendar</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+            <FileUp className="mr-2 h-4 w-4" />
+            Import .ics
+          </Button>
+          <Button variant="outline" onClick={() => setIsFeedDialogOpen(true)}>
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            Subscribe
+          </Button>
+        </div>
+      </div>
+      <CalendarFeedDialog open={isFeedDialogOpen} onOpenChange={setIsFeedDialogOpen} />
+      <CalendarImportDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
 
       <Tabs defaultValue="board" value={activeTab} onValueChange={setActiveTab} className="w-full">
         <TabsList className="grid w-full grid-cols-2 md:w-auto">
@@ -241,6 +313,8 @@ const CalendarPage: React.FC<CalendarPageProps> = () => {
             onAddTask={handleAddTask} // Use the new handleAddTask
             onUpdateTask={updateTask}
             onDuplicateTask={duplicateTask}
+            onBulkAction={bulkUpdateTasks}
+            onRescheduleTask={(id, dueDate) => updateTask(id, { dueDate })}
             projects={projects}
           />
         </TabsContent>
@@ -258,6 +332,8 @@ const CalendarPage: React.FC<CalendarPageProps> = () => {
                     mode="single"
                     selected={date}
                     onSelect={setDate}
+                    month={month}
+                    onMonthChange={setMonth}
                     className="rounded-md border border-border bg-card-secondary text-foreground w-full"
                     modifiers={{
                       hasTasks: Object.keys(tasksByDate).map(dateKey => new Date(dateKey)),
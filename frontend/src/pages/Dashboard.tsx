@@ -16,7 +16,8 @@ import { QuickNoteForm } from "@/components/dashboard/QuickNoteForm";
 import { TaskSuggestions } from "@/components/dashboard/TaskSuggestions";
 
 // Import the useApi hooks from your centralized hooks directory
-import { useTasks, useNotes } from "@/hooks/useApi";
+import { useTasks, useTaskList, useNotes, useFocusSessions } from "@/hooks/useApi";
+import { TaskFilters, NoteFilters } from "@/api";
 import { Task, Note } from "@/types"; // Import types for clarity
 
 interface DashboardProps {
@@ -25,53 +26,72 @@ interface DashboardProps {
   // The component will fetch its own data and manage its own state.
 }
 
+// Fixed list queries for the summary cards (defined once so the React Query keys stay stable)
+const ALL_TASKS_TOTAL: TaskFilters = { limit: 1 };
+const UNCOMPLETED_TASKS: TaskFilters = { completed: false, sort: 'dueDate' };
+const LATEST_NOTE: NoteFilters = { sort: '-updated_at', limit: 1 };
+
 const Dashboard: React.FC<DashboardProps> = () => {
+  // Memoize today's date calculation to prevent re-calculation on every render
+  const today = useMemo(() => {
+    const d = new Date();
+    d.setHours(0, 0, 0, 0);
+    return d;
+  }, []); // Only runs once
+
+  // Tasks due today. The filters are memoized because they are part of the React Query key.
+  const todayFilters = useMemo(() => {
+    const end = new Date(today);
+    end.setDate(end.getDate() + 1);
+    return { due_from: today.toISOString(), due_to: end.toISOString() };
+  }, [today]);
+
   // Use the hooks to get tasks and notes data and their respective CRUD operations
   const {
-    tasks,
+    tasks: tasksToday,
     tasksLoading,
     tasksError,
     updateTask,
     deleteTask,
     addTask, // Need addTask for QuickTaskForm
-  } = useTasks();
+  } = useTasks(todayFilters);
+
+  // The summary cards only need totals, which every page of results carries
+  const { totalTasks } = useTaskList(ALL_TASKS_TOTAL);
+  // Open tasks (soonest due first) also feed the AI suggestions
+  const { tasks: uncompletedTasks, totalTasks: uncompletedTotal } = useTaskList(UNCOMPLETED_TASKS);
 
   const {
     notes,
+    totalNotes,
     notesLoading,
     notesError,
     addNote, // Need addNote for QuickNoteForm
-  } = useNotes();
+  } = useNotes(LATEST_NOTE);
 
-  // Memoize today's date calculation to prevent re-calculation on every render
-  const today = useMemo(() => {
-    const d = new Date();
-    d.setHours(0, 0, 0, 0);
-    return d;
-  }, []); // Only runs once
+  // Only today's focus sessions are needed for the summary card.
+  // The range is memoized because it is part of the React Query key.
+  const todayRange = useMemo(() => {
+    const end = new Date(today);
+    end.setDate(end.getDate() + 1);
+    return { from: today.toISOString(), to: end.toISOString() };
+  }, [today]);
 
-  // Memoize tasks due today to prevent re-filtering on every render
-  const tasksToday = useMemo(() => {
-    return (tasks || []).filter(task => {
-      if (!task.dueDate) return false; // Use dueDate as per Task type
-      const dueDate = new Date(task.dueDate);
-      dueDate.setHours(0, 0, 0, 0);
-      return dueDate.getTime() === today.getTime();
-    });
-  }, [tasks, today]); // Re-filter only if 'tasks' or 'today' changes
+  const { focusSessions } = useFocusSessions(todayRange);
 
-  // Memoize uncompleted tasks to prevent re-filtering on every render
-  const uncompletedTasks = useMemo(() => {
-    return (tasks || []).filter(task => !task.completed);
-  }, [tasks]); // Re-filter only if 'tasks' changes
+  // Count finished sessions and the minutes spent in them
+  const focusSummary = useMemo(() => {
+    const completed = focusSessions.filter(session => session.end_time);
+    const minutes = Math.round(completed.reduce((sum, session) => sum + (session.duration || 0), 0) / 60);
+    return { count: completed.length, minutes };
+  }, [focusSessions]);
 
-  // Memoize the last updated date for notes
+  // Memoize the last updated date for notes.
+  // Notes are listed most recently updated first, so only the first one is fetched.
   const lastNoteUpdate = useMemo(() => {
-    if ((notes || []).length === 0) return "No notes created yet";
-    const lastUpdatedTime = Math.max(
-      ...(notes || []).map(n => new Date(n.updated_at || n.created_at).getTime())
-    );
-    return `Last updated ${new Date(lastUpdatedTime).toLocaleDateString()}`;
+    const latest = notes[0];
+    if (!latest) return "No notes created yet";
+    return `Last updated ${new Date(latest.updated_at || latest.created_at).toLocaleDateString()}`;
   }, [notes]); // Re-calculate only if 'notes' changes
 
   // Memoize the current date string for display
@@ -93,7 +113,6 @@ const Dashboard: React.FC<DashboardProps> = () => {
       priority: "high",
       is_recurring: false,
       completed: false,
-      reminder: null,
       recurrence_pattern: null,
       project_id: null,
     };
@@ -143,10 +162,10 @@ const Dashboard: React.FC<DashboardProps> = () => {
             <CheckSquare className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{uncompletedTasks.length}</div>
+            <div className="text-2xl font-bold">{uncompletedTotal}</div>
             <p className="text-xs text-muted-foreground">
-              {(tasks || []).length > 0
-                ? `${Math.round((uncompletedTasks.length / (tasks || []).length) * 100)}% of tasks remaining`
+              {totalTasks > 0
+                ? `${Math.round((uncompletedTotal / totalTasks) * 100)}% of tasks remaining`
                 : "No tasks created yet"}
             </p>
           </CardContent>
@@ -158,9 +177,11 @@ const Dashboard: React.FC<DashboardProps> = () => {
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">0</div>
+            <div className="text-2xl font-bold">{focusSummary.count}</div>
             <p className="text-xs text-muted-foreground">
-              Complete a focus session to track your productivity
+              {focusSummary.count > 0
+                ? `${focusSummary.minutes} minutes focused today`
+                : "Complete a focus session to track your productivity"}
             </p>
           </CardContent>
         </Card>
@@ -171,7 +192,7 @@ const Dashboard: React.FC<DashboardProps> = () => {
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{(notes || []).length}</div>
+            <div className="text-2xl font-bold">{totalNotes}</div>
             <p className="text-xs text-muted-foreground">
               {lastNoteUpdate}
             </p>
@@ -192,7 +213,7 @@ const Dashboard: React.FC<DashboardProps> = () => {
                     <TaskItem
                       key={task.id}
                       task={task}
-                      onToggleComplete={(id) => updateTask(id, { completed: !tasks?.find(t => t.id === id)?.completed })}
+                      onToggleComplete={(id) => updateTask(id, { completed: !tasksToday.find(t => t.id === id)?.completed })}
                       onDeleteTask={deleteTask}
                       // Pass projects if TaskItem needs them for badges, etc.
                       // projects={projects} // Assuming projects are not needed here or fetched separately if needed
@@ -222,7 +243,7 @@ const Dashboard: React.FC<DashboardProps> = () => {
 
           {/* Add AI Task Suggestions component */}
           {/* Ensure TaskSuggestions component can handle tasks being null/undefined if loading */}
-          <TaskSuggestions tasks={tasks || []} />
+          <TaskSuggestions tasks={uncompletedTasks} />
         </div>
 
         <div className="space-y-6">
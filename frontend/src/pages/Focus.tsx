@@ -1,8 +1,9 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider"; // Assuming you have a Slider component
 import { Play, Pause, RotateCcw } from "lucide-react"; // Icons for timer controls
+import { useFocusSessions } from "@/hooks/useApi";
 
 const PomodoroTimer: React.FC = () => {
   const [focusLength, setFocusLength] = useState(25);
@@ -14,6 +15,40 @@ const PomodoroTimer: React.FC = () => {
   const [isBreak, setIsBreak] = useState(false);
   const [sessionCount, setSessionCount] = useState(0); // To track Pomodoro sessions
   const audioRef = useRef<HTMLAudioElement | null>(null); // Ref for audio element
+  const { activeSession, startSession, stopSession } = useFocusSessions();
+  const sessionIdRef = useRef<number | null>(null); // Backend id of the focus session being timed
+  const hasResumedRef = useRef(false);
+  const stopSessionRef = useRef(stopSession); // Latest stopSession, so the timer effect need not depend on it
+  stopSessionRef.current = stopSession;
+
+  // Resume a focus session that was still running when the page was refreshed
+  useEffect(() => {
+    if (hasResumedRef.current || !activeSession) return;
+    hasResumedRef.current = true;
+
+    const elapsedSeconds = Math.floor((Date.now() - new Date(activeSession.start_time).getTime()) / 1000);
+    const remainingSeconds = focusLength * 60 - elapsedSeconds;
+
+    if (remainingSeconds <= 0) {
+      // The session ran past its length while the page was closed
+      stopSessionRef.current(activeSession.id);
+      return;
+    }
+
+    sessionIdRef.current = activeSession.id;
+    setIsBreak(false);
+    setMinutes(Math.floor(remainingSeconds / 60));
+    setSeconds(remainingSeconds % 60);
+    setIsActive(true);
+  }, [activeSession, focusLength]);
+
+  // Close the running backend session, if any
+  const finishSession = useCallback(() => {
+    if (sessionIdRef.current !== null) {
+      stopSessionRef.current(sessionIdRef.current);
+      sessionIdRef.current = null;
+    }
+  }, []);
 
   // Effect to handle timer logic (countdown)
   useEffect(() => {
@@ -38,7 +73,8 @@ const PomodoroTimer: React.FC = () => {
               nextIsBreak = false;
               nextMinutes = focusLength;
             } else {
-              // End of focus, start break
+              // End of focus, record the completed session and start break
+              finishSession();
               nextSessionCount = sessionCount + 1;
               nextIsBreak = true;
               if (nextSessionCount % 4 === 0) {
@@ -73,7 +109,7 @@ const PomodoroTimer: React.FC = () => {
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [isActive, minutes, seconds, focusLength, breakLength, longBreakLength, isBreak, sessionCount]);
+  }, [isActive, minutes, seconds, focusLength, breakLength, longBreakLength, isBreak, sessionCount, finishSession]);
 
   // Effect to manage minutes/seconds when lengths or phase change, but only if timer is NOT active
   // This fixes the bug where pausing would reset the timer.
@@ -97,9 +133,18 @@ const PomodoroTimer: React.FC = () => {
   }, [focusLength, breakLength, longBreakLength, isBreak, sessionCount]); // Removed isActive from dependencies here
 
   // Functions for timer controls
-  const toggleTimer = () => setIsActive(!isActive);
+  const toggleTimer = () => {
+    // Starting a focus phase opens a session on the backend; pausing keeps it open
+    if (!isActive && !isBreak && sessionIdRef.current === null) {
+      startSession({ session_type: 'pomodoro' })
+        .then((session) => { sessionIdRef.current = session.id; })
+        .catch(() => { /* The hook already reports the error */ });
+    }
+    setIsActive(!isActive);
+  };
 
   const resetTimer = () => {
+    finishSession();
     setIsActive(false);
     setIsBreak(false);
     setMinutes(focusLength); // Reset to initial focus length
@@ -124,7 +169,8 @@ const PomodoroTimer: React.FC = () => {
       setMinutes(focusLength);
       setSeconds(0);
     } else {
-      // Skip focus, start break
+      // Skip focus, record what was done so far and start break
+      finishSession();
       setSessionCount(prev => prev + 1);
       if ((sessionCount + 1) % 4 === 0) {
         setMinutes(longBreakLength);
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Import & export page. Downloads the account as a JSON archive (or one entity as CSV),
+ * and imports an archive: the file is checked with a dry run first, which lists how many items would
+ * be created and any conflicts, before the user confirms the import.
+ */
+
+import React, { useRef, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, Download, FileJson, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/components/ui/use-toast";
+import { useAccountTransfer } from "@/hooks/useApi";
+import { ArchiveEntity, ExportFormat, ImportResult } from "@/types";
+
+const ENTITY_LABELS: Record<ArchiveEntity, string> = {
+  projects: "Projects",
+  tags: "Tags",
+  tasks: "Tasks",
+  notes: "Notes",
+  focus_sessions: "Focus sessions",
+};
+
+const ENTITIES = Object.keys(ENTITY_LABELS) as ArchiveEntity[];
+
+// Save a downloaded file through a temporary link
+const saveFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ImportSummary: React.FC<{ result: ImportResult }> = ({ result }) => (
+  <div className="space-y-3">
+    <ul className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-sm">
+      {ENTITIES.map(entity => (
+        <li key={entity} className="rounded-md border border-border px-3 py-2">
+          <div className="text-lg font-semibold">{result.counts[entity]}</div>
+          <div className="text-muted-foreground">{ENTITY_LABELS[entity]}</div>
+        </li>
+      ))}
+    </ul>
+    {result.conflicts.length > 0 && (
+      <div>
+        <p className="text-sm font-medium mb-1">
+          {result.conflicts.length} conflict{result.conflicts.length === 1 ? "" : "s"}
+        </p>
+        <ul className="space-y-1 text-sm max-h-64 overflow-y-auto">
+          {result.conflicts.map((conflict, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+              <span>
+                <span className="text-muted-foreground">{ENTITY_LABELS[conflict.entity]} #{conflict.id}: </span>
+                {conflict.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+  </div>
+);
+
+const ImportExport: React.FC = () => {
+  const { toast } = useToast();
+  const { exportAccount, previewImport, importAccount, importing } = useAccountTransfer();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [pending, setPending] = useState<{ fileName: string; archive: unknown; preview: ImportResult } | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [imported, setImported] = useState<ImportResult | null>(null);
+
+  const handleExport = async (exportFormat: ExportFormat, entity?: ArchiveEntity) => {
+    const name = entity ?? "export";
+    setExporting(name);
+    try {
+      const blob = await exportAccount(exportFormat, entity);
+      saveFile(blob, `focusflow-${name}-${format(new Date(), "yyyy-MM-dd")}.${exportFormat}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to export: ${(error as Error).message || "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Choosing the same file again should check it again
+    if (!file) return;
+
+    setImported(null);
+    setPending(null);
+    setChecking(true);
+    try {
+      let archive: unknown;
+      try {
+        archive = JSON.parse(await file.text());
+      } catch {
+        throw new Error("The file is not valid JSON.");
+      }
+      const preview = await previewImport(archive);
+      setPending({ fileName: file.name, archive, preview });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Cannot import ${file.name}: ${(error as Error).message || "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    try {
+      setImported(await importAccount(pending.archive));
+      setPending(null);
+    } catch {
+      // useAccountTransfer already reports the failure with a toast
+    }
+  };
+
+  return (
+    <div className="space-y-6 p-4 max-w-3xl">
+      <div>
+        <h1 className="text-3xl font-semibold">Import &amp; Export</h1>
+        <p className="text-muted-foreground mt-1">
+          Take your projects, tasks, notes, tags and focus sessions out of FocusFlow, or bring them into this account.
+        </p>
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-xl font-semibold">Export</h2>
+        <p className="text-sm text-muted-foreground">
+          The JSON archive contains everything except the trash and can be imported again. CSV files hold one kind of item each, for spreadsheets.
+        </p>
+        <Button onClick={() => handleExport("json")} disabled={exporting !== null}>
+          <FileJson className="mr-2 h-4 w-4" />
+          {exporting === "export" ? "Exporting..." : "Download JSON archive"}
+        </Button>
+        <div className="flex flex-wrap gap-2">
+          {ENTITIES.map(entity => (
+            <Button key={entity} variant="outline" size="sm" onClick={() => handleExport("csv", entity)} disabled={exporting !== null}>
+              <Download className="mr-1 h-4 w-4" />
+              {ENTITY_LABELS[entity]} CSV
+            </Button>
+          ))}
+        </div>
+      </section>
+
+      <Separator />
+
+      <section className="space-y-3">
+        <h2 className="text-xl font-semibold">Import</h2>
+        <p className="text-sm text-muted-foreground">
+          Imported items are added next to what you already have. Tags with the same name are merged; nothing is overwritten.
+        </p>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileSelected} />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={checking || importing}>
+          <Upload className="mr-2 h-4 w-4" />
+          {checking ? "Checking..." : "Choose a JSON archive..."}
+        </Button>
+
+        {pending && (
+          <div className="rounded-lg border border-border p-4 space-y-4">
+            <p className="text-sm">
+              Importing <span className="font-medium">{pending.fileName}</span> will create:
+            </p>
+            <ImportSummary result={pending.preview} />
+            <div className="flex gap-2">
+              <Button onClick={handleImport} disabled={importing}>
+                {importing ? "Importing..." : "Import"}
+              </Button>
+              <Button variant="ghost" onClick={() => setPending(null)} disabled={importing}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {imported && (
+          <div className="rounded-lg border border-border p-4 space-y-4">
+            <p className="text-sm font-medium">Import complete. Created:</p>
+            <ImportSummary result={imported} />
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ImportExport;
@@ -1,10 +1,11 @@
 /**
  * @fileoverview Notes page component for displaying and managing user notes.
  * This component orchestrates the NoteList and NoteEditor components,
- * and interacts with the useNotes hook for data management.
+ * and interacts with the useNotes hook for data management (notes are searched and paged on the server).
  */
 
-import React, { useState, useMemo, useCallback } from "react";
+import React, { useState, useMemo, useCallback, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Note } from "@/types"; // Import the Note type
 import NoteList from "@/components/notes/NoteList";
 import NoteEditor from "@/components/notes/NoteEditor";
@@ -13,68 +14,86 @@ import { Input } from "@/components/ui/input";
 import { Search, Plus, Edit, Trash2 } from "lucide-react"; // Removed X as it's not used in this component's JSX
 import { Separator } from "@/components/ui/separator";
 import { toast } from "@/components/ui/use-toast"; // Assuming useToast hook
+import { useNotes } from "@/hooks/useApi";
+import { NoteFilters } from "@/api";
 
 interface NotesProps {
-  notes: Note[]; // Notes fetched from useNotes hook
-  onSaveNote: (note: Omit<Note, 'user_id' | 'created_at' | 'updated_at'> | Note) => void; // Function to add/update note
+  // Notes are fetched by this page (with server-side search) through the useNotes hook.
+  onSaveNote: (note: Omit<Note, 'user_id' | 'created_at' | 'updated_at'> | Note) => Promise<Note | void> | void; // Function to add/update note
   onDeleteNote: (id: number) => void; // Function to delete note
 }
 
-const Notes: React.FC<NotesProps> = ({ notes, onSaveNote, onDeleteNote }) => {
+const Notes: React.FC<NotesProps> = ({ onSaveNote, onDeleteNote }) => {
   const [selectedNote, setSelectedNote] = useState<Note | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [pendingNoteId, setPendingNoteId] = useState<number | null>(null);
 
-  // Memoize filtered notes based on search term
-  const filteredNotes = useMemo(() => {
-    if (!searchTerm) {
-      return notes;
-    }
-    const lowerCaseSearchTerm = searchTerm.toLowerCase();
-    return notes.filter(note =>
-      note.title.toLowerCase().includes(lowerCaseSearchTerm) ||
-      (note.content && note.content.toLowerCase().includes(lowerCaseSearchTerm))
-    );
-  }, [notes, searchTerm]);
-
-  // Sort notes by last updated/created date, newest first
-  const sortedNotes = useMemo(() => {
-    return [...filteredNotes].sort((a, b) =>
-      new Date(b.updated_at || b.created_at).getTime() - new Date(a.updated_at || a.created_at).getTime()
-    );
-  }, [filteredNotes]);
+  // Wait for the user to stop typing before searching on the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Search and sorting (most recently updated first) happen on the server.
+  // The filters are memoized because they are part of the React Query key.
+  const noteFilters = useMemo<NoteFilters>(
+    () => ({ search: debouncedSearch || undefined, sort: '-updated_at' }),
+    [debouncedSearch]
+  );
+  const { notes, hasMoreNotes, loadMoreNotes, loadingMoreNotes } = useNotes(noteFilters);
 
   const handleSelectNote = useCallback((note: Note) => {
     setSelectedNote(note);
     setIsEditing(false); // Switch to view mode when a note is selected
   }, []);
 
+  // Links from the search page open a note as ?search=<title>&note=<id>: search for it,
+  // select it once it is in the list, and clear the parameters from the URL
+  useEffect(() => {
+    const search = searchParams.get('search');
+    const noteId = Number(searchParams.get('note'));
+    if (search === null && !noteId) return;
+
+    if (search !== null) {
+      setSearchTerm(search);
+      setDebouncedSearch(search.trim());
+    }
+    setPendingNoteId(noteId || null);
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  useEffect(() => {
+    if (pendingNoteId === null) return;
+    const note = notes.find(n => n.id === pendingNoteId);
+    if (note) {
+      handleSelectNote(note);
+      setPendingNoteId(null);
+    }
+  }, [notes, pendingNoteId, handleSelectNote]);
+
   const handleNewNote = useCallback(() => {
     setSelectedNote(null); // Clear any selected note
     setIsEditing(true); // Enter editing mode for a new note
   }, []);
 
   const handleSave = useCallback((noteData: Omit<Note, 'user_id' | 'created_at' | 'updated_at'> | Note) => {
-    onSaveNote(noteData); // Pass the data to the parent handler (App.tsx -> useNotes)
     setIsEditing(false); // Exit editing mode after saving
 
-    // After saving, attempt to select the newly created/updated note
-    // This relies on the parent's `notes` state being updated by the API hook.
-    // A more robust solution might involve the `onSaveNote` prop returning the new note.
+    // After saving, select the newly created/updated note
     if (!noteData.id) { // If it was a new note being created
-      // Give a small delay for the data to refetch and update in the parent
-      setTimeout(() => {
-        // Find the newly created note (e.g., by title, assuming titles are unique enough for this context)
-        // This is a simplified approach. In a real app, the API would return the full new object.
-        const newlyCreated = notes.find(n => n.title === noteData.title && n.content === noteData.content);
-        if (newlyCreated) {
-          setSelectedNote(newlyCreated);
+      Promise.resolve(onSaveNote(noteData)).then((savedNote) => {
+        if (savedNote) {
+          setSelectedNote(savedNote);
         }
-      }, 100); // Small delay
+      });
     } else { // If it was an existing note being updated
+      onSaveNote(noteData);
       setSelectedNote(prev => prev ? { ...prev, ...noteData } as Note : null);
     }
-  }, [onSaveNote, notes]); // Added notes to dependencies for setTimeout logic
+  }, [onSaveNote]);
 
   const handleCancel = useCallback(() => {
     setIsEditing(false);
@@ -99,7 +118,7 @@ const Notes: React.FC<NotesProps> = ({ notes, onSaveNote, onDeleteNote }) => {
       setIsEditing(false); // Close editor if open
       toast({
         title: "Note deleted!",
-        description: `Note '${selectedNote.title}' has been removed.`,
+        description: `Note '${selectedNote.title}' has been moved to the trash.`,
         variant: "destructive",
         duration: 3000,
       });
@@ -138,16 +157,23 @@ const Notes: React.FC<NotesProps> = ({ notes, onSaveNote, onDeleteNote }) => {
         <Separator className="mb-4 bg-border" />
         <div className="flex-1 overflow-y-auto pr-2">
           <NoteList
-            notes={sortedNotes}
+            notes={notes}
             selectedNoteId={selectedNote?.id || null}
             onSelectNote={handleSelectNote}
           />
-          {sortedNotes.length === 0 && !searchTerm && (
+          {hasMoreNotes && (
+            <div className="flex justify-center py-4">
+              <Button variant="outline" size="sm" onClick={() => loadMoreNotes()} disabled={loadingMoreNotes}>
+                {loadingMoreNotes ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
+          {notes.length === 0 && !debouncedSearch && (
             <div className="text-center text-muted-foreground py-8">
               <p>No notes yet. Click "New" to create one!</p>
             </div>
           )}
-          {sortedNotes.length === 0 && searchTerm && (
+          {notes.length === 0 && debouncedSearch && (
             <div className="text-center text-muted-foreground py-8">
               <p>No notes found matching your search.</p>
             </div>
@@ -163,6 +189,7 @@ const Notes: React.FC<NotesProps> = ({ notes, onSaveNote, onDeleteNote }) => {
             onSaveNote={handleSave} // Renamed prop to match NoteEditor's expectation
             onDeleteNote={handleDelete} // Pass delete handler
             onCloseEditor={handleCancel} // Pass cancel handler as close editor
+            onNoteReverted={setSelectedNote}
           />
         ) : selectedNote ? (
           <div className="flex flex-col h-full">
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Search page for full-text search across tasks, notes and projects (GET /api/search).
+ * The query is kept in the URL (?q=), results are ranked best first, and the matching words are
+ * highlighted. Opening a result shows it on the Tasks or Notes page.
+ * Results from archived projects are marked as such; they open read-only.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Archive, CheckCircle2, CheckSquare, FileText, Folder, Search as SearchIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useArchivedProjects, useProjects, useSearch } from "@/hooks/useApi";
+import { Project, SearchResult, SearchResultType } from "@/types";
+
+const RESULT_ICONS: Record<SearchResultType, React.ElementType> = {
+  task: CheckSquare,
+  note: FileText,
+  project: Folder,
+};
+
+const RESULT_LABELS: Record<SearchResultType, string> = {
+  task: "Task",
+  note: "Note",
+  project: "Project",
+};
+
+// The server marks matches as <mark>...</mark> in otherwise plain text. Splitting on the tags
+// (instead of rendering the string as HTML) keeps the rest of the text escaped by React.
+const Highlighted: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(/<mark>|<\/mark>/).map((part, index) =>
+      index % 2 === 1 ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part}</mark>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+// Where a result is shown: tasks and notes are looked up by title, projects open their task list.
+// Tasks of archived projects are left out of the full task list, so they are looked up in their project.
+const resultLink = (result: SearchResult) => {
+  switch (result.type) {
+    case "task":
+      return result.archived && result.project_id
+        ? `/app/tasks?project=${result.project_id}&search=${encodeURIComponent(result.title)}`
+        : `/app/tasks?search=${encodeURIComponent(result.title)}`;
+    case "note":
+      return `/app/notes?search=${encodeURIComponent(result.title)}&note=${result.id}`;
+    case "project":
+      return `/app/tasks?project=${result.id}`;
+  }
+};
+
+const Search: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const [searchTerm, setSearchTerm] = useState(query);
+  const { searchResults, searchLoading, searchFetching, searchError } = useSearch(query);
+  const activeProjects = useProjects().projects as Project[];
+  // For the project names of results from archived projects
+  const { archivedProjects } = useArchivedProjects(searchResults.some(result => result.archived));
+  const projects = [...activeProjects, ...archivedProjects];
+
+  // Follow the URL when it changes from outside, e.g. with the browser's back button
+  useEffect(() => {
+    setSearchTerm(query);
+  }, [query]);
+
+  // Wait for the user to stop typing, then put the query in the URL (which runs the search)
+  useEffect(() => {
+    const trimmed = searchTerm.trim();
+    if (trimmed === query.trim()) return;
+    const timeout = setTimeout(() => setSearchParams(trimmed ? { q: trimmed } : {}, { replace: true }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, query, setSearchParams]);
+
+  const renderResults = () => {
+    if (!query.trim()) {
+      return (
+        <p className="text-center py-8 text-muted-foreground">
+          Search the titles and text of your tasks and notes, and the names of your projects.
+        </p>
+      );
+    }
+    if (searchLoading) {
+      return <p className="text-center py-8 text-muted-foreground">Searching...</p>;
+    }
+    if (searchError) {
+      return <p className="text-center py-8 text-red-500">Error searching: {searchError}</p>;
+    }
+    if (searchResults.length === 0) {
+      return <p className="text-center py-8 text-muted-foreground">No results for "{query.trim()}".</p>;
+    }
+
+    return (
+      <ul className={`space-y-1 transition-opacity ${searchFetching ? "opacity-60" : ""}`}>
+        {searchResults.map(result => {
+          const Icon = RESULT_ICONS[result.type];
+          const project = result.project_id ? projects.find(p => p.id === result.project_id) : undefined;
+          return (
+            <li key={`${result.type}-${result.id}`}>
+              <button
+                type="button"
+                className="w-full flex items-start gap-3 py-2 px-3 text-left hover:bg-accent/30 rounded-md transition-colors"
+                onClick={() => navigate(resultLink(result))}
+              >
+                <Icon className="h-4 w-4 mt-1 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <p className={`truncate ${result.completed ? "line-through text-muted-foreground" : ""}`}>
+                    <Highlighted text={result.title_highlight} />
+                  </p>
+                  {result.snippet && (
+                    <p className="text-sm text-muted-foreground line-clamp-2 break-words">
+                      <Highlighted text={result.snippet} />
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-0.5 flex items-center gap-1">
+                    {RESULT_LABELS[result.type]}
+                    {result.completed && <CheckCircle2 className="h-3 w-3" aria-label="Completed" />}
+                    {result.archived && (
+                      <Badge variant="outline" className="gap-1 px-1.5 py-0 text-[10px] font-normal">
+                        <Archive className="h-3 w-3" />
+                        Archived
+                      </Badge>
+                    )}
+                    {project && (
+                      <>
+                        {" · "}
+                        <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: project.color || "#ccc" }} />
+                        {project.name}
+                      </>
+                    )}
+                    {" · Updated "}
+                    {formatDistanceToNow(new Date(result.updated_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="space-y-6 p-4">
+      <div>
+        <h1 className="text-3xl font-semibold">Search</h1>
+        <p className="text-muted-foreground mt-1">Words are matched from their start, so "foc sess" finds "Focus session".</p>
+      </div>
+
+      <div className="relative max-w-2xl">
+        <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          autoFocus
+          placeholder="Search tasks, notes and projects..."
+          className="pl-9"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+      </div>
+
+      <div className="max-w-2xl">{renderResults()}</div>
+    </div>
+  );
+};
+
+export default Search;
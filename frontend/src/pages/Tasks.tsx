@@ -2,21 +2,38 @@
  * @fileoverview Tasks page component for displaying and managing user tasks.
  * This component integrates with useTasks and useProjects hooks for data,
  * and orchestrates various task and project-related UI components.
+ * The Kanban tab shows the selected project's tasks in its workflow columns (see KanbanBoard).
+ * The "Assigned to me" tab shows the tasks assigned to the user, in every project they can see.
+ * Archived projects are picked from the sidebar's Archived section; their tasks are shown read-only
+ * until the project is unarchived.
  */
 
-import React, { useState, useMemo, useCallback } from "react";
+import React, { useState, useMemo, useCallback, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import AddTaskForm from "@/components/tasks/AddTaskForm";
 import TaskList from "@/components/tasks/TaskList";
-import { Task, Project } from "@/types"; // Import Task and Project from the main types barrel file
+import KanbanBoard from "@/components/tasks/KanbanBoard";
+import { Task, Project, ProjectSharing, TaskPlacement } from "@/types"; // Import Task and Project from the main types barrel file
 import ProjectSelector from "@/components/projects/ProjectSelector";
 import ProjectForm from "@/components/projects/ProjectForm";
 import ProjectSidebar from "@/components/projects/ProjectSidebar";
+import TaskImportWizard from "@/components/tasks/TaskImportWizard";
 import { useToast } from "@/components/ui/use-toast";
+import { Archive, Eye, Upload } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 // Import the useApi hooks from your centralized hooks directory
-import { useTasks, useProjects } from "@/hooks/useApi";
+import { useTasks, useProjects, useArchivedProjects, useTags } from "@/hooks/useApi";
+import { TaskFilters } from "@/api";
 
 interface TasksProps {
   // These props are now handled internally by the useTasks and useProjects hooks
@@ -25,50 +42,24 @@ interface TasksProps {
 }
 
 const Tasks: React.FC<TasksProps> = () => {
-  // Use the hooks to get tasks and projects data and their respective CRUD operations
-  const {
-    tasks,
-    tasksLoading,
-    tasksError,
-    addTask,
-    updateTask,
-    deleteTask,
-    duplicateTask,
-    refetchTasks // Added refetch for manual refresh if needed
-  } = useTasks();
-
-  const {
-    projects,
-    projectsLoading,
-    projectsError,
-    addProject,
-    updateProject,
-    deleteProject,
-    refetchProjects // Added refetch for manual refresh if needed
-  } = useProjects();
-
   const [activeTab, setActiveTab] = useState<string>("all");
   const [currentProject, setCurrentProject] = useState<Project | null>(null);
   const [isProjectFormOpen, setIsProjectFormOpen] = useState(false);
+  const [isImportWizardOpen, setIsImportWizardOpen] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
+  // Tag filtering happens on the server (GET /api/tasks?tag=)
+  const [tagFilter, setTagFilter] = useState<number | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { tags } = useTags();
   const { toast } = useToast();
 
-  // Show loading/error states
-  if (tasksLoading || projectsLoading) {
-    return (
-      <div className="flex items-center justify-center h-[calc(100vh-120px)] text-muted-foreground">
-        Loading tasks and projects...
-      </div>
-    );
-  }
-
-  if (tasksError || projectsError) {
-    return (
-      <div className="flex items-center justify-center h-[calc(100vh-120px)] text-red-500">
-        Error loading data: {tasksError || projectsError}
-      </div>
-    );
-  }
+  // Wait for the user to stop typing before searching on the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
 
   // Memoize date calculations to prevent re-calculation on every render
   const today = useMemo(() => {
@@ -80,51 +71,123 @@ const Tasks: React.FC<TasksProps> = () => {
   const tomorrow = useMemo(() => {
     const d = new Date(today);
     d.setDate(d.getDate() + 1);
-    d.setHours(0, 0, 0, 0); // Ensure tomorrow is also set to start of day
     return d;
   }, [today]); // Recalculates only if 'today' changes
 
-  const endOfWeek = useMemo(() => {
+  const dayAfterTomorrow = useMemo(() => {
     const d = new Date(today);
-    const dayOfWeek = today.getDay(); // 0 for Sunday, 6 for Saturday
-    const daysUntilEndOfWeek = 6 - dayOfWeek; // Days until next Saturday
-    d.setDate(today.getDate() + daysUntilEndOfWeek);
-    d.setHours(23, 59, 59, 999); // Set to end of the day for accurate range
+    d.setDate(d.getDate() + 2);
     return d;
-  }, [today]); // Recalculates only if 'today' changes
+  }, [today]);
 
-  // Memoize filtered tasks to prevent re-filtering on every render
-  const filteredTasks = useMemo(() => {
-    return tasks.filter((task) => {
-      // First filter by project
-      if (currentProject && task.project_id !== currentProject.id) return false;
+  // Start of the day after the end of the week (Sunday), used as an exclusive upper bound
+  const afterEndOfWeek = useMemo(() => {
+    const d = new Date(today);
+    d.setDate(today.getDate() + (7 - today.getDay()));
+    return d;
+  }, [today]); // Recalculates only if 'today' changes
 
-      if (activeTab === "all") return true;
-      if (activeTab === "completed") return task.completed;
-      if (activeTab === "uncompleted") return !task.completed;
+  // Translate the selected tab, project, tag and search into server-side filters.
+  // Memoized because the filters are part of the React Query key.
+  // Tasks are shown in the manual order, which the user changes by dragging them
+  const taskFilters = useMemo<TaskFilters>(() => {
+    const filters: TaskFilters = { sort: "position" };
+    if (currentProject) filters.project_id = currentProject.id;
+    if (tagFilter) filters.tag = tagFilter;
+    if (debouncedSearch) filters.search = debouncedSearch;
+
+    switch (activeTab) {
+      case "completed":
+        filters.completed = true;
+        break;
+      case "uncompleted":
+        filters.completed = false;
+        break;
+      case "no-date":
+        filters.has_due_date = false;
+        break;
+      case "today":
+        filters.due_from = today.toISOString();
+        filters.due_to = tomorrow.toISOString();
+        break;
+      case "tomorrow":
+        filters.due_from = tomorrow.toISOString();
+        filters.due_to = dayAfterTomorrow.toISOString();
+        break;
+      case "this-week":
+        filters.due_from = today.toISOString();
+        filters.due_to = afterEndOfWeek.toISOString();
+        break;
+      case "assigned":
+        filters.assignee_id = "me";
+        break;
+    }
+    return filters;
+  }, [activeTab, currentProject, tagFilter, debouncedSearch, today, tomorrow, dayAfterTomorrow, afterEndOfWeek]);
 
-      if (!task.dueDate) return activeTab === "no-date";
+  // Use the hooks to get tasks and projects data and their respective CRUD operations
+  const {
+    tasks,
+    totalTasks,
+    hasMoreTasks,
+    loadMoreTasks,
+    loadingMoreTasks,
+    tasksLoading,
+    tasksError,
+    addTask,
+    updateTask,
+    deleteTask,
+    duplicateTask,
+    reorderTask,
+    bulkUpdateTasks,
+    refetchTasks // Added refetch for manual refresh if needed
+  } = useTasks(taskFilters);
 
-      const dueDate = new Date(task.dueDate);
-      dueDate.setHours(0, 0, 0, 0); // Normalize dueDate to start of day for comparison
+  const {
+    projects,
+    projectsLoading,
+    projectsError,
+    addProject,
+    updateProject,
+    archiveProject,
+    unarchiveProject,
+    deleteProject,
+    refetchProjects // Added refetch for manual refresh if needed
+  } = useProjects();
 
-      if (activeTab === "today") return dueDate.getTime() === today.getTime();
-      if (activeTab === "tomorrow") return dueDate.getTime() === tomorrow.getTime();
-      if (activeTab === "this-week") {
-        // For "this-week", tasks should be due from 'today' up to 'endOfWeek' (inclusive)
-        return dueDate.getTime() >= today.getTime() && dueDate.getTime() <= endOfWeek.getTime();
-      }
-      return false;
-    });
-  }, [tasks, currentProject, activeTab, today, tomorrow, endOfWeek]); // Dependencies for memoization
+  // Archived projects are only needed to open one from a search page link
+  const { archivedProjects, archivedProjectsLoading } = useArchivedProjects(searchParams.has("project"));
+  const isArchived = !!currentProject?.archived_at;
+  // In a shared project, viewers only read and only owners edit, archive or delete the project itself
+  const isViewer = currentProject?.role === "viewer";
+  const isOwner = !currentProject?.role || currentProject.role === "owner";
+  const readOnly = isArchived || isViewer;
+
+  // Links from the search page open the list as ?search=<text> or ?project=<id>, or both;
+  // apply them once (after the projects have loaded) and clear them from the URL
+  useEffect(() => {
+    const search = searchParams.get("search");
+    const projectId = Number(searchParams.get("project"));
+    if (search === null && !projectId) return;
+    if (projectId && (projectsLoading || archivedProjectsLoading)) return;
+
+    if (search !== null) {
+      setSearchTerm(search);
+      setDebouncedSearch(search.trim());
+    }
+    if (projectId) {
+      setCurrentProject([...(projects as Project[]), ...archivedProjects].find(p => p.id === projectId) || null);
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, projects, projectsLoading, archivedProjects, archivedProjectsLoading]);
 
-  // Memoize task counts by project for the sidebar
+  // Open task counts per project come from the server (GET /api/projects)
   const projectsWithCounts = useMemo(() => {
     return projects.map(project => ({
       ...project,
-      taskCount: (tasks || []).filter(task => task.project_id === project.id).length
+      taskCount: project.task_count ?? 0
     }));
-  }, [projects, tasks]); // Recalculate only if 'projects' or 'tasks' change
+  }, [projects]); // Recalculate only if 'projects' change
 
   // Use useCallback for event handlers to prevent unnecessary re-renders of child components
   const handleAddTask = useCallback(async (title: string, dueDate: Date | null) => {
@@ -136,7 +199,6 @@ const Tasks: React.FC<TasksProps> = () => {
       priority: "high", // Default priority
       is_recurring: false, // Default recurring status
       description: null, // Default description
-      reminder: null, // Default reminder
       recurrence_pattern: null // Default recurrence pattern
     };
 
@@ -172,12 +234,49 @@ const Tasks: React.FC<TasksProps> = () => {
     }
   }, [tasks, updateTask, toast]);
 
+  const handleCompleteWithSubtasks = useCallback(async (id: number) => {
+    try {
+      await updateTask(id, { completed: true }, { completeSubtasks: true });
+    } catch (error) {
+      console.error("Error completing task and subtasks:", error);
+      toast({
+        title: "Error",
+        description: `Failed to complete task: ${(error as Error).message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    }
+  }, [updateTask, toast]);
+
+  // Subtasks start in their parent's project
+  const handleAddSubtask = useCallback(async (parent: Task, title: string) => {
+    try {
+      await addTask({
+        title,
+        parent_task_id: parent.id,
+        project_id: parent.project_id ?? null,
+        dueDate: null,
+        completed: false,
+        priority: "medium",
+        is_recurring: false,
+        description: null,
+        recurrence_pattern: null,
+      });
+    } catch (error) {
+      console.error("Error adding subtask:", error);
+      toast({
+        title: "Error",
+        description: `Failed to add subtask: ${(error as Error).message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    }
+  }, [addTask, toast]);
+
   const handleDeleteTask = useCallback(async (id: number) => {
     try {
       await deleteTask(id); // Use deleteTask from useTasks hook
       toast({
         title: "Task deleted",
-        description: "Task has been removed.",
+        description: "Task has been moved to the trash.",
       });
     } catch (error: any) {
       console.error("Error deleting task:", error);
@@ -223,6 +322,16 @@ const Tasks: React.FC<TasksProps> = () => {
     }
   }, [duplicateTask, toast]);
 
+  // useTasks already reports a failed move (e.g. into a column at its WIP limit) with a toast
+  const handleMoveToStatus = useCallback((id: number, statusId: number) => {
+    updateTask(id, { status_id: statusId }).catch(() => undefined);
+  }, [updateTask]);
+
+  // useTasks already reports a failed move with a toast
+  const handleReorderTask = useCallback((id: number, placement: TaskPlacement) => {
+    reorderTask(id, placement).catch(() => undefined);
+  }, [reorderTask]);
+
   const handleMoveTask = useCallback(async (taskId: number, projectId: number) => {
     try {
       await updateTask(taskId, { project_id: projectId }); // Use updateTask from useTasks hook
@@ -240,7 +349,7 @@ const Tasks: React.FC<TasksProps> = () => {
     }
   }, [updateTask, projects, toast]);
 
-  const handleAddProject = useCallback(async (projectData: Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => {
+  const handleAddProject = useCallback(async (projectData: Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'> & ProjectSharing) => {
     try {
       await addProject(projectData); // Use addProject from useProjects hook
       toast({
@@ -257,16 +366,16 @@ const Tasks: React.FC<TasksProps> = () => {
     }
   }, [addProject, toast]);
 
-  const handleUpdateProject = useCallback(async (id: number, updates: Partial<Project>) => {
+  const handleUpdateProject = useCallback(async (id: number, updates: Partial<Project> & ProjectSharing) => {
     try {
-      await updateProject(id, updates); // Use updateProject from useProjects hook
+      const updated = await updateProject(id, updates); // Use updateProject from useProjects hook
       toast({
         title: "Project updated",
         description: "Project details have been updated.",
       });
-      // If the current project was updated, ensure its name/color updates in the selector
+      // If the current project was updated, ensure its name/color (and sharing and role) update in the selector
       if (currentProject && currentProject.id === id) {
-        setCurrentProject(prev => prev ? { ...prev, ...updates } as Project : null);
+        setCurrentProject(updated);
       }
     } catch (error: any) {
       console.error("Error updating project:", error);
@@ -284,7 +393,7 @@ const Tasks: React.FC<TasksProps> = () => {
       setCurrentProject(null); // Clear selected project after deletion
       toast({
         title: "Project deleted",
-        description: "Project has been removed.",
+        description: "The project and its tasks and notes have been moved to the trash.",
       });
     } catch (error: any) {
       console.error("Error deleting project:", error);
@@ -296,12 +405,45 @@ const Tasks: React.FC<TasksProps> = () => {
     }
   }, [deleteProject, toast]);
 
+  // useProjects already reports the outcome with a toast
+  const handleArchiveProject = useCallback(async (id: number) => {
+    try {
+      setCurrentProject(await archiveProject(id));
+    } catch {
+      // Reported by useProjects
+    }
+  }, [archiveProject]);
+
+  const handleUnarchiveProject = useCallback(async (id: number) => {
+    try {
+      setCurrentProject(await unarchiveProject(id));
+    } catch {
+      // Reported by useProjects
+    }
+  }, [unarchiveProject]);
+
   const handleEditProject = useCallback(() => {
     if (!currentProject) return;
     setEditingProject(currentProject);
     setIsProjectFormOpen(true);
   }, [currentProject]);
 
+  // Show loading/error states (after all hooks, so the hook order never changes between renders)
+  if (tasksLoading || projectsLoading) {
+    return (
+      <div className="flex items-center justify-center h-[calc(100vh-120px)] text-muted-foreground">
+        Loading tasks and projects...
+      </div>
+    );
+  }
+
+  if (tasksError || projectsError) {
+    return (
+      <div className="flex items-center justify-center h-[calc(100vh-120px)] text-red-500">
+        Error loading data: {tasksError || projectsError}
+      </div>
+    );
+  }
 
   return (
     <div className="flex flex-col md:flex-row md:gap-6 h-full"> {/* Ensure full height for layout */}
@@ -317,14 +459,22 @@ const Tasks: React.FC<TasksProps> = () => {
             setEditingProject(null); // Ensure no project is being edited when adding new
             setIsProjectFormOpen(true);
           }}
+          onSelectArchivedProject={setCurrentProject}
         />
       </div>
 
       <div className="flex-1 space-y-6 p-4 md:p-0"> {/* Added padding for mobile */}
         <div>
-          <h1 className="text-3xl font-semibold mb-2">
-            {currentProject ? currentProject.name : "All Tasks"}
-          </h1>
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <h1 className="text-3xl font-semibold">
+              {currentProject ? currentProject.name : "All Tasks"}
+            </h1>
+            <Button variant="outline" size="sm" onClick={() => setIsImportWizardOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          </div>
+          <TaskImportWizard open={isImportWizardOpen} onOpenChange={setIsImportWizardOpen} />
 
           {/* Project selector for mobile */}
           <div className="md:hidden mb-6">
@@ -339,12 +489,44 @@ const Tasks: React.FC<TasksProps> = () => {
             />
           </div>
 
-          {/* Project actions - only visible when a project is selected */}
-          {currentProject && (
+          {/* Archived projects are read-only until they are unarchived */}
+          {currentProject && isArchived && (
+            <div className="flex items-center justify-between gap-2 mb-6 rounded-md border border-border bg-muted/50 px-4 py-3">
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Archive className="h-4 w-4 shrink-0" />
+                This project is archived. Its tasks can be viewed and searched, but not changed.
+              </p>
+              {isOwner && (
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => handleUnarchiveProject(currentProject.id)}>
+                    Unarchive
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => handleDeleteProject(currentProject.id)}>
+                    Delete Project
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {currentProject && isViewer && !isArchived && (
+            <div className="flex items-center gap-2 mb-6 rounded-md border border-border bg-muted/50 px-4 py-3">
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Eye className="h-4 w-4 shrink-0" />
+                You are a viewer of this shared project. Its tasks can be viewed and searched, but not changed.
+              </p>
+            </div>
+          )}
+
+          {/* Project actions - only visible to owners when a project is selected */}
+          {currentProject && !isArchived && isOwner && (
             <div className="flex gap-2 mb-6">
               <Button variant="outline" size="sm" onClick={handleEditProject}>
                 Edit Project
               </Button>
+              <Button variant="outline" size="sm" onClick={() => handleArchiveProject(currentProject.id)}>
+                Archive Project
+              </Button>
               <Button
                 variant="destructive" // Changed to destructive for delete action
                 size="sm"
@@ -355,11 +537,41 @@ const Tasks: React.FC<TasksProps> = () => {
             </div>
           )}
 
-          <AddTaskForm onAddTask={handleAddTask} />
+          {!readOnly && <AddTaskForm onAddTask={handleAddTask} />}
+
+          <div className="mt-4 flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="Search tasks..."
+              className="sm:w-64"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              aria-label="Search tasks"
+            />
+            {tags.length > 0 && (
+              <div className="w-56">
+                <Select
+                  value={tagFilter ? String(tagFilter) : "all"}
+                  onValueChange={(value) => setTagFilter(value === "all" ? null : Number(value))}
+                >
+                  <SelectTrigger aria-label="Filter by tag">
+                    <SelectValue placeholder="Filter by tag" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All tags</SelectItem>
+                    {tags.map(tag => (
+                      <SelectItem key={tag.id} value={String(tag.id)}>
+                        {tag.name} ({tag.task_count ?? 0})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
         </div>
 
         <Tabs defaultValue="all" value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid grid-cols-3 md:grid-cols-7 mb-4 w-full"> {/* Full width for mobile */}
+          <TabsList className="grid grid-cols-3 md:grid-cols-9 mb-4 w-full"> {/* Full width for mobile */}
             <TabsTrigger value="all">All</TabsTrigger>
             <TabsTrigger value="today">Today</TabsTrigger>
             <TabsTrigger value="tomorrow">Tomorrow</TabsTrigger>
@@ -367,20 +579,58 @@ const Tasks: React.FC<TasksProps> = () => {
             <TabsTrigger value="no-date">No Date</TabsTrigger>
             <TabsTrigger value="completed">Completed</TabsTrigger>
             <TabsTrigger value="uncompleted">Uncompleted</TabsTrigger>
+            <TabsTrigger value="assigned">Assigned to me</TabsTrigger>
+            <TabsTrigger value="kanban">Kanban</TabsTrigger>
           </TabsList>
 
           <TabsContent value={activeTab}>
-            <TaskList
-              tasks={filteredTasks}
-              onToggleComplete={handleToggleComplete}
-              onDelete={handleDeleteTask}
-              onUpdateTask={handleUpdateTask}
-              onDuplicateTask={handleDuplicateTask}
-              onMoveTask={handleMoveTask}
-              projects={projects}
-              showProjectBadge={!currentProject}
-              currentProject={currentProject}
-            />
+            {activeTab === "kanban" ? (
+              currentProject ? (
+                <KanbanBoard
+                  project={currentProject}
+                  tasks={tasks}
+                  projects={projects as Project[]}
+                  onToggleComplete={handleToggleComplete}
+                  onDeleteTask={handleDeleteTask}
+                  onUpdateTask={handleUpdateTask}
+                  onDuplicateTask={handleDuplicateTask}
+                  onMoveTask={handleMoveTask}
+                  onMoveToStatus={handleMoveToStatus}
+                  readOnly={readOnly}
+                />
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <p>Choose a project to see its board. Each project has its own columns.</p>
+                </div>
+              )
+            ) : (
+              <TaskList
+                tasks={tasks}
+                onToggleComplete={handleToggleComplete}
+                onDelete={handleDeleteTask}
+                onUpdateTask={handleUpdateTask}
+                onDuplicateTask={handleDuplicateTask}
+                onMoveTask={handleMoveTask}
+                onAddSubtask={handleAddSubtask}
+                onCompleteWithSubtasks={handleCompleteWithSubtasks}
+                projects={projects}
+                showProjectBadge={!currentProject}
+                currentProject={currentProject}
+                onBulkAction={bulkUpdateTasks}
+                onReorder={handleReorderTask}
+                readOnly={readOnly}
+              />
+            )}
+            {hasMoreTasks && (
+              <div className="mt-4 flex flex-col items-center gap-2">
+                <p className="text-xs text-muted-foreground">
+                  Showing {tasks.length} of {totalTasks} tasks
+                </p>
+                <Button variant="outline" size="sm" onClick={() => loadMoreTasks()} disabled={loadingMoreTasks}>
+                  {loadingMoreTasks ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
           </TabsContent>
         </Tabs>
       </div>
@@ -391,9 +641,9 @@ const Tasks: React.FC<TasksProps> = () => {
         onOpenChange={setIsProjectFormOpen}
         onSave={(projectData) => {
           if (editingProject) {
-            handleUpdateProject(editingProject.id, projectData as Partial<Project>);
+            handleUpdateProject(editingProject.id, projectData);
           } else {
-            handleAddProject(projectData as Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'>);
+            handleAddProject(projectData);
           }
           setEditingProject(null); // Clear editing project after save
         }}
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Trash page listing deleted projects, tasks and notes.
+ * Items can be restored or deleted permanently; anything left in the trash is purged by the
+ * server after its retention period. A project is restored together with the tasks and notes
+ * that were deleted with it. Items of shared projects are listed for every member; those the user's
+ * role does not let them restore or delete are shown without the buttons.
+ */
+
+import React from "react";
+import { addDays, formatDistanceToNow } from "date-fns";
+import { CheckSquare, FileText, Folder, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useTrash } from "@/hooks/useApi";
+import { TrashItem, TrashItemType } from "@/types";
+
+const ITEM_ICONS: Record<TrashItemType, React.ElementType> = {
+  project: Folder,
+  task: CheckSquare,
+  note: FileText,
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+// "Project with 3 tasks and 1 note", "Task", "Note"
+const describeItem = (item: TrashItem) => {
+  if (item.type !== "project") {
+    return item.type === "task" ? "Task" : "Note";
+  }
+  const contents = [
+    item.task_count ? plural(item.task_count, "task") : null,
+    item.note_count ? plural(item.note_count, "note") : null,
+  ].filter(Boolean);
+  return contents.length > 0 ? `Project with ${contents.join(" and ")}` : "Project";
+};
+
+const Trash: React.FC = () => {
+  const {
+    trashItems,
+    retentionDays,
+    trashLoading,
+    trashError,
+    restoreTrashItem,
+    purgeTrashItem,
+    emptyTrash,
+  } = useTrash();
+
+  // Errors are reported by the mutations' toasts
+  const ignoreError = () => {};
+
+  if (trashLoading) {
+    return (
+      <div className="flex items-center justify-center h-[calc(100vh-120px)] text-muted-foreground">
+        Loading trash...
+      </div>
+    );
+  }
+
+  if (trashError) {
+    return (
+      <div className="flex items-center justify-center h-[calc(100vh-120px)] text-red-500">
+        Error loading trash: {trashError}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Trash</h1>
+          {retentionDays !== null && (
+            <p className="text-muted-foreground mt-1">
+              Items in the trash are deleted permanently after {plural(retentionDays, "day")}.
+            </p>
+          )}
+        </div>
+
+        {trashItems.some(item => !item.read_only) && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive">
+                <Trash2 className="mr-2 h-4 w-4" />
+                Empty trash
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This action cannot be undone. Everything in the trash that you can delete will be deleted permanently.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => emptyTrash().catch(ignoreError)}>Empty trash</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+
+      {trashItems.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <p>The trash is empty.</p>
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {trashItems.map(item => {
+            const Icon = ITEM_ICONS[item.type];
+            const deletedAt = new Date(item.deleted_at);
+            return (
+              <li
+                key={`${item.type}-${item.id}`}
+                className="flex items-center justify-between gap-4 py-2 px-3 hover:bg-accent/30 rounded-md transition-colors"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <p className="truncate">{item.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {describeItem(item)} · Deleted {formatDistanceToNow(deletedAt, { addSuffix: true })}
+                      {retentionDays !== null && (
+                        <> · Deleted permanently {formatDistanceToNow(addDays(deletedAt, retentionDays), { addSuffix: true })}</>
+                      )}
+                    </p>
+                  </div>
+                </div>
+
+                {item.read_only ? (
+                  <span className="text-xs text-muted-foreground shrink-0">Read-only</span>
+                ) : (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => restoreTrashItem(item.type, item.id).catch(ignoreError)}>
+                      <RotateCcw className="mr-1 h-4 w-4" />
+                      Restore
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" className="text-destructive">
+                          <Trash2 className="mr-1 h-4 w-4" />
+                          Delete forever
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete "{item.title}" permanently?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This action cannot be undone.
+                            {item.type === "project" && " The tasks and notes deleted with the project are removed as well."}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => purgeTrashItem(item.type, item.id).catch(ignoreError)}>
+                            Delete forever
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Trash;
@@ -17,6 +17,7 @@ export interface ApiResponse<T> {
 export interface ApiErrorResponse {
   error: string;
   details?: string;
+  fields?: Record<string, string>; // Per-field messages for request bodies that failed validation
   success: false;
   statusCode?: number;
 }
@@ -27,11 +28,12 @@ export interface ApiErrorResponse {
 export type PartialUpdate<T> = Partial<Omit<T, 'id' | 'user_id' | 'created_at' | 'updated_at'>>;
 
 /**
- * Type for a generic paginated response, useful if you implement pagination.
+ * Type for a generic paginated response, as returned by the list endpoints (e.g. GET /api/tasks).
  */
 export interface PaginatedResponse<T> {
   data: T[];
   total: number;
   page: number;
   limit: number;
+  nextCursor: string | null; // Pass as `cursor` to fetch the next page; null on the last page
 }
@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Types for the account export (GET /api/export) and import (POST /api/import).
+ */
+export type ArchiveEntity = 'projects' | 'tags' | 'tasks' | 'notes' | 'focus_sessions';
+
+export type ExportFormat = 'json' | 'csv';
+
+// Rows an import creates (or would create, for a dry run) per entity
+export type ImportCounts = Record<ArchiveEntity, number>;
+
+// Something the import handles differently from a plain copy
+export interface ImportConflict {
+  type: 'tag_exists' | 'project_exists' | 'missing_reference';
+  entity: ArchiveEntity;
+  id: number; // The item's ID in the archive
+  message: string;
+}
+
+// Response of POST /api/import
+export interface ImportResult {
+  dry_run: boolean;
+  counts: ImportCounts;
+  conflicts: ImportConflict[];
+}
@@ -1,15 +1,51 @@
 /**
  * @fileoverview Defines authentication-related types.
- * Most core auth types are provided by Clerk (e.g., User, Session, Organization).
- * This file can be used for any custom auth-related types specific to your application.
+ * The app talks to whichever auth provider VITE_AUTH_PROVIDER selects ('clerk' or 'local')
+ * through the AuthSession interface (see features/auth/auth-context.ts).
  */
 
-// Example: If you have custom roles or permissions not directly managed by Clerk's default roles
-// export type AppUserRole = 'admin' | 'member' | 'guest';
+import { ProjectRole } from './project';
 
-// Example: If you extend Clerk's user metadata
-// export interface CustomUserMetadata {
-//   themePreference: 'dark' | 'light';
-// }
+export type AuthProviderName = 'clerk' | 'local';
 
-// No specific types needed for now, but keeping the file for future extensibility.
+/**
+ * The signed-in user, as reported by the active auth provider.
+ */
+export interface AuthUser {
+  id: string; // Same ID the backend stores as user_id
+  email: string | null;
+  name: string | null;
+  imageUrl?: string | null;
+}
+
+/**
+ * What the rest of the app needs from an auth provider.
+ */
+export interface AuthSession {
+  provider: AuthProviderName;
+  isLoaded: boolean; // False until the provider knows whether someone is signed in
+  isSignedIn: boolean;
+  user: AuthUser | null;
+  getToken: () => Promise<string | null>; // Bearer token for the backend API
+  signOut: () => Promise<void>;
+  orgId: string | null; // The organization the user is signed in to, which projects can be shared with
+}
+
+/**
+ * A seeded user of the local auth provider (GET /api/auth/local/users).
+ */
+export interface LocalAuthUser {
+  id: string;
+  email: string;
+  name: string;
+  orgId?: string;
+  orgRole?: ProjectRole;
+}
+
+/**
+ * Response of POST /api/auth/local/login.
+ */
+export interface LocalLoginResponse {
+  token: string;
+  user: LocalAuthUser;
+}
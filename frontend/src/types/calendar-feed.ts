@@ -0,0 +1,9 @@
+/**
+ * @fileoverview Types for the iCalendar feed of tasks with a due date (GET /api/calendar-feed).
+ */
+export interface CalendarFeed {
+  token: string; // Secret part of the URL
+  path: string; // /ical/<token>.ics
+  url: string; // Full URL to subscribe to in a calendar app
+  created_at: string; // ISO 8601 string; when the current token was made
+}
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Types for importing tasks from an iCalendar (.ics) file (POST /api/import/ics).
+ */
+import { Task } from './task';
+import { NewTaskReminder } from './reminder';
+
+// A VTODO or VEVENT of the file, as the task a dry run would create
+export interface CalendarTaskPreview {
+  index: number; // Position among the file's to-dos and events, from 1
+  uid: string | null;
+  component: 'VTODO' | 'VEVENT';
+  title: string;
+  description: string | null;
+  dueDate: string | null; // ISO 8601 string
+  priority: NonNullable<Task['priority']>;
+  completed: boolean;
+  is_recurring: boolean;
+  recurrence_pattern: string | null;
+  reminders: NewTaskReminder[];
+  project_id: number | null;
+}
+
+// An item that was skipped, or imported without the part the message names
+export interface CalendarImportIssue {
+  index: number;
+  title: string | null;
+  message: string;
+  skipped: boolean;
+}
+
+// Response of POST /api/import/ics: previews for a dry run, otherwise the created tasks
+export type CalendarImportResult =
+  | { dry_run: true; tasks: CalendarTaskPreview[]; issues: CalendarImportIssue[] }
+  | { dry_run: false; tasks: Task[]; issues: CalendarImportIssue[] };
@@ -1,8 +1,8 @@
 export interface FocusSession {
   id: number; // SERIAL PRIMARY KEY in DB
   start_time: string; // ISO 8601 string for TIMESTAMP NOT NULL
-  end_time?: string | null; // ISO 8601 string for TIMESTAMP
-  duration?: number | null; // Duration in minutes/seconds
+  end_time?: string | null; // ISO 8601 string for TIMESTAMP, null while the session is running
+  duration?: number | null; // Duration in seconds, set when the session is stopped
   session_type?: string | null; // e.g., 'pomodoro', 'deep_work'
   notes?: string | null;
   created_at: string; // ISO 8601 string
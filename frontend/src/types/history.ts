@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Types for the change history of tasks and notes
+ * (GET /api/tasks/:id/history and GET /api/notes/:id/history).
+ */
+export type HistoryEntityType = 'project' | 'task' | 'note';
+
+// revert: an update made by reverting to an earlier entry
+export type HistoryAction = 'create' | 'update' | 'delete' | 'restore' | 'revert';
+
+// Changed field -> its value before and after the change (dates as ISO 8601 strings)
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface HistoryEntry {
+  id: number;
+  user_id: string; // Owner of the task or note
+  entity_type: HistoryEntityType;
+  entity_id: number;
+  action: HistoryAction;
+  changes: FieldChanges;
+  actor_id: string; // Who made the change
+  source: 'api' | 'bulk' | 'recurrence' | 'import'; // How it was made
+  created_at: string; // ISO 8601 string
+}
+
+// Response of GET /api/tasks/:id/history and GET /api/notes/:id/history (newest first)
+export interface HistoryList {
+  data: HistoryEntry[];
+}
@@ -1,8 +1,17 @@
 export * from './user';
 export * from './project';
+export * from './project-status';
 export * from './task';
 export * from './note';
 export * from './focus-session';
 export * from './tag';
+export * from './reminder';
+export * from './notification';
+export * from './trash';
+export * from './history';
+export * from './search';
+export * from './archive';
+export * from './calendar-feed';
+export * from './calendar-import';
 export * from './api';
 export * from './auth';
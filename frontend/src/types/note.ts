@@ -6,4 +6,5 @@ export interface Note {
   created_at: string; // ISO 8601 string
   updated_at: string; // ISO 8601 string
   project_id?: number | null; // Foreign key to projects table
+  deleted_at?: string | null; // Set while the note is in the trash
 }
\ No newline at end of file
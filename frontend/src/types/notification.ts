@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Defines the Notification interface, reflecting the 'notifications' table.
+ * Notifications are created by the backend (e.g. when a task reminder fires, or a blocked task can start) and pushed
+ * to the browser over the GET /api/notifications/stream event stream.
+ */
+export interface Notification {
+  id: number; // SERIAL PRIMARY KEY in DB
+  user_id: string; // Clerk's user ID, linking the notification to its recipient
+  task_id: number | null; // The task the notification is about, if any
+  reminder_id: number | null; // The reminder that created it, if any
+  type: 'reminder' | 'unblocked' | string; // 'unblocked': a task's last open blocker was completed
+  title: string;
+  body: string | null;
+  read_at: string | null; // ISO 8601 string, or null while unread
+  created_at: string; // ISO 8601 string
+}
+
+// Response of GET /api/notifications
+export interface NotificationList {
+  data: Notification[];
+  unread: number; // Total number of unread notifications
+}
@@ -0,0 +1,17 @@
+// A workflow status of a project, shown as a column of the Kanban board (project_statuses table).
+// A task's status agrees with its completed flag: tasks in a done status are completed, all others are open.
+export interface ProjectStatus {
+  id: number;
+  user_id: string;
+  project_id: number;
+  name: string;
+  color?: string | null;
+  position: number; // Column order
+  wip_limit?: number | null; // Most tasks the column should hold; null: no limit
+  is_done: boolean;
+  created_at: string; // ISO 8601 string
+  task_count?: number; // Tasks in the status outside the trash, returned by GET /api/projects/:id/statuses
+}
+
+// The fields of a status that can be set when creating or editing it
+export type ProjectStatusInput = Pick<ProjectStatus, 'name' | 'color' | 'wip_limit' | 'is_done'>;
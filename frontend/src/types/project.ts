@@ -1,11 +1,38 @@
+// Viewers can only read a shared project; editors also change its tasks, notes and board columns;
+// owners also rename, share, archive and delete it
+export type ProjectRole = 'owner' | 'editor' | 'viewer';
+
 export interface Project {
   id: number; // SERIAL PRIMARY KEY in DB, usually a number
-  user_id: string; // Clerk's user ID, linking project to its owner
+  user_id: string; // Clerk's user ID of the project's creator
+  org_id?: string | null; // The organization the project is shared with, or null for a personal project
+  role?: ProjectRole; // The user's role in the project: 'owner' of their personal projects
   name: string;
   color?: string | null; // Optional color for the project
   description?: string | null; // Optional description
   created_at: string; // ISO 8601 string
   updated_at: string; // ISO 8601 string
+  deleted_at?: string | null; // Set while the project is in the trash
+  archived_at?: string | null; // Set while the project is archived; its tasks and notes are then read-only
+  task_count?: number; // Number of open tasks in the project, returned by GET /api/projects
+  // Time totals over the project's tasks, also returned by GET /api/projects
+  estimate_minutes?: number; // Sum of the tasks' estimates
+  tracked_seconds?: number; // Focus time recorded on the tasks
+  overrun_count?: number; // Tasks whose tracked time is over their estimate
+}
+
+// Sent with POST and PUT /api/projects: true shares the project with the organization the user is signed in to,
+// false makes a shared project the personal project of whoever unshares it
+export interface ProjectSharing {
+  shared?: boolean;
+}
+
+// Someone who can see a project, from GET /api/projects/:id/members: a member of the organization it is shared
+// with, or the creator of a personal project. Tasks can be assigned to owners and editors.
+export interface ProjectMember {
+  user_id: string;
+  email: string;
+  role: ProjectRole;
 }
 
 export interface ProjectWithTaskCount extends Project {
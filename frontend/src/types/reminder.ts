@@ -0,0 +1,13 @@
+/**
+ * @fileoverview Defines the TaskReminder interface, reflecting the 'task_reminders' table.
+ * A reminder fires either at a fixed time or a number of minutes before the task's due date.
+ */
+export interface TaskReminder {
+  id: number; // SERIAL PRIMARY KEY in DB
+  remind_at: string | null; // ISO 8601 string; set for reminders at a fixed time
+  offset_minutes: number | null; // Minutes before the due date; set for relative reminders
+  sent_at: string | null; // When the reminder fired, or null if it is still pending
+}
+
+// Body for adding a reminder: exactly one of remind_at or offset_minutes
+export type NewTaskReminder = { remind_at: string } | { offset_minutes: number };
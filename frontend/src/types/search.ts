@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Types for full-text search (GET /api/search) across tasks, notes and projects.
+ */
+export type SearchResultType = 'task' | 'note' | 'project';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  title: string; // The task's / note's title, or the project's name
+  title_highlight: string; // The title with the matching words wrapped in <mark>...</mark>
+  snippet: string | null; // Matching part of the description / content, marked the same way
+  project_id: number | null; // Tasks and notes only
+  completed: boolean | null; // Tasks only
+  archived: boolean; // Whether the project, or the task's / note's project, is archived (read-only)
+  rank: number; // Higher is a better match; results are sorted by it
+  updated_at: string; // ISO 8601 string
+}
+
+// Response of GET /api/search
+export interface SearchResponse {
+  data: SearchResult[];
+  terms: string[]; // The words that were searched for, lowercased
+}
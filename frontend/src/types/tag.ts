@@ -4,6 +4,7 @@ export interface Tag {
   name: string;
   color?: string | null; // Optional color for the tag
   created_at: string; // ISO 8601 string
+  task_count?: number; // Number of tasks using the tag, returned by GET /api/tags
 }
 
 /**
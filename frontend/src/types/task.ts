@@ -1,3 +1,13 @@
+import { Tag } from './tag';
+import { TaskReminder } from './reminder';
+
+// A task that another task waits on
+export interface TaskBlocker {
+  id: number;
+  title: string;
+  completed: boolean;
+}
+
 export interface Task {
   id: number; // SERIAL PRIMARY KEY in DB
   user_id: string; // Clerk's user ID, linking task to its owner
@@ -6,10 +16,55 @@ export interface Task {
   completed: boolean;
   dueDate?: string | null; // ISO 8601 string for TIMESTAMP
   priority?: 'low' | 'medium' | 'high' | 'urgent'; // Example priorities
-  reminder?: string | null; // ISO 8601 string for TIMESTAMP
   is_recurring: boolean;
-  recurrence_pattern?: string | null; // e.g., "daily", "weekly", "monthly", "custom_json"
+  recurrence_pattern?: string | null; // RFC 5545 RRULE or a preset such as "daily", "weekdays", "monthly:15" (see utils/recurrence.ts)
   created_at: string; // ISO 8601 string
   updated_at: string; // ISO 8601 string
   project_id?: number | null; // Foreign key to projects table
-}
\ No newline at end of file
+  parent_task_id?: number | null; // Set on subtasks
+  position?: number; // Manual order (sort: 'position'); lower comes first
+  status_id?: number | null; // Kanban column (see ProjectStatus); moving the task there sets completed to match
+  estimate_minutes?: number | null; // How long the task is expected to take
+  assignee_id?: string | null; // The user the task is assigned to: an owner or editor of its project (see ProjectMember)
+  assignee_email?: string | null; // The assignee's email (read-only)
+  tracked_seconds?: number; // Time of the finished focus sessions linked to the task (read-only)
+  subtask_count?: number; // Direct subtasks outside the trash
+  subtasks_completed?: number; // How many of those are completed
+  deleted_at?: string | null; // Set while the task is in the trash
+  tags?: Pick<Tag, 'id' | 'name' | 'color'>[]; // Tags attached through the task_tags table
+  reminders?: TaskReminder[]; // Reminders from the task_reminders table
+  blocked_by?: TaskBlocker[]; // Tasks this one waits on (task_dependencies table); it is blocked while any is open
+  next_occurrence?: Task | null; // Set by PUT /api/tasks/:id when completing a recurring task created the next one
+  completed_subtasks?: Task[]; // Set by PUT /api/tasks/:id?complete_subtasks=true
+}
+// Time spent on a task against its estimate, from GET /api/tasks/:id/time
+export interface TaskTime {
+  task_id: number;
+  estimate_minutes: number | null;
+  tracked_seconds: number; // Finished focus sessions only
+  session_count: number;
+  remaining_seconds: number | null; // null without an estimate; negative once the task has overrun it
+}
+
+// Where POST /api/tasks/:id/move puts a task: between the tasks that end up directly above and below it.
+// Leave one out to move the task to the top or the bottom.
+export interface TaskPlacement {
+  previous_id?: number | null;
+  next_id?: number | null;
+}
+
+// One change applied to many tasks at once by POST /api/tasks/bulk
+export type BulkTaskOperation =
+  | { type: 'complete' }
+  | { type: 'uncomplete' }
+  | { type: 'delete' }
+  | { type: 'move'; project_id: number | null } // null: remove from its project
+  | { type: 'set_priority'; priority: NonNullable<Task['priority']> }
+  | { type: 'set_due_date'; dueDate: string | null } // null clears the due date
+  | { type: 'add_tag'; tag_id: number };
+
+export interface BulkTaskResult {
+  tasks: Task[]; // The changed tasks (empty for delete)
+  deleted_ids: number[];
+  next_occurrences: Task[]; // Created when recurring tasks were completed
+}
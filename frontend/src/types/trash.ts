@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Types for the trash (GET /api/trash). Deleted projects, tasks and notes stay in
+ * the trash, where they can be restored or deleted for good, until they are purged automatically.
+ */
+export type TrashItemType = 'project' | 'task' | 'note';
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: number;
+  title: string; // The project's name, or the task's / note's title
+  project_id: number | null; // Tasks and notes only
+  deleted_at: string; // ISO 8601 string
+  task_count?: number; // Projects only: tasks and notes that went to the trash with the project
+  note_count?: number;
+  read_only: boolean; // An item of a shared project the user's role does not let them restore or delete
+}
+
+// Response of GET /api/trash
+export interface TrashList {
+  data: TrashItem[];
+  retention_days: number; // Items are deleted for good this many days after deleted_at
+}
@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Helpers for showing task estimates (in minutes) and tracked focus time (in seconds).
+ */
+
+// Minutes as "45m", "2h" or "1h 30m"
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+// Seconds as minutes, rounded down; anything under a minute shows as "0m"
+export const formatSeconds = (seconds: number): string => formatMinutes(Math.floor(seconds / 60));
+
+// Whether the time tracked on a task has gone past its estimate
+export const isOverEstimate = (trackedSeconds: number, estimateMinutes: number | null | undefined): boolean =>
+  !!estimateMinutes && trackedSeconds > estimateMinutes * 60;
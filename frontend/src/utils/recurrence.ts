@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Helpers for recurring tasks.
+ * A task's `recurrence_pattern` is an RFC 5545 RRULE (e.g. "FREQ=WEEKLY;BYDAY=MO,WE") or a preset
+ * such as "daily", "weekdays", "weekly:MO", "monthly:15" or "monthly:2TU". The backend
+ * (backend/lib/recurrence.ts) uses it to create the next occurrence when a task is completed.
+ * These helpers convert between patterns and the options shown in the recurrence editor.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/**
+ * Editable form of a recurrence pattern.
+ */
+export interface RecurrenceOptions {
+  freq: RecurrenceFrequency;
+  interval: number;
+  weekdays: Weekday[]; // Weekly rules: the days of the week to repeat on
+  monthlyMode: 'day' | 'weekday'; // Monthly rules: "on day 15" or "on the 2nd Tuesday"
+  monthDay: number; // 1..31, or -1 for the last day of the month
+  weekdayOrdinal: number; // 1..4, or -1 for the last one
+  monthWeekday: Weekday;
+  end: 'never' | 'count' | 'until';
+  count: number; // Occurrences left (including the current task) when end === 'count'
+  until: string; // yyyy-MM-dd when end === 'until'
+}
+
+export const WEEKDAYS: { value: Weekday; label: string; short: string }[] = [
+  { value: 'MO', label: 'Monday', short: 'Mon' },
+  { value: 'TU', label: 'Tuesday', short: 'Tue' },
+  { value: 'WE', label: 'Wednesday', short: 'Wed' },
+  { value: 'TH', label: 'Thursday', short: 'Thu' },
+  { value: 'FR', label: 'Friday', short: 'Fri' },
+  { value: 'SA', label: 'Saturday', short: 'Sat' },
+  { value: 'SU', label: 'Sunday', short: 'Sun' },
+];
+
+// Date#getDay() order (0 = Sunday)
+const WEEKDAYS_BY_INDEX: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WORKING_DAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last' };
+const UNITS: Record<RecurrenceFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+
+/**
+ * Default editor options for a task, based on its due date (or today).
+ */
+export function defaultRecurrenceOptions(dueDate?: string | null): RecurrenceOptions {
+  const date = dueDate ? new Date(dueDate) : new Date();
+  const weekday = WEEKDAYS_BY_INDEX[date.getDay()];
+  return {
+    freq: 'WEEKLY',
+    interval: 1,
+    weekdays: [weekday],
+    monthlyMode: 'day',
+    monthDay: date.getDate(),
+    weekdayOrdinal: Math.min(Math.ceil(date.getDate() / 7), 4),
+    monthWeekday: weekday,
+    end: 'never',
+    count: 10,
+    until: '',
+  };
+}
+
+// Expand a preset into its RRULE, mirroring expandPreset in backend/lib/recurrence.ts
+function expandPreset(pattern: string): string {
+  const [name, arg] = pattern.trim().toLowerCase().split(':');
+  switch (name) {
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekdays':
+      return `FREQ=WEEKLY;BYDAY=${WORKING_DAYS.join(',')}`;
+    case 'weekly':
+      return arg ? `FREQ=WEEKLY;BYDAY=${arg.toUpperCase()}` : 'FREQ=WEEKLY';
+    case 'monthly':
+      if (!arg) return 'FREQ=MONTHLY';
+      return /^-?\d+$/.test(arg) ? `FREQ=MONTHLY;BYMONTHDAY=${arg}` : `FREQ=MONTHLY;BYDAY=${arg.toUpperCase()}`;
+    case 'yearly':
+      return 'FREQ=YEARLY';
+    default:
+      return pattern.trim().replace(/^RRULE:/i, '');
+  }
+}
+
+/**
+ * Parse a stored pattern into editor options, using `dueDate` for anything the pattern leaves open.
+ * Returns null when the pattern cannot be shown in the editor.
+ */
+export function parseRecurrencePattern(pattern: string, dueDate?: string | null): RecurrenceOptions | null {
+  const options = defaultRecurrenceOptions(dueDate);
+  const parts = new Map(
+    expandPreset(pattern).split(';').filter(Boolean).map(part => {
+      const [key, value = ''] = part.split('=');
+      return [key.toUpperCase(), value.toUpperCase()] as [string, string];
+    })
+  );
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !(freq in UNITS)) return null;
+  options.freq = freq;
+
+  if (parts.has('INTERVAL')) options.interval = Number(parts.get('INTERVAL')) || 1;
+
+  const byDay = parts.get('BYDAY')?.split(',');
+  if (byDay && freq === 'WEEKLY') {
+    options.weekdays = byDay.filter((day): day is Weekday => WEEKDAYS.some(w => w.value === day));
+  }
+  if (byDay && freq === 'MONTHLY') {
+    const match = /^(-?\d)(MO|TU|WE|TH|FR|SA|SU)$/.exec(byDay[0]);
+    if (!match) return null;
+    options.monthlyMode = 'weekday';
+    options.weekdayOrdinal = Number(match[1]);
+    options.monthWeekday = match[2] as Weekday;
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay) {
+    options.monthlyMode = 'day';
+    options.monthDay = Number(byMonthDay.split(',')[0]);
+  }
+
+  if (parts.has('COUNT')) {
+    options.end = 'count';
+    options.count = Number(parts.get('COUNT'));
+  }
+  const until = parts.get('UNTIL');
+  if (until) {
+    options.end = 'until';
+    options.until = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  }
+
+  return options;
+}
+
+/**
+ * Build the pattern to store for the given editor options.
+ * Simple rules are stored as presets, everything else as an RRULE.
+ */
+export function buildRecurrencePattern(options: RecurrenceOptions): string {
+  const endless = options.end === 'never';
+  const weekdays = WEEKDAYS.map(w => w.value).filter(day => options.weekdays.includes(day));
+
+  if (endless && options.interval === 1) {
+    if (options.freq === 'DAILY') return 'daily';
+    if (options.freq === 'YEARLY') return 'yearly';
+    if (options.freq === 'WEEKLY') {
+      if (weekdays.join(',') === WORKING_DAYS.join(',')) return 'weekdays';
+      return weekdays.length > 0 ? `weekly:${weekdays.join(',')}` : 'weekly';
+    }
+    if (options.freq === 'MONTHLY') {
+      return options.monthlyMode === 'day'
+        ? `monthly:${options.monthDay}`
+        : `monthly:${options.weekdayOrdinal}${options.monthWeekday}`;
+    }
+  }
+
+  const parts = [`FREQ=${options.freq}`];
+  if (options.interval > 1) parts.push(`INTERVAL=${options.interval}`);
+  if (options.freq === 'WEEKLY' && weekdays.length > 0) parts.push(`BYDAY=${weekdays.join(',')}`);
+  if (options.freq === 'MONTHLY') {
+    parts.push(options.monthlyMode === 'day'
+      ? `BYMONTHDAY=${options.monthDay}`
+      : `BYDAY=${options.weekdayOrdinal}${options.monthWeekday}`);
+  }
+  if (options.end === 'count') parts.push(`COUNT=${options.count}`);
+  if (options.end === 'until' && options.until) parts.push(`UNTIL=${options.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+/**
+ * Human-readable summary of a pattern, e.g. "Every 2 weeks on Mon, Wed".
+ * @param dueDate The task's due date, which fixes the day for plain weekly and monthly rules.
+ */
+export function describeRecurrence(pattern?: string | null, dueDate?: string | null): string {
+  if (!pattern) return 'Does not repeat';
+  const options = parseRecurrencePattern(pattern, dueDate);
+  if (!options) return `Repeats (${pattern})`;
+
+  const unit = UNITS[options.freq];
+  let text = options.interval > 1 ? `Every ${options.interval} ${unit}s` : `Every ${unit}`;
+
+  if (options.freq === 'WEEKLY' && options.weekdays.length > 0) {
+    const weekdays = WEEKDAYS.filter(w => options.weekdays.includes(w.value));
+    text = weekdays.map(w => w.value).join(',') === WORKING_DAYS.join(',') && options.interval === 1
+      ? 'Every weekday'
+      : `${text} on ${weekdays.map(w => w.short).join(', ')}`;
+  }
+  if (options.freq === 'MONTHLY') {
+    if (options.monthlyMode === 'day') {
+      text += options.monthDay === -1 ? ' on the last day' : ` on day ${options.monthDay}`;
+    } else {
+      const weekday = WEEKDAYS.find(w => w.value === options.monthWeekday)?.label;
+      text += ` on the ${ORDINALS[options.weekdayOrdinal] ?? options.weekdayOrdinal} ${weekday}`;
+    }
+  }
+
+  // COUNT counts the occurrences left in the series, including the current task
+  if (options.end === 'count') text += `, ${options.count} ${options.count === 1 ? 'occurrence' : 'occurrences'} left`;
+  if (options.end === 'until' && options.until) text += `, until ${new Date(`${options.until}T00:00:00`).toLocaleDateString()}`;
+  return text;
+}
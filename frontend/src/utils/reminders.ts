@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Helpers for task reminders. A reminder fires at a fixed time (remind_at)
+ * or a number of minutes before the task is due (offset_minutes).
+ */
+
+import { format } from 'date-fns';
+import { TaskReminder } from '@/types';
+
+// Reminders offered relative to the due date, in minutes before it
+export const REMINDER_OFFSETS = [
+  { value: 0, label: "When it's due" },
+  { value: 15, label: '15 minutes before' },
+  { value: 60, label: '1 hour before' },
+  { value: 24 * 60, label: '1 day before' },
+];
+
+/**
+ * Human-readable summary of a reminder, e.g. "1 hour before" or "Jan 5, 2025, 9:00 AM".
+ */
+export function describeReminder(reminder: Partial<Pick<TaskReminder, 'remind_at' | 'offset_minutes'>>): string {
+  if (reminder.remind_at) {
+    return format(new Date(reminder.remind_at), 'PPp');
+  }
+  const preset = REMINDER_OFFSETS.find(option => option.value === reminder.offset_minutes);
+  return preset ? preset.label : `${reminder.offset_minutes} minutes before`;
+}
@@ -0,0 +1,474 @@
+/**
+ * @fileoverview Readers for the export files of other task managers: Todoist CSV (one file per project),
+ * Trello board JSON and Microsoft To Do JSON (task lists as returned by Microsoft Graph). Each file is
+ * turned into projects of tasks with priorities and labels; the import wizard then creates them through
+ * the regular project, tag and task endpoints, skipping tasks that were imported before.
+ */
+
+import { NewTaskReminder, Task } from '@/types';
+
+export type ImportSource = 'todoist' | 'trello' | 'microsoft-todo';
+
+type TaskPriority = NonNullable<Task['priority']>;
+
+export const IMPORT_SOURCES: { value: ImportSource; label: string; accept: string; multiple: boolean; hint: string }[] = [
+  {
+    value: 'todoist',
+    label: 'Todoist',
+    accept: '.csv,text/csv',
+    multiple: true,
+    hint: 'In Todoist, open a project and choose "Export as a template", then "Download as CSV file". Each file becomes a project named after the file.',
+  },
+  {
+    value: 'trello',
+    label: 'Trello',
+    accept: '.json,application/json',
+    multiple: true,
+    hint: 'In Trello, open the board menu and choose "Print, export and share", then "Export as JSON". The board becomes a project; archived cards are left out.',
+  },
+  {
+    value: 'microsoft-todo',
+    label: 'Microsoft To Do',
+    accept: '.json,application/json',
+    multiple: true,
+    hint: 'A JSON export of your task lists (for example from Microsoft Graph), with each list\'s tasks. Each list becomes a project.',
+  },
+];
+
+// A task read from an export file, with the names of its labels
+export interface ImportedTask {
+  row: string; // Where the task is in the file, for messages (e.g. "Row 4")
+  title: string;
+  description: string | null;
+  dueDate: string | null; // ISO 8601 string
+  priority: TaskPriority;
+  completed: boolean;
+  recurrence_pattern: string | null;
+  tags: string[];
+  reminders: NewTaskReminder[];
+  warnings: string[]; // Parts of the row that could not be imported
+}
+
+export interface ImportedProject {
+  name: string;
+  tasks: ImportedTask[];
+}
+
+// A row that cannot be imported at all
+export interface ImportRowError {
+  project: string;
+  row: string;
+  message: string;
+}
+
+export interface ParsedImport {
+  projects: ImportedProject[];
+  errors: ImportRowError[];
+}
+
+const TITLE_MAX_LENGTH = 255;
+
+const PRIORITY_NAMES: TaskPriority[] = ['urgent', 'high', 'medium', 'low'];
+
+const WEEKDAY_CODES: Record<string, string> = {
+  monday: 'MO', tuesday: 'TU', wednesday: 'WE', thursday: 'TH', friday: 'FR', saturday: 'SA', sunday: 'SU',
+  mon: 'MO', tue: 'TU', wed: 'WE', thu: 'TH', fri: 'FR', sat: 'SA', sun: 'SU',
+};
+
+const newTask = (row: string, title: string): ImportedTask => ({
+  row,
+  title,
+  description: null,
+  dueDate: null,
+  priority: 'medium',
+  completed: false,
+  recurrence_pattern: null,
+  tags: [],
+  reminders: [],
+  warnings: [],
+});
+
+// Adds the task to the project, or an error for the row when it has no usable title
+const addTask = (result: ParsedImport, project: ImportedProject, task: ImportedTask) => {
+  if (!task.title) {
+    result.errors.push({ project: project.name, row: task.row, message: 'The task has no title.' });
+  } else if (task.title.length > TITLE_MAX_LENGTH) {
+    result.errors.push({ project: project.name, row: task.row, message: `The title is longer than ${TITLE_MAX_LENGTH} characters.` });
+  } else {
+    project.tasks.push(task);
+  }
+};
+
+// Label names that are one of our priorities set the priority instead of becoming tags
+const applyLabels = (task: ImportedTask, labels: string[]) => {
+  for (const label of labels.map(name => name.trim()).filter(Boolean)) {
+    const priority = PRIORITY_NAMES.find(name => name === label.toLowerCase());
+    if (priority) task.priority = priority;
+    else if (!task.tags.some(tag => tag.toLowerCase() === label.toLowerCase())) task.tags.push(label);
+  }
+};
+
+// Reminders that have already passed would fire straight away, so they are left out
+const addReminderAt = (task: ImportedTask, remindAt: Date) => {
+  if (isNaN(remindAt.getTime())) return;
+  if (remindAt < new Date()) task.warnings.push('The reminder has already passed and was left out.');
+  else task.reminders.push({ remind_at: remindAt.toISOString() });
+};
+
+const parseJson = (text: string, sourceLabel: string) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`The file is not valid JSON, so it cannot be a ${sourceLabel} export.`);
+  }
+};
+
+// --- Todoist ---
+
+// RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Todoist due strings such as "every monday", "every 2 weeks" or "every weekday" as a recurrence pattern
+const todoistRecurrence = (dueString: string): string | null => {
+  const text = dueString.toLowerCase().replace(/^every!?\s+/, '').replace(/\s+(at|from|starting)\s.*$/, '').trim();
+  if (text === 'day') return 'daily';
+  if (text === 'weekday' || text === 'workday') return 'weekdays';
+  if (text === 'week') return 'weekly';
+  if (text === 'month') return 'monthly';
+  if (text === 'year') return 'yearly';
+  if (text === 'other week') return 'FREQ=WEEKLY;INTERVAL=2';
+
+  const interval = /^(\d+) (day|week|month|year)s?$/.exec(text);
+  if (interval) {
+    const freq = { day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' }[interval[2]];
+    return `FREQ=${freq};INTERVAL=${interval[1]}`;
+  }
+
+  const days = text.split(/\s*(?:,|\band\b)\s*/).filter(Boolean);
+  if (days.length > 0 && days.every(day => WEEKDAY_CODES[day])) {
+    return `weekly:${days.map(day => WEEKDAY_CODES[day]).join(',')}`;
+  }
+  return null;
+};
+
+// Todoist exports the due date as it was typed. Only dates with a year can be read without knowing when the file was made.
+const todoistDueDate = (value: string): Date | null => {
+  if (!/\d{4}/.test(value)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// One project's CSV template: TYPE, CONTENT, DESCRIPTION, PRIORITY (1 = highest ... 4 = lowest), DATE, ...
+// Labels are written into CONTENT as @name.
+function parseTodoistCsv(fileName: string, text: string): ParsedImport {
+  const rows = parseCsv(text);
+  const header = (rows[0] || []).map(name => name.trim().toUpperCase());
+  if (!header.includes('TYPE') || !header.includes('CONTENT')) {
+    throw new Error('This is not a Todoist CSV export: the TYPE and CONTENT columns are missing.');
+  }
+
+  const column = (row: string[], name: string) => {
+    const index = header.indexOf(name);
+    return index >= 0 ? (row[index] || '').trim() : '';
+  };
+  const project: ImportedProject = { name: fileName.replace(/\.csv$/i, '').trim() || 'Todoist', tasks: [] };
+  const result: ParsedImport = { projects: [project], errors: [] };
+
+  rows.slice(1).forEach((row, index) => {
+    // Sections, comments and blank lines have no task of their own
+    if (column(row, 'TYPE').toLowerCase() !== 'task') return;
+
+    const labels: string[] = [];
+    const title = column(row, 'CONTENT')
+      .replace(/(^|\s)@([^\s@]+)/g, (_, space: string, label: string) => {
+        labels.push(label);
+        return space;
+      })
+      .replace(/\s+/g, ' ')
+      .trim();
+    const task = newTask(`Row ${index + 2}`, title);
+    task.description = column(row, 'DESCRIPTION') || null;
+    const priority = Number(column(row, 'PRIORITY'));
+    if (priority >= 1 && priority <= 4) task.priority = PRIORITY_NAMES[priority - 1];
+    applyLabels(task, labels);
+
+    const due = column(row, 'DATE');
+    if (/^every/i.test(due)) {
+      task.recurrence_pattern = todoistRecurrence(due);
+      if (!task.recurrence_pattern) task.warnings.push(`The repeat rule "${due}" is not supported; imported as a one-off task.`);
+    } else if (due) {
+      const dueDate = todoistDueDate(due);
+      if (dueDate) task.dueDate = dueDate.toISOString();
+      else task.warnings.push(`The due date "${due}" could not be read; imported without a due date.`);
+    }
+
+    addTask(result, project, task);
+  });
+
+  return result;
+}
+
+// --- Trello ---
+
+interface TrelloLabel { id: string; name?: string; color?: string | null }
+
+interface TrelloCard {
+  idShort?: number;
+  name?: string;
+  desc?: string;
+  closed?: boolean;
+  idList?: string;
+  idLabels?: string[];
+  labels?: TrelloLabel[];
+  due?: string | null;
+  dueComplete?: boolean;
+  dueReminder?: number | null; // Minutes before the due date; -1 means none
+}
+
+// Cards in a list with one of these names are imported as completed
+const DONE_LIST_NAMES = ['done', 'complete', 'completed', 'finished'];
+
+// A board export: the board becomes a project and its cards tasks. Card labels become tags (or the
+// priority), and the list a card is in becomes a tag too, unless it is a "Done" list.
+function parseTrelloJson(text: string): ParsedImport {
+  const board = parseJson(text, 'Trello');
+  if (!board || !Array.isArray(board.cards) || !Array.isArray(board.lists)) {
+    throw new Error('This is not a Trello board export: the cards and lists are missing.');
+  }
+
+  const lists = new Map<string, { name: string; closed: boolean }>(
+    board.lists.map((list: { id: string; name?: string; closed?: boolean }) => [list.id, { name: list.name || '', closed: !!list.closed }])
+  );
+  const labels = new Map<string, TrelloLabel>((board.labels || []).map((label: TrelloLabel) => [label.id, label]));
+  const project: ImportedProject = { name: String(board.name || '').trim() || 'Trello board', tasks: [] };
+  const result: ParsedImport = { projects: [project], errors: [] };
+
+  (board.cards as TrelloCard[]).forEach((card, index) => {
+    const list = card.idList ? lists.get(card.idList) : undefined;
+    // Archived cards and the cards of archived lists are left out
+    if (card.closed || list?.closed) return;
+
+    const task = newTask(`Card ${card.idShort ?? index + 1}`, String(card.name || '').trim());
+    task.description = card.desc || null;
+    const cardLabels = Array.isArray(card.labels)
+      ? card.labels
+      : (card.idLabels || []).map(id => labels.get(id)).filter((label): label is TrelloLabel => !!label);
+    applyLabels(task, cardLabels.map(label => label.name || label.color || ''));
+
+    const isDoneList = !!list && DONE_LIST_NAMES.includes(list.name.trim().toLowerCase());
+    if (list && !isDoneList) applyLabels(task, [list.name]);
+    task.completed = !!card.dueComplete || isDoneList;
+
+    if (card.due) {
+      const dueDate = new Date(card.due);
+      if (isNaN(dueDate.getTime())) task.warnings.push(`The due date "${card.due}" could not be read; imported without a due date.`);
+      else task.dueDate = dueDate.toISOString();
+    }
+    if (task.dueDate && !task.completed && typeof card.dueReminder === 'number' && card.dueReminder >= 0) {
+      task.reminders.push({ offset_minutes: card.dueReminder });
+    }
+
+    addTask(result, project, task);
+  });
+
+  return result;
+}
+
+// --- Microsoft To Do ---
+
+interface GraphDateTime { dateTime: string; timeZone?: string }
+
+interface GraphRecurrence {
+  pattern?: { type?: string; interval?: number; daysOfWeek?: string[]; dayOfMonth?: number; index?: string };
+}
+
+interface GraphTask {
+  title?: string;
+  body?: { content?: string; contentType?: string };
+  importance?: string;
+  status?: string;
+  categories?: string[];
+  dueDateTime?: GraphDateTime | null;
+  isReminderOn?: boolean;
+  reminderDateTime?: GraphDateTime | null;
+  recurrence?: GraphRecurrence | null;
+}
+
+interface GraphTaskList {
+  displayName?: string;
+  name?: string;
+  tasks?: GraphTask[];
+}
+
+// Graph date-times have no offset; they are in `timeZone`, which is UTC unless asked otherwise
+const graphDate = (value: GraphDateTime | null | undefined): Date | null => {
+  if (!value?.dateTime) return null;
+  const utc = !value.timeZone || /^(utc|etc\/utc|gmt)$/i.test(value.timeZone);
+  const date = new Date(utc && !/(z|[+-]\d{2}:?\d{2})$/i.test(value.dateTime) ? `${value.dateTime}Z` : value.dateTime);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const GRAPH_IMPORTANCE: Record<string, TaskPriority> = { high: 'high', normal: 'medium', low: 'low' };
+const GRAPH_WEEK_INDEX: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, last: -1 };
+
+// A Graph patternedRecurrence as an RRULE, or null when it has no equivalent
+const graphRecurrence = (recurrence: GraphRecurrence): string | null => {
+  const pattern = recurrence?.pattern;
+  if (!pattern?.type) return null;
+
+  const interval = pattern.interval && pattern.interval > 1 ? `;INTERVAL=${pattern.interval}` : '';
+  const days = (pattern.daysOfWeek || []).map(day => WEEKDAY_CODES[day.toLowerCase()]).filter(Boolean);
+  switch (pattern.type) {
+    case 'daily':
+      return `FREQ=DAILY${interval}`;
+    case 'weekly':
+      return `FREQ=WEEKLY${interval}${days.length > 0 ? `;BYDAY=${days.join(',')}` : ''}`;
+    case 'absoluteMonthly':
+      return `FREQ=MONTHLY${interval}${pattern.dayOfMonth ? `;BYMONTHDAY=${pattern.dayOfMonth}` : ''}`;
+    case 'relativeMonthly': {
+      const ordinal = GRAPH_WEEK_INDEX[pattern.index || 'first'];
+      return days.length === 1 && ordinal ? `FREQ=MONTHLY${interval};BYDAY=${ordinal}${days[0]}` : null;
+    }
+    case 'absoluteYearly':
+      return `FREQ=YEARLY${interval}`;
+    default:
+      return null;
+  }
+};
+
+// Task lists with their tasks, as Graph returns them: an array of lists, { value: [...] } or { lists: [...] },
+// where each list has a displayName and tasks (or a single list on its own)
+function parseMicrosoftToDoJson(text: string): ParsedImport {
+  const json = parseJson(text, 'Microsoft To Do');
+  const lists: GraphTaskList[] | null = Array.isArray(json) ? json
+    : Array.isArray(json?.value) ? json.value
+    : Array.isArray(json?.lists) ? json.lists
+    : Array.isArray(json?.tasks) ? [json]
+    : null;
+  if (!lists || lists.some(list => !Array.isArray(list?.tasks))) {
+    throw new Error('This is not a Microsoft To Do export: expected task lists, each with its tasks.');
+  }
+
+  const result: ParsedImport = { projects: [], errors: [] };
+  lists.forEach((list, listIndex) => {
+    const project: ImportedProject = { name: String(list.displayName || list.name || '').trim() || `Microsoft To Do list ${listIndex + 1}`, tasks: [] };
+    result.projects.push(project);
+
+    (list.tasks || []).forEach((item, index) => {
+      const task = newTask(`Task ${index + 1}`, String(item.title || '').trim());
+      const body = item.body?.content ? String(item.body.content) : '';
+      // HTML bodies are kept as their text
+      task.description = (item.body?.contentType === 'html' ? body.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ') : body).trim() || null;
+      task.priority = (item.importance && GRAPH_IMPORTANCE[item.importance]) || 'medium';
+      task.completed = item.status === 'completed';
+      applyLabels(task, item.categories || []);
+
+      const dueDate = graphDate(item.dueDateTime);
+      if (dueDate) task.dueDate = dueDate.toISOString();
+      if (item.recurrence) {
+        task.recurrence_pattern = graphRecurrence(item.recurrence);
+        if (!task.recurrence_pattern) task.warnings.push('The repeat rule is not supported; imported as a one-off task.');
+      }
+      const remindAt = item.isReminderOn ? graphDate(item.reminderDateTime) : null;
+      if (remindAt && !task.completed) addReminderAt(task, remindAt);
+
+      addTask(result, project, task);
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Read one export file. Throws when the file is not an export of the chosen app at all; rows that
+ * cannot be imported are listed in `errors` instead.
+ */
+export function parseImportFile(source: ImportSource, fileName: string, text: string): ParsedImport {
+  switch (source) {
+    case 'todoist':
+      return parseTodoistCsv(fileName, text);
+    case 'trello':
+      return parseTrelloJson(text);
+    case 'microsoft-todo':
+      return parseMicrosoftToDoJson(text);
+  }
+}
+
+// --- Duplicates ---
+
+// Tasks match when they have the same title (ignoring case) and the same due date (to the minute)
+export const taskImportKey = (task: { title: string; dueDate?: string | null }) =>
+  `${task.title.trim().toLowerCase()}|${task.dueDate ? Math.floor(new Date(task.dueDate).getTime() / 60000) : ''}`;
+
+// A project of the import: the existing project with the same name, or null when it will be created.
+// Tasks already in that project (or earlier in the files) are marked as duplicates and skipped.
+export interface PlannedImportProject {
+  name: string;
+  project: { id: number; name: string } | null;
+  tasks: { task: ImportedTask; duplicate: boolean }[];
+}
+
+export interface TaskImportPlan {
+  projects: PlannedImportProject[];
+  errors: ImportRowError[];
+}
+
+// What an import did; `errors` are the rows that could not be read or created
+export interface TaskImportReport {
+  projects: number; // Projects created
+  tasks: number; // Tasks created
+  duplicates: number; // Tasks skipped because they were imported before
+  errors: ImportRowError[];
+}
+
+// Files read one after the other, with projects of the same name merged
+export function mergeImports(imports: ParsedImport[]): ParsedImport {
+  const projects = new Map<string, ImportedProject>();
+  for (const { projects: parsed } of imports) {
+    for (const project of parsed) {
+      const key = project.name.toLowerCase();
+      const merged = projects.get(key);
+      if (merged) merged.tasks.push(...project.tasks);
+      else projects.set(key, { name: project.name, tasks: [...project.tasks] });
+    }
+  }
+  return { projects: Array.from(projects.values()), errors: imports.flatMap(parsed => parsed.errors) };
+}
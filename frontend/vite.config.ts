@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    fs: {
+      // Request schemas are shared with the backend (see backend/shared)
+      allow: [".", "../backend/shared"],
+    },
   },
   plugins: [
     react(),
@@ -17,6 +21,9 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "../backend/shared"),
     },
+    // Files under backend/shared import zod; always use the frontend's copy
+    dedupe: ["zod"],
   },
 }));